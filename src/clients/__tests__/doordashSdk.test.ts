@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { estimate, createDelivery, getDeliveryStatus, parseWebhook } from '../doordashSdk';
+import {
+  estimate,
+  createDelivery,
+  acceptQuote,
+  getDeliveryStatus,
+  parseWebhook,
+} from '../doordashSdk';
 import { doorDashSDK } from '../../services/doordash-sdk/client';
 
 // Mock the doorDashSDK
@@ -7,6 +13,7 @@ vi.mock('../../services/doordash-sdk/client', () => ({
   doorDashSDK: {
     getDeliveryQuote: vi.fn(),
     createDelivery: vi.fn(),
+    acceptDeliveryQuote: vi.fn(),
     getDeliveryStatus: vi.fn(),
   },
 }));
@@ -73,8 +80,8 @@ describe('DoorDash SDK Client', () => {
         fee: 9.95, // converted to dollars
         currency: 'USD',
       }));
-      expect(result.quote_id).toBeDefined();
-      expect(result.expires_at).toBeDefined();
+      expect(result.quote_id).toBe('test-delivery-123');
+      expect(Date.parse(result.expires_at) - Date.now()).toBeLessThanOrEqual(5 * 60 * 1000);
     });
   });
 
@@ -118,12 +125,15 @@ describe('DoorDash SDK Client', () => {
       // Execute
       const result = await createDelivery(deliveryRequest);
 
-      // Verify - don't check for specific external_delivery_id since we generate a UUID
-      expect(doorDashSDK.createDelivery).toHaveBeenCalledWith(expect.objectContaining({
-        pickup_address: expect.stringContaining('123 Pickup St, San Francisco, CA, 94105, US'),
-        dropoff_address: expect.stringContaining('456 Dropoff St, San Francisco, CA, 94105, US'),
-        pickup_business_name: 'Test Restaurant',
-      }));
+      // Verify
+      expect(doorDashSDK.createDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          external_delivery_id: 'test-delivery-123',
+          pickup_address: expect.stringContaining('123 Pickup St, San Francisco, CA, 94105, US'),
+          dropoff_address: expect.stringContaining('456 Dropoff St, San Francisco, CA, 94105, US'),
+          pickup_business_name: 'Test Restaurant',
+        })
+      );
 
       // Check result transformation
       expect(result).toEqual(expect.objectContaining({
@@ -136,6 +146,31 @@ describe('DoorDash SDK Client', () => {
     });
   });
 
+  describe('acceptQuote', () => {
+    it('should accept the quote by its external delivery ID', async () => {
+      (doorDashSDK.acceptDeliveryQuote as any).mockResolvedValue({
+        data: {
+          external_delivery_id: 'test-delivery-123',
+          delivery_status: 'created',
+          fee: 995,
+          currency: 'USD',
+          tracking_url: 'https://example.com/track/test-delivery-123',
+        },
+      });
+
+      const result = await acceptQuote('test-delivery-123');
+
+      expect(doorDashSDK.acceptDeliveryQuote).toHaveBeenCalledWith('test-delivery-123', {});
+      expect(result).toEqual({
+        external_delivery_id: 'test-delivery-123',
+        delivery_status: 'created',
+        fee: 9.95,
+        currency: 'USD',
+        tracking_url: 'https://example.com/track/test-delivery-123',
+      });
+    });
+  });
+
   describe('getDeliveryStatus', () => {
     it('should call the SDK correctly and transform the response', async () => {
       // Setup
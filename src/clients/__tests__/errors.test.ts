@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AddressUndeliverableError,
+  ProviderAuthError,
+  ProviderError,
+  ProviderRateLimitedError,
+  ProviderUnavailableError,
+  ProviderValidationError,
+  QuoteExpiredError,
+  toProviderError,
+} from '../errors';
+import { CircuitOpenError, ProviderTimeoutError } from '../http';
+
+const httpError = (status: number, data: unknown = {}, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data, headers },
+  });
+
+describe('Provider errors', () => {
+  it('should classify provider responses by status and error code', () => {
+    const undeliverable = toProviderError(
+      'uber',
+      httpError(400, { code: 'address_undeliverable', message: 'Outside delivery area' }),
+      'Failed to get Uber delivery quote'
+    );
+
+    expect(undeliverable).toBeInstanceOf(AddressUndeliverableError);
+    expect(undeliverable).toMatchObject({
+      status: 422,
+      code: 'address_undeliverable',
+      message: 'Failed to get Uber delivery quote: Outside delivery area',
+      provider: 'uber',
+      providerStatus: 400,
+      providerCode: 'address_undeliverable',
+    });
+    expect(toProviderError('doordash', httpError(400, { code: 'quote_expired' }))).toBeInstanceOf(
+      QuoteExpiredError
+    );
+    expect(toProviderError('uber', httpError(401, { code: 'invalid_client' }))).toBeInstanceOf(
+      ProviderAuthError
+    );
+    expect(
+      toProviderError('doordash', httpError(400, { code: 'validation_error', field_errors: [] }))
+    ).toMatchObject({ status: 422, fallback: false });
+  });
+
+  it('should treat outages, timeouts and open circuits as the provider being unavailable', () => {
+    const failures = [
+      httpError(503),
+      Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+      new ProviderTimeoutError('doordash', 1000),
+      new CircuitOpenError('doordash', new Date()),
+    ];
+
+    for (const failure of failures) {
+      expect(toProviderError('doordash', failure)).toBeInstanceOf(ProviderUnavailableError);
+    }
+  });
+
+  it('should pass on how long a rate-limited provider asked to wait', () => {
+    const error = toProviderError('uber', httpError(429, {}, { 'retry-after': '1.5' }));
+
+    expect(error).toBeInstanceOf(ProviderRateLimitedError);
+    expect(error).toMatchObject({ status: 429, retryAfterSeconds: 2 });
+  });
+
+  it('should keep typed errors and wrap anything else as a generic provider error', () => {
+    const typed = new ProviderValidationError('uber', 'Bad phone number');
+
+    expect(toProviderError('uber', typed)).toBe(typed);
+    expect(toProviderError('uber', new Error('Unexpected response'))).toEqual(
+      expect.objectContaining({ status: 502, code: 'provider_error', fallback: true })
+    );
+    expect(toProviderError('uber', new Error('x'))).toBeInstanceOf(ProviderError);
+  });
+});
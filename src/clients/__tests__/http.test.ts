@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  callProvider,
+  CircuitBreaker,
+  CircuitOpenError,
+  getCircuitBreaker,
+  getRetryAfterMs,
+  ProviderTimeoutError,
+  resetCircuitBreakers,
+} from '../http';
+import { ProviderHttpConfig } from '../config';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+
+const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+describe('Provider HTTP calls', () => {
+  const config: ProviderHttpConfig = {
+    baseUrl: 'https://api.test',
+    timeoutMs: 1000,
+    resilience: {
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 1000,
+      breakerFailureThreshold: 3,
+      breakerResetMs: 60000,
+    },
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetCircuitBreakers();
+  });
+
+  it('should retry transient failures of idempotent calls', async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(networkError('ECONNRESET'))
+      .mockResolvedValue('quote');
+
+    await expect(callProvider('uber', config, call, { idempotent: true })).resolves.toBe('quote');
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(getCircuitBreaker('uber').getState()).toBe('closed');
+  });
+
+  it('should only retry calls that may have been acted on after a 429 or refused connection', async () => {
+    const failed = vi.fn().mockRejectedValue(httpError(503));
+    await expect(callProvider('uber', config, failed)).rejects.toThrow('503');
+    expect(failed).toHaveBeenCalledTimes(1);
+
+    const throttled = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockRejectedValueOnce(networkError('ECONNREFUSED'))
+      .mockResolvedValue('delivery');
+    await expect(callProvider('uber', config, throttled)).resolves.toBe('delivery');
+    expect(throttled).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const call = vi.fn().mockRejectedValue(httpError(400));
+
+    await expect(callProvider('doordash', config, call, { idempotent: true })).rejects.toThrow(
+      '400'
+    );
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up when Retry-After asks for a longer wait than allowed', async () => {
+    const call = vi.fn().mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+
+    await expect(callProvider('doordash', config, call, { idempotent: true })).rejects.toThrow(
+      '429'
+    );
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read Retry-After as seconds or a date', () => {
+    const now = Date.parse('2030-01-01T00:00:00Z');
+
+    expect(getRetryAfterMs(httpError(503, { 'retry-after': '2' }), now)).toBe(2000);
+    expect(
+      getRetryAfterMs(httpError(503, { 'retry-after': 'Tue, 01 Jan 2030 00:00:05 GMT' }), now)
+    ).toBe(5000);
+    expect(getRetryAfterMs(httpError(503), now)).toBeUndefined();
+  });
+
+  it('should time out calls that hang', async () => {
+    const call = vi.fn(() => new Promise(() => {}));
+
+    await expect(
+      callProvider('doordash', { ...config, resilience: { maxRetries: 0 } }, call, {
+        timeoutMs: 10,
+      })
+    ).rejects.toBeInstanceOf(ProviderTimeoutError);
+  });
+
+  it('should open the circuit after repeated failures and fail fast', async () => {
+    const call = vi.fn().mockRejectedValue(httpError(502));
+
+    await expect(callProvider('doordash', config, call, { idempotent: true })).rejects.toThrow(
+      '502'
+    );
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(getCircuitBreaker('doordash').isOpen()).toBe(true);
+
+    await expect(callProvider('doordash', config, call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(getCircuitBreaker('uber').isOpen()).toBe(false);
+  });
+
+  it('should let one trial call through once the reset time has passed', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(
+      'uber',
+      { breakerFailureThreshold: 1, breakerResetMs: 1000 },
+      () => now
+    );
+
+    breaker.acquire();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    now = 1000;
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    breaker.recordFailure();
+    expect(breaker.getRetryAt().getTime()).toBe(2000);
+
+    now = 2000;
+    breaker.acquire();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { doorDashSDK } from '../services/doordash-sdk/client';
+import { toProviderError } from './errors';
 import { verifyWebhookSignature } from '../utils/doorDashAuth';
 
 /**
@@ -29,16 +30,29 @@ export interface DoorDashQuoteRequest {
   pickup_business_name: string;
   pickup_phone_number?: string;
   dropoff_business_name?: string;
+  dropoff_contact_given_name?: string;
   dropoff_phone_number?: string;
   dropoff_instructions?: string;
+  // A quote is accepted as it was requested, so it carries the order too
+  order_value?: number; // Order subtotal in cents
+  items?: Array<{
+    name: string;
+    quantity: number;
+    description?: string;
+    price?: number; // Unit price in cents
+  }>;
 }
 
+// DoorDash only accepts a quote for this long after giving it
+const QUOTE_VALIDITY_MS = 5 * 60 * 1000;
+
 export interface DoorDashQuoteResponse {
   quote_id: string;
   external_delivery_id: string;
   expires_at: string;
   fee: number;
   currency: string;
+  dropoff_time_estimated?: string;
 }
 
 // US address components as required by DoorDash API
@@ -105,12 +119,26 @@ export interface DoorDashDeliveryRequest extends DoorDashQuoteRequest {
   order_value?: number; // Order subtotal in cents
 }
 
+// Fields of a delivery DoorDash lets us change after it is created
+export type DoorDashDeliveryUpdate = Partial<
+  Pick<
+    DoorDashDeliveryRequest,
+    'dropoff_instructions' | 'dropoff_phone_number' | 'tip' | 'pickup_window' | 'dropoff_window'
+  >
+>;
+
 export interface DoorDashDeliveryResponse {
   external_delivery_id: string;
   delivery_status: string;
   tracking_url?: string;
   fee: number;
   currency: string;
+  pickup_time_estimated?: string;
+  dropoff_time_estimated?: string;
+  dasher_location?: {
+    lat: number;
+    lng: number;
+  };
 }
 
 export interface DoorDashWebhookPayload {
@@ -142,20 +170,20 @@ export async function estimate(quoteRequest: DoorDashQuoteRequest): Promise<Door
       pickup_business_name: quoteRequest.pickup_business_name,
       pickup_phone_number: quoteRequest.pickup_phone_number || '+15555555555',
       dropoff_business_name: quoteRequest.dropoff_business_name,
+      dropoff_contact_given_name: quoteRequest.dropoff_contact_given_name,
       dropoff_phone_number: quoteRequest.dropoff_phone_number || '+15555555555',
       dropoff_instructions: quoteRequest.dropoff_instructions,
+      order_value: quoteRequest.order_value,
+      items: quoteRequest.items,
     };
 
     // Call the SDK
     const response = await doorDashSDK.getDeliveryQuote(sdkQuoteInput);
     const data = response.data;
 
-    // Convert SDK response to our format
-    // Generate a quote ID based on the external delivery ID
-    const quote_id = `quote_${external_delivery_id}`;
-    
-    // Set expiration 30 minutes from now
-    const expires_at = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    // DoorDash identifies a quote by its external delivery ID, which accepting it keeps
+    const quote_id = data.external_delivery_id || external_delivery_id;
+    const expires_at = new Date(Date.now() + QUOTE_VALIDITY_MS).toISOString();
 
     // Convert fee from cents to dollars
     const fee = (data.fee || 0) / 100;
@@ -166,10 +194,11 @@ export async function estimate(quoteRequest: DoorDashQuoteRequest): Promise<Door
       expires_at,
       fee,
       currency: data.currency || 'USD',
+      dropoff_time_estimated: data.dropoff_time_estimated,
     };
   } catch (error) {
     console.error('Error estimating DoorDash delivery:', error);
-    throw error;
+    throw toProviderError('doordash', error);
   }
 }
 
@@ -200,7 +229,7 @@ export async function createDelivery(deliveryRequest: DoorDashDeliveryRequest):
     const hasDropoffOptions = Object.keys(dropoff_options).length > 0;
 
     const sdkDeliveryInput: any = {
-      external_delivery_id: uuidv4(),
+      external_delivery_id: deliveryRequest.external_delivery_id || uuidv4(),
       pickup_address: formattedPickupAddress,
       pickup_business_name: deliveryRequest.pickup_business_name,
       pickup_phone_number: deliveryRequest.pickup_phone_number || '+15555555555',
@@ -268,7 +297,34 @@ export async function createDelivery(deliveryRequest: DoorDashDeliveryRequest):
     };
   } catch (error) {
     console.error('Error creating DoorDash delivery:', error);
-    throw error;
+    throw toProviderError('doordash', error);
+  }
+}
+
+/**
+ * Accepts a quote from DoorDash Drive, creating its delivery at the quoted fee
+ * @param externalDeliveryId The external delivery ID the quote was requested with
+ * @param options The tip and dropoff phone number, the only details that can still change
+ * @returns The delivery
+ */
+export async function acceptQuote(
+  externalDeliveryId: string,
+  options: { tip?: number; dropoff_phone_number?: string } = {}
+): Promise<DoorDashDeliveryResponse> {
+  try {
+    const response = await doorDashSDK.acceptDeliveryQuote(externalDeliveryId, options);
+    const data = response.data;
+
+    return {
+      external_delivery_id: data.external_delivery_id || externalDeliveryId,
+      delivery_status: data.delivery_status ? String(data.delivery_status) : 'created',
+      tracking_url: data.tracking_url,
+      fee: (data.fee || 0) / 100,
+      currency: data.currency || 'USD',
+    };
+  } catch (error) {
+    console.error(`Error accepting DoorDash quote ${externalDeliveryId}:`, error);
+    throw toProviderError('doordash', error);
   }
 }
 
@@ -290,16 +346,60 @@ export async function getDeliveryStatus(externalDeliveryId: string): Promise<Doo
     // Convert fee from cents to dollars
     const fee = (data.fee || 0) / 100;
 
+    // Dasher location is only reported once a Dasher is assigned
+    const dasherLocation = (typeof data === 'object' && data !== null && 'dasher_location' in data)
+      ? (data.dasher_location as DoorDashDeliveryResponse['dasher_location'])
+      : undefined;
+
     return {
       external_delivery_id: data.external_delivery_id,
       delivery_status: deliveryStatus,
       tracking_url: data.tracking_url,
       fee,
       currency: data.currency || 'USD',
+      pickup_time_estimated: data.pickup_time_estimated,
+      dropoff_time_estimated: data.dropoff_time_estimated,
+      dasher_location: dasherLocation,
     };
   } catch (error) {
     console.error('Error getting DoorDash delivery status:', error);
-    throw error;
+    throw toProviderError('doordash', error);
+  }
+}
+
+/**
+ * Update a delivery on DoorDash
+ */
+export async function updateDelivery(
+  externalDeliveryId: string,
+  update: DoorDashDeliveryUpdate
+): Promise<DoorDashDeliveryResponse> {
+  try {
+    // Call the SDK
+    const response = await doorDashSDK.updateDelivery(externalDeliveryId, update);
+    const data = response.data;
+
+    // Extract delivery status safely from the response data
+    const deliveryStatus =
+      typeof data === 'object' && data !== null && 'status' in data
+        ? String(data.status)
+        : 'unknown';
+
+    // Convert fee from cents to dollars
+    const fee = (data.fee || 0) / 100;
+
+    return {
+      external_delivery_id: data.external_delivery_id,
+      delivery_status: deliveryStatus,
+      tracking_url: data.tracking_url,
+      fee,
+      currency: data.currency || 'USD',
+      pickup_time_estimated: data.pickup_time_estimated,
+      dropoff_time_estimated: data.dropoff_time_estimated,
+    };
+  } catch (error) {
+    console.error(`Error updating DoorDash delivery ${externalDeliveryId}:`, error);
+    throw toProviderError('doordash', error);
   }
 }
 
@@ -330,7 +430,7 @@ export async function cancelDelivery(externalDeliveryId: string): Promise<DoorDa
     };
   } catch (error) {
     console.error(`Error cancelling DoorDash delivery ${externalDeliveryId}:`, error);
-    throw error;
+    throw toProviderError('doordash', error);
   }
 }
 
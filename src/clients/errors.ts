@@ -0,0 +1,198 @@
+import { ApiError } from '../utils/errors';
+import { CircuitOpenError, getErrorStatus, getRetryAfterMs, isProviderFailure } from './http';
+
+/**
+ * What a provider reported, kept alongside the error a client throws
+ */
+export interface ProviderErrorOptions {
+  providerStatus?: number; // The provider's HTTP status
+  providerCode?: string; // The provider's own error code, e.g. address_undeliverable
+}
+
+/**
+ * A failed provider API call
+ *
+ * Carries the provider, its HTTP status and raw error code, and maps onto the
+ * response the service sends back. Used as is when the failure fits none of
+ * the kinds below.
+ */
+export class ProviderError extends ApiError {
+  provider: string;
+  providerStatus?: number;
+  providerCode?: string;
+  // Whether another courier could succeed where this one failed
+  fallback = true;
+
+  constructor(
+    status: number,
+    code: string,
+    provider: string,
+    message: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(status, code, message, {
+      provider,
+      provider_status: options.providerStatus,
+      provider_code: options.providerCode,
+    });
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.providerStatus = options.providerStatus;
+    this.providerCode = options.providerCode;
+  }
+}
+
+/**
+ * The provider rejected the request's contents, which no other courier would accept either
+ */
+export class ProviderValidationError extends ProviderError {
+  fallback = false;
+
+  constructor(provider: string, message: string, options?: ProviderErrorOptions) {
+    super(422, 'provider_validation_failed', provider, message, options);
+    this.name = 'ProviderValidationError';
+  }
+}
+
+/**
+ * The provider rejected the service's credentials
+ *
+ * A 502, since the caller can do nothing about it.
+ */
+export class ProviderAuthError extends ProviderError {
+  constructor(provider: string, message: string, options?: ProviderErrorOptions) {
+    super(502, 'provider_auth_failed', provider, message, options);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * The quote a delivery was bound to is no longer accepted
+ */
+export class QuoteExpiredError extends ProviderError {
+  constructor(provider: string, message: string, options?: ProviderErrorOptions) {
+    super(409, 'quote_expired', provider, message, options);
+    this.name = 'QuoteExpiredError';
+  }
+}
+
+/**
+ * The provider does not deliver between the addresses
+ */
+export class AddressUndeliverableError extends ProviderError {
+  constructor(provider: string, message: string, options?: ProviderErrorOptions) {
+    super(422, 'address_undeliverable', provider, message, options);
+    this.name = 'AddressUndeliverableError';
+  }
+}
+
+/**
+ * The provider is throttling the service
+ */
+export class ProviderRateLimitedError extends ProviderError {
+  retryAfterSeconds?: number; // Sent back as Retry-After
+
+  constructor(
+    provider: string,
+    message: string,
+    options: ProviderErrorOptions & { retryAfterMs?: number } = {}
+  ) {
+    super(429, 'provider_rate_limited', provider, message, options);
+    this.name = 'ProviderRateLimitedError';
+    if (options.retryAfterMs !== undefined) {
+      this.retryAfterSeconds = Math.ceil(options.retryAfterMs / 1000);
+    }
+  }
+}
+
+/**
+ * The provider's API is down, timing out or unreachable, or its circuit is open
+ */
+export class ProviderUnavailableError extends ProviderError {
+  constructor(provider: string, message: string, options?: ProviderErrorOptions) {
+    super(503, 'provider_unavailable', provider, message, options);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+// Error codes of each kind, from DoorDash Drive, Uber Direct and OAuth token endpoints
+const AUTH_CODES = [
+  'authentication_error',
+  'unauthorized',
+  'invalid_client',
+  'invalid_grant',
+  'invalid_scope',
+  'unauthorized_client',
+  'customer_suspended',
+  'customer_blocked',
+];
+const QUOTE_EXPIRED_CODES = ['quote_expired', 'expired_quote', 'invalid_quote'];
+const UNDELIVERABLE_CODES = [
+  'address_undeliverable',
+  'address_undeliverable_limited_couriers',
+  'unknown_location',
+  'distance_too_long',
+  'address_not_serviceable',
+];
+const UNAVAILABLE_CODES = ['couriers_busy', 'service_unavailable'];
+
+/**
+ * Classify a failed provider call
+ * @param provider The provider name
+ * @param error What the call threw: an axios or SDK error, or one from the HTTP layer
+ * @param context What was being done, prefixed to the message, e.g. "Failed to create Uber delivery"
+ * @returns The typed error; a ProviderError is returned unchanged
+ */
+export const toProviderError = (
+  provider: string,
+  error: unknown,
+  context?: string
+): ProviderError => {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const status = getErrorStatus(error);
+  const body = (error as { response?: { data?: { code?: unknown; message?: unknown } } })?.response
+    ?.data;
+  const code = body?.code ?? (error as { code?: unknown })?.code;
+  const providerCode = typeof code === 'string' ? code : undefined;
+  const detail =
+    typeof body?.message === 'string'
+      ? body.message
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  const message = context ? `${context}: ${detail}` : detail;
+  const options: ProviderErrorOptions = { providerStatus: status, providerCode };
+
+  if (
+    error instanceof CircuitOpenError ||
+    isProviderFailure(error) ||
+    (providerCode !== undefined && UNAVAILABLE_CODES.includes(providerCode))
+  ) {
+    return new ProviderUnavailableError(provider, message, options);
+  }
+  if (status === 429) {
+    return new ProviderRateLimitedError(provider, message, {
+      ...options,
+      retryAfterMs: getRetryAfterMs(error),
+    });
+  }
+  if (status === 401 || status === 403 || (providerCode && AUTH_CODES.includes(providerCode))) {
+    return new ProviderAuthError(provider, message, options);
+  }
+  if (providerCode && QUOTE_EXPIRED_CODES.includes(providerCode)) {
+    return new QuoteExpiredError(provider, message, options);
+  }
+  if (providerCode && UNDELIVERABLE_CODES.includes(providerCode)) {
+    return new AddressUndeliverableError(provider, message, options);
+  }
+  if (status === 404) {
+    return new ProviderError(404, 'provider_not_found', provider, message, options);
+  }
+  if (status !== undefined && status >= 400) {
+    return new ProviderValidationError(provider, message, options);
+  }
+  return new ProviderError(502, 'provider_error', provider, message, options);
+};
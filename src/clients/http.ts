@@ -0,0 +1,383 @@
+import { DEFAULT_RESILIENCE_CONFIG, ProviderHttpConfig, ProviderResilienceConfig } from './config';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Safe to send twice, so retried on 5xx and dropped connections like a GET
+    idempotent?: boolean;
+  }
+}
+
+/**
+ * A provider API calls go out to, each with its own circuit breaker
+ */
+export type ProviderApiName = 'doordash' | 'uber';
+
+/**
+ * Circuit breaker state
+ *
+ * Closed: calls go out. Open: calls fail at once until the reset time.
+ * Half-open: one trial call goes out, closing the circuit if it succeeds.
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Options of a single provider API call
+ */
+export interface ProviderCallOptions {
+  idempotent?: boolean; // Whether 5xx responses and dropped connections are retried
+  timeoutMs?: number; // Stop waiting after this long, for transports without their own timeout
+}
+
+/**
+ * Thrown instead of calling a provider whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  provider: ProviderApiName;
+  retryAt: Date;
+
+  constructor(provider: ProviderApiName, retryAt: Date) {
+    super(`${provider} API unavailable; calls paused until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.provider = provider;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Thrown when a provider call outlives its timeout
+ */
+export class ProviderTimeoutError extends Error {
+  code = 'ETIMEDOUT';
+
+  constructor(provider: ProviderApiName, timeoutMs: number) {
+    super(`${provider} API call timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+// Errors of a request that may or may not have reached the provider
+const NETWORK_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EPIPE', 'ERR_NETWORK'];
+
+// Errors of a request that never left, so it is safe to send again
+const CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Counts a provider's consecutive failures and stops calls to it when they pile up
+ */
+export class CircuitBreaker {
+  private provider: ProviderApiName;
+  private failureThreshold: number;
+  private resetMs: number;
+  private now: () => number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * Create a circuit breaker
+   * @param provider The provider API it guards
+   * @param config The breaker settings
+   * @param now Clock, for tests
+   */
+  constructor(
+    provider: ProviderApiName,
+    config: Pick<ProviderResilienceConfig, 'breakerFailureThreshold' | 'breakerResetMs'>,
+    now: () => number = Date.now
+  ) {
+    this.provider = provider;
+    this.failureThreshold = config.breakerFailureThreshold;
+    this.resetMs = config.breakerResetMs;
+    this.now = now;
+  }
+
+  /**
+   * Get the breaker's state
+   * @returns The state
+   */
+  getState(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.resetMs ? 'half_open' : 'open';
+  }
+
+  /**
+   * Check whether calls are being refused
+   * @returns Whether the circuit is open, or half-open with its trial call out
+   */
+  isOpen(): boolean {
+    const state = this.getState();
+    return state === 'open' || (state === 'half_open' && this.trialInFlight);
+  }
+
+  /**
+   * Get when the breaker next lets a call through
+   * @returns The time, or now when calls go out
+   */
+  getRetryAt(): Date {
+    if (this.openedAt === null || !this.isOpen()) {
+      return new Date(this.now());
+    }
+    return new Date(Math.max(this.openedAt + this.resetMs, this.now()));
+  }
+
+  /**
+   * Claim a call, to be reported with recordSuccess, recordFailure or release
+   * @throws CircuitOpenError if calls are being refused
+   */
+  acquire(): void {
+    if (this.isOpen()) {
+      throw new CircuitOpenError(this.provider, this.getRetryAt());
+    }
+    if (this.getState() === 'half_open') {
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Record a call that reached a working API, closing the circuit
+   */
+  recordSuccess(): void {
+    if (this.openedAt !== null) {
+      console.warn(`[Provider HTTP] ${this.provider} circuit closed`);
+    }
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call, opening the circuit at the threshold or after a failed trial
+   */
+  recordFailure(): void {
+    this.failures += 1;
+    if (this.getState() === 'half_open' || this.failures >= this.failureThreshold) {
+      if (this.getState() !== 'open') {
+        console.warn(
+          `[Provider HTTP] ${this.provider} circuit opened after ${this.failures} failures`
+        );
+      }
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Release a call that says nothing about the API's health, e.g. a 429
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+const breakers = new Map<ProviderApiName, CircuitBreaker>();
+
+/**
+ * Get a provider's circuit breaker, shared by every client of that provider
+ * @param provider The provider API
+ * @param config Settings used if the breaker does not exist yet
+ * @returns The breaker
+ */
+export const getCircuitBreaker = (
+  provider: ProviderApiName,
+  config: Partial<ProviderResilienceConfig> = {}
+): CircuitBreaker => {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, { ...DEFAULT_RESILIENCE_CONFIG, ...config });
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+};
+
+/**
+ * Find a provider's circuit breaker, without creating it
+ * @param provider The provider name
+ * @returns The breaker, or undefined if the provider has not been called
+ */
+export const findCircuitBreaker = (provider: string): CircuitBreaker | undefined =>
+  breakers.get(provider as ProviderApiName);
+
+/**
+ * Forget every circuit breaker and its state
+ */
+export const resetCircuitBreakers = (): void => {
+  breakers.clear();
+};
+
+/**
+ * Get the HTTP status of a failed call, from axios or an SDK error
+ * @param error The error
+ * @returns The status, or undefined if no response was received
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const failure = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const status = failure?.response?.status ?? failure?.status ?? failure?.statusCode;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Get the network error code of a call that received no response
+ * @param error The error
+ * @returns The code, e.g. ECONNRESET, or undefined
+ */
+const getNetworkCode = (error: unknown): string | undefined => {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' &&
+    getErrorStatus(error) === undefined &&
+    (NETWORK_ERROR_CODES.includes(code) || CONNECT_ERROR_CODES.includes(code))
+    ? code
+    : undefined;
+};
+
+/**
+ * Check whether a failed call means the provider's API is unhealthy
+ * @param error The error
+ * @returns Whether it was a 5xx, a timeout or a network error
+ */
+export const isProviderFailure = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return status !== undefined ? status >= 500 : getNetworkCode(error) !== undefined;
+};
+
+/**
+ * Check whether a failed call is worth sending again
+ *
+ * 429s and connections that were never made are always retried. 5xx responses
+ * and dropped connections are only retried for idempotent calls, since the
+ * provider may have acted on the first one.
+ * @param error The error
+ * @param idempotent Whether the call is safe to send twice
+ * @returns Whether to retry
+ */
+export const isRetryableError = (error: unknown, idempotent: boolean): boolean => {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 429 || (idempotent && status >= 500);
+  }
+  const code = getNetworkCode(error);
+  return code !== undefined && (idempotent || CONNECT_ERROR_CODES.includes(code));
+};
+
+/**
+ * Read how long a response asked callers to wait
+ * @param error The failed call's error
+ * @param now Current time in milliseconds
+ * @returns The wait from its Retry-After header, in seconds or as a date, or undefined
+ */
+export const getRetryAfterMs = (error: unknown, now: number = Date.now()): number | undefined => {
+  const failure = error as { response?: { headers?: unknown }; headers?: unknown };
+  const headers = (failure?.response?.headers ?? failure?.headers) as
+    Record<string, unknown> | undefined;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Get the delay before a retry
+ * @param config The resilience settings
+ * @param retry The retry number, from 1
+ * @param error The failed call's error, whose Retry-After takes precedence
+ * @returns The delay in milliseconds, or undefined if Retry-After asks for too long a wait
+ */
+export const getRetryDelay = (
+  config: ProviderResilienceConfig,
+  retry: number,
+  error: unknown
+): number | undefined => {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return retryAfter <= config.retryMaxDelayMs ? retryAfter : undefined;
+  }
+  const delay = Math.min(config.retryBaseDelayMs * 2 ** (retry - 1), config.retryMaxDelayMs);
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+};
+
+/**
+ * Reject a call that outlives a timeout
+ * @param provider The provider API
+ * @param call The call
+ * @param timeoutMs The timeout, or undefined for none
+ * @returns The call's result
+ */
+const withTimeout = <T>(
+  provider: ProviderApiName,
+  call: Promise<T>,
+  timeoutMs?: number
+): Promise<T> => {
+  if (!timeoutMs) {
+    return call;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProviderTimeoutError(provider, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([call, timeout]).finally(() => clearTimeout(timer));
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Call a provider API through its circuit breaker, retrying transient failures
+ * @param provider The provider API
+ * @param config The client settings, whose resilience settings apply
+ * @param call Sends the request; called again for each retry
+ * @param options Whether the call is idempotent and, optionally, its timeout
+ * @returns The call's result
+ * @throws CircuitOpenError if the provider's circuit is open, or the last attempt's error
+ */
+export const callProvider = async <T>(
+  provider: ProviderApiName,
+  config: ProviderHttpConfig,
+  call: () => Promise<T>,
+  options: ProviderCallOptions = {}
+): Promise<T> => {
+  const resilience = { ...DEFAULT_RESILIENCE_CONFIG, ...config.resilience };
+  const breaker = getCircuitBreaker(provider, resilience);
+
+  for (let attempt = 1; ; attempt++) {
+    breaker.acquire();
+    try {
+      const result = await withTimeout(provider, call(), options.timeoutMs);
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isProviderFailure(error)) {
+        breaker.recordFailure();
+      } else if (getErrorStatus(error) !== undefined && getErrorStatus(error) !== 429) {
+        // Any other 4xx came from a working API
+        breaker.recordSuccess();
+      } else {
+        breaker.release();
+      }
+
+      const delay =
+        attempt <= resilience.maxRetries && isRetryableError(error, options.idempotent ?? false)
+          ? getRetryDelay(resilience, attempt, error)
+          : undefined;
+      // A failure that opened the circuit ends the call with its own error
+      if (delay === undefined || breaker.isOpen()) {
+        throw error;
+      }
+      console.warn(
+        `[Provider HTTP] ${provider} attempt ${attempt} failed (${
+          getErrorStatus(error) ?? getNetworkCode(error)
+        }); retrying in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+  }
+};
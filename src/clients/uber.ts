@@ -1,5 +1,8 @@
-import axios from 'axios';
+import { AxiosInstance } from 'axios';
 import * as dotenv from 'dotenv';
+import { createHttpClient, getUberClientConfig, UberClientConfig } from './config';
+import { ProviderAuthError, toProviderError } from './errors';
+import { callProvider } from './http';
 
 dotenv.config();
 
@@ -41,26 +44,40 @@ export interface UberDeliveryRequest {
   pickup_phone_number: string;
   pickup_latitude?: number;
   pickup_longitude?: number;
+  pickup_notes?: string; // Instructions for the courier at pickup
   dropoff_address: string; // JSON stringified address
   dropoff_name: string;
   dropoff_phone_number: string;
   dropoff_latitude?: number;
   dropoff_longitude?: number;
+  dropoff_notes?: string; // Instructions for the courier at dropoff
   manifest_items: UberManifestItem[];
 }
 
+// Fields of a delivery Uber lets us change after it is created
+export interface UberDeliveryUpdate {
+  dropoff_notes?: string;
+  tip_by_customer?: number; // In cents
+  pickup_ready_dt?: string;
+  pickup_deadline_dt?: string;
+  dropoff_ready_dt?: string;
+  dropoff_deadline_dt?: string;
+}
+
 export interface UberDeliveryResponse {
   id: string;
   status: string;
   tracking_url: string;
   fee?: number;
+  pickup_eta?: string;
+  dropoff_eta?: string;
   courier?: {
     name?: string;
     phone_number?: string;
     location?: {
       lat: number;
       lng: number;
-    }
+    };
   };
 }
 
@@ -85,150 +102,260 @@ export interface UberManifestItem {
   };
 }
 
-// Access token storage
-let accessToken: string | null = null;
-let tokenExpiry: number = 0;
-
 /**
- * Gets an OAuth token from Uber
+ * Uber Direct API client
+ *
+ * Built from UberClientConfig, so it can target production, a sandbox or the
+ * local simulator; each instance keeps its own access token. Calls go through
+ * the Uber circuit breaker and are retried on transient failures.
  */
-export const getAuthToken = async (): Promise<string> => {
-  try {
-    // Check if we have a valid token
-    const now = Math.floor(Date.now() / 1000);
-    if (accessToken && tokenExpiry > now) {
-      return accessToken;
-    }
+export class UberClient {
+  private config: UberClientConfig;
+  private http: AxiosInstance;
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
 
-    // Get client credentials from environment variables
-    const clientId = process.env.UBER_CLIENT_ID;
-    const clientSecret = process.env.UBER_CLIENT_SECRET;
+  /**
+   * Create an Uber Direct client
+   * @param config The client settings; read from the environment by default
+   */
+  constructor(config: UberClientConfig = getUberClientConfig()) {
+    this.config = config;
+    this.http = createHttpClient(config);
+  }
 
-    if (!clientId || !clientSecret) {
-      throw new Error('Missing Uber API credentials. Please check your .env file.');
-    }
+  /**
+   * Gets an OAuth token from Uber
+   */
+  async getAuthToken(): Promise<string> {
+    try {
+      // Check if we have a valid token
+      const now = Math.floor(Date.now() / 1000);
+      if (this.accessToken && this.tokenExpiry > now) {
+        return this.accessToken;
+      }
+
+      // Get client credentials from environment variables
+      const clientId = process.env.UBER_CLIENT_ID;
+      const clientSecret = process.env.UBER_CLIENT_SECRET;
 
-    // Request a new token
-    const response = await axios.post(
-      'https://auth.uber.com/oauth/v2/token',
-      new URLSearchParams({
-        client_id: clientId,
-        client_secret: clientSecret,
-        grant_type: 'client_credentials',
-        scope: 'eats.deliveries'
-      }),
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        }
+      if (!clientId || !clientSecret) {
+        throw new ProviderAuthError(
+          'uber',
+          'Missing Uber API credentials. Please check your .env file.'
+        );
       }
-    );
 
-    // Store the token and calculate expiry
-    accessToken = response.data.access_token;
-    // Set expiry with a 5-minute buffer
-    tokenExpiry = Math.floor(Date.now() / 1000) + response.data.expires_in - 300;
+      // Request a new token; the token endpoint is on its own host
+      const response = await this.send(
+        () =>
+          this.http.post(
+            this.config.authUrl,
+            new URLSearchParams({
+              client_id: clientId,
+              client_secret: clientSecret,
+              grant_type: 'client_credentials',
+              scope: 'eats.deliveries',
+            }),
+            {
+              headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+              },
+            }
+          ),
+        true
+      );
+
+      // Store the token and calculate expiry
+      this.accessToken = response.data.access_token;
+      // Set expiry with a 5-minute buffer
+      this.tokenExpiry = Math.floor(Date.now() / 1000) + response.data.expires_in - 300;
+
+      if (!this.accessToken) {
+        throw new ProviderAuthError('uber', 'Failed to obtain access token from Uber');
+      }
 
-    if (!accessToken) {
-      throw new Error('Failed to obtain access token from Uber');
+      return this.accessToken;
+    } catch (error) {
+      console.error('Error obtaining Uber OAuth token:', error);
+      throw toProviderError('uber', error, 'Failed to authenticate with Uber');
     }
+  }
 
-    return accessToken;
-  } catch (error) {
-    console.error('Error obtaining Uber OAuth token:', error);
-    throw new Error(`Failed to authenticate with Uber: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Gets a delivery quote from Uber
+   */
+  async getQuote(quoteRequest: UberQuoteRequest): Promise<UberQuoteResponse> {
+    try {
+      const url = `${this.config.baseUrl}/customers/${this.getCustomerId()}/delivery_quotes`;
+      const headers = await this.getHeaders();
+      const response = await this.send(() => this.http.post(url, quoteRequest, { headers }), true);
+
+      return response.data;
+    } catch (error) {
+      console.error('Error getting Uber delivery quote:', error);
+      throw toProviderError('uber', error, 'Failed to get Uber delivery quote');
+    }
   }
-};
 
-/**
- * Gets a delivery quote from Uber
- */
-export const getQuote = async (quoteRequest: UberQuoteRequest): Promise<UberQuoteResponse> => {
-  try {
-    const token = await getAuthToken();
-    const customerId = process.env.UBER_CUSTOMER_ID;
+  /**
+   * Creates a delivery with Uber
+   */
+  async createDelivery(deliveryRequest: UberDeliveryRequest): Promise<UberDeliveryResponse> {
+    try {
+      const url = `${this.config.baseUrl}/customers/${this.getCustomerId()}/deliveries`;
+      const headers = await this.getHeaders();
+      const response = await this.send(
+        () => this.http.post(url, deliveryRequest, { headers }),
+        false
+      );
 
-    if (!customerId) {
-      throw new Error('Missing UBER_CUSTOMER_ID. Please check your .env file.');
+      return response.data;
+    } catch (error) {
+      console.error('Error creating Uber delivery:', error);
+      throw toProviderError('uber', error, 'Failed to create Uber delivery');
     }
+  }
 
-    const response = await axios.post(
-      `https://api.uber.com/v1/customers/${customerId}/delivery_quotes`,
-      quoteRequest,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+  /**
+   * Get delivery status from Uber
+   */
+  async getDeliveryStatus(deliveryId: string): Promise<UberDeliveryResponse> {
+    try {
+      const url = `${this.config.baseUrl}/customers/${this.getCustomerId()}/deliveries/${deliveryId}`;
+      const headers = await this.getHeaders();
+      const response = await this.send(() => this.http.get(url, { headers }), true);
 
-    return response.data;
-  } catch (error) {
-    console.error('Error getting Uber delivery quote:', error);
-    throw new Error(`Failed to get Uber delivery quote: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting Uber delivery status:', error);
+      throw toProviderError('uber', error, 'Failed to get Uber delivery status');
+    }
   }
-};
 
-/**
- * Creates a delivery with Uber
- */
-export const createDelivery = async (deliveryRequest: UberDeliveryRequest): Promise<UberDeliveryResponse> => {
-  try {
-    const token = await getAuthToken();
-    const customerId = process.env.UBER_CUSTOMER_ID;
+  /**
+   * Update a delivery with Uber
+   */
+  async updateDelivery(
+    deliveryId: string,
+    update: UberDeliveryUpdate
+  ): Promise<UberDeliveryResponse> {
+    try {
+      const url = `${this.config.baseUrl}/customers/${this.getCustomerId()}/deliveries/${deliveryId}`;
+      const headers = await this.getHeaders();
+      // The update sets fields rather than adding to them, so a retry is safe
+      const response = await this.send(() => this.http.post(url, update, { headers }), true);
 
-    if (!customerId) {
-      throw new Error('Missing UBER_CUSTOMER_ID. Please check your .env file.');
+      return response.data;
+    } catch (error) {
+      console.error('Error updating Uber delivery:', error);
+      throw toProviderError('uber', error, 'Failed to update Uber delivery');
     }
+  }
 
-    const response = await axios.post(
-      `https://api.uber.com/v1/customers/${customerId}/deliveries`,
-      deliveryRequest,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+  /**
+   * Cancel a delivery with Uber; only possible before the courier picks it up
+   */
+  async cancelDelivery(deliveryId: string): Promise<UberDeliveryResponse> {
+    try {
+      const url = `${this.config.baseUrl}/customers/${this.getCustomerId()}/deliveries/${deliveryId}/cancel`;
+      const headers = await this.getHeaders();
+      // Cancelling twice leaves the delivery cancelled, so a retry is safe
+      const response = await this.send(() => this.http.post(url, {}, { headers }), true);
 
-    return response.data;
-  } catch (error) {
-    console.error('Error creating Uber delivery:', error);
-    throw new Error(`Failed to create Uber delivery: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error cancelling Uber delivery:', error);
+      throw toProviderError('uber', error, 'Failed to cancel Uber delivery');
+    }
   }
-};
 
-/**
- * Get delivery status from Uber
- */
-export const getDeliveryStatus = async (deliveryId: string): Promise<UberDeliveryResponse> => {
-  try {
-    const token = await getAuthToken();
-    const customerId = process.env.UBER_CUSTOMER_ID;
+  /**
+   * Send a request through the Uber circuit breaker, retrying transient failures
+   * @param request Sends the request
+   * @param idempotent Whether the request is safe to send twice
+   * @returns The response
+   */
+  private send<T>(request: () => Promise<T>, idempotent: boolean): Promise<T> {
+    return callProvider('uber', this.config, request, { idempotent });
+  }
 
+  /**
+   * Get the customer ID the API paths are scoped to
+   * @returns UBER_CUSTOMER_ID
+   */
+  private getCustomerId(): string {
+    const customerId = process.env.UBER_CUSTOMER_ID;
     if (!customerId) {
       throw new Error('Missing UBER_CUSTOMER_ID. Please check your .env file.');
     }
+    return customerId;
+  }
 
-    const response = await axios.get(
-      `https://api.uber.com/v1/customers/${customerId}/deliveries/${deliveryId}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+  /**
+   * Get the headers of an API request
+   * @returns The headers, with a current access token
+   */
+  private async getHeaders(): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${await this.getAuthToken()}`,
+      'Content-Type': 'application/json',
+    };
+  }
+}
 
-    return response.data;
-  } catch (error) {
-    console.error('Error getting Uber delivery status:', error);
-    throw new Error(`Failed to get Uber delivery status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+// Client used by the functions below, built from the environment on first use
+let defaultClient: UberClient | undefined;
+
+/**
+ * Get the Uber Direct client configured from the environment
+ * @returns The shared client
+ */
+export const getUberClient = (): UberClient => {
+  if (!defaultClient) {
+    defaultClient = new UberClient();
   }
+  return defaultClient;
 };
 
+/**
+ * Gets an OAuth token from Uber
+ */
+export const getAuthToken = (): Promise<string> => getUberClient().getAuthToken();
+
+/**
+ * Gets a delivery quote from Uber
+ */
+export const getQuote = (quoteRequest: UberQuoteRequest): Promise<UberQuoteResponse> =>
+  getUberClient().getQuote(quoteRequest);
+
+/**
+ * Creates a delivery with Uber
+ */
+export const createDelivery = (
+  deliveryRequest: UberDeliveryRequest
+): Promise<UberDeliveryResponse> => getUberClient().createDelivery(deliveryRequest);
+
+/**
+ * Get delivery status from Uber
+ */
+export const getDeliveryStatus = (deliveryId: string): Promise<UberDeliveryResponse> =>
+  getUberClient().getDeliveryStatus(deliveryId);
+
+/**
+ * Update a delivery with Uber
+ */
+export const updateDelivery = (
+  deliveryId: string,
+  update: UberDeliveryUpdate
+): Promise<UberDeliveryResponse> => getUberClient().updateDelivery(deliveryId, update);
+
+/**
+ * Cancel a delivery with Uber
+ */
+export const cancelDelivery = (deliveryId: string): Promise<UberDeliveryResponse> =>
+  getUberClient().cancelDelivery(deliveryId);
+
 /**
  * Parses and validates an Uber webhook
  */
@@ -236,11 +363,11 @@ export const parseWebhook = async (payload: UberWebhookPayload): Promise<UberDel
   try {
     // Process the webhook payload based on event type
     const { event_type, meta } = payload;
-    
+
     // Get detailed delivery information
     return await getDeliveryStatus(meta.resource_id);
   } catch (error) {
     console.error('Error processing Uber webhook:', error);
-    throw new Error(`Failed to process Uber webhook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw toProviderError('uber', error, 'Failed to process Uber webhook');
   }
 };
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createMemoryRepositories, getDbDriver } from '..';
+
+describe('Database repositories', () => {
+  describe('getDbDriver', () => {
+    const env = { ...process.env };
+
+    beforeEach(() => {
+      delete process.env.DB_DRIVER;
+      delete process.env.SUPABASE_URL;
+      delete process.env.SUPABASE_KEY;
+    });
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should fall back to memory without Supabase credentials', () => {
+      expect(getDbDriver()).toBe('memory');
+    });
+
+    it('should use Supabase when its credentials are set', () => {
+      process.env.SUPABASE_URL = 'https://example.supabase.co';
+      process.env.SUPABASE_KEY = 'key';
+      expect(getDbDriver()).toBe('supabase');
+    });
+
+    it('should honor DB_DRIVER and reject unknown drivers', () => {
+      process.env.SUPABASE_URL = 'https://example.supabase.co';
+      process.env.SUPABASE_KEY = 'key';
+      process.env.DB_DRIVER = 'memory';
+      expect(getDbDriver()).toBe('memory');
+
+      process.env.DB_DRIVER = 'mysql';
+      expect(() => getDbDriver()).toThrow('Unsupported DB_DRIVER');
+    });
+  });
+
+  describe('memory driver', () => {
+    it('should only let one caller claim a quote', async () => {
+      const { quotes } = createMemoryRepositories();
+      const [quote] = await quotes.createMany([
+        {
+          provider: 'uber',
+          provider_quote_id: 'uber-quote',
+          fee: 850,
+          fee_currency: 'USD',
+          expires_at: '2030-01-01T00:00:00Z',
+          external_delivery_id: 'set-1',
+          selected: false,
+        },
+      ]);
+
+      expect(await quotes.claim(quote.id)).toBe(true);
+      expect(await quotes.claim(quote.id)).toBe(false);
+
+      await quotes.release(quote.id);
+      expect(await quotes.claim(quote.id)).toBe(true);
+    });
+
+    it('should not expose stored rows to mutation', async () => {
+      const { restaurants } = createMemoryRepositories();
+      const restaurant = await restaurants.create({
+        name: 'Test Restaurant',
+        address: { street: '123 Main St' },
+        contact_phone: '+15555550100',
+      });
+
+      restaurant.name = 'Changed';
+
+      expect((await restaurants.getById(restaurant.id))?.name).toBe('Test Restaurant');
+      expect(await restaurants.getById('missing')).toBeNull();
+    });
+
+    it('should filter deliveries by restaurant and creation time', async () => {
+      const { deliveries } = createMemoryRepositories();
+      const base = {
+        pickup_address: {},
+        dropoff_address: {},
+        status: 'pending',
+        provider: 'uber',
+        provider_delivery_id: 'uber-delivery',
+        tracking_url: '',
+        fee: 850,
+        fee_currency: 'USD',
+        external_delivery_id: 'set-1',
+      };
+      await deliveries.create({
+        ...base,
+        restaurant_id: 'r-1',
+        created_at: '2024-01-05T00:00:00Z',
+      });
+      await deliveries.create({
+        ...base,
+        restaurant_id: 'r-1',
+        created_at: '2024-02-05T00:00:00Z',
+      });
+      await deliveries.create({
+        ...base,
+        restaurant_id: 'r-2',
+        created_at: '2024-01-06T00:00:00Z',
+      });
+
+      const rows = await deliveries.list({
+        restaurant_id: 'r-1',
+        created_from: new Date('2024-01-01T00:00:00Z'),
+        created_to: new Date('2024-02-01T00:00:00Z'),
+      });
+
+      expect(rows.map(row => row.created_at)).toEqual(['2024-01-05T00:00:00Z']);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { hasSupabaseCredentials } from './supabase';
+import { createMemoryRepositories } from './repositories/memory';
+import { createSupabaseRepositories } from './repositories/supabase';
+import { Repositories } from './repositories/types';
+
+export * from './repositories/types';
+export { createMemoryRepositories } from './repositories/memory';
+export { createSupabaseRepositories } from './repositories/supabase';
+
+/**
+ * Persistence backends the service can run on
+ */
+export type DbDriver = 'supabase' | 'memory';
+
+let repositories: Repositories | undefined;
+
+/**
+ * Get the configured database driver
+ *
+ * DB_DRIVER selects the driver explicitly. Without it, Supabase is used when
+ * its credentials are set and process memory otherwise.
+ * @returns The driver
+ */
+export const getDbDriver = (): DbDriver => {
+  const driver = process.env.DB_DRIVER?.toLowerCase();
+  if (driver === 'supabase' || driver === 'memory') {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(`Unsupported DB_DRIVER: ${process.env.DB_DRIVER}. Use "supabase" or "memory".`);
+  }
+  return hasSupabaseCredentials() ? 'supabase' : 'memory';
+};
+
+/**
+ * Get the repositories for the configured driver, creating them on first use
+ * @returns The repositories
+ */
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    const driver = getDbDriver();
+    if (driver === 'memory') {
+      console.warn('[DB] Using the in-memory database; data is lost on restart');
+    }
+    repositories =
+      driver === 'supabase' ? createSupabaseRepositories() : createMemoryRepositories();
+  }
+  return repositories;
+};
+
+/**
+ * Replace the repositories in use, e.g. with a fresh in-memory set in tests
+ * @param replacement The repositories to use, or undefined to re-read the config
+ */
+export const setRepositories = (replacement: Repositories | undefined): void => {
+  repositories = replacement;
+};
@@ -0,0 +1,445 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ApiKeyRepository,
+  ApiKeyRow,
+  DeliveryRepository,
+  DeliveryRow,
+  DeliveryStatusHistoryRepository,
+  DeliveryStatusHistoryRow,
+  IdempotencyKeyRepository,
+  IdempotencyKeyRow,
+  OutboundWebhookEventRepository,
+  OutboundWebhookEventRow,
+  ProviderQuoteRow,
+  QuoteRepository,
+  Repositories,
+  RestaurantRepository,
+  RestaurantRow,
+  WebhookEndpointRepository,
+  WebhookEndpointRow,
+} from './types';
+
+// Rows are copied in and out so callers cannot mutate stored state, as with a real database
+const copy = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Create the deliveries repository backed by process memory
+ * @param rows The table storage
+ * @returns The repository
+ */
+const createDeliveryRepository = (rows: Map<string, DeliveryRow>): DeliveryRepository => ({
+  async create(delivery) {
+    const now = new Date().toISOString();
+    const row: DeliveryRow = {
+      id: uuidv4(),
+      created_at: now,
+      updated_at: now,
+      estimated_pickup_time: null,
+      estimated_dropoff_time: null,
+      actual_pickup_time: null,
+      actual_dropoff_time: null,
+      metadata: null,
+      ...copy(delivery),
+    };
+    rows.set(row.id, row);
+    return copy(row);
+  },
+
+  async getById(id) {
+    const row = rows.get(id);
+    return row ? copy(row) : null;
+  },
+
+  async findByProviderDeliveryId(provider, ids) {
+    const row = Array.from(rows.values()).find(
+      delivery => delivery.provider === provider && ids.includes(delivery.provider_delivery_id)
+    );
+    return row ? copy(row) : null;
+  },
+
+  async update(id, changes) {
+    const row = rows.get(id);
+    if (!row) {
+      throw new Error(`Failed to update delivery ${id}: no row returned`);
+    }
+    Object.assign(row, copy(changes));
+    return copy(row);
+  },
+
+  async updateIf(id, expected, changes) {
+    const row = rows.get(id);
+    if (!row || row.status !== expected.status || row.updated_at !== expected.updated_at) {
+      return null;
+    }
+    Object.assign(row, copy(changes));
+    return copy(row);
+  },
+
+  async list(filter = {}) {
+    return Array.from(rows.values())
+      .filter(
+        row =>
+          (!filter.restaurant_id || row.restaurant_id === filter.restaurant_id) &&
+          (!filter.created_from || Date.parse(row.created_at) >= filter.created_from.getTime()) &&
+          (!filter.created_to || Date.parse(row.created_at) < filter.created_to.getTime())
+      )
+      .map(copy);
+  },
+});
+
+/**
+ * Create the delivery status history repository backed by process memory
+ * @param rows The table storage
+ * @returns The repository
+ */
+const createStatusHistoryRepository = (
+  rows: DeliveryStatusHistoryRow[]
+): DeliveryStatusHistoryRepository => ({
+  async create(entry) {
+    const row: DeliveryStatusHistoryRow = {
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+      from_status: null,
+      provider_status: null,
+      ...copy(entry),
+    };
+    rows.push(row);
+    return copy(row);
+  },
+
+  async listByDelivery(deliveryId) {
+    return rows
+      .filter(row => row.delivery_id === deliveryId)
+      .sort((a, b) => Date.parse(a.occurred_at) - Date.parse(b.occurred_at))
+      .map(copy);
+  },
+});
+
+/**
+ * Create the provider quotes repository backed by process memory
+ * @param rows The table storage
+ * @returns The repository
+ */
+const createQuoteRepository = (rows: Map<string, ProviderQuoteRow>): QuoteRepository => ({
+  async createMany(quotes) {
+    const now = new Date().toISOString();
+    return quotes.map(quote => {
+      const row: ProviderQuoteRow = {
+        id: uuidv4(),
+        created_at: now,
+        metadata: null,
+        ...copy(quote),
+      };
+      rows.set(row.id, row);
+      return copy(row);
+    });
+  },
+
+  async listBySet(quoteSetId) {
+    return Array.from(rows.values())
+      .filter(row => row.external_delivery_id === quoteSetId)
+      .map(copy);
+  },
+
+  async listBySets(quoteSetIds) {
+    return Array.from(rows.values())
+      .filter(row => quoteSetIds.includes(row.external_delivery_id))
+      .map(copy);
+  },
+
+  async claim(id) {
+    const row = rows.get(id);
+    if (!row || row.selected) {
+      return false;
+    }
+    row.selected = true;
+    return true;
+  },
+
+  async release(id) {
+    const row = rows.get(id);
+    if (row) {
+      row.selected = false;
+    }
+  },
+});
+
+/**
+ * Create the restaurants repository backed by process memory
+ * @param rows The table storage
+ * @returns The repository
+ */
+const createRestaurantRepository = (rows: Map<string, RestaurantRow>): RestaurantRepository => ({
+  async create(restaurant) {
+    const row: RestaurantRow = {
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+      contact_email: null,
+      metadata: null,
+      ...copy(restaurant),
+    };
+    rows.set(row.id, row);
+    return copy(row);
+  },
+
+  async getById(id) {
+    const row = rows.get(id);
+    return row ? copy(row) : null;
+  },
+
+  async update(id, changes) {
+    const row = rows.get(id);
+    if (!row) {
+      throw new Error(`Failed to update restaurant ${id}: no row returned`);
+    }
+    Object.assign(row, copy(changes));
+    return copy(row);
+  },
+
+  async list() {
+    return Array.from(rows.values()).map(copy);
+  },
+});
+
+/**
+ * Create the restaurant webhook endpoints repository backed by process memory
+ * @param rows The table storage, keyed by restaurant ID
+ * @returns The repository
+ */
+const createWebhookEndpointRepository = (
+  rows: Map<string, WebhookEndpointRow>
+): WebhookEndpointRepository => ({
+  async getByRestaurant(restaurantId) {
+    const row = rows.get(restaurantId);
+    return row ? copy(row) : null;
+  },
+
+  async upsert(endpoint) {
+    const existing = rows.get(endpoint.restaurant_id);
+    const now = new Date().toISOString();
+    const row: WebhookEndpointRow = {
+      id: existing?.id || uuidv4(),
+      created_at: existing?.created_at || now,
+      updated_at: now,
+      active: true,
+      ...copy(endpoint),
+    };
+    rows.set(row.restaurant_id, row);
+    return copy(row);
+  },
+
+  async delete(restaurantId) {
+    rows.delete(restaurantId);
+  },
+});
+
+/**
+ * Create the outbound webhook events repository backed by process memory
+ * @param rows The table storage
+ * @returns The repository
+ */
+const createOutboundWebhookEventRepository = (
+  rows: Map<string, OutboundWebhookEventRow>
+): OutboundWebhookEventRepository => ({
+  async create(event) {
+    const now = new Date().toISOString();
+    const row: OutboundWebhookEventRow = {
+      id: uuidv4(),
+      created_at: now,
+      updated_at: now,
+      delivery_id: null,
+      attempts: 0,
+      next_attempt_at: null,
+      last_attempt_at: null,
+      last_response_status: null,
+      last_error: null,
+      lease_owner: null,
+      lease_expires_at: null,
+      ...copy(event),
+    };
+    rows.set(row.id, row);
+    return copy(row);
+  },
+
+  async getById(id) {
+    const row = rows.get(id);
+    return row ? copy(row) : null;
+  },
+
+  async update(id, changes) {
+    const row = rows.get(id);
+    if (!row) {
+      throw new Error(`Failed to update outbound webhook event ${id}: no row returned`);
+    }
+    Object.assign(row, copy(changes));
+    return copy(row);
+  },
+
+  async list(filter = {}) {
+    const matches = Array.from(rows.values())
+      .filter(
+        row =>
+          (!filter.restaurant_id || row.restaurant_id === filter.restaurant_id) &&
+          (!filter.status || row.status === filter.status) &&
+          (!filter.due_before ||
+            (row.status === 'pending' &&
+              !!row.next_attempt_at &&
+              Date.parse(row.next_attempt_at) <= filter.due_before.getTime()))
+      )
+      .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+    return matches.slice(0, filter.limit ?? matches.length).map(copy);
+  },
+
+  async claim({ owner, leaseMs, limit, id }) {
+    const now = Date.now();
+    const dueAt = (row: OutboundWebhookEventRow) =>
+      Date.parse(row.next_attempt_at || row.created_at);
+    const claimed = Array.from(rows.values())
+      .filter(
+        row =>
+          row.status === 'pending' &&
+          (id ? row.id === id : dueAt(row) <= now) &&
+          (!row.lease_expires_at || Date.parse(row.lease_expires_at) <= now)
+      )
+      .sort((a, b) => dueAt(a) - dueAt(b))
+      .slice(0, limit);
+    for (const row of claimed) {
+      row.lease_owner = owner;
+      row.lease_expires_at = new Date(now + leaseMs).toISOString();
+    }
+    return claimed.map(copy);
+  },
+
+  async ack(id, owner, changes) {
+    const row = rows.get(id);
+    if (!row || row.lease_owner !== owner) {
+      return null;
+    }
+    Object.assign(row, copy(changes), { lease_owner: null, lease_expires_at: null });
+    return copy(row);
+  },
+});
+
+/**
+ * Create the API keys repository backed by process memory
+ * @param rows The table storage
+ * @returns The repository
+ */
+const createApiKeyRepository = (rows: Map<string, ApiKeyRow>): ApiKeyRepository => ({
+  async create(key) {
+    const row: ApiKeyRow = {
+      id: uuidv4(),
+      created_at: new Date().toISOString(),
+      expires_at: null,
+      revoked_at: null,
+      ...copy(key),
+    };
+    rows.set(row.id, row);
+    return copy(row);
+  },
+
+  async getById(id) {
+    const row = rows.get(id);
+    return row ? copy(row) : null;
+  },
+
+  async getByPrefix(prefix) {
+    const row = Array.from(rows.values()).find(key => key.prefix === prefix);
+    return row ? copy(row) : null;
+  },
+
+  async update(id, changes) {
+    const row = rows.get(id);
+    if (!row) {
+      throw new Error(`Failed to update API key ${id}: no row returned`);
+    }
+    Object.assign(row, copy(changes));
+    return copy(row);
+  },
+
+  async listByRestaurant(restaurantId) {
+    return Array.from(rows.values())
+      .filter(row => row.restaurant_id === restaurantId)
+      .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+      .map(copy);
+  },
+});
+
+/**
+ * Create the idempotency keys repository backed by process memory
+ * @param rows The table storage, keyed by restaurant and key
+ * @returns The repository
+ */
+const createIdempotencyKeyRepository = (
+  rows: Map<string, IdempotencyKeyRow>
+): IdempotencyKeyRepository => {
+  const id = (restaurantId: string, key: string) => JSON.stringify([restaurantId, key]);
+
+  return {
+    async create(entry) {
+      const existing = rows.get(id(entry.restaurant_id, entry.key));
+      const now = Date.parse(entry.created_at);
+      const abandoned =
+        existing?.status === 'processing' && Date.parse(existing.locked_until) <= now;
+      if (existing && Date.parse(existing.expires_at) > now && !abandoned) {
+        return false;
+      }
+      rows.set(id(entry.restaurant_id, entry.key), {
+        status: 'processing',
+        response_status: null,
+        response_body: null,
+        ...copy(entry),
+      });
+      return true;
+    },
+
+    async get(restaurantId, key) {
+      const row = rows.get(id(restaurantId, key));
+      return row ? copy(row) : null;
+    },
+
+    async update(restaurantId, key, claimToken, changes) {
+      const row = rows.get(id(restaurantId, key));
+      if (row?.claim_token !== claimToken) {
+        return false;
+      }
+      Object.assign(row, copy(changes));
+      return true;
+    },
+
+    async delete(restaurantId, key, claimToken) {
+      if (rows.get(id(restaurantId, key))?.claim_token !== claimToken) {
+        return false;
+      }
+      return rows.delete(id(restaurantId, key));
+    },
+
+    async deleteExpired(before) {
+      let deleted = 0;
+      for (const [rowId, row] of rows) {
+        if (Date.parse(row.expires_at) <= before.getTime()) {
+          rows.delete(rowId);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+};
+
+/**
+ * Create repositories that keep everything in process memory
+ *
+ * Nothing survives a restart; this driver is for local development and tests.
+ * @returns The repositories
+ */
+export const createMemoryRepositories = (): Repositories => ({
+  apiKeys: createApiKeyRepository(new Map()),
+  deliveries: createDeliveryRepository(new Map()),
+  idempotencyKeys: createIdempotencyKeyRepository(new Map()),
+  statusHistory: createStatusHistoryRepository([]),
+  quotes: createQuoteRepository(new Map()),
+  restaurants: createRestaurantRepository(new Map()),
+  webhookEndpoints: createWebhookEndpointRepository(new Map()),
+  outboundWebhookEvents: createOutboundWebhookEventRepository(new Map()),
+});
@@ -0,0 +1,564 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../../types/database';
+import { getSupabase, TABLES } from '../supabase';
+import {
+  ApiKeyRepository,
+  DeliveryRepository,
+  DeliveryStatusHistoryRepository,
+  IdempotencyKeyRepository,
+  OutboundWebhookEventRepository,
+  QuoteRepository,
+  Repositories,
+  RestaurantRepository,
+  WebhookEndpointRepository,
+} from './types';
+
+type Client = SupabaseClient<Database>;
+
+/**
+ * Create the deliveries repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createDeliveryRepository = (db: () => Client): DeliveryRepository => ({
+  async create(delivery) {
+    const { data, error } = await db().from(TABLES.DELIVERIES).insert(delivery).select().single();
+    if (error || !data) {
+      throw new Error(`Failed to store delivery: ${error?.message || 'no row returned'}`);
+    }
+    return data;
+  },
+
+  async getById(id) {
+    const { data, error } = await db()
+      .from(TABLES.DELIVERIES)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load delivery ${id}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async findByProviderDeliveryId(provider, ids) {
+    if (ids.length === 0) {
+      return null;
+    }
+    const { data, error } = await db()
+      .from(TABLES.DELIVERIES)
+      .select('*')
+      .eq('provider', provider)
+      .in('provider_delivery_id', ids)
+      .limit(1);
+    if (error) {
+      throw new Error(`Failed to look up delivery ${ids[0]}: ${error.message}`);
+    }
+    return data?.[0] || null;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await db()
+      .from(TABLES.DELIVERIES)
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(`Failed to update delivery ${id}: ${error?.message || 'no row returned'}`);
+    }
+    return data;
+  },
+
+  async updateIf(id, expected, changes) {
+    const { data, error } = await db()
+      .from(TABLES.DELIVERIES)
+      .update(changes)
+      .eq('id', id)
+      .eq('status', expected.status)
+      .eq('updated_at', expected.updated_at)
+      .select()
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to update delivery ${id}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async list(filter = {}) {
+    let query = db().from(TABLES.DELIVERIES).select('*');
+    if (filter.restaurant_id) {
+      query = query.eq('restaurant_id', filter.restaurant_id);
+    }
+    if (filter.created_from) {
+      query = query.gte('created_at', filter.created_from.toISOString());
+    }
+    if (filter.created_to) {
+      query = query.lt('created_at', filter.created_to.toISOString());
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list deliveries: ${error.message}`);
+    }
+    return data || [];
+  },
+});
+
+/**
+ * Create the delivery status history repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createStatusHistoryRepository = (db: () => Client): DeliveryStatusHistoryRepository => ({
+  async create(entry) {
+    const { data, error } = await db()
+      .from(TABLES.DELIVERY_STATUS_HISTORY)
+      .insert(entry)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(
+        `Failed to record status of delivery ${entry.delivery_id}: ${error?.message || 'no row returned'}`
+      );
+    }
+    return data;
+  },
+
+  async listByDelivery(deliveryId) {
+    const { data, error } = await db()
+      .from(TABLES.DELIVERY_STATUS_HISTORY)
+      .select('*')
+      .eq('delivery_id', deliveryId)
+      .order('occurred_at', { ascending: true });
+    if (error) {
+      throw new Error(`Failed to load status history of delivery ${deliveryId}: ${error.message}`);
+    }
+    return data || [];
+  },
+});
+
+// Keeps the `in (...)` filter of each quote lookup well under URL length limits
+const QUOTE_LOOKUP_BATCH = 100;
+
+/**
+ * Create the provider quotes repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createQuoteRepository = (db: () => Client): QuoteRepository => ({
+  async createMany(quotes) {
+    const { data, error } = await db().from(TABLES.PROVIDER_QUOTES).insert(quotes).select();
+    if (error || !data) {
+      throw new Error(`Failed to store quotes: ${error?.message || 'no rows returned'}`);
+    }
+    return data;
+  },
+
+  async listBySet(quoteSetId) {
+    const { data, error } = await db()
+      .from(TABLES.PROVIDER_QUOTES)
+      .select('*')
+      .eq('external_delivery_id', quoteSetId);
+    if (error) {
+      throw new Error(`Failed to load quote set ${quoteSetId}: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  async listBySets(quoteSetIds) {
+    const quotes = [];
+    for (let i = 0; i < quoteSetIds.length; i += QUOTE_LOOKUP_BATCH) {
+      const { data, error } = await db()
+        .from(TABLES.PROVIDER_QUOTES)
+        .select('*')
+        .in('external_delivery_id', quoteSetIds.slice(i, i + QUOTE_LOOKUP_BATCH));
+      if (error) {
+        throw new Error(`Failed to load quote sets: ${error.message}`);
+      }
+      quotes.push(...(data || []));
+    }
+    return quotes;
+  },
+
+  async claim(id) {
+    // Conditional update, so two dispatches of the same quote cannot both win
+    const { data, error } = await db()
+      .from(TABLES.PROVIDER_QUOTES)
+      .update({ selected: true })
+      .eq('id', id)
+      .eq('selected', false)
+      .select();
+    if (error) {
+      throw new Error(`Failed to select quote ${id}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  },
+
+  async release(id) {
+    const { error } = await db()
+      .from(TABLES.PROVIDER_QUOTES)
+      .update({ selected: false })
+      .eq('id', id);
+    if (error) {
+      throw new Error(`Failed to release quote ${id}: ${error.message}`);
+    }
+  },
+});
+
+/**
+ * Create the restaurants repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createRestaurantRepository = (db: () => Client): RestaurantRepository => ({
+  async create(restaurant) {
+    const { data, error } = await db()
+      .from(TABLES.RESTAURANTS)
+      .insert(restaurant)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(`Failed to store restaurant: ${error?.message || 'no row returned'}`);
+    }
+    return data;
+  },
+
+  async getById(id) {
+    const { data, error } = await db()
+      .from(TABLES.RESTAURANTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load restaurant ${id}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await db()
+      .from(TABLES.RESTAURANTS)
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(`Failed to update restaurant ${id}: ${error?.message || 'no row returned'}`);
+    }
+    return data;
+  },
+
+  async list() {
+    const { data, error } = await db().from(TABLES.RESTAURANTS).select('*');
+    if (error) {
+      throw new Error(`Failed to list restaurants: ${error.message}`);
+    }
+    return data || [];
+  },
+});
+
+/**
+ * Create the restaurant webhook endpoints repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createWebhookEndpointRepository = (db: () => Client): WebhookEndpointRepository => ({
+  async getByRestaurant(restaurantId) {
+    const { data, error } = await db()
+      .from(TABLES.RESTAURANT_WEBHOOK_ENDPOINTS)
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load webhook endpoint of ${restaurantId}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async upsert(endpoint) {
+    const { data, error } = await db()
+      .from(TABLES.RESTAURANT_WEBHOOK_ENDPOINTS)
+      .upsert(
+        { active: true, ...endpoint, updated_at: new Date().toISOString() },
+        { onConflict: 'restaurant_id' }
+      )
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(
+        `Failed to store webhook endpoint of ${endpoint.restaurant_id}: ${error?.message || 'no row returned'}`
+      );
+    }
+    return data;
+  },
+
+  async delete(restaurantId) {
+    const { error } = await db()
+      .from(TABLES.RESTAURANT_WEBHOOK_ENDPOINTS)
+      .delete()
+      .eq('restaurant_id', restaurantId);
+    if (error) {
+      throw new Error(`Failed to delete webhook endpoint of ${restaurantId}: ${error.message}`);
+    }
+  },
+});
+
+/**
+ * Create the outbound webhook events repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createOutboundWebhookEventRepository = (
+  db: () => Client
+): OutboundWebhookEventRepository => ({
+  async create(event) {
+    const { data, error } = await db()
+      .from(TABLES.OUTBOUND_WEBHOOK_EVENTS)
+      .insert(event)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(
+        `Failed to store outbound webhook event: ${error?.message || 'no row returned'}`
+      );
+    }
+    return data;
+  },
+
+  async getById(id) {
+    const { data, error } = await db()
+      .from(TABLES.OUTBOUND_WEBHOOK_EVENTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load outbound webhook event ${id}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await db()
+      .from(TABLES.OUTBOUND_WEBHOOK_EVENTS)
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(
+        `Failed to update outbound webhook event ${id}: ${error?.message || 'no row returned'}`
+      );
+    }
+    return data;
+  },
+
+  async list(filter = {}) {
+    let query = db().from(TABLES.OUTBOUND_WEBHOOK_EVENTS).select('*');
+    if (filter.restaurant_id) {
+      query = query.eq('restaurant_id', filter.restaurant_id);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.due_before) {
+      query = query.eq('status', 'pending').lte('next_attempt_at', filter.due_before.toISOString());
+    }
+    query = query.order('created_at', { ascending: false });
+    if (filter.limit !== undefined) {
+      query = query.limit(filter.limit);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list outbound webhook events: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  async claim({ owner, leaseMs, limit, id }) {
+    const { data, error } = await db().rpc('claim_outbound_webhook_events', {
+      p_owner: owner,
+      p_lease_ms: leaseMs,
+      p_limit: limit,
+      p_id: id ?? null,
+    });
+    if (error) {
+      throw new Error(`Failed to claim outbound webhook events: ${error.message}`);
+    }
+    return data || [];
+  },
+
+  async ack(id, owner, changes) {
+    const { data, error } = await db()
+      .from(TABLES.OUTBOUND_WEBHOOK_EVENTS)
+      .update({ ...changes, lease_owner: null, lease_expires_at: null })
+      .eq('id', id)
+      .eq('lease_owner', owner)
+      .select()
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to update outbound webhook event ${id}: ${error.message}`);
+    }
+    return data;
+  },
+});
+
+/**
+ * Create the API keys repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createApiKeyRepository = (db: () => Client): ApiKeyRepository => ({
+  async create(key) {
+    const { data, error } = await db().from(TABLES.API_KEYS).insert(key).select().single();
+    if (error || !data) {
+      throw new Error(`Failed to store API key: ${error?.message || 'no row returned'}`);
+    }
+    return data;
+  },
+
+  async getById(id) {
+    const { data, error } = await db().from(TABLES.API_KEYS).select('*').eq('id', id).maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load API key ${id}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async getByPrefix(prefix) {
+    const { data, error } = await db()
+      .from(TABLES.API_KEYS)
+      .select('*')
+      .eq('prefix', prefix)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to look up API key ${prefix}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async update(id, changes) {
+    const { data, error } = await db()
+      .from(TABLES.API_KEYS)
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error || !data) {
+      throw new Error(`Failed to update API key ${id}: ${error?.message || 'no row returned'}`);
+    }
+    return data;
+  },
+
+  async listByRestaurant(restaurantId) {
+    const { data, error } = await db()
+      .from(TABLES.API_KEYS)
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .order('created_at', { ascending: true });
+    if (error) {
+      throw new Error(`Failed to list API keys of ${restaurantId}: ${error.message}`);
+    }
+    return data || [];
+  },
+});
+
+/**
+ * Create the idempotency keys repository backed by Supabase
+ * @param db Returns the Supabase client
+ * @returns The repository
+ */
+const createIdempotencyKeyRepository = (db: () => Client): IdempotencyKeyRepository => ({
+  async create(entry) {
+    // Clear an expired or abandoned entry first; of two requests racing to insert, the primary
+    // key lets one win
+    const { error: deleteError } = await db()
+      .from(TABLES.IDEMPOTENCY_KEYS)
+      .delete()
+      .eq('restaurant_id', entry.restaurant_id)
+      .eq('key', entry.key)
+      .or(
+        `expires_at.lte.${entry.created_at},and(status.eq.processing,locked_until.lte.${entry.created_at})`
+      );
+    if (deleteError) {
+      throw new Error(`Failed to clear idempotency key ${entry.key}: ${deleteError.message}`);
+    }
+
+    const { data, error } = await db()
+      .from(TABLES.IDEMPOTENCY_KEYS)
+      .upsert(entry, { onConflict: 'restaurant_id,key', ignoreDuplicates: true })
+      .select('key');
+    if (error) {
+      throw new Error(`Failed to store idempotency key ${entry.key}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  },
+
+  async get(restaurantId, key) {
+    const { data, error } = await db()
+      .from(TABLES.IDEMPOTENCY_KEYS)
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .eq('key', key)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load idempotency key ${key}: ${error.message}`);
+    }
+    return data;
+  },
+
+  async update(restaurantId, key, claimToken, changes) {
+    const { data, error } = await db()
+      .from(TABLES.IDEMPOTENCY_KEYS)
+      .update(changes)
+      .eq('restaurant_id', restaurantId)
+      .eq('key', key)
+      .eq('claim_token', claimToken)
+      .select('key');
+    if (error) {
+      throw new Error(`Failed to update idempotency key ${key}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  },
+
+  async delete(restaurantId, key, claimToken) {
+    const { data, error } = await db()
+      .from(TABLES.IDEMPOTENCY_KEYS)
+      .delete()
+      .eq('restaurant_id', restaurantId)
+      .eq('key', key)
+      .eq('claim_token', claimToken)
+      .select('key');
+    if (error) {
+      throw new Error(`Failed to delete idempotency key ${key}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  },
+
+  async deleteExpired(before) {
+    const { data, error } = await db()
+      .from(TABLES.IDEMPOTENCY_KEYS)
+      .delete()
+      .lte('expires_at', before.toISOString())
+      .select('key');
+    if (error) {
+      throw new Error(`Failed to delete expired idempotency keys: ${error.message}`);
+    }
+    return data?.length || 0;
+  },
+});
+
+/**
+ * Create repositories backed by Supabase
+ * @param db Returns the Supabase client; defaults to the lazily created shared client
+ * @returns The repositories
+ */
+export const createSupabaseRepositories = (db: () => Client = getSupabase): Repositories => ({
+  apiKeys: createApiKeyRepository(db),
+  deliveries: createDeliveryRepository(db),
+  idempotencyKeys: createIdempotencyKeyRepository(db),
+  statusHistory: createStatusHistoryRepository(db),
+  quotes: createQuoteRepository(db),
+  restaurants: createRestaurantRepository(db),
+  webhookEndpoints: createWebhookEndpointRepository(db),
+  outboundWebhookEvents: createOutboundWebhookEventRepository(db),
+});
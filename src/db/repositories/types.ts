@@ -0,0 +1,223 @@
+import { Database } from '../../types/database';
+
+type Tables = Database['public']['Tables'];
+
+export type ApiKeyRow = Tables['api_keys']['Row'];
+export type ApiKeyInsert = Tables['api_keys']['Insert'];
+export type ApiKeyUpdate = Tables['api_keys']['Update'];
+export type DeliveryRow = Tables['deliveries']['Row'];
+export type DeliveryInsert = Tables['deliveries']['Insert'];
+export type DeliveryUpdate = Tables['deliveries']['Update'];
+export type DeliveryStatusHistoryRow = Tables['delivery_status_history']['Row'];
+export type DeliveryStatusHistoryInsert = Tables['delivery_status_history']['Insert'];
+export type IdempotencyKeyRow = Tables['idempotency_keys']['Row'];
+export type IdempotencyKeyInsert = Tables['idempotency_keys']['Insert'];
+export type IdempotencyKeyUpdate = Tables['idempotency_keys']['Update'];
+export type OutboundWebhookEventRow = Tables['outbound_webhook_events']['Row'];
+export type OutboundWebhookEventInsert = Tables['outbound_webhook_events']['Insert'];
+export type OutboundWebhookEventUpdate = Tables['outbound_webhook_events']['Update'];
+export type ProviderQuoteRow = Tables['provider_quotes']['Row'];
+export type ProviderQuoteInsert = Tables['provider_quotes']['Insert'];
+export type RestaurantRow = Tables['restaurants']['Row'];
+export type RestaurantInsert = Tables['restaurants']['Insert'];
+export type RestaurantUpdate = Tables['restaurants']['Update'];
+export type WebhookEndpointRow = Tables['restaurant_webhook_endpoints']['Row'];
+export type WebhookEndpointInsert = Tables['restaurant_webhook_endpoints']['Insert'];
+
+/**
+ * Filter for listing deliveries
+ */
+export interface DeliveryListFilter {
+  restaurant_id?: string;
+  created_from?: Date; // Inclusive
+  created_to?: Date; // Exclusive
+}
+
+/**
+ * The state of a delivery as it was read, for conditional updates
+ */
+export type DeliveryVersion = Pick<DeliveryRow, 'status' | 'updated_at'>;
+
+/**
+ * Storage for the `deliveries` table
+ */
+export interface DeliveryRepository {
+  create(delivery: DeliveryInsert): Promise<DeliveryRow>;
+  getById(id: string): Promise<DeliveryRow | null>;
+  /**
+   * Find a provider's delivery by any of the IDs it may be known by
+   */
+  findByProviderDeliveryId(provider: string, ids: string[]): Promise<DeliveryRow | null>;
+  update(id: string, changes: DeliveryUpdate): Promise<DeliveryRow>;
+  /**
+   * Update a delivery only if it has not changed since it was read
+   * @returns The updated row, or null if another update got there first
+   */
+  updateIf(
+    id: string,
+    expected: DeliveryVersion,
+    changes: DeliveryUpdate
+  ): Promise<DeliveryRow | null>;
+  list(filter?: DeliveryListFilter): Promise<DeliveryRow[]>;
+}
+
+/**
+ * Storage for the `delivery_status_history` table, one row per status transition
+ */
+export interface DeliveryStatusHistoryRepository {
+  create(entry: DeliveryStatusHistoryInsert): Promise<DeliveryStatusHistoryRow>;
+  /**
+   * List a delivery's transitions, oldest first
+   */
+  listByDelivery(deliveryId: string): Promise<DeliveryStatusHistoryRow[]>;
+}
+
+/**
+ * Storage for the `provider_quotes` table, grouped into quote sets by `external_delivery_id`
+ */
+export interface QuoteRepository {
+  createMany(quotes: ProviderQuoteInsert[]): Promise<ProviderQuoteRow[]>;
+  listBySet(quoteSetId: string): Promise<ProviderQuoteRow[]>;
+  listBySets(quoteSetIds: string[]): Promise<ProviderQuoteRow[]>;
+  /**
+   * Mark a quote as selected, only if no one else has
+   * @returns Whether this call selected the quote
+   */
+  claim(id: string): Promise<boolean>;
+  release(id: string): Promise<void>;
+}
+
+/**
+ * Storage for the `restaurants` table
+ */
+export interface RestaurantRepository {
+  create(restaurant: RestaurantInsert): Promise<RestaurantRow>;
+  getById(id: string): Promise<RestaurantRow | null>;
+  update(id: string, changes: RestaurantUpdate): Promise<RestaurantRow>;
+  list(): Promise<RestaurantRow[]>;
+}
+
+/**
+ * Storage for the `restaurant_webhook_endpoints` table, one endpoint per restaurant
+ */
+export interface WebhookEndpointRepository {
+  getByRestaurant(restaurantId: string): Promise<WebhookEndpointRow | null>;
+  /**
+   * Register a restaurant's endpoint, replacing any existing one
+   */
+  upsert(endpoint: WebhookEndpointInsert): Promise<WebhookEndpointRow>;
+  delete(restaurantId: string): Promise<void>;
+}
+
+/**
+ * Filter for listing outbound webhook events
+ */
+export interface OutboundWebhookEventFilter {
+  restaurant_id?: string;
+  status?: string;
+  due_before?: Date; // Pending events whose next attempt is at or before this time
+  limit?: number;
+}
+
+/**
+ * Request to lease outbound events to a sender
+ */
+export interface OutboundWebhookEventClaim {
+  owner: string; // Identifies the sender holding the lease
+  leaseMs: number;
+  limit: number;
+  id?: string; // Claim only this event, due or not
+}
+
+/**
+ * Storage for the `outbound_webhook_events` table, the log of events sent to restaurants
+ *
+ * Senders lease pending events: `claim` never hands an event to two senders
+ * while a lease on it is live, and `ack` writes an attempt's outcome back
+ * only if the sender still holds the lease.
+ */
+export interface OutboundWebhookEventRepository {
+  create(event: OutboundWebhookEventInsert): Promise<OutboundWebhookEventRow>;
+  getById(id: string): Promise<OutboundWebhookEventRow | null>;
+  update(id: string, changes: OutboundWebhookEventUpdate): Promise<OutboundWebhookEventRow>;
+  /**
+   * List events, newest first
+   */
+  list(filter?: OutboundWebhookEventFilter): Promise<OutboundWebhookEventRow[]>;
+  /**
+   * Lease due pending events, earliest due first
+   */
+  claim(request: OutboundWebhookEventClaim): Promise<OutboundWebhookEventRow[]>;
+  /**
+   * Record an attempt and release the lease
+   * @returns The updated event, or null if the lease was lost
+   */
+  ack(
+    id: string,
+    owner: string,
+    changes: OutboundWebhookEventUpdate
+  ): Promise<OutboundWebhookEventRow | null>;
+}
+
+/**
+ * Storage for the `api_keys` table
+ */
+export interface ApiKeyRepository {
+  create(key: ApiKeyInsert): Promise<ApiKeyRow>;
+  getById(id: string): Promise<ApiKeyRow | null>;
+  getByPrefix(prefix: string): Promise<ApiKeyRow | null>;
+  update(id: string, changes: ApiKeyUpdate): Promise<ApiKeyRow>;
+  /**
+   * List a restaurant's keys, oldest first
+   */
+  listByRestaurant(restaurantId: string): Promise<ApiKeyRow[]>;
+}
+
+/**
+ * Storage for the `idempotency_keys` table, keyed by restaurant and key
+ */
+export interface IdempotencyKeyRepository {
+  /**
+   * Store an entry unless a live one exists for its restaurant and key; an
+   * expired one, or one still processing after its lock ran out, is replaced
+   * @returns Whether the entry was stored
+   */
+  create(
+    entry: IdempotencyKeyInsert & { created_at: string; locked_until: string; claim_token: string }
+  ): Promise<boolean>;
+  get(restaurantId: string, key: string): Promise<IdempotencyKeyRow | null>;
+  /**
+   * Update an entry while it still holds a claim
+   * @returns False if the claim was taken over, or the entry is gone
+   */
+  update(
+    restaurantId: string,
+    key: string,
+    claimToken: string,
+    changes: IdempotencyKeyUpdate
+  ): Promise<boolean>;
+  /**
+   * Delete an entry while it still holds a claim
+   * @returns False if the claim was taken over, or the entry is gone
+   */
+  delete(restaurantId: string, key: string, claimToken: string): Promise<boolean>;
+  /**
+   * Delete entries that expired at or before a time
+   * @returns How many were deleted
+   */
+  deleteExpired(before: Date): Promise<number>;
+}
+
+/**
+ * Every repository the service persists through
+ */
+export interface Repositories {
+  apiKeys: ApiKeyRepository;
+  deliveries: DeliveryRepository;
+  idempotencyKeys: IdempotencyKeyRepository;
+  statusHistory: DeliveryStatusHistoryRepository;
+  quotes: QuoteRepository;
+  restaurants: RestaurantRepository;
+  webhookEndpoints: WebhookEndpointRepository;
+  outboundWebhookEvents: OutboundWebhookEventRepository;
+}
@@ -1,25 +1,53 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import { Database } from '../types/database';
 
 // Load environment variables
 dotenv.config();
 
-// Environment variables
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_KEY;
+let client: SupabaseClient<Database> | undefined;
 
-// Validate environment variables
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase credentials. Set SUPABASE_URL and SUPABASE_KEY in .env file.');
-}
+/**
+ * Whether Supabase credentials are configured
+ * @returns True if SUPABASE_URL and SUPABASE_KEY are set
+ */
+export const hasSupabaseCredentials = (): boolean =>
+  !!process.env.SUPABASE_URL && !!process.env.SUPABASE_KEY;
 
-// Create Supabase client
-export const supabase = createClient<Database>(supabaseUrl, supabaseKey);
+/**
+ * Get the Supabase client, creating it on first use
+ *
+ * Credentials are only required once Supabase is actually used, so the service
+ * can run on another database driver without them.
+ * @returns The Supabase client
+ */
+export const getSupabase = (): SupabaseClient<Database> => {
+  if (!client) {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_KEY;
+
+    // Validate environment variables
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error(
+        'Missing Supabase credentials. Set SUPABASE_URL and SUPABASE_KEY in .env file.'
+      );
+    }
+
+    client = createClient<Database>(supabaseUrl, supabaseKey);
+  }
+  return client;
+};
 
 // Database table names
 export const TABLES = {
+  API_KEYS: 'api_keys',
   DELIVERIES: 'deliveries',
+  DELIVERY_STATUS_HISTORY: 'delivery_status_history',
+  IDEMPOTENCY_KEYS: 'idempotency_keys',
+  OUTBOUND_WEBHOOK_EVENTS: 'outbound_webhook_events',
   PROVIDER_QUOTES: 'provider_quotes',
+  RATE_LIMIT_BUCKETS: 'rate_limit_buckets',
   RESTAURANTS: 'restaurants',
-};
+  RESTAURANT_WEBHOOK_ENDPOINTS: 'restaurant_webhook_endpoints',
+  WEBHOOK_EVENTS: 'webhook_events',
+} as const;
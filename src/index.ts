@@ -1,9 +1,18 @@
 import express from 'express';
 import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
+import { captureRawBody } from './middleware/rawBody';
+import { setupApiKeyRoutes } from './routes/apiKeyRoutes';
 import { setupDeliveryRoutes } from './routes/deliveryRoutes';
 import { setupWebhookRoutes } from './routes/webhookRoutes';
+import { setupWebhookAdminRoutes } from './routes/webhookAdminRoutes';
 import { setupRestaurantRoutes } from './routes/restaurantRoutes';
+import { setupRestaurantWebhookRoutes } from './routes/restaurantWebhookRoutes';
+import { setupUsageRoutes } from './routes/usageRoutes';
+import { purgeExpiredIdempotencyKeys } from './services/idempotency';
+import { RestaurantWebhookWorker } from './services/restaurantWebhooks';
+import { WebhookQueue } from './webhooks/WebhookQueue';
+import { getWebhookWorkerMode } from './webhooks/WebhookWorker';
 
 // Load environment variables
 dotenv.config();
@@ -12,13 +21,17 @@ dotenv.config();
 const app = express();
 const port = process.env.PORT || 3000;
 
-// Middleware
-app.use(express.json());
+// Middleware; webhook signatures cover the raw body, so keep it for those routes
+app.use(express.json({ verify: captureRawBody }));
 
 // Routes
 setupDeliveryRoutes(app);
 setupWebhookRoutes(app);
+setupWebhookAdminRoutes(app);
 setupRestaurantRoutes(app);
+setupRestaurantWebhookRoutes(app);
+setupApiKeyRoutes(app);
+setupUsageRoutes(app);
 
 // Error handling
 app.use(errorHandler);
@@ -26,4 +39,21 @@ app.use(errorHandler);
 // Start server
 app.listen(port, () => {
   console.info(`Server running on port ${port}`);
+
+  // Process stored webhooks and their retries here, unless separate workers do (src/worker.ts)
+  WebhookQueue.getInstance().startWorker();
+
+  // Likewise send due restaurant webhooks and their retries
+  if (getWebhookWorkerMode() === 'embedded') {
+    new RestaurantWebhookWorker().start();
+  }
+
+  // Responses stored for Idempotency-Key retries are only replayed for a while; drop older ones
+  setInterval(
+    () =>
+      purgeExpiredIdempotencyKeys().catch(error =>
+        console.error('[Idempotency] Failed to purge expired keys:', error)
+      ),
+    60 * 60 * 1000
+  ).unref();
 });
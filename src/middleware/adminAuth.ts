@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/errors';
+import { safeEqual } from '../utils/webhookSignature';
+
+/**
+ * Middleware to restrict a route to operators
+ *
+ * Requests must send `Authorization: Bearer <ADMIN_API_TOKEN>`. Without the
+ * token configured, admin routes are disabled rather than left open.
+ * @param req Express request
+ * @param _res Express response
+ * @param next Next function
+ */
+export const requireAdminToken = (req: Request, _res: Response, next: NextFunction): void => {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    next(new ApiError(503, 'admin_api_disabled', 'Admin API is disabled; set ADMIN_API_TOKEN'));
+    return;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match || !safeEqual(match[1].trim(), token)) {
+    next(new ApiError(401, 'unauthorized', 'Invalid or missing admin token'));
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyPrincipal, ApiKeyScope, authenticateApiKey } from '../services/apiKeys';
+import { ApiError } from '../utils/errors';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /**
+     * The restaurant key the request was authenticated with, set by requireApiKey
+     */
+    apiKey?: ApiKeyPrincipal;
+  }
+}
+
+/**
+ * Read the key a request was sent with
+ * @param req Express request
+ * @returns The key from `Authorization: Bearer <key>` or `X-API-Key`, if any
+ */
+const readApiKey = (req: Request): string | undefined => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (match) {
+    return match[1].trim();
+  }
+  const header = req.headers['x-api-key'];
+  return typeof header === 'string' ? header.trim() : undefined;
+};
+
+/**
+ * Middleware to restrict a route to restaurants' API keys
+ *
+ * Resolves the calling restaurant from the key and sets `req.apiKey`. The key
+ * needs at least one of the given scopes.
+ * @param scopes The scopes that grant access
+ * @returns The middleware
+ */
+export const requireApiKey =
+  (...scopes: ApiKeyScope[]): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const key = readApiKey(req);
+      const principal = key ? await authenticateApiKey(key) : null;
+      if (!principal) {
+        next(new ApiError(401, 'unauthorized', 'Invalid or missing API key'));
+        return;
+      }
+      if (!scopes.some(scope => principal.scopes.includes(scope))) {
+        next(
+          new ApiError(
+            403,
+            'insufficient_scope',
+            `This API key needs one of the scopes: ${scopes.join(', ')}`
+          )
+        );
+        return;
+      }
+
+      req.apiKey = principal;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Get the key a request was authenticated with
+ * @param req Express request, after requireApiKey
+ * @returns The caller
+ */
+export const getCaller = (req: Request): ApiKeyPrincipal => {
+  if (!req.apiKey) {
+    throw new Error('Route is missing requireApiKey');
+  }
+  return req.apiKey;
+};
+
+/**
+ * Get the restaurant a request was authenticated as
+ * @param req Express request, after requireApiKey
+ * @returns The restaurant ID
+ */
+export const getCallerRestaurantId = (req: Request): string => getCaller(req).restaurant_id;
+
+/**
+ * Check that a request acts on its own restaurant
+ * @param req Express request, after requireApiKey
+ * @param restaurantId The restaurant the request names
+ * @throws ApiError 403 if it names another restaurant
+ */
+export const assertOwnRestaurant = (req: Request, restaurantId: string): void => {
+  if (restaurantId !== getCallerRestaurantId(req)) {
+    throw new ApiError(
+      403,
+      'restaurant_mismatch',
+      `This API key cannot act for restaurant ${restaurantId}`
+    );
+  }
+};
+
+/**
+ * Middleware to check a route's `:restaurantId` is the caller's own restaurant
+ * @param req Express request, after requireApiKey
+ * @param _res Express response
+ * @param next Next function
+ */
+export const requireOwnRestaurant = (req: Request, _res: Response, next: NextFunction): void => {
+  try {
+    assertOwnRestaurant(req, req.params.restaurantId);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -3,6 +3,9 @@ import { Request, Response, NextFunction } from 'express';
 interface ErrorWithStatus extends Error {
   status?: number;
   statusCode?: number;
+  code?: string;
+  details?: unknown;
+  retryAfterSeconds?: number;
 }
 
 /**
@@ -23,11 +26,18 @@ export const errorHandler = (
   // Determine the status code
   const statusCode = err.status || err.statusCode || 500;
 
+  // Tell throttled callers how long to wait, whether we or a provider throttled them
+  if (statusCode === 429 && err.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(err.retryAfterSeconds));
+  }
+
   // Send appropriate response
   res.status(statusCode).json({
     error: {
       message: statusCode === 500 ? 'Internal server error' : err.message,
       status: statusCode,
+      ...(statusCode !== 500 && err.code ? { code: err.code } : {}),
+      ...(statusCode !== 500 && err.details !== undefined ? { details: err.details } : {}),
     },
   });
 };
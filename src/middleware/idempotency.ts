@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  describeRequest,
+  releaseIdempotentRequest,
+} from '../services/idempotency';
+import { ApiError } from '../utils/errors';
+import { getCallerRestaurantId } from './apiKeyAuth';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Middleware to make a route safe to retry with an `Idempotency-Key` header
+ *
+ * Must run after requireApiKey. The first request with a key is handled as
+ * usual and its JSON response stored; repeats with the same body get that
+ * response again, with `Idempotent-Replayed: true`, instead of being handled
+ * twice. Server errors are not stored, so the client can retry those.
+ * Requests without the header are handled as usual.
+ * @returns The middleware
+ */
+export const idempotent =
+  (): RequestHandler => async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header('Idempotency-Key');
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    try {
+      if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+        throw new ApiError(
+          400,
+          'invalid_idempotency_key',
+          `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`
+        );
+      }
+
+      const restaurantId = getCallerRestaurantId(req);
+      const request = describeRequest(req.method, req.baseUrl + req.path, req.body);
+      const outcome = await beginIdempotentRequest(restaurantId, key, request);
+      if (outcome.action === 'replay') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(outcome.response.status).json(outcome.response.body);
+        return;
+      }
+
+      // Store the response before sending it, so a retry sent on receiving it is replayed
+      const send = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const settle =
+          res.statusCode >= 500
+            ? releaseIdempotentRequest(restaurantId, key, outcome.claim)
+            : completeIdempotentRequest(restaurantId, key, outcome.claim, {
+                status: res.statusCode,
+                body,
+              });
+        settle
+          .catch(error =>
+            console.error(`[Idempotency] Failed to store the response to ${key}:`, error)
+          )
+          .finally(() => send(body));
+        return res;
+      };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { consumeRateLimit, RateLimitedError, RateLimitUsage } from '../services/rateLimits';
+
+/**
+ * Describe a bucket in the standard RateLimit headers
+ * @param res Express response
+ * @param usage The bucket
+ */
+const setRateLimitHeaders = (res: Response, usage: RateLimitUsage): void => {
+  const windowSeconds = Math.ceil((usage.limit * 60) / usage.refill_per_minute);
+  res.setHeader('RateLimit-Policy', `${usage.limit};w=${windowSeconds}`);
+  res.setHeader('RateLimit-Limit', String(usage.limit));
+  res.setHeader('RateLimit-Remaining', String(Math.max(0, usage.remaining)));
+  res.setHeader('RateLimit-Reset', String(usage.reset_seconds));
+};
+
+/**
+ * Middleware to count a request against the caller's key and restaurant limits
+ *
+ * Must run after requireApiKey. The headers describe whichever bucket is
+ * closest to running out. If the limits cannot be checked, e.g. the store is
+ * down, the request is let through rather than failing the API.
+ * @param cost Tokens the request takes, or a function returning them
+ * @returns The middleware
+ */
+export const rateLimit =
+  (cost: number | (() => number) = 1): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const principal = req.apiKey;
+    if (!principal) {
+      next(new Error('Route is missing requireApiKey'));
+      return;
+    }
+
+    try {
+      const tokens = typeof cost === 'number' ? cost : cost();
+      const { usage } = await consumeRateLimit(principal, tokens);
+      if (usage) {
+        setRateLimitHeaders(res, usage);
+      }
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        setRateLimitHeaders(res, error.usage);
+        next(error);
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Rate Limit] Not enforcing limits for ${principal.key_id}: ${message}`);
+    }
+    next();
+  };
@@ -0,0 +1,27 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /**
+     * The request body as received, kept for webhook routes whose signatures
+     * cover the exact bytes
+     */
+    rawBody?: Buffer;
+  }
+}
+
+// Routes whose raw request body is kept
+const RAW_BODY_PATHS = ['/webhooks/', '/api/webhooks/'];
+
+/**
+ * Keep the raw body of webhook requests, for use as the `verify` option of `express.json`
+ * @param req The request
+ * @param _res The response
+ * @param buf The raw body
+ */
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer): void => {
+  const url = (req as IncomingMessage & { originalUrl?: string }).originalUrl || req.url || '';
+  if (RAW_BODY_PATHS.some(path => url.startsWith(path))) {
+    (req as IncomingMessage & { rawBody?: Buffer }).rawBody = Buffer.from(buf);
+  }
+};
@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import crypto from 'crypto';
+import { verifyUberWebhook } from '../webhooks/verification';
 
 /**
  * Middleware to validate Uber webhook requests
+ *
+ * The signature is checked against the raw request body, captured by
+ * `captureRawBody`, with every active secret.
  * @param req Express request
  * @param res Express response
  * @param next Next function
@@ -13,9 +16,6 @@ export const validateUberWebhook = (
   next: NextFunction
 ): void => {
   try {
-    const signature = req.headers['x-uber-signature'];
-    const clientSecret = process.env.UBER_CLIENT_SECRET;
-    
     // Check if we're in development mode and should bypass verification
     const isDevelopmentMode = process.env.NODE_ENV === 'development' && process.env.BYPASS_WEBHOOK_VERIFICATION === 'true';
     
@@ -26,38 +26,23 @@ export const validateUberWebhook = (
       return;
     }
 
-    // Verify that the client secret is configured
-    if (!clientSecret) {
-      console.error('[Uber Webhook] Missing UBER_CLIENT_SECRET environment variable');
-      res.status(500).json({ 
-        success: false, 
-        message: 'Server configuration error: Missing webhook secret'
-      });
-      return;
-    }
+    const result = verifyUberWebhook({ headers: req.headers, rawBody: req.rawBody });
 
-    // Verify that the signature is present
-    if (!signature) {
-      console.error('[Uber Webhook] Missing x-uber-signature header');
-      res.status(401).json({ 
-        success: false, 
-        message: 'Missing signature header'
+    // A missing secret or uncaptured body is our problem, not the sender's
+    if (!result.valid && result.misconfigured) {
+      console.error(`[Uber Webhook] Verification is misconfigured: ${result.reason}`);
+      res.status(500).json({
+        success: false,
+        message: `Server configuration error: ${result.reason}`,
       });
       return;
     }
 
-    // Verify the signature
-    const computedSignature = crypto
-      .createHmac('sha256', clientSecret)
-      .update(JSON.stringify(req.body))
-      .digest('hex');
-    
-    if (signature !== computedSignature) {
-      console.error('[Uber Webhook] Invalid signature');
-      console.debug(`[Uber Webhook] Expected: ${computedSignature}, Received: ${signature}`);
-      res.status(401).json({ 
-        success: false, 
-        message: 'Invalid signature'
+    if (!result.valid) {
+      console.error(`[Uber Webhook] ${result.reason}`);
+      res.status(401).json({
+        success: false,
+        message: result.reason,
       });
       return;
     }
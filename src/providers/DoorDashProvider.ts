@@ -0,0 +1,135 @@
+import * as doordashSdk from '../clients/doordashSdk';
+import { DeliveryQuote, DeliveryUpdate, QuoteRequest } from '../services/delivery/types';
+import { DoorDashWebhookProcessor } from '../webhooks/DoorDashWebhookProcessor';
+import { WebhookDeliveryStatus, WebhookEvent } from '../webhooks/types';
+import {
+  CourierProvider,
+  ProviderCancellation,
+  ProviderCapabilities,
+  ProviderDelivery,
+  ProviderDeliveryStatus,
+  ProviderDeliveryUpdate,
+  ProviderQuote,
+  UpdatableFields,
+} from './types';
+
+const { PENDING, ASSIGNED, PICKUP, IN_TRANSIT } = WebhookDeliveryStatus;
+
+/**
+ * Convert a dollar amount from the SDK client to cents
+ * @param dollars The amount in dollars
+ * @returns The amount in cents
+ */
+const toCents = (dollars: number): number => Math.round(dollars * 100);
+
+/**
+ * DoorDash Drive courier provider, backed by the official SDK client
+ */
+export class DoorDashProvider implements CourierProvider {
+  readonly name = 'doordash';
+  readonly capabilities: ProviderCapabilities = {
+    cancel: true,
+    update: true,
+    statusPolling: true,
+    webhooks: true,
+  };
+  // Contact details and the tip can change until dropoff; the schedule only until pickup
+  readonly updatableFields: UpdatableFields = {
+    dropoff_instructions: [PENDING, ASSIGNED, PICKUP, IN_TRANSIT],
+    dropoff_phone_number: [PENDING, ASSIGNED, PICKUP, IN_TRANSIT],
+    tip: [PENDING, ASSIGNED, PICKUP, IN_TRANSIT],
+    pickup_window: [PENDING, ASSIGNED],
+    dropoff_window: [PENDING, ASSIGNED],
+  };
+  private processor?: DoorDashWebhookProcessor;
+
+  async quote(quoteSetId: string, request: QuoteRequest): Promise<ProviderQuote> {
+    const quote = await doordashSdk.estimate({
+      external_delivery_id: quoteSetId,
+      pickup_address: request.pickup_address,
+      dropoff_address: request.dropoff_address,
+      pickup_business_name: request.pickup_business_name,
+      pickup_phone_number: request.pickup_phone_number,
+      dropoff_business_name: request.dropoff_name,
+      dropoff_contact_given_name: request.dropoff_name,
+      dropoff_phone_number: request.dropoff_phone_number,
+      dropoff_instructions: request.dropoff_instructions,
+      order_value: request.order_value,
+      items: request.items,
+    });
+
+    return {
+      provider: this.name,
+      provider_quote_id: quote.quote_id,
+      fee: toCents(quote.fee),
+      currency: quote.currency.toUpperCase(),
+      estimated_dropoff_time: quote.dropoff_time_estimated || null,
+      expires_at: quote.expires_at,
+    };
+  }
+
+  async createDelivery(quote: DeliveryQuote, _request: QuoteRequest): Promise<ProviderDelivery> {
+    // The quote already holds the delivery's details, so accepting it books them at its fee
+    const delivery = await doordashSdk.acceptQuote(quote.provider_quote_id);
+
+    return {
+      provider_delivery_id: delivery.external_delivery_id,
+      provider_status: delivery.delivery_status,
+      tracking_url: delivery.tracking_url || '',
+      fee: delivery.fee ? toCents(delivery.fee) : null,
+      currency: delivery.currency || null,
+    };
+  }
+
+  async getStatus(providerDeliveryId: string): Promise<ProviderDeliveryStatus> {
+    const delivery = await doordashSdk.getDeliveryStatus(providerDeliveryId);
+
+    return {
+      provider_delivery_id: delivery.external_delivery_id || providerDeliveryId,
+      status: this.getWebhookProcessor().mapDeliveryStatus(delivery.delivery_status),
+      provider_status: delivery.delivery_status,
+      tracking_url: delivery.tracking_url,
+      courier_location: delivery.dasher_location
+        ? { latitude: delivery.dasher_location.lat, longitude: delivery.dasher_location.lng }
+        : undefined,
+      estimated_pickup_time: delivery.pickup_time_estimated,
+      estimated_dropoff_time: delivery.dropoff_time_estimated,
+    };
+  }
+
+  async update(
+    providerDeliveryId: string,
+    changes: DeliveryUpdate
+  ): Promise<ProviderDeliveryUpdate> {
+    // DoorDash takes the same field names, with the tip in cents
+    const delivery = await doordashSdk.updateDelivery(providerDeliveryId, changes);
+
+    return {
+      provider_delivery_id: delivery.external_delivery_id || providerDeliveryId,
+      provider_status: delivery.delivery_status,
+    };
+  }
+
+  async cancel(providerDeliveryId: string, _reason: string): Promise<ProviderCancellation> {
+    // DoorDash Drive does not take a cancellation reason, and its response has no
+    // cancellation fee; `fee` is still the delivery fee
+    const delivery = await doordashSdk.cancelDelivery(providerDeliveryId);
+
+    return {
+      provider_delivery_id: delivery.external_delivery_id || providerDeliveryId,
+      provider_status: delivery.delivery_status,
+      cancellation_fee: null,
+    };
+  }
+
+  async parseWebhook(rawData: any): Promise<WebhookEvent> {
+    return this.getWebhookProcessor().parseWebhookEvent(rawData);
+  }
+
+  getWebhookProcessor(): DoorDashWebhookProcessor {
+    if (!this.processor) {
+      this.processor = new DoorDashWebhookProcessor();
+    }
+    return this.processor;
+  }
+}
@@ -0,0 +1,66 @@
+import { CourierProvider } from './types';
+import { DoorDashProvider } from './DoorDashProvider';
+import { UberProvider } from './UberProvider';
+
+/**
+ * Registry of the courier providers the service can quote and dispatch with
+ */
+export class ProviderRegistry {
+  private providers: Map<string, CourierProvider> = new Map();
+
+  /**
+   * Create a registry
+   * @param providers Providers to register up front
+   */
+  constructor(providers: CourierProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Register a provider, replacing any provider with the same name
+   * @param provider The provider to register
+   */
+  register(provider: CourierProvider): void {
+    this.providers.set(provider.name.toLowerCase(), provider);
+  }
+
+  /**
+   * Remove a provider
+   * @param name The provider name
+   */
+  unregister(name: string): void {
+    this.providers.delete(name.toLowerCase());
+  }
+
+  /**
+   * Whether a provider is registered
+   * @param name The provider name
+   */
+  has(name: string): boolean {
+    return this.providers.has(name.toLowerCase());
+  }
+
+  /**
+   * Get a provider by name
+   * @param name The provider name
+   * @returns The provider
+   */
+  get(name: string): CourierProvider {
+    const provider = this.providers.get(name.toLowerCase());
+    if (!provider) {
+      throw new Error(`Unsupported courier provider: ${name}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Get every registered provider
+   * @returns The providers, in registration order
+   */
+  list(): CourierProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+// Default registry with every built-in courier
+export const providerRegistry = new ProviderRegistry([new DoorDashProvider(), new UberProvider()]);
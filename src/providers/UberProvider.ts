@@ -0,0 +1,166 @@
+import * as uber from '../clients/uber';
+import {
+  DeliveryAddress,
+  DeliveryQuote,
+  DeliveryUpdate,
+  QuoteRequest,
+} from '../services/delivery/types';
+import { UberWebhookProcessor } from '../webhooks/UberWebhookProcessor';
+import { WebhookDeliveryStatus, WebhookEvent } from '../webhooks/types';
+import {
+  CourierProvider,
+  ProviderCancellation,
+  ProviderCapabilities,
+  ProviderDelivery,
+  ProviderDeliveryStatus,
+  ProviderDeliveryUpdate,
+  ProviderQuote,
+  UpdatableFields,
+} from './types';
+
+const { PENDING, ASSIGNED, PICKUP, IN_TRANSIT } = WebhookDeliveryStatus;
+
+/**
+ * Format an address the way Uber Direct expects it (JSON stringified)
+ * @param address The address to format
+ * @returns The Uber address string
+ */
+export const toUberAddress = (address: DeliveryAddress): string =>
+  JSON.stringify({
+    street_address: [address.street, address.unit].filter(Boolean),
+    city: address.city,
+    state: address.state,
+    zip_code: address.zip_code,
+    country: address.country,
+  });
+
+// The Uber Direct API calls the provider makes
+type UberApi = Pick<
+  uber.UberClient,
+  'getQuote' | 'createDelivery' | 'getDeliveryStatus' | 'updateDelivery' | 'cancelDelivery'
+>;
+
+/**
+ * Uber Direct courier provider
+ */
+export class UberProvider implements CourierProvider {
+  readonly name = 'uber';
+  readonly capabilities: ProviderCapabilities = {
+    cancel: true,
+    update: true,
+    statusPolling: true,
+    webhooks: true,
+  };
+  // Uber does not change the dropoff phone number, and only reschedules before a courier is assigned
+  readonly updatableFields: UpdatableFields = {
+    dropoff_instructions: [PENDING, ASSIGNED, PICKUP, IN_TRANSIT],
+    tip: [PENDING, ASSIGNED, PICKUP, IN_TRANSIT],
+    pickup_window: [PENDING],
+    dropoff_window: [PENDING],
+  };
+  private processor?: UberWebhookProcessor;
+  private client: UberApi;
+
+  /**
+   * Create the Uber Direct provider
+   * @param client The API client; by default the one configured from the environment
+   */
+  constructor(client: UberApi = uber) {
+    this.client = client;
+  }
+
+  async quote(_quoteSetId: string, request: QuoteRequest): Promise<ProviderQuote> {
+    const quote = await this.client.getQuote({
+      pickup_address: toUberAddress(request.pickup_address),
+      dropoff_address: toUberAddress(request.dropoff_address),
+    });
+
+    return {
+      provider: this.name,
+      provider_quote_id: quote.id,
+      fee: quote.fee,
+      currency: quote.currency.toUpperCase(),
+      estimated_dropoff_time: quote.dropoff_eta || null,
+      expires_at: quote.expires,
+    };
+  }
+
+  async createDelivery(quote: DeliveryQuote, request: QuoteRequest): Promise<ProviderDelivery> {
+    const delivery = await this.client.createDelivery({
+      quote_id: quote.provider_quote_id,
+      pickup_address: toUberAddress(request.pickup_address),
+      pickup_name: request.pickup_business_name,
+      pickup_phone_number: request.pickup_phone_number,
+      pickup_notes: request.pickup_instructions,
+      dropoff_address: toUberAddress(request.dropoff_address),
+      dropoff_name: request.dropoff_name,
+      dropoff_phone_number: request.dropoff_phone_number,
+      dropoff_notes: request.dropoff_instructions,
+      manifest_items: request.items.map(item => ({ name: item.name, quantity: item.quantity })),
+    });
+
+    return {
+      provider_delivery_id: delivery.id,
+      provider_status: delivery.status,
+      tracking_url: delivery.tracking_url || '',
+      fee: delivery.fee ?? null,
+      currency: null,
+    };
+  }
+
+  async getStatus(providerDeliveryId: string): Promise<ProviderDeliveryStatus> {
+    const delivery = await this.client.getDeliveryStatus(providerDeliveryId);
+    const location = delivery.courier?.location;
+
+    return {
+      provider_delivery_id: delivery.id,
+      status: this.getWebhookProcessor().mapDeliveryStatus(delivery.status),
+      provider_status: delivery.status,
+      tracking_url: delivery.tracking_url,
+      courier_location: location ? { latitude: location.lat, longitude: location.lng } : undefined,
+      estimated_pickup_time: delivery.pickup_eta,
+      estimated_dropoff_time: delivery.dropoff_eta,
+    };
+  }
+
+  async update(
+    providerDeliveryId: string,
+    changes: DeliveryUpdate
+  ): Promise<ProviderDeliveryUpdate> {
+    const delivery = await this.client.updateDelivery(providerDeliveryId, {
+      dropoff_notes: changes.dropoff_instructions,
+      tip_by_customer: changes.tip,
+      pickup_ready_dt: changes.pickup_window?.start_time,
+      pickup_deadline_dt: changes.pickup_window?.end_time,
+      dropoff_ready_dt: changes.dropoff_window?.start_time,
+      dropoff_deadline_dt: changes.dropoff_window?.end_time,
+    });
+
+    return {
+      provider_delivery_id: delivery.id || providerDeliveryId,
+      provider_status: delivery.status,
+    };
+  }
+
+  async cancel(providerDeliveryId: string, _reason: string): Promise<ProviderCancellation> {
+    // Uber Direct takes no cancellation reason and reports no fee on the delivery
+    const delivery = await this.client.cancelDelivery(providerDeliveryId);
+
+    return {
+      provider_delivery_id: delivery.id || providerDeliveryId,
+      provider_status: delivery.status,
+      cancellation_fee: null,
+    };
+  }
+
+  async parseWebhook(rawData: any): Promise<WebhookEvent> {
+    return this.getWebhookProcessor().parseWebhookEvent(rawData);
+  }
+
+  getWebhookProcessor(): UberWebhookProcessor {
+    if (!this.processor) {
+      this.processor = new UberWebhookProcessor();
+    }
+    return this.processor;
+  }
+}
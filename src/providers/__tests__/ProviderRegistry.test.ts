@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ProviderRegistry, providerRegistry } from '../ProviderRegistry';
+import { CourierProvider } from '../types';
+
+vi.mock('../../clients/doordashSdk', () => ({}));
+vi.mock('../../clients/uber', () => ({}));
+
+const fakeProvider = (name: string): CourierProvider =>
+  ({
+    name,
+    capabilities: { cancel: false, update: false, statusPolling: false, webhooks: false },
+  }) as unknown as CourierProvider;
+
+describe('ProviderRegistry', () => {
+  it('registers the built-in couriers by default', () => {
+    expect(providerRegistry.list().map(provider => provider.name)).toEqual(['doordash', 'uber']);
+  });
+
+  it('looks providers up case-insensitively', () => {
+    const registry = new ProviderRegistry([fakeProvider('acme')]);
+
+    expect(registry.has('ACME')).toBe(true);
+    expect(registry.get('Acme').name).toBe('acme');
+  });
+
+  it('replaces and removes providers', () => {
+    const registry = new ProviderRegistry([fakeProvider('acme')]);
+    const replacement = fakeProvider('acme');
+
+    registry.register(replacement);
+    expect(registry.list()).toEqual([replacement]);
+
+    registry.unregister('acme');
+    expect(registry.has('acme')).toBe(false);
+  });
+
+  it('throws for unknown providers', () => {
+    expect(() => new ProviderRegistry().get('acme')).toThrow('Unsupported courier provider: acme');
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Courier providers module index
+ */
+
+export * from './types';
+export * from './ProviderRegistry';
+export * from './DoorDashProvider';
+export * from './UberProvider';
@@ -0,0 +1,140 @@
+import {
+  DeliveryQuote,
+  DeliveryUpdate,
+  DeliveryUpdateField,
+  QuoteRequest,
+} from '../services/delivery/types';
+import { WebhookDeliveryStatus, WebhookEvent, WebhookProcessor } from '../webhooks/types';
+
+/**
+ * What a courier provider supports beyond quoting and dispatching
+ */
+export interface ProviderCapabilities {
+  cancel: boolean;
+  update: boolean;
+  statusPolling: boolean;
+  webhooks: boolean;
+}
+
+/**
+ * Quote as returned by a single provider, before ranking and persistence
+ */
+export interface ProviderQuote {
+  provider: string;
+  provider_quote_id: string;
+  fee: number; // In cents
+  currency: string;
+  estimated_dropoff_time: string | null;
+  expires_at: string;
+}
+
+/**
+ * Delivery as created by a single provider
+ */
+export interface ProviderDelivery {
+  provider_delivery_id: string;
+  provider_status: string;
+  tracking_url: string;
+  fee: number | null; // In cents, when the provider reports one
+  currency: string | null;
+}
+
+/**
+ * Live delivery state as reported by a provider's API
+ */
+export interface ProviderDeliveryStatus {
+  provider_delivery_id: string;
+  status: WebhookDeliveryStatus;
+  provider_status: string;
+  tracking_url?: string;
+  courier_location?: {
+    latitude: number;
+    longitude: number;
+  };
+  estimated_pickup_time?: string;
+  estimated_dropoff_time?: string;
+}
+
+/**
+ * Outcome of cancelling a delivery with a provider
+ */
+export interface ProviderCancellation {
+  provider_delivery_id: string;
+  provider_status: string;
+  cancellation_fee: number | null; // In cents, when the provider charges one
+}
+
+/**
+ * Statuses in which a provider lets each delivery field be changed
+ *
+ * Fields that are missing cannot be changed with that provider at all.
+ */
+export type UpdatableFields = Partial<
+  Record<DeliveryUpdateField, readonly WebhookDeliveryStatus[]>
+>;
+
+/**
+ * Outcome of changing a delivery with a provider
+ */
+export interface ProviderDeliveryUpdate {
+  provider_delivery_id: string;
+  provider_status: string;
+}
+
+/**
+ * Contract every courier integration implements
+ *
+ * Delivery routes and the webhook pipeline only talk to couriers through this
+ * interface, so adding a courier means implementing it and registering it.
+ */
+export interface CourierProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  readonly updatableFields: UpdatableFields;
+
+  /**
+   * Quote an order
+   * @param quoteSetId Our ID for the quote set the quote belongs to
+   * @param request The order to quote
+   */
+  quote(quoteSetId: string, request: QuoteRequest): Promise<ProviderQuote>;
+
+  /**
+   * Create a delivery bound to one of this provider's quotes
+   * @param quote The stored quote being dispatched
+   * @param request The order the quote was made for
+   */
+  createDelivery(quote: DeliveryQuote, request: QuoteRequest): Promise<ProviderDelivery>;
+
+  /**
+   * Fetch the current state of a delivery
+   * @param providerDeliveryId The provider's delivery ID
+   */
+  getStatus(providerDeliveryId: string): Promise<ProviderDeliveryStatus>;
+
+  /**
+   * Cancel a delivery
+   * @param providerDeliveryId The provider's delivery ID
+   * @param reason Why the delivery is being cancelled
+   */
+  cancel(providerDeliveryId: string, reason: string): Promise<ProviderCancellation>;
+
+  /**
+   * Change details of a delivery
+   * @param providerDeliveryId The provider's delivery ID
+   * @param changes The fields to change, already checked against updatableFields
+   */
+  update(providerDeliveryId: string, changes: DeliveryUpdate): Promise<ProviderDeliveryUpdate>;
+
+  /**
+   * Parse a webhook payload into a standardized event
+   * @param rawData The webhook payload
+   * @param headers The request headers
+   */
+  parseWebhook(rawData: any, headers?: Record<string, string>): Promise<WebhookEvent>;
+
+  /**
+   * The processor that verifies and handles this provider's webhooks
+   */
+  getWebhookProcessor(): WebhookProcessor;
+}
@@ -0,0 +1,147 @@
+import { Express, Request, Response, NextFunction } from 'express';
+import { requireAdminToken } from '../middleware/adminAuth';
+import { getCallerRestaurantId, requireApiKey } from '../middleware/apiKeyAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  apiKeyRequestSchema,
+  apiKeyRotationSchema,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+} from '../services/apiKeys';
+import { parseBody } from '../utils/validation';
+
+/**
+ * Setup routes for restaurants' API keys
+ *
+ * Operators issue a restaurant's first key; from then on the restaurant
+ * manages its own keys with an `admin` key.
+ */
+export const setupApiKeyRoutes = (app: Express) => {
+  /**
+   * @route POST /admin/restaurants/:restaurantId/api-keys
+   * @description Issue a key for a restaurant; the key is only shown in this response
+   */
+  app.post(
+    '/admin/restaurants/:restaurantId/api-keys',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const request = parseBody(apiKeyRequestSchema, req.body);
+        const key = await createApiKey(req.params.restaurantId, request);
+        res.status(201).json(key);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route GET /admin/restaurants/:restaurantId/api-keys
+   * @description List a restaurant's keys
+   */
+  app.get(
+    '/admin/restaurants/:restaurantId/api-keys',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const keys = await listApiKeys(req.params.restaurantId);
+        res.status(200).json({ keys });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route DELETE /admin/restaurants/:restaurantId/api-keys/:keyId
+   * @description Revoke one of a restaurant's keys
+   */
+  app.delete(
+    '/admin/restaurants/:restaurantId/api-keys/:keyId',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const key = await revokeApiKey(req.params.restaurantId, req.params.keyId);
+        res.status(200).json(key);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /v1/api-keys
+   * @description Create another key for the caller's restaurant
+   */
+  app.post(
+    '/v1/api-keys',
+    requireApiKey('admin'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const request = parseBody(apiKeyRequestSchema, req.body);
+        const key = await createApiKey(getCallerRestaurantId(req), request);
+        res.status(201).json(key);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route GET /v1/api-keys
+   * @description List the caller's restaurant's keys
+   */
+  app.get(
+    '/v1/api-keys',
+    requireApiKey('admin'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const keys = await listApiKeys(getCallerRestaurantId(req));
+        res.status(200).json({ keys });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /v1/api-keys/:id/rotate
+   * @description Replace a key; the old one keeps working for a grace period
+   */
+  app.post(
+    '/v1/api-keys/:id/rotate',
+    requireApiKey('admin'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const rotation = parseBody(apiKeyRotationSchema, req.body || {});
+        const key = await rotateApiKey(getCallerRestaurantId(req), req.params.id, rotation);
+        res.status(201).json(key);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route DELETE /v1/api-keys/:id
+   * @description Revoke a key at once
+   */
+  app.delete(
+    '/v1/api-keys/:id',
+    requireApiKey('admin'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const key = await revokeApiKey(getCallerRestaurantId(req), req.params.id);
+        res.status(200).json(key);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
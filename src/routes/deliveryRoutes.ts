@@ -1,42 +1,169 @@
-import { Express, Request, Response } from 'express';
+import { Express, Request, Response, NextFunction } from 'express';
+import {
+  assertOwnRestaurant,
+  getCallerRestaurantId,
+  requireApiKey,
+} from '../middleware/apiKeyAuth';
+import { idempotent } from '../middleware/idempotency';
+import { rateLimit } from '../middleware/rateLimit';
+import { cancelDelivery } from '../services/delivery/cancel';
+import { dispatchDelivery } from '../services/delivery/dispatch';
+import { requestQuotes } from '../services/delivery/quotes';
+import { getDeliveryStatus } from '../services/delivery/status';
+import { updateDelivery } from '../services/delivery/update';
+import { generateReport, reportToCsv } from '../services/delivery/report';
+import {
+  cancelRequestSchema,
+  deliveryUpdateSchema,
+  dispatchRequestSchema,
+  quoteRequestSchema,
+  reportQuerySchema,
+} from '../services/delivery/types';
+import { getQuoteCost } from '../services/rateLimits';
+import { parseBody, parseQuery } from '../utils/validation';
 
 /**
  * Setup routes for the delivery API
+ *
+ * Every route needs a restaurant API key and only sees that restaurant's
+ * quotes and deliveries.
  */
 export const setupDeliveryRoutes = (app: Express) => {
   /**
    * @route POST /v1/delivery/quote
    * @description Get quotes from both delivery providers and compare them
    */
-  app.post('/v1/delivery/quote', (req: Request, res: Response) => {
-    // This will be implemented in Phase 3
-    res.status(501).json({ message: 'Not implemented yet' });
-  });
+  app.post(
+    '/v1/delivery/quote',
+    requireApiKey('quote'),
+    rateLimit(getQuoteCost),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const quoteRequest = parseBody(quoteRequestSchema, req.body);
+        assertOwnRestaurant(req, quoteRequest.restaurant_id);
+        const comparison = await requestQuotes(quoteRequest);
+        res.status(200).json(comparison);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
 
   /**
    * @route POST /v1/delivery/dispatch
-   * @description Select the cheaper provider and create a delivery
+   * @description Select the cheaper provider and create a delivery; safe to retry with an Idempotency-Key
    */
-  app.post('/v1/delivery/dispatch', (req: Request, res: Response) => {
-    // This will be implemented in Phase 3
-    res.status(501).json({ message: 'Not implemented yet' });
-  });
+  app.post(
+    '/v1/delivery/dispatch',
+    requireApiKey('dispatch'),
+    rateLimit(),
+    idempotent(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const dispatchRequest = parseBody(dispatchRequestSchema, req.body);
+        if ('restaurant_id' in dispatchRequest) {
+          assertOwnRestaurant(req, dispatchRequest.restaurant_id);
+        }
+        const result = await dispatchDelivery(dispatchRequest, getCallerRestaurantId(req));
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
 
   /**
    * @route GET /v1/delivery/:id/status
-   * @description Get the status of a delivery
+   * @description Get the status of a delivery, polling the provider when stored state is stale
    */
-  app.get('/v1/delivery/:id/status', (req: Request, res: Response) => {
-    // This will be implemented in Phase 3
-    res.status(501).json({ message: 'Not implemented yet' });
-  });
+  app.get(
+    '/v1/delivery/:id/status',
+    requireApiKey('dispatch', 'report'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const status = await getDeliveryStatus(req.params.id, getCallerRestaurantId(req));
+        res.status(200).json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route PATCH /v1/delivery/:id
+   * @description Change dropoff instructions, contact phone, tip or time windows with the delivery's provider
+   */
+  app.patch(
+    '/v1/delivery/:id',
+    requireApiKey('dispatch'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const changes = parseBody(deliveryUpdateSchema, req.body);
+        const result = await updateDelivery(req.params.id, changes, getCallerRestaurantId(req));
+        res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /v1/delivery/:id/cancel
+   * @description Cancel a delivery with its provider before pickup; safe to retry with an Idempotency-Key
+   */
+  app.post(
+    '/v1/delivery/:id/cancel',
+    requireApiKey('dispatch'),
+    rateLimit(),
+    idempotent(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { reason } = parseBody(cancelRequestSchema, req.body);
+        const cancellation = await cancelDelivery(
+          req.params.id,
+          reason,
+          getCallerRestaurantId(req)
+        );
+        res.status(200).json(cancellation);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
 
   /**
    * @route GET /v1/delivery/report
-   * @description Generate an admin report on deliveries
+   * @description Savings and performance report per restaurant and date range, as JSON or CSV
    */
-  app.get('/v1/delivery/report', (req: Request, res: Response) => {
-    // This will be implemented in Phase 3
-    res.status(501).json({ message: 'Not implemented yet' });
-  });
+  app.get(
+    '/v1/delivery/report',
+    requireApiKey('report'),
+    rateLimit(),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const query = parseQuery(reportQuerySchema, req.query);
+        if (query.restaurant_id) {
+          assertOwnRestaurant(req, query.restaurant_id);
+        }
+        const report = await generateReport({
+          ...query,
+          restaurant_id: getCallerRestaurantId(req),
+        });
+
+        if (query.format === 'csv') {
+          res
+            .status(200)
+            .type('text/csv')
+            .attachment('delivery-report.csv')
+            .send(reportToCsv(report));
+          return;
+        }
+        res.status(200).json(report);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
 };
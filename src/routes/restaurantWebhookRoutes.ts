@@ -0,0 +1,117 @@
+import { Express, Request, Response, NextFunction } from 'express';
+import { requireApiKey, requireOwnRestaurant } from '../middleware/apiKeyAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  getWebhookEndpoint,
+  listRestaurantEvents,
+  outboundWebhookEventQuerySchema,
+  redeliverEvent,
+  registerWebhookEndpoint,
+  removeWebhookEndpoint,
+  webhookEndpointRequestSchema,
+} from '../services/restaurantWebhooks';
+import { parseBody, parseQuery } from '../utils/validation';
+
+/**
+ * Setup routes for restaurants' delivery event webhooks
+ *
+ * Each restaurant manages its own endpoint with an `admin` API key.
+ */
+export const setupRestaurantWebhookRoutes = (app: Express) => {
+  /**
+   * @route PUT /v1/restaurants/:restaurantId/webhook
+   * @description Register or update the URL delivery events are sent to
+   */
+  app.put(
+    '/v1/restaurants/:restaurantId/webhook',
+    requireApiKey('admin'),
+    rateLimit(),
+    requireOwnRestaurant,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const request = parseBody(webhookEndpointRequestSchema, req.body);
+        const endpoint = await registerWebhookEndpoint(req.params.restaurantId, request);
+        res.status(200).json(endpoint);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route GET /v1/restaurants/:restaurantId/webhook
+   * @description Get the registered endpoint, without its secret
+   */
+  app.get(
+    '/v1/restaurants/:restaurantId/webhook',
+    requireApiKey('admin'),
+    rateLimit(),
+    requireOwnRestaurant,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const endpoint = await getWebhookEndpoint(req.params.restaurantId);
+        res.status(200).json(endpoint);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route DELETE /v1/restaurants/:restaurantId/webhook
+   * @description Stop sending delivery events
+   */
+  app.delete(
+    '/v1/restaurants/:restaurantId/webhook',
+    requireApiKey('admin'),
+    rateLimit(),
+    requireOwnRestaurant,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await removeWebhookEndpoint(req.params.restaurantId);
+        res.status(204).end();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route GET /v1/restaurants/:restaurantId/webhook/events
+   * @description Delivery log of events sent to the restaurant, newest first
+   */
+  app.get(
+    '/v1/restaurants/:restaurantId/webhook/events',
+    requireApiKey('admin'),
+    rateLimit(),
+    requireOwnRestaurant,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const query = parseQuery(outboundWebhookEventQuerySchema, req.query);
+        const events = await listRestaurantEvents(req.params.restaurantId, query);
+        res.status(200).json({ events });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /v1/restaurants/:restaurantId/webhook/events/:eventId/redeliver
+   * @description Send an event again now
+   */
+  app.post(
+    '/v1/restaurants/:restaurantId/webhook/events/:eventId/redeliver',
+    requireApiKey('admin'),
+    rateLimit(),
+    requireOwnRestaurant,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const event = await redeliverEvent(req.params.restaurantId, req.params.eventId);
+        res.status(200).json(event);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
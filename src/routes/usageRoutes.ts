@@ -0,0 +1,32 @@
+import { Express, Request, Response, NextFunction } from 'express';
+import { getCaller, requireApiKey } from '../middleware/apiKeyAuth';
+import { API_KEY_SCOPES } from '../services/apiKeys';
+import { getQuoteCost, getRateLimitUsage } from '../services/rateLimits';
+
+/**
+ * Setup routes reporting API consumption
+ */
+export const setupUsageRoutes = (app: Express) => {
+  /**
+   * @route GET /v1/usage
+   * @description Rate limits of the caller's key and restaurant, and how much of them is used
+   */
+  app.get(
+    '/v1/usage',
+    requireApiKey(...API_KEY_SCOPES),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const principal = getCaller(req);
+        const limits = await getRateLimitUsage(principal);
+        res.status(200).json({
+          key_id: principal.key_id,
+          restaurant_id: principal.restaurant_id,
+          quote_cost: getQuoteCost(),
+          limits,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
@@ -0,0 +1,118 @@
+import { Express, Request, Response, NextFunction } from 'express';
+import { requireAdminToken } from '../middleware/adminAuth';
+import {
+  deadLetterQuerySchema,
+  deadLetterReplaySchema,
+  deadLetterUpdateSchema,
+  getDeadLetter,
+  listDeadLetters,
+  replayDeadLetter,
+  replayDeadLetters,
+  toDeadLetterSummary,
+  updateDeadLetter,
+} from '../webhooks/deadLetter';
+import { parseBody, parseQuery } from '../utils/validation';
+
+/**
+ * Setup operator routes for webhooks that failed every processing attempt
+ */
+export const setupWebhookAdminRoutes = (app: Express) => {
+  /**
+   * @route GET /admin/webhooks/dead-letter
+   * @description List failed webhooks by provider, time range and failure text, oldest first
+   */
+  app.get(
+    '/admin/webhooks/dead-letter',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const query = parseQuery(deadLetterQuerySchema, req.query);
+        const webhooks = await listDeadLetters(query);
+        res.status(200).json({
+          count: webhooks.length,
+          webhooks: webhooks.map(toDeadLetterSummary),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /admin/webhooks/dead-letter/replay
+   * @description Replay every failed webhook matching a filter
+   */
+  app.post(
+    '/admin/webhooks/dead-letter/replay',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const request = parseBody(deadLetterReplaySchema, req.body);
+        const result = await replayDeadLetters(request);
+        res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route GET /admin/webhooks/dead-letter/:id
+   * @description Get a failed webhook with its payload and last processing result
+   */
+  app.get(
+    '/admin/webhooks/dead-letter/:id',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const record = await getDeadLetter(req.params.id);
+        res.status(200).json({
+          ...toDeadLetterSummary(record),
+          rawData: record.rawData,
+          originalRawData: record.originalRawData,
+          processingResult: record.processingResult && {
+            ...record.processingResult,
+            error: record.processingResult.error?.message,
+          },
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route PATCH /admin/webhooks/dead-letter/:id
+   * @description Annotate a failed webhook or correct its payload before replaying it
+   */
+  app.patch(
+    '/admin/webhooks/dead-letter/:id',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const update = parseBody(deadLetterUpdateSchema, req.body);
+        const record = await updateDeadLetter(req.params.id, update);
+        res.status(200).json({ ...toDeadLetterSummary(record), rawData: record.rawData });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /admin/webhooks/dead-letter/:id/replay
+   * @description Replay a failed webhook through its processor
+   */
+  app.post(
+    '/admin/webhooks/dead-letter/:id/replay',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const record = await replayDeadLetter(req.params.id);
+        res.status(200).json(toDeadLetterSummary(record));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+};
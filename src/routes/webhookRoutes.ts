@@ -1,7 +1,8 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import { WebhookQueue } from '../webhooks/WebhookQueue';
 import { WebhookStorage } from '../webhooks/WebhookStorage';
 import { WebhookProvider } from '../webhooks/types';
+import { requireAdminToken } from '../middleware/adminAuth';
 import { validateDoorDashWebhook } from '../middleware/doordashAuth';
 import { validateUberWebhook } from '../middleware/uberAuth';
 
@@ -33,17 +34,21 @@ export function setupWebhookRoutes(app: express.Express): void {
     
     try {
       // Add to webhook queue for processing
-      const webhookId = await webhookQueue.addToQueue(
+      const { webhookId, duplicate } = await webhookQueue.addToQueue(
         WebhookProvider.DOORDASH,
         req.body,
-        req.headers as Record<string, string>
+        req.headers as Record<string, string>,
+        req.rawBody?.toString('utf8')
       );
 
-      // Return immediate success response
+      // Return immediate success response; redeliveries get the original webhook's ID
       res.status(202).json({
         success: true,
-        message: 'Webhook received and queued for processing',
-        webhookId
+        message: duplicate
+          ? 'Duplicate webhook; already received'
+          : 'Webhook received and queued for processing',
+        webhookId,
+        duplicate
       });
     } catch (error) {
       console.error('Error queuing DoorDash webhook:', error);
@@ -75,17 +80,21 @@ export function setupWebhookRoutes(app: express.Express): void {
     
     try {
       // Add to webhook queue for processing
-      const webhookId = await webhookQueue.addToQueue(
+      const { webhookId, duplicate } = await webhookQueue.addToQueue(
         WebhookProvider.UBER,
         req.body,
-        req.headers as Record<string, string>
+        req.headers as Record<string, string>,
+        req.rawBody?.toString('utf8')
       );
 
-      // Return immediate success response
+      // Return immediate success response; redeliveries get the original webhook's ID
       res.status(202).json({
         success: true,
-        message: 'Webhook received and queued for processing',
-        webhookId
+        message: duplicate
+          ? 'Duplicate webhook; already received'
+          : 'Webhook received and queued for processing',
+        webhookId,
+        duplicate
       });
     } catch (error) {
       console.error('Error queuing Uber webhook:', error);
@@ -97,69 +106,89 @@ export function setupWebhookRoutes(app: express.Express): void {
     }
   });
 
-  // Webhook management routes
-  app.get('/webhooks', (req: Request, res: Response) => {
-    // Get all webhooks from storage
-    const webhooks = webhookStorage.getAllWebhooks();
-    res.status(200).json({
-      count: webhooks.length,
-      webhooks: webhooks.map(webhook => ({
-        id: webhook.id,
-        provider: webhook.provider,
-        receivedAt: webhook.receivedAt,
-        status: webhook.status,
-        processingAttempts: webhook.processingAttempts,
-        processedAt: webhook.processedAt,
-        lastProcessingAttempt: webhook.lastProcessingAttempt
-      }))
-    });
-  });
-
-  app.get('/webhooks/:id', (req: Request, res: Response) => {
-    // Get webhook by ID from storage
-    const webhook = webhookStorage.getWebhook(req.params.id);
-    
-    if (!webhook) {
-      return res.status(404).json({
-        success: false,
-        message: `Webhook not found: ${req.params.id}`
-      });
+  // Webhook management routes, for operators: stored webhooks cover every restaurant
+  app.get(
+    '/webhooks',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // Get all webhooks from storage
+        const webhooks = await webhookStorage.getAllWebhooks();
+        res.status(200).json({
+          count: webhooks.length,
+          webhooks: webhooks.map(webhook => ({
+            id: webhook.id,
+            provider: webhook.provider,
+            receivedAt: webhook.receivedAt,
+            status: webhook.status,
+            processingAttempts: webhook.processingAttempts,
+            processedAt: webhook.processedAt,
+            lastProcessingAttempt: webhook.lastProcessingAttempt
+          }))
+        });
+      } catch (error) {
+        next(error);
+      }
     }
+  );
 
-    res.status(200).json({
-      success: true,
-      webhook
-    });
-  });
+  app.get(
+    '/webhooks/:id',
+    requireAdminToken,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // Get webhook by ID from storage
+        const webhook = await webhookStorage.getWebhook(req.params.id);
 
-  app.get('/webhooks/provider/:provider', (req: Request, res: Response) => {
-    // Get webhooks by provider from storage
-    try {
-      const provider = req.params.provider.toLowerCase() as WebhookProvider;
-      if (!Object.values(WebhookProvider).includes(provider)){
-        throw new Error(`Invalid provider: ${req.params.provider}`);
+        if (!webhook) {
+          return res.status(404).json({
+            success: false,
+            message: `Webhook not found: ${req.params.id}`
+          });
+        }
+
+        res.status(200).json({
+          success: true,
+          webhook
+        });
+      } catch (error) {
+        next(error);
       }
-      const webhooks = webhookStorage.getWebhooksByProvider(provider);
+    }
+  );
+
+  app.get(
+    '/webhooks/provider/:provider',
+    requireAdminToken,
+    async (req: Request, res: Response) => {
+      // Get webhooks by provider from storage
+      try {
+        const provider = req.params.provider.toLowerCase() as WebhookProvider;
+        if (!Object.values(WebhookProvider).includes(provider)){
+          throw new Error(`Invalid provider: ${req.params.provider}`);
+        }
+        const webhooks = await webhookStorage.getWebhooksByProvider(provider);
       
-      res.status(200).json({
-        success: true,
-        count: webhooks.length,
-        webhooks: webhooks.map(webhook => ({
-          id: webhook.id,
-          provider: webhook.provider,
-          receivedAt: webhook.receivedAt,
-          status: webhook.status,
-          processingAttempts: webhook.processingAttempts,
-          processedAt: webhook.processedAt,
-          lastProcessingAttempt: webhook.lastProcessingAttempt
-        }))
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: `Invalid provider or error fetching webhooks: ${req.params.provider}`,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+        res.status(200).json({
+          success: true,
+          count: webhooks.length,
+          webhooks: webhooks.map(webhook => ({
+            id: webhook.id,
+            provider: webhook.provider,
+            receivedAt: webhook.receivedAt,
+            status: webhook.status,
+            processingAttempts: webhook.processingAttempts,
+            processedAt: webhook.processedAt,
+            lastProcessingAttempt: webhook.lastProcessingAttempt
+          }))
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid provider or error fetching webhooks: ${req.params.provider}`,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
     }
-  });
+  );
 }
@@ -0,0 +1,42 @@
+/**
+ * Copy webhooks stored as JSON files into the configured webhook store
+ *
+ * Records already in the target are skipped, so the script can be re-run.
+ *
+ * Run with: npx ts-node src/scripts/migrate-webhooks.ts [source-dir] [target-driver]
+ *   source-dir     Directory with the webhook files (default: WEBHOOK_STORAGE_PATH or data/webhooks)
+ *   target-driver  supabase | file | memory (default: WEBHOOK_STORAGE_DRIVER, see src/webhooks/storage)
+ */
+
+import {
+  copyWebhooks,
+  createWebhookStore,
+  FileWebhookStore,
+  getWebhookStorageDriver,
+  getWebhookStoragePath,
+  WebhookStorageDriver,
+} from '../webhooks/storage';
+
+const sourcePath = process.argv[2] || getWebhookStoragePath();
+const targetDriver = (process.argv[3] as WebhookStorageDriver) || getWebhookStorageDriver();
+
+const main = async (): Promise<void> => {
+  if (targetDriver === 'file') {
+    console.error('Target driver is "file"; choose a different driver to migrate to.');
+    process.exit(1);
+  }
+
+  console.log(`\n=== Migrating webhooks from ${sourcePath} to ${targetDriver} ===\n`);
+
+  const result = await copyWebhooks(
+    new FileWebhookStore(sourcePath),
+    createWebhookStore(targetDriver)
+  );
+
+  console.log(`✅ Copied ${result.copied} webhooks, skipped ${result.skipped} already migrated`);
+};
+
+main().catch(error => {
+  console.error('❌ Webhook migration failed:', error);
+  process.exit(1);
+});
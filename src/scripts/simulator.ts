@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+import { createSimulatorApp, getSimulatorPort, ProviderSimulator } from '../simulator';
+
+// Load environment variables; the simulator signs webhooks with the service's own secrets
+dotenv.config();
+
+/**
+ * Local DoorDash Drive and Uber Direct simulator
+ *
+ * Start the service with DD_API_BASE_URL, UBER_AUTH_URL and UBER_API_BASE_URL
+ * pointing here to quote and book deliveries without calling the real APIs.
+ */
+const port = getSimulatorPort();
+const simulator = new ProviderSimulator();
+simulator.baseUrl = `http://localhost:${port}`;
+
+createSimulatorApp(simulator).listen(port, () => {
+  console.info(`Courier simulator running on port ${port}`);
+  console.info(`  DD_API_BASE_URL=http://localhost:${port}/drive/v2`);
+  console.info(`  UBER_AUTH_URL=http://localhost:${port}/oauth/v2/token`);
+  console.info(`  UBER_API_BASE_URL=http://localhost:${port}/v1`);
+  console.info(
+    `Webhooks go to ${simulator.options.webhookUrl} at ${simulator.options.speed}x speed` +
+      (simulator.options.autoAdvance ? '' : ' (advance deliveries with /_sim)')
+  );
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  authenticateApiKey,
+  createApiKey,
+  hashApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+} from '..';
+import { createMemoryRepositories, Repositories, setRepositories } from '../../../db';
+
+let repositories: Repositories;
+
+describe('API keys', () => {
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  afterEach(() => {
+    setRepositories(undefined);
+  });
+
+  it('should resolve a key to its restaurant and scopes, storing only its hash', async () => {
+    const created = await createApiKey('restaurant-1', {
+      name: 'POS',
+      scopes: ['quote', 'dispatch', 'quote'],
+    });
+
+    expect(created.key).toMatch(/^ck_[0-9a-f]{12}_/);
+    expect(created.key!.startsWith(created.prefix)).toBe(true);
+    const [stored] = await repositories.apiKeys.listByRestaurant('restaurant-1');
+    expect(stored.key_hash).toBe(hashApiKey(created.key!));
+    expect(JSON.stringify(stored)).not.toContain(created.key);
+    expect((await listApiKeys('restaurant-1'))[0]).not.toHaveProperty('key');
+
+    expect(await authenticateApiKey(created.key!)).toEqual({
+      key_id: created.id,
+      restaurant_id: 'restaurant-1',
+      scopes: ['quote', 'dispatch'],
+    });
+    const tampered = created.key!.slice(0, -1) + (created.key!.endsWith('A') ? 'B' : 'A');
+    expect(await authenticateApiKey(tampered)).toBeNull();
+    expect(await authenticateApiKey('not-a-key')).toBeNull();
+  });
+
+  it('should keep a rotated key working until its grace period ends', async () => {
+    const now = Date.parse('2026-10-19T12:00:00.000Z');
+    const original = await createApiKey('restaurant-1', { name: 'POS', scopes: ['report'] });
+
+    const rotated = await rotateApiKey('restaurant-1', original.id, { grace_seconds: 3600 }, now);
+
+    expect(rotated.key).not.toBe(original.key);
+    expect(rotated.scopes).toEqual(['report']);
+    expect(await authenticateApiKey(original.key!, now + 3599 * 1000)).not.toBeNull();
+    expect(await authenticateApiKey(original.key!, now + 3600 * 1000)).toBeNull();
+    expect(await authenticateApiKey(rotated.key!, now + 3600 * 1000)).not.toBeNull();
+  });
+
+  it('should reject revoked and expired keys', async () => {
+    const revoked = await createApiKey('restaurant-1', { name: 'Old', scopes: ['quote'] });
+    const expired = await createApiKey('restaurant-1', {
+      name: 'Trial',
+      scopes: ['quote'],
+      expires_at: '2026-01-01T00:00:00Z',
+    });
+
+    await revokeApiKey('restaurant-1', revoked.id);
+
+    expect(await authenticateApiKey(revoked.key!)).toBeNull();
+    expect(await authenticateApiKey(expired.key!)).toBeNull();
+    await expect(rotateApiKey('restaurant-1', revoked.id)).rejects.toMatchObject({
+      status: 409,
+      code: 'api_key_inactive',
+    });
+  });
+
+  it("should not let a restaurant manage another restaurant's keys", async () => {
+    const other = await createApiKey('restaurant-2', { name: 'POS', scopes: ['admin'] });
+
+    await expect(revokeApiKey('restaurant-1', other.id)).rejects.toMatchObject({
+      status: 404,
+      code: 'api_key_not_found',
+    });
+    await expect(rotateApiKey('restaurant-1', other.id)).rejects.toMatchObject({ status: 404 });
+    expect(await listApiKeys('restaurant-1')).toEqual([]);
+    expect(await authenticateApiKey(other.key!)).not.toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { ApiKeyRow, getRepositories } from '../../db';
+import { ApiError } from '../../utils/errors';
+import { safeEqual } from '../../utils/webhookSignature';
+import { ApiKeyPrincipal, ApiKeyRequest, ApiKeyRotation, ApiKeyScope, ApiKeyView } from './types';
+
+// Keys look like ck_<prefix>_<secret>; the prefix finds the stored hash to compare against
+const KEY_PATTERN = /^ck_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Get how long a rotated key keeps working by default
+ * @returns API_KEY_ROTATION_GRACE_SECONDS, or one day
+ */
+export const getRotationGraceSeconds = (): number => {
+  const seconds = Number(process.env.API_KEY_ROTATION_GRACE_SECONDS);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_ROTATION_GRACE_SECONDS;
+};
+
+/**
+ * Hash a key for storage and comparison
+ * @param key The key
+ * @returns The hex SHA-256 digest
+ */
+export const hashApiKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Build the API view of a key
+ * @param row The key row
+ * @param key The key itself, when it was just created
+ * @returns The key view
+ */
+const toApiKeyView = (row: ApiKeyRow, key?: string): ApiKeyView => ({
+  id: row.id,
+  restaurant_id: row.restaurant_id,
+  name: row.name,
+  prefix: `ck_${row.prefix}`,
+  scopes: row.scopes as ApiKeyScope[],
+  created_at: row.created_at,
+  expires_at: row.expires_at,
+  revoked_at: row.revoked_at,
+  ...(key ? { key } : {}),
+});
+
+/**
+ * Check whether a key can still be used
+ * @param row The key row
+ * @param now The current time in milliseconds
+ * @returns Whether the key is neither revoked nor expired
+ */
+const isUsable = (row: ApiKeyRow, now: number): boolean =>
+  !row.revoked_at && (!row.expires_at || Date.parse(row.expires_at) > now);
+
+/**
+ * Create a key for a restaurant
+ * @param restaurantId The restaurant ID
+ * @param request The key's name, scopes and optional expiry
+ * @returns The key, including the key itself, which is not stored and cannot be shown again
+ */
+export const createApiKey = async (
+  restaurantId: string,
+  request: ApiKeyRequest
+): Promise<ApiKeyView> => {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const key = `ck_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+  const row = await getRepositories().apiKeys.create({
+    restaurant_id: restaurantId,
+    name: request.name,
+    prefix,
+    key_hash: hashApiKey(key),
+    scopes: Array.from(new Set(request.scopes)),
+    expires_at: request.expires_at ? new Date(request.expires_at).toISOString() : null,
+  });
+  return toApiKeyView(row, key);
+};
+
+/**
+ * List a restaurant's keys, including revoked and expired ones
+ * @param restaurantId The restaurant ID
+ * @returns The keys, oldest first, without the keys themselves
+ */
+export const listApiKeys = async (restaurantId: string): Promise<ApiKeyView[]> => {
+  const rows = await getRepositories().apiKeys.listByRestaurant(restaurantId);
+  return rows.map(row => toApiKeyView(row));
+};
+
+/**
+ * Load one of a restaurant's keys
+ * @param restaurantId The restaurant ID
+ * @param keyId The key ID
+ * @returns The key row
+ * @throws ApiError 404 if the key does not exist or belongs to another restaurant
+ */
+const getOwnApiKey = async (restaurantId: string, keyId: string): Promise<ApiKeyRow> => {
+  const row = await getRepositories().apiKeys.getById(keyId);
+  if (!row || row.restaurant_id !== restaurantId) {
+    throw new ApiError(404, 'api_key_not_found', `API key not found: ${keyId}`);
+  }
+  return row;
+};
+
+/**
+ * Replace a key with a new one with the same name and scopes
+ *
+ * The old key keeps working for a grace period, so clients can switch over
+ * without downtime.
+ * @param restaurantId The restaurant ID
+ * @param keyId The ID of the key to replace
+ * @param rotation How long the old key keeps working
+ * @param now The current time in milliseconds
+ * @returns The new key, including the key itself
+ */
+export const rotateApiKey = async (
+  restaurantId: string,
+  keyId: string,
+  rotation: ApiKeyRotation = {},
+  now: number = Date.now()
+): Promise<ApiKeyView> => {
+  const row = await getOwnApiKey(restaurantId, keyId);
+  if (!isUsable(row, now)) {
+    throw new ApiError(409, 'api_key_inactive', `API key ${keyId} is revoked or expired`);
+  }
+
+  const created = await createApiKey(restaurantId, {
+    name: row.name,
+    scopes: row.scopes as ApiKeyScope[],
+    ...(row.expires_at ? { expires_at: row.expires_at } : {}),
+  });
+
+  const graceEnd = now + (rotation.grace_seconds ?? getRotationGraceSeconds()) * 1000;
+  const expiresAt = row.expires_at ? Math.min(Date.parse(row.expires_at), graceEnd) : graceEnd;
+  await getRepositories().apiKeys.update(row.id, {
+    expires_at: new Date(expiresAt).toISOString(),
+  });
+  return created;
+};
+
+/**
+ * Revoke a key at once
+ * @param restaurantId The restaurant ID
+ * @param keyId The key ID
+ * @returns The revoked key
+ */
+export const revokeApiKey = async (restaurantId: string, keyId: string): Promise<ApiKeyView> => {
+  const row = await getOwnApiKey(restaurantId, keyId);
+  if (row.revoked_at) {
+    return toApiKeyView(row);
+  }
+  const revoked = await getRepositories().apiKeys.update(row.id, {
+    revoked_at: new Date().toISOString(),
+  });
+  return toApiKeyView(revoked);
+};
+
+/**
+ * Resolve the caller a key belongs to
+ * @param key The key as sent by the client
+ * @param now The current time in milliseconds
+ * @returns The caller, or null if the key is unknown, revoked or expired
+ */
+export const authenticateApiKey = async (
+  key: string,
+  now: number = Date.now()
+): Promise<ApiKeyPrincipal | null> => {
+  const match = KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+
+  const row = await getRepositories().apiKeys.getByPrefix(match[1]);
+  if (!row || !safeEqual(hashApiKey(key), row.key_hash) || !isUsable(row, now)) {
+    return null;
+  }
+  return {
+    key_id: row.id,
+    restaurant_id: row.restaurant_id,
+    scopes: row.scopes as ApiKeyScope[],
+  };
+};
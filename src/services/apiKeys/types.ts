@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+/**
+ * What a key may be used for
+ *
+ * - `quote`: request quotes
+ * - `dispatch`: dispatch deliveries and track them
+ * - `report`: read delivery reports and track deliveries
+ * - `admin`: manage the restaurant's keys, webhook endpoint and DoorDash business
+ */
+export const API_KEY_SCOPES = ['quote', 'dispatch', 'report', 'admin'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * The caller a request was authenticated as
+ */
+export interface ApiKeyPrincipal {
+  key_id: string;
+  restaurant_id: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * A key as returned by the API; the key itself is only included when it was just created
+ */
+export interface ApiKeyView {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  prefix: string; // Start of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  key?: string;
+}
+
+/**
+ * Body of POST /v1/api-keys and POST /admin/restaurants/:restaurantId/api-keys
+ */
+export const apiKeyRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expires_at: z.string().datetime({ offset: true }).optional(),
+});
+
+export type ApiKeyRequest = z.infer<typeof apiKeyRequestSchema>;
+
+const MAX_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Body of POST /v1/api-keys/:id/rotate
+ */
+export const apiKeyRotationSchema = z.object({
+  // How long the old key keeps working, so clients can switch over
+  grace_seconds: z.number().int().min(0).max(MAX_GRACE_SECONDS).optional(),
+});
+
+export type ApiKeyRotation = z.infer<typeof apiKeyRotationSchema>;
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cancelDelivery } from '../cancel';
+import * as doordashSdk from '../../../clients/doordashSdk';
+import * as uber from '../../../clients/uber';
+import { createMemoryRepositories, Repositories, setRepositories } from '../../../db';
+import { WebhookDeliveryStatus } from '../../../webhooks/types';
+
+vi.mock('../../../clients/doordashSdk', () => ({
+  cancelDelivery: vi.fn(),
+}));
+
+vi.mock('../../../clients/uber', () => ({
+  cancelDelivery: vi.fn(),
+}));
+
+vi.mock('../../../webhooks/WebhookStorage', () => ({
+  WebhookStorage: { getInstance: vi.fn(() => ({})) },
+}));
+
+let repositories: Repositories;
+
+const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+const storeDelivery = (overrides: Record<string, unknown> = {}) =>
+  repositories.deliveries.create({
+    id: 'delivery-1',
+    restaurant_id: 'restaurant-1',
+    pickup_address: {},
+    dropoff_address: {},
+    fee: 850,
+    fee_currency: 'USD',
+    status: WebhookDeliveryStatus.ASSIGNED,
+    provider: 'uber',
+    provider_delivery_id: 'uber-delivery-1',
+    tracking_url: 'https://track.uber.com/1',
+    estimated_pickup_time: null,
+    estimated_dropoff_time: null,
+    actual_pickup_time: null,
+    actual_dropoff_time: null,
+    external_delivery_id: 'set-1',
+    metadata: {
+      provider_status: 'pickup',
+      status_history: [
+        {
+          status: WebhookDeliveryStatus.ASSIGNED,
+          provider_status: 'pickup',
+          source: 'webhook',
+          occurred_at: '2026-10-19T11:50:00.000Z',
+        },
+      ],
+    },
+    ...overrides,
+  });
+
+describe('Delivery cancellation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  it('should cancel with the provider and record the reason', async () => {
+    await storeDelivery();
+    (uber.cancelDelivery as any).mockResolvedValue({ id: 'uber-delivery-1', status: 'canceled' });
+
+    const cancellation = await cancelDelivery(
+      'delivery-1',
+      'Customer changed their mind',
+      'restaurant-1',
+      now
+    );
+
+    expect(uber.cancelDelivery).toHaveBeenCalledWith('uber-delivery-1');
+    expect(cancellation).toEqual({
+      id: 'delivery-1',
+      provider: 'uber',
+      provider_delivery_id: 'uber-delivery-1',
+      status: WebhookDeliveryStatus.CANCELLED,
+      provider_status: 'canceled',
+      reason: 'Customer changed their mind',
+      cancellation_fee: null,
+      currency: 'USD',
+      cancelled_at: '2026-10-19T12:00:00.000Z',
+    });
+
+    const stored = await repositories.deliveries.getById('delivery-1');
+    expect(stored?.status).toBe(WebhookDeliveryStatus.CANCELLED);
+    expect(stored?.metadata).toMatchObject({
+      cancellation: { reason: 'Customer changed their mind', cancellation_fee: null },
+      status_history: [{ status: 'assigned' }, { status: 'cancelled', source: 'cancel' }],
+    });
+  });
+
+  it('should not take the delivery fee for a cancellation fee', async () => {
+    await storeDelivery({ provider: 'doordash', provider_delivery_id: 'set-1' });
+    (doordashSdk.cancelDelivery as any).mockResolvedValue({
+      external_delivery_id: 'set-1',
+      delivery_status: 'cancelled',
+      fee: 9.75,
+    });
+
+    const cancellation = await cancelDelivery('delivery-1', 'Kitchen closed', undefined, now);
+
+    expect(doordashSdk.cancelDelivery).toHaveBeenCalledWith('set-1');
+    expect(cancellation.cancellation_fee).toBeNull();
+    expect((await repositories.deliveries.getById('delivery-1'))?.metadata).toMatchObject({
+      cancellation: { reason: 'Kitchen closed', cancellation_fee: null },
+    });
+  });
+
+  it('should record the cancellation after a transition stamped by a clock ahead of ours', async () => {
+    await storeDelivery({
+      metadata: {
+        status_history: [
+          {
+            status: WebhookDeliveryStatus.ASSIGNED,
+            provider_status: 'pickup',
+            source: 'webhook',
+            occurred_at: '2026-10-19T12:00:05.000Z',
+          },
+        ],
+      },
+    });
+    (uber.cancelDelivery as any).mockResolvedValue({ id: 'uber-delivery-1', status: 'canceled' });
+
+    await cancelDelivery('delivery-1', 'Customer changed their mind', undefined, now);
+
+    const stored = await repositories.deliveries.getById('delivery-1');
+    expect(stored?.status).toBe(WebhookDeliveryStatus.CANCELLED);
+    expect(stored?.metadata).toMatchObject({
+      cancellation: { reason: 'Customer changed their mind' },
+      status_history: [
+        { status: 'assigned' },
+        { status: 'cancelled', occurred_at: '2026-10-19T12:00:05.000Z' },
+      ],
+    });
+  });
+
+  it('should keep what changed on the delivery while the provider was cancelling it', async () => {
+    const row = await storeDelivery();
+    (uber.cancelDelivery as any).mockImplementation(async () => {
+      await repositories.deliveries.update('delivery-1', {
+        metadata: { ...(row.metadata as object), courier_location: { latitude: 1, longitude: 2 } },
+        updated_at: '2026-10-19T11:59:59.000Z',
+      });
+      return { id: 'uber-delivery-1', status: 'canceled' };
+    });
+
+    await cancelDelivery('delivery-1', 'Kitchen closed', undefined, now);
+
+    expect((await repositories.deliveries.getById('delivery-1'))?.metadata).toMatchObject({
+      courier_location: { latitude: 1, longitude: 2 },
+      cancellation: { reason: 'Kitchen closed' },
+    });
+  });
+
+  it('should refuse once the order is picked up or already cancelled', async () => {
+    await storeDelivery({ status: WebhookDeliveryStatus.PICKUP });
+
+    await expect(cancelDelivery('delivery-1', 'Too late', undefined, now)).rejects.toMatchObject({
+      status: 409,
+      code: 'cannot_cancel',
+    });
+    expect(uber.cancelDelivery).not.toHaveBeenCalled();
+
+    await repositories.deliveries.update('delivery-1', { status: WebhookDeliveryStatus.CANCELLED });
+    await expect(cancelDelivery('delivery-1', 'Again', undefined, now)).rejects.toMatchObject({
+      status: 409,
+      code: 'already_cancelled',
+    });
+  });
+
+  it("should treat another restaurant's delivery as missing", async () => {
+    await storeDelivery();
+
+    await expect(
+      cancelDelivery('delivery-1', 'Not mine', 'restaurant-2', now)
+    ).rejects.toMatchObject({ status: 404, code: 'delivery_not_found' });
+    expect(uber.cancelDelivery).not.toHaveBeenCalled();
+  });
+
+  it('should leave the delivery unchanged when the provider refuses', async () => {
+    await storeDelivery();
+    (uber.cancelDelivery as any).mockRejectedValue(
+      Object.assign(new Error('Request failed'), {
+        response: { status: 400, data: { code: 'cannot_be_cancelled', message: 'Picked up' } },
+      })
+    );
+
+    await expect(cancelDelivery('delivery-1', 'Late', undefined, now)).rejects.toMatchObject({
+      status: 422,
+      providerCode: 'cannot_be_cancelled',
+    });
+    expect((await repositories.deliveries.getById('delivery-1'))?.status).toBe(
+      WebhookDeliveryStatus.ASSIGNED
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { dispatchDelivery } from '../dispatch';
+import { requestQuotes } from '../quotes';
+import * as doordashSdk from '../../../clients/doordashSdk';
+import * as uber from '../../../clients/uber';
+import { ProviderValidationError } from '../../../clients/errors';
+import { createMemoryRepositories, Repositories, setRepositories } from '../../../db';
+
+vi.mock('../../../clients/doordashSdk', () => ({
+  acceptQuote: vi.fn(),
+}));
+
+vi.mock('../../../clients/uber', () => ({
+  createDelivery: vi.fn(),
+}));
+
+vi.mock('../quotes', async importOriginal => ({
+  ...(await importOriginal<typeof import('../quotes')>()),
+  requestQuotes: vi.fn(),
+}));
+
+const quoteRequest = {
+  restaurant_id: 'restaurant-1',
+  pickup_address: {
+    street: '123 Main St',
+    city: 'San Francisco',
+    state: 'CA',
+    zip_code: '94105',
+    country: 'US',
+  },
+  pickup_business_name: 'Test Restaurant',
+  pickup_phone_number: '+15555550100',
+  pickup_instructions: 'Orders are at the counter',
+  dropoff_address: {
+    street: '456 Market St',
+    city: 'San Francisco',
+    state: 'CA',
+    zip_code: '94105',
+    country: 'US',
+  },
+  dropoff_name: 'Jane Customer',
+  dropoff_phone_number: '+15555550101',
+  dropoff_instructions: 'Leave at the door',
+  items: [{ name: 'Burger', quantity: 2 }],
+};
+
+let repositories: Repositories;
+
+const storeQuote = (id: string, provider: string, fee: number, rank: number, expiresAt: string) =>
+  repositories.quotes.createMany([
+    {
+      id,
+      provider,
+      provider_quote_id: `${provider}-quote`,
+      fee,
+      fee_currency: 'USD',
+      expires_at: expiresAt,
+      external_delivery_id: 'set-1',
+      selected: false,
+      metadata: { restaurant_id: 'restaurant-1', rank, request: quoteRequest },
+    },
+  ]);
+
+const isSelected = async (id: string) =>
+  (await repositories.quotes.listBySet('set-1')).find(quote => quote.id === id)?.selected;
+
+const storedDeliveries = () => repositories.deliveries.list();
+
+const future = () => new Date(Date.now() + 5 * 60 * 1000).toISOString();
+const past = () => new Date(Date.now() - 60 * 1000).toISOString();
+
+describe('Delivery dispatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  it('should dispatch the cheapest quote and record the delivery', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+    await storeQuote('q-dd', 'doordash', 975, 2, future());
+    (uber.createDelivery as any).mockResolvedValue({
+      id: 'uber-delivery-1',
+      status: 'pending',
+      tracking_url: 'https://track.uber.com/1',
+      fee: 850,
+    });
+
+    const result = await dispatchDelivery({ quote_set_id: 'set-1' });
+
+    expect(uber.createDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        quote_id: 'uber-quote',
+        dropoff_name: 'Jane Customer',
+        pickup_notes: 'Orders are at the counter',
+        dropoff_notes: 'Leave at the door',
+      })
+    );
+    expect(doordashSdk.acceptQuote).not.toHaveBeenCalled();
+    expect(result.quote.id).toBe('q-uber');
+    expect(result.delivery).toEqual(
+      expect.objectContaining({
+        restaurant_id: 'restaurant-1',
+        provider: 'uber',
+        provider_delivery_id: 'uber-delivery-1',
+        tracking_url: 'https://track.uber.com/1',
+        fee: 850,
+        external_delivery_id: 'set-1',
+        status: 'pending',
+      })
+    );
+    expect(await isSelected('q-uber')).toBe(true);
+    expect(await storedDeliveries()).toHaveLength(1);
+    expect(await repositories.statusHistory.listByDelivery(result.delivery.id)).toEqual([
+      expect.objectContaining({ from_status: null, to_status: 'pending', source: 'dispatch' }),
+    ]);
+  });
+
+  it('should dispatch a specific quote when one is pinned', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+    await storeQuote('q-dd', 'doordash', 975, 2, future());
+    (doordashSdk.acceptQuote as any).mockResolvedValue({
+      external_delivery_id: 'dd-delivery-1',
+      delivery_status: 'created',
+      tracking_url: 'https://track.doordash.com/1',
+      fee: 9.75,
+      currency: 'USD',
+    });
+
+    const result = await dispatchDelivery({ quote_set_id: 'set-1', quote_id: 'q-dd' });
+
+    expect(result.delivery.provider).toBe('doordash');
+    expect(result.delivery.fee).toBe(975);
+    expect(doordashSdk.acceptQuote).toHaveBeenCalledWith('doordash-quote');
+  });
+
+  it('should reject an expired quote and return a fresh quote set', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, past());
+    (requestQuotes as any).mockResolvedValue({ quote_set_id: 'set-2', quotes: [] });
+
+    await expect(dispatchDelivery({ quote_set_id: 'set-1' })).rejects.toMatchObject({
+      status: 409,
+      code: 'quote_expired',
+      details: { quote_set_id: 'set-2' },
+    });
+    expect(requestQuotes).toHaveBeenCalledWith(quoteRequest);
+    expect(uber.createDelivery).not.toHaveBeenCalled();
+    expect(await storedDeliveries()).toHaveLength(0);
+  });
+
+  it('should fall back to the runner-up when the winner rejects the delivery', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+    await storeQuote('q-dd', 'doordash', 975, 2, future());
+    (uber.createDelivery as any).mockRejectedValue(new Error('Uber 503'));
+    (doordashSdk.acceptQuote as any).mockResolvedValue({
+      external_delivery_id: 'dd-delivery-1',
+      delivery_status: 'created',
+      tracking_url: 'https://track.doordash.com/1',
+      fee: 9.75,
+      currency: 'USD',
+    });
+
+    const result = await dispatchDelivery({ quote_set_id: 'set-1' });
+
+    expect(result.delivery.provider).toBe('doordash');
+    expect(result.attempts.map(a => [a.provider, a.outcome, a.error])).toEqual([
+      ['uber', 'failed', 'Uber 503'],
+      ['doordash', 'succeeded', undefined],
+    ]);
+    expect(result.delivery.metadata).toEqual(
+      expect.objectContaining({ fallback: true, dispatch_attempts: result.attempts })
+    );
+    expect(await isSelected('q-uber')).toBe(false);
+    expect(await isSelected('q-dd')).toBe(true);
+  });
+
+  it('should not fall back when the winner rejects the order details', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+    await storeQuote('q-dd', 'doordash', 975, 2, future());
+    (uber.createDelivery as any).mockRejectedValue(
+      new ProviderValidationError('uber', 'Invalid dropoff phone number')
+    );
+
+    await expect(dispatchDelivery({ quote_set_id: 'set-1' })).rejects.toMatchObject({
+      status: 422,
+      code: 'provider_validation_failed',
+    });
+    expect(doordashSdk.acceptQuote).not.toHaveBeenCalled();
+    expect(await isSelected('q-uber')).toBe(false);
+  });
+
+  it('should skip an expired runner-up and fail with every attempt recorded', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+    await storeQuote('q-dd', 'doordash', 975, 2, past());
+    (uber.createDelivery as any).mockRejectedValue(new Error('Uber 503'));
+
+    const error = await dispatchDelivery({ quote_set_id: 'set-1' }).catch(e => e);
+
+    expect(error).toMatchObject({ status: 502, code: 'dispatch_failed' });
+    expect(error.details.attempts.map((a: any) => a.outcome)).toEqual(['failed', 'skipped']);
+    expect(doordashSdk.acceptQuote).not.toHaveBeenCalled();
+    expect(await storedDeliveries()).toHaveLength(0);
+  });
+
+  it('should refuse to dispatch a quote set twice', async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+    await repositories.quotes.claim('q-uber');
+
+    await expect(dispatchDelivery({ quote_set_id: 'set-1' })).rejects.toMatchObject({
+      status: 409,
+      code: 'already_dispatched',
+    });
+  });
+
+  it('should return 404 for an unknown quote set', async () => {
+    await expect(dispatchDelivery({ quote_set_id: 'missing' })).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should not dispatch another restaurant's quote set", async () => {
+    await storeQuote('q-uber', 'uber', 850, 1, future());
+
+    await expect(dispatchDelivery({ quote_set_id: 'set-1' }, 'restaurant-2')).rejects.toMatchObject(
+      { status: 404, code: 'quote_set_not_found' }
+    );
+    expect(await isSelected('q-uber')).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { requestQuotes, rankQuotes } from '../quotes';
+import { toUberAddress } from '../../../providers/UberProvider';
+import * as doordashSdk from '../../../clients/doordashSdk';
+import * as uber from '../../../clients/uber';
+import { getCircuitBreaker, resetCircuitBreakers } from '../../../clients/http';
+import { AddressUndeliverableError } from '../../../clients/errors';
+import { createMemoryRepositories, Repositories, setRepositories } from '../../../db';
+import { QuoteRequest } from '../types';
+
+vi.mock('../../../clients/doordashSdk', () => ({
+  estimate: vi.fn(),
+}));
+
+vi.mock('../../../clients/uber', () => ({
+  getQuote: vi.fn(),
+}));
+
+const address = {
+  street: '123 Main St',
+  city: 'San Francisco',
+  state: 'CA',
+  zip_code: '94105',
+  country: 'US',
+};
+
+const quoteRequest: QuoteRequest = {
+  restaurant_id: 'restaurant-1',
+  pickup_address: address,
+  pickup_business_name: 'Test Restaurant',
+  pickup_phone_number: '+15555550100',
+  dropoff_address: { ...address, street: '456 Market St' },
+  dropoff_name: 'Jane Customer',
+  dropoff_phone_number: '+15555550101',
+  items: [{ name: 'Burger', quantity: 2 }],
+};
+
+describe('Delivery quotes', () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  it('should rank quotes from both providers and mark the cheapest', async () => {
+    (doordashSdk.estimate as any).mockResolvedValue({
+      quote_id: 'dd-quote',
+      external_delivery_id: 'ignored',
+      expires_at: '2030-01-01T00:05:00Z',
+      fee: 9.75, // In dollars
+      currency: 'USD',
+      dropoff_time_estimated: '2030-01-01T00:40:00Z',
+    });
+    (uber.getQuote as any).mockResolvedValue({
+      id: 'uber-quote',
+      expires: '2030-01-01T00:15:00Z',
+      fee: 850,
+      currency: 'usd',
+      dropoff_eta: '2030-01-01T00:45:00Z',
+    });
+
+    const result = await requestQuotes(quoteRequest);
+
+    expect(result.quotes.map(q => [q.provider, q.fee, q.rank])).toEqual([
+      ['uber', 850, 1],
+      ['doordash', 975, 2],
+    ]);
+    expect(result.cheapest.provider).toBe('uber');
+    expect(result.cheapest.cheapest).toBe(true);
+    expect(result.quotes[1].cheapest).toBe(false);
+    expect(result.quotes.every(q => q.quote_set_id === result.quote_set_id)).toBe(true);
+    expect(result.errors).toEqual([]);
+
+    // The original request is kept with each quote so the set can be dispatched later
+    const rows = await repositories.quotes.listBySet(result.quote_set_id);
+    expect(rows).toHaveLength(2);
+    expect(rows.find(row => row.provider === 'uber')?.metadata).toEqual(
+      expect.objectContaining({ restaurant_id: 'restaurant-1', rank: 1, request: quoteRequest })
+    );
+  });
+
+  it('should report a failing provider and still return the others', async () => {
+    (doordashSdk.estimate as any).mockRejectedValue(new Error('DoorDash unavailable'));
+    (uber.getQuote as any).mockResolvedValue({
+      id: 'uber-quote',
+      expires: '2030-01-01T00:15:00Z',
+      fee: 850,
+      currency: 'USD',
+      dropoff_eta: '2030-01-01T00:45:00Z',
+    });
+
+    const result = await requestQuotes(quoteRequest);
+
+    expect(result.quotes).toHaveLength(1);
+    expect(result.cheapest.provider).toBe('uber');
+    expect(result.errors).toEqual([{ provider: 'doordash', message: 'DoorDash unavailable' }]);
+  });
+
+  it('should skip a provider whose circuit is open', async () => {
+    const breaker = getCircuitBreaker('doordash', { breakerFailureThreshold: 1 });
+    breaker.recordFailure();
+    (uber.getQuote as any).mockResolvedValue({
+      id: 'uber-quote',
+      expires: '2030-01-01T00:15:00Z',
+      fee: 850,
+      currency: 'USD',
+      dropoff_eta: '2030-01-01T00:45:00Z',
+    });
+
+    const result = await requestQuotes(quoteRequest).finally(resetCircuitBreakers);
+
+    expect(doordashSdk.estimate).not.toHaveBeenCalled();
+    expect(result.quotes.map(quote => quote.provider)).toEqual(['uber']);
+    expect(result.errors).toEqual([
+      {
+        provider: 'doordash',
+        message: `Skipped: doordash API unavailable until ${breaker.getRetryAt().toISOString()}`,
+        code: 'provider_unavailable',
+        skipped: true,
+      },
+    ]);
+  });
+
+  it('should fail with 502 when no provider returns a quote', async () => {
+    (doordashSdk.estimate as any).mockRejectedValue(new Error('DoorDash unavailable'));
+    (uber.getQuote as any).mockRejectedValue(new Error('Uber unavailable'));
+    const createMany = vi.spyOn(repositories.quotes, 'createMany');
+
+    await expect(requestQuotes(quoteRequest)).rejects.toMatchObject({
+      status: 502,
+      code: 'no_quotes',
+    });
+    expect(createMany).not.toHaveBeenCalled();
+  });
+
+  it('should answer with the shared reason when every provider fails the same way', async () => {
+    (doordashSdk.estimate as any).mockRejectedValue(
+      new AddressUndeliverableError('doordash', 'Outside delivery area')
+    );
+    (uber.getQuote as any).mockRejectedValue(
+      new AddressUndeliverableError('uber', 'Outside delivery area')
+    );
+
+    const error = await requestQuotes(quoteRequest).catch(e => e);
+
+    expect(error).toMatchObject({ status: 422, code: 'address_undeliverable' });
+    expect(error.details.errors.map((e: any) => e.code)).toEqual([
+      'address_undeliverable',
+      'address_undeliverable',
+    ]);
+  });
+
+  it('should break fee ties on the earliest dropoff', () => {
+    const ranked = rankQuotes([
+      { id: 'late', fee: 500, estimated_dropoff_time: '2030-01-01T01:00:00Z' },
+      { id: 'unknown', fee: 500, estimated_dropoff_time: null },
+      { id: 'early', fee: 500, estimated_dropoff_time: '2030-01-01T00:30:00Z' },
+    ]);
+
+    expect(ranked.map(q => q.id)).toEqual(['early', 'late', 'unknown']);
+  });
+
+  it('should format addresses for Uber as JSON', () => {
+    expect(JSON.parse(toUberAddress({ ...address, unit: 'Apt 2' }))).toEqual({
+      street_address: ['123 Main St', 'Apt 2'],
+      city: 'San Francisco',
+      state: 'CA',
+      zip_code: '94105',
+      country: 'US',
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { buildReport, reportToCsv } from '../report';
+import { reportQuerySchema } from '../types';
+
+const range = { from: new Date('2024-01-01T00:00:00Z'), to: new Date('2024-02-01T00:00:00Z') };
+
+const delivery = (id: string, overrides: Record<string, unknown>) =>
+  ({
+    id,
+    restaurant_id: 'restaurant-1',
+    provider: 'uber',
+    status: 'delivered',
+    fee: 800,
+    external_delivery_id: `set-${id}`,
+    estimated_dropoff_time: '2024-01-10T12:30:00Z',
+    actual_dropoff_time: '2024-01-10T12:25:00Z',
+    metadata: { quote_id: `q-${id}-uber`, quoted_fee: 800 },
+    ...overrides,
+  }) as any;
+
+const quote = (setId: string, id: string, provider: string, fee: number) =>
+  ({ id, provider, fee, external_delivery_id: setId }) as any;
+
+describe('Delivery report', () => {
+  const deliveries = [
+    delivery('1', {}),
+    delivery('2', { actual_dropoff_time: '2024-01-10T12:45:00Z' }),
+    delivery('3', {
+      provider: 'doordash',
+      fee: 950,
+      metadata: { quote_id: 'q-3-dd', quoted_fee: 950 },
+    }),
+    delivery('4', { status: 'cancelled', actual_dropoff_time: null }),
+    delivery('5', { restaurant_id: 'restaurant-2', status: 'failed', actual_dropoff_time: null }),
+  ];
+  const quotes = [
+    quote('set-1', 'q-1-uber', 'uber', 800),
+    quote('set-1', 'q-1-dd', 'doordash', 1000),
+    quote('set-2', 'q-2-uber', 'uber', 800),
+    quote('set-2', 'q-2-dd', 'doordash', 900),
+    // Fallback to the pricier courier shows up as negative savings
+    quote('set-3', 'q-3-uber', 'uber', 850),
+    quote('set-3', 'q-3-dd', 'doordash', 950),
+  ];
+
+  it('should aggregate deliveries per restaurant and provider', () => {
+    const report = buildReport(deliveries, quotes, range);
+
+    expect(report.from).toBe('2024-01-01T00:00:00.000Z');
+    expect(report.restaurants.map(r => r.restaurant_id)).toEqual(['restaurant-1', 'restaurant-2']);
+
+    const [first, second] = report.restaurants;
+    expect(first.totals).toEqual({
+      deliveries: 4,
+      delivered: 3,
+      failed: 0,
+      cancelled: 1,
+      total_fees: 800 + 800 + 950,
+      savings: 200 + 100 - 100,
+      compared_deliveries: 3,
+      on_time_rate: 0.6667,
+      failure_rate: 0,
+      cancel_rate: 0.25,
+    });
+    expect(first.providers.map(p => [p.provider, p.deliveries, p.savings])).toEqual([
+      ['doordash', 1, -100],
+      ['uber', 3, 300],
+    ]);
+    expect(second.totals).toEqual(
+      expect.objectContaining({ deliveries: 1, total_fees: 0, failure_rate: 1, on_time_rate: null })
+    );
+  });
+
+  it('should count the fee charged for a cancelled delivery', () => {
+    const cancelled = delivery('6', {
+      status: 'cancelled',
+      actual_dropoff_time: null,
+      metadata: { cancellation: { reason: 'Closed', cancellation_fee: 300 } },
+    });
+
+    const report = buildReport([...deliveries, cancelled], quotes, range);
+
+    expect(report.restaurants[0].totals).toEqual(
+      expect.objectContaining({ cancelled: 2, total_fees: 800 + 800 + 950 + 300 })
+    );
+  });
+
+  it('should render one CSV row per provider plus a total per restaurant', () => {
+    const csv = reportToCsv(buildReport(deliveries, quotes, range));
+    const lines = csv.trim().split('\r\n');
+
+    expect(lines[0]).toBe(
+      'from,to,restaurant_id,provider,deliveries,delivered,failed,cancelled,total_fees_cents,' +
+        'savings_cents,compared_deliveries,on_time_rate,failure_rate,cancel_rate'
+    );
+    expect(lines.slice(1).map(line => line.split(',').slice(2, 5))).toEqual([
+      ['restaurant-1', 'doordash', '1'],
+      ['restaurant-1', 'uber', '3'],
+      ['restaurant-1', 'all', '4'],
+      ['restaurant-2', 'uber', '1'],
+      ['restaurant-2', 'all', '1'],
+    ]);
+    expect(lines[5].endsWith(',1,0')).toBe(true);
+  });
+
+  it('should default the range to the last 30 days', () => {
+    const query = reportQuerySchema.parse({ to: '2024-02-01T00:00:00Z' });
+
+    expect(query.format).toBe('json');
+    expect(query.from.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+    expect(reportQuerySchema.safeParse({ from: '2024-02-01', to: '2024-01-01' }).success).toBe(
+      false
+    );
+  });
+});
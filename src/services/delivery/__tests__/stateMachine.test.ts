@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { canCancel, canTransition, checkTransition } from '../stateMachine';
+import { WebhookDeliveryStatus } from '../../../webhooks/types';
+
+describe('Delivery state machine', () => {
+  it('should allow forward transitions, including skipped steps', () => {
+    expect(canTransition(WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.ASSIGNED)).toBe(true);
+    expect(canTransition(WebhookDeliveryStatus.ASSIGNED, WebhookDeliveryStatus.DELIVERED)).toBe(
+      true
+    );
+    expect(canTransition(WebhookDeliveryStatus.FAILED, WebhookDeliveryStatus.RETURNED)).toBe(true);
+  });
+
+  it('should not allow moving backwards or out of a terminal status', () => {
+    expect(canTransition(WebhookDeliveryStatus.DELIVERED, WebhookDeliveryStatus.IN_TRANSIT)).toBe(
+      false
+    );
+    expect(canTransition(WebhookDeliveryStatus.PICKUP, WebhookDeliveryStatus.ASSIGNED)).toBe(false);
+    expect(canTransition(WebhookDeliveryStatus.CANCELLED, WebhookDeliveryStatus.PENDING)).toBe(
+      false
+    );
+  });
+
+  it('should classify status reports', () => {
+    const current = { status: 'assigned', changed_at: '2026-01-01T10:00:00Z' };
+
+    expect(
+      checkTransition(current, { status: 'pickup', occurred_at: '2026-01-01T10:05:00Z' })
+    ).toEqual({ outcome: 'transition' });
+    expect(
+      checkTransition(current, { status: 'assigned', occurred_at: '2026-01-01T10:05:00Z' })
+    ).toEqual({ outcome: 'unchanged' });
+    expect(
+      checkTransition(current, { status: 'pending', occurred_at: '2026-01-01T10:05:00Z' })
+    ).toEqual({ outcome: 'rejected', reason: 'illegal_transition' });
+    expect(
+      checkTransition(current, { status: 'pickup', occurred_at: '2026-01-01T09:55:00Z' })
+    ).toEqual({ outcome: 'rejected', reason: 'out_of_order' });
+    expect(
+      checkTransition(current, { status: 'unknown', occurred_at: '2026-01-01T10:05:00Z' })
+    ).toEqual({ outcome: 'rejected', reason: 'unknown_status' });
+  });
+
+  it('should only allow cancelling before pickup', () => {
+    expect(canCancel(WebhookDeliveryStatus.PENDING)).toBe(true);
+    expect(canCancel(WebhookDeliveryStatus.ASSIGNED)).toBe(true);
+    expect(canCancel(WebhookDeliveryStatus.PICKUP)).toBe(false);
+    expect(canCancel(WebhookDeliveryStatus.DELIVERED)).toBe(false);
+    expect(canCancel(WebhookDeliveryStatus.CANCELLED)).toBe(false);
+  });
+});
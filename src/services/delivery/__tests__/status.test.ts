@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { applyStatusUpdate, getDeliveryStatus, recordWebhookStatus } from '../status';
+import * as uber from '../../../clients/uber';
+import { createMemoryRepositories, Repositories, setRepositories } from '../../../db';
+import {
+  DeliveryStatusWebhookEvent,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookProvider,
+} from '../../../webhooks/types';
+
+vi.mock('../../../clients/doordashSdk', () => ({}));
+
+vi.mock('../../../clients/uber', () => ({
+  getDeliveryStatus: vi.fn(),
+}));
+
+vi.mock('../../../webhooks/WebhookStorage', () => ({
+  WebhookStorage: { getInstance: vi.fn(() => ({})) },
+}));
+
+let repositories: Repositories;
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const storeDelivery = (overrides: Record<string, unknown> = {}) =>
+  repositories.deliveries.create({
+    id: 'delivery-1',
+    restaurant_id: 'restaurant-1',
+    pickup_address: {},
+    dropoff_address: {},
+    fee: 850,
+    fee_currency: 'USD',
+    updated_at: minutesAgo(0),
+    status: WebhookDeliveryStatus.PENDING,
+    provider: 'uber',
+    provider_delivery_id: 'uber-delivery-1',
+    tracking_url: 'https://track.uber.com/1',
+    estimated_pickup_time: null,
+    estimated_dropoff_time: null,
+    actual_pickup_time: null,
+    actual_dropoff_time: null,
+    external_delivery_id: 'set-1',
+    metadata: {
+      provider_status: 'pending',
+      status_history: [
+        {
+          status: WebhookDeliveryStatus.PENDING,
+          provider_status: 'pending',
+          source: 'dispatch',
+          occurred_at: minutesAgo(10),
+        },
+      ],
+    },
+    ...overrides,
+  });
+
+const uberStatusEvent = (status: WebhookDeliveryStatus, statusDetails: string) =>
+  ({
+    id: 'evt-1',
+    provider: WebhookProvider.UBER,
+    eventType: WebhookEventType.DELIVERY_STATUS_CHANGED,
+    timestamp: new Date(),
+    deliveryId: 'uber-delivery-1',
+    rawData: {},
+    status,
+    statusDetails,
+    location: { latitude: 37.78, longitude: -122.4 },
+  }) as DeliveryStatusWebhookEvent;
+
+describe('Delivery status', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+    delete process.env.DELIVERY_STATUS_STALE_SECONDS;
+  });
+
+  it('should serve fresh stored state without polling the provider', async () => {
+    await storeDelivery();
+
+    const status = await getDeliveryStatus('delivery-1');
+
+    expect(uber.getDeliveryStatus).not.toHaveBeenCalled();
+    expect(status).toEqual(
+      expect.objectContaining({ status: 'pending', source: 'stored', stale: false })
+    );
+    expect(status.timeline).toHaveLength(1);
+  });
+
+  it('should poll the provider when stored state is stale', async () => {
+    await storeDelivery({ updated_at: minutesAgo(5) });
+    (uber.getDeliveryStatus as any).mockResolvedValue({
+      id: 'uber-delivery-1',
+      status: 'pickup_complete',
+      tracking_url: 'https://track.uber.com/1',
+      dropoff_eta: '2024-01-01T12:30:00Z',
+      courier: { location: { lat: 37.78, lng: -122.41 } },
+    });
+
+    const status = await getDeliveryStatus('delivery-1');
+
+    expect(uber.getDeliveryStatus).toHaveBeenCalledWith('uber-delivery-1');
+    expect(status).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.PICKUP,
+        provider_status: 'pickup_complete',
+        courier_location: { latitude: 37.78, longitude: -122.41 },
+        estimated_dropoff_time: '2024-01-01T12:30:00Z',
+        source: 'live',
+        stale: false,
+      })
+    );
+    expect(status.actual_pickup_time).not.toBeNull();
+    expect(status.timeline.map(entry => [entry.status, entry.source])).toEqual([
+      ['pending', 'dispatch'],
+      ['pickup', 'poll'],
+    ]);
+  });
+
+  it('should honor the configured staleness window', async () => {
+    process.env.DELIVERY_STATUS_STALE_SECONDS = '600';
+    await storeDelivery({ updated_at: minutesAgo(5) });
+
+    const status = await getDeliveryStatus('delivery-1');
+
+    expect(uber.getDeliveryStatus).not.toHaveBeenCalled();
+    expect(status.source).toBe('stored');
+  });
+
+  it('should flag stale state when polling fails', async () => {
+    await storeDelivery({ updated_at: minutesAgo(5) });
+    (uber.getDeliveryStatus as any).mockRejectedValue(new Error('Uber 503'));
+
+    const status = await getDeliveryStatus('delivery-1');
+
+    expect(status).toEqual(expect.objectContaining({ status: 'pending', stale: true }));
+  });
+
+  it('should not poll deliveries that have finished', async () => {
+    await storeDelivery({ updated_at: minutesAgo(60), status: WebhookDeliveryStatus.DELIVERED });
+
+    const status = await getDeliveryStatus('delivery-1');
+
+    expect(uber.getDeliveryStatus).not.toHaveBeenCalled();
+    expect(status.stale).toBe(false);
+  });
+
+  it('should return 404 for unknown deliveries', async () => {
+    await expect(getDeliveryStatus('missing')).rejects.toMatchObject({
+      status: 404,
+      code: 'delivery_not_found',
+    });
+  });
+
+  it("should hide another restaurant's deliveries", async () => {
+    await storeDelivery();
+
+    await expect(getDeliveryStatus('delivery-1', 'restaurant-2')).rejects.toMatchObject({
+      status: 404,
+      code: 'delivery_not_found',
+    });
+    expect((await getDeliveryStatus('delivery-1', 'restaurant-1')).id).toBe('delivery-1');
+  });
+
+  it('should record webhooks and only extend the timeline on status changes', async () => {
+    await storeDelivery();
+
+    await recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.ASSIGNED, 'pickup'));
+    await recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.ASSIGNED, 'pickup'));
+
+    const row: any = await repositories.deliveries.getById('delivery-1');
+    expect(row.status).toBe(WebhookDeliveryStatus.ASSIGNED);
+    expect(row.metadata.courier_location).toEqual({ latitude: 37.78, longitude: -122.4 });
+    expect(row.metadata.status_history.map((entry: any) => entry.source)).toEqual([
+      'dispatch',
+      'webhook',
+    ]);
+  });
+
+  it('should record each transition in the status history', async () => {
+    await storeDelivery();
+
+    await recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.ASSIGNED, 'pickup'));
+    await recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.IN_TRANSIT, 'dropoff'));
+    await recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.DELIVERED, 'delivered'));
+
+    const row = await repositories.deliveries.getById('delivery-1');
+    expect(row?.actual_pickup_time).not.toBeNull();
+    expect(row?.actual_dropoff_time).not.toBeNull();
+    const history = await repositories.statusHistory.listByDelivery('delivery-1');
+    expect(history.map(entry => [entry.from_status, entry.to_status])).toEqual([
+      ['pending', 'assigned'],
+      ['assigned', 'in_transit'],
+      ['in_transit', 'delivered'],
+    ]);
+  });
+
+  it('should reject illegal and out-of-order transitions', async () => {
+    await storeDelivery({ status: WebhookDeliveryStatus.DELIVERED });
+
+    await recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.IN_TRANSIT, 'dropoff'));
+    expect((await repositories.deliveries.getById('delivery-1'))?.status).toBe('delivered');
+
+    await storeDelivery({ id: 'delivery-2', provider_delivery_id: 'uber-delivery-2' });
+    const late = {
+      ...uberStatusEvent(WebhookDeliveryStatus.ASSIGNED, 'pickup'),
+      deliveryId: 'uber-delivery-2',
+      timestamp: new Date(Date.now() - 60 * 60 * 1000),
+    };
+    await recordWebhookStatus(late);
+
+    const row = await repositories.deliveries.getById('delivery-2');
+    expect(row?.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(await repositories.statusHistory.listByDelivery('delivery-2')).toHaveLength(0);
+  });
+
+  it('should check a report again when another update lands first', async () => {
+    const read = await storeDelivery();
+    const report = (status: WebhookDeliveryStatus) => ({
+      status,
+      provider_status: status,
+      source: 'webhook' as const,
+      occurred_at: new Date().toISOString(),
+    });
+
+    await applyStatusUpdate(read, report(WebhookDeliveryStatus.DELIVERED));
+    const result = await applyStatusUpdate(read, report(WebhookDeliveryStatus.CANCELLED));
+
+    expect(result.status).toBe(WebhookDeliveryStatus.DELIVERED);
+    expect(
+      (await repositories.statusHistory.listByDelivery('delivery-1')).map(row => row.to_status)
+    ).toEqual(['delivered']);
+  });
+
+  it('should ignore webhooks for deliveries it does not know', async () => {
+    await expect(
+      recordWebhookStatus(uberStatusEvent(WebhookDeliveryStatus.ASSIGNED, 'pickup'))
+    ).resolves.toBeNull();
+  });
+});
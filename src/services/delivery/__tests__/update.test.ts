@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { updateDelivery } from '../update';
+import * as doordashSdk from '../../../clients/doordashSdk';
+import * as uber from '../../../clients/uber';
+import { createMemoryRepositories, Repositories, setRepositories } from '../../../db';
+import { WebhookDeliveryStatus } from '../../../webhooks/types';
+
+vi.mock('../../../clients/doordashSdk', () => ({
+  updateDelivery: vi.fn(),
+}));
+
+vi.mock('../../../clients/uber', () => ({
+  updateDelivery: vi.fn(),
+}));
+
+vi.mock('../../../webhooks/WebhookStorage', () => ({
+  WebhookStorage: { getInstance: vi.fn(() => ({})) },
+}));
+
+let repositories: Repositories;
+
+const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+const window = { start_time: '2026-10-19T13:00:00Z', end_time: '2026-10-19T13:30:00Z' };
+
+const storeDelivery = (overrides: Record<string, unknown> = {}) =>
+  repositories.deliveries.create({
+    id: 'delivery-1',
+    restaurant_id: 'restaurant-1',
+    pickup_address: {},
+    dropoff_address: {},
+    fee: 850,
+    fee_currency: 'USD',
+    status: WebhookDeliveryStatus.PENDING,
+    provider: 'uber',
+    provider_delivery_id: 'uber-delivery-1',
+    tracking_url: 'https://track.uber.com/1',
+    estimated_pickup_time: null,
+    estimated_dropoff_time: null,
+    actual_pickup_time: null,
+    actual_dropoff_time: null,
+    external_delivery_id: 'set-1',
+    metadata: { provider_status: 'pending' },
+    ...overrides,
+  });
+
+describe('Delivery updates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  it("should send changes in the provider's terms and record them", async () => {
+    await storeDelivery();
+    (uber.updateDelivery as any).mockResolvedValue({ id: 'uber-delivery-1', status: 'pending' });
+
+    const result = await updateDelivery(
+      'delivery-1',
+      { dropoff_instructions: 'Leave at the door', tip: 300, dropoff_window: window },
+      'restaurant-1',
+      now
+    );
+
+    expect(uber.updateDelivery).toHaveBeenCalledWith('uber-delivery-1', {
+      dropoff_notes: 'Leave at the door',
+      tip_by_customer: 300,
+      pickup_ready_dt: undefined,
+      pickup_deadline_dt: undefined,
+      dropoff_ready_dt: window.start_time,
+      dropoff_deadline_dt: window.end_time,
+    });
+    expect(result).toMatchObject({
+      id: 'delivery-1',
+      status: WebhookDeliveryStatus.PENDING,
+      provider_status: 'pending',
+      updated_at: '2026-10-19T12:00:00.000Z',
+    });
+    expect((await repositories.deliveries.getById('delivery-1'))?.metadata).toMatchObject({
+      updates: [{ changes: { tip: 300 }, updated_at: '2026-10-19T12:00:00.000Z' }],
+    });
+  });
+
+  it('should keep what changed on the delivery while the provider was updating it', async () => {
+    await storeDelivery();
+    (uber.updateDelivery as any).mockImplementation(async () => {
+      await repositories.deliveries.update('delivery-1', {
+        metadata: { provider_status: 'pending', courier_location: { latitude: 1, longitude: 2 } },
+        updated_at: '2026-10-19T11:59:59.000Z',
+      });
+      return { id: 'uber-delivery-1', status: 'pending' };
+    });
+
+    await updateDelivery('delivery-1', { tip: 300 }, undefined, now);
+
+    expect((await repositories.deliveries.getById('delivery-1'))?.metadata).toMatchObject({
+      courier_location: { latitude: 1, longitude: 2 },
+      updates: [{ changes: { tip: 300 } }],
+    });
+  });
+
+  it('should reject fields the provider cannot change', async () => {
+    await storeDelivery();
+
+    await expect(
+      updateDelivery('delivery-1', { dropoff_phone_number: '+15555550123' }, undefined, now)
+    ).rejects.toMatchObject({
+      status: 422,
+      code: 'update_not_supported',
+      details: { fields: ['dropoff_phone_number'] },
+    });
+    expect(uber.updateDelivery).not.toHaveBeenCalled();
+  });
+
+  it('should refuse changes the delivery is too far along for', async () => {
+    await storeDelivery({
+      provider: 'doordash',
+      provider_delivery_id: 'set-1',
+      status: WebhookDeliveryStatus.IN_TRANSIT,
+    });
+
+    await expect(
+      updateDelivery('delivery-1', { tip: 500, pickup_window: window }, undefined, now)
+    ).rejects.toMatchObject({
+      status: 409,
+      code: 'cannot_update',
+      details: { fields: [{ field: 'pickup_window' }] },
+    });
+    expect(doordashSdk.updateDelivery).not.toHaveBeenCalled();
+
+    (doordashSdk.updateDelivery as any).mockResolvedValue({
+      external_delivery_id: 'set-1',
+      delivery_status: 'enroute_to_dropoff',
+    });
+    await updateDelivery('delivery-1', { tip: 500 }, undefined, now);
+    expect(doordashSdk.updateDelivery).toHaveBeenCalledWith('set-1', { tip: 500 });
+  });
+
+  it("should refuse to update finished deliveries or another restaurant's", async () => {
+    await storeDelivery({ status: WebhookDeliveryStatus.DELIVERED });
+
+    await expect(
+      updateDelivery('delivery-1', { tip: 100 }, 'restaurant-2', now)
+    ).rejects.toMatchObject({ status: 404 });
+    await expect(updateDelivery('delivery-1', { tip: 100 }, undefined, now)).rejects.toMatchObject({
+      status: 409,
+      code: 'cannot_update',
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { toProviderError } from '../../clients/errors';
+import { getRepositories } from '../../db';
+import { providerRegistry, ProviderCancellation } from '../../providers';
+import { ApiError } from '../../utils/errors';
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+import { canCancel } from './stateMachine';
+import { applyStatusUpdate } from './status';
+import { DeliveryCancellation } from './types';
+
+/**
+ * Cancel a delivery with its provider
+ *
+ * Only deliveries the courier has not picked up yet can be cancelled. The
+ * reason and any cancellation fee are kept in the delivery's metadata, and the
+ * delivery moves to `cancelled` like any other status change, so the
+ * restaurant's webhooks hear about it.
+ * @param deliveryId Our delivery ID
+ * @param reason Why the delivery is being cancelled
+ * @param restaurantId The calling restaurant; another restaurant's delivery is treated as missing
+ * @param now The current time in milliseconds
+ * @returns The cancellation
+ * @throws ApiError 404 if the delivery is not found, 409 if it can no longer be cancelled,
+ * 422 if its provider does not support cancelling
+ */
+export const cancelDelivery = async (
+  deliveryId: string,
+  reason: string,
+  restaurantId?: string,
+  now: number = Date.now()
+): Promise<DeliveryCancellation> => {
+  const row = await getRepositories().deliveries.getById(deliveryId);
+  if (!row || (restaurantId && row.restaurant_id !== restaurantId)) {
+    throw new ApiError(404, 'delivery_not_found', `Delivery not found: ${deliveryId}`);
+  }
+  if (row.status === WebhookDeliveryStatus.CANCELLED) {
+    throw new ApiError(409, 'already_cancelled', `Delivery ${deliveryId} is already cancelled`);
+  }
+  if (!canCancel(row.status)) {
+    throw new ApiError(
+      409,
+      'cannot_cancel',
+      `Delivery ${deliveryId} can no longer be cancelled (${row.status})`,
+      { status: row.status }
+    );
+  }
+
+  const provider = providerRegistry.has(row.provider) ? providerRegistry.get(row.provider) : null;
+  if (!provider?.capabilities.cancel) {
+    throw new ApiError(
+      422,
+      'cancel_not_supported',
+      `Cancelling ${row.provider} deliveries is not supported`
+    );
+  }
+
+  let cancellation: ProviderCancellation;
+  try {
+    cancellation = await provider.cancel(row.provider_delivery_id, reason);
+  } catch (error) {
+    const failure = toProviderError(row.provider, error);
+    console.warn(
+      `[Delivery Cancel] ${row.provider} refused to cancel ${row.id}: ${failure.message}`
+    );
+    throw failure;
+  }
+
+  const cancelledAt = new Date(now).toISOString();
+  const updated = await applyStatusUpdate(row, {
+    status: WebhookDeliveryStatus.CANCELLED,
+    provider_status: cancellation.provider_status,
+    source: 'cancel',
+    occurred_at: cancelledAt,
+    metadata: {
+      cancellation: {
+        reason,
+        cancellation_fee: cancellation.cancellation_fee,
+        cancelled_at: cancelledAt,
+      },
+    },
+  });
+
+  return {
+    id: updated.id,
+    provider: updated.provider,
+    provider_delivery_id: updated.provider_delivery_id,
+    status: updated.status,
+    provider_status: cancellation.provider_status,
+    reason,
+    cancellation_fee: cancellation.cancellation_fee,
+    currency: updated.fee_currency,
+    cancelled_at: cancelledAt,
+  };
+};
@@ -0,0 +1,204 @@
+import { toProviderError } from '../../clients/errors';
+import { DeliveryRow, getRepositories, ProviderQuoteRow } from '../../db';
+import { providerRegistry, ProviderDelivery } from '../../providers';
+import { Json } from '../../types/database';
+import { ApiError } from '../../utils/errors';
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+import { requestQuotes, toDeliveryQuote } from './quotes';
+import { initialTimelineEntry, recordTransition } from './status';
+import { DeliveryQuote, DispatchAttempt, DispatchRequest, QuoteRequest } from './types';
+
+/**
+ * Result of dispatching a delivery
+ */
+export interface DispatchResult {
+  delivery: DeliveryRow;
+  quote: DeliveryQuote;
+  attempts: DispatchAttempt[];
+}
+
+/**
+ * Undo a quote selection after the provider rejected the delivery
+ * @param quoteId The quote row ID
+ */
+const releaseQuote = async (quoteId: string): Promise<void> => {
+  try {
+    await getRepositories().quotes.release(quoteId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Delivery Dispatch] ${message}`);
+  }
+};
+
+/**
+ * Whether a stored quote can no longer be dispatched at its price
+ * @param quote The quote row
+ * @param now The current time in milliseconds
+ * @returns Whether the quote has expired
+ */
+export const isQuoteExpired = (quote: ProviderQuoteRow, now: number = Date.now()): boolean =>
+  Date.parse(quote.expires_at) <= now;
+
+/**
+ * Dispatch a delivery to the winning provider of a quote set
+ *
+ * Accepts either a previously stored quote set (optionally pinned to one of
+ * its quotes) or a raw quote request, which is quoted first. Expired quotes are
+ * never dispatched: the order is re-quoted and the fresh quote set is returned
+ * with a 409 so the caller can confirm the new price. If the winning provider
+ * rejects the delivery, the next-ranked unexpired quote is tried, and every
+ * attempt is recorded in the delivery metadata. A rejection no other courier
+ * would accept either, i.e. invalid order details, is thrown instead.
+ * @param request The dispatch request
+ * @param restaurantId The calling restaurant; another restaurant's quote set is treated as missing
+ * @returns The created delivery and the quote it was bound to
+ */
+export const dispatchDelivery = async (
+  request: DispatchRequest,
+  restaurantId?: string
+): Promise<DispatchResult> => {
+  const quoteSetId =
+    'quote_set_id' in request ? request.quote_set_id : (await requestQuotes(request)).quote_set_id;
+
+  const { deliveries, quotes: quoteRepository } = getRepositories();
+  const quotes = await quoteRepository.listBySet(quoteSetId);
+  const ownerOf = (quote: ProviderQuoteRow) =>
+    (quote.metadata as { restaurant_id?: string } | null)?.restaurant_id;
+  const foreign = !!restaurantId && quotes.some(quote => ownerOf(quote) !== restaurantId);
+  if (quotes.length === 0 || foreign) {
+    throw new ApiError(404, 'quote_set_not_found', `Quote set not found: ${quoteSetId}`);
+  }
+  if (quotes.some(quote => quote.selected)) {
+    throw new ApiError(409, 'already_dispatched', `Quote set ${quoteSetId} was already dispatched`);
+  }
+
+  const rankOf = (quote: ProviderQuoteRow) => toDeliveryQuote(quote).rank;
+  const ranked = [...quotes].sort((a, b) => rankOf(a) - rankOf(b));
+  const winnerId = 'quote_id' in request && request.quote_id ? request.quote_id : ranked[0].id;
+  const winner = quotes.find(quote => quote.id === winnerId);
+  if (!winner) {
+    throw new ApiError(404, 'quote_not_found', `Quote ${winnerId} is not part of ${quoteSetId}`);
+  }
+
+  const quoteRequest = (winner.metadata as { request?: QuoteRequest } | null)?.request;
+  if (!quoteRequest) {
+    throw new Error(`Quote set ${quoteSetId} has no stored order details`);
+  }
+
+  if (isQuoteExpired(winner)) {
+    const requote = await requestQuotes(quoteRequest);
+    throw new ApiError(
+      409,
+      'quote_expired',
+      `Quote ${winner.id} expired at ${winner.expires_at}; the order was re-quoted`,
+      requote
+    );
+  }
+
+  // The winner goes first, then every other quote in rank order
+  const candidates = [winner, ...ranked.filter(quote => quote.id !== winner.id)];
+
+  const attempts: DispatchAttempt[] = [];
+  let chosen: ProviderQuoteRow | undefined;
+  let created: ProviderDelivery | undefined;
+  for (const candidate of candidates) {
+    const provider = candidate.provider;
+    const attemptedAt = new Date().toISOString();
+
+    if (isQuoteExpired(candidate)) {
+      attempts.push({
+        provider,
+        quote_id: candidate.id,
+        outcome: 'skipped',
+        error: `Quote expired at ${candidate.expires_at}`,
+        latency_ms: 0,
+        attempted_at: attemptedAt,
+      });
+      continue;
+    }
+
+    if (!(await quoteRepository.claim(candidate.id))) {
+      throw new ApiError(
+        409,
+        'already_dispatched',
+        `Quote set ${quoteSetId} was already dispatched`
+      );
+    }
+
+    const startedAt = Date.now();
+    try {
+      created = await providerRegistry
+        .get(provider)
+        .createDelivery(toDeliveryQuote(candidate), quoteRequest);
+      attempts.push({
+        provider,
+        quote_id: candidate.id,
+        outcome: 'succeeded',
+        latency_ms: Date.now() - startedAt,
+        attempted_at: attemptedAt,
+      });
+      chosen = candidate;
+      break;
+    } catch (error) {
+      const failure = toProviderError(provider, error);
+      console.warn(
+        `[Delivery Dispatch] ${provider} rejected quote set ${quoteSetId}: ${failure.message}`
+      );
+      await releaseQuote(candidate.id);
+      attempts.push({
+        provider,
+        quote_id: candidate.id,
+        outcome: 'failed',
+        error: failure.message,
+        error_code: failure.code,
+        latency_ms: Date.now() - startedAt,
+        attempted_at: attemptedAt,
+      });
+      if (!failure.fallback) {
+        throw failure;
+      }
+    }
+  }
+
+  if (!chosen || !created) {
+    throw new ApiError(502, 'dispatch_failed', 'No courier accepted the delivery', { attempts });
+  }
+
+  const provider = chosen.provider;
+  const quote = toDeliveryQuote(chosen);
+  const initialStatus = initialTimelineEntry(created.provider_status);
+  let delivery: DeliveryRow;
+  try {
+    delivery = await deliveries.create({
+      restaurant_id: quoteRequest.restaurant_id,
+      pickup_address: quoteRequest.pickup_address,
+      dropoff_address: quoteRequest.dropoff_address,
+      status: WebhookDeliveryStatus.PENDING,
+      provider,
+      provider_delivery_id: created.provider_delivery_id,
+      tracking_url: created.tracking_url,
+      fee: created.fee ?? chosen.fee,
+      fee_currency: (created.currency || chosen.fee_currency).toUpperCase(),
+      estimated_dropoff_time: quote.estimated_dropoff_time,
+      external_delivery_id: quoteSetId,
+      metadata: {
+        quote_id: chosen.id,
+        provider_quote_id: chosen.provider_quote_id,
+        quoted_fee: chosen.fee,
+        provider_status: created.provider_status,
+        fallback: chosen.id !== winner.id,
+        dispatch_attempts: attempts as unknown as Json,
+        status_history: [initialStatus] as unknown as Json,
+      },
+    });
+  } catch (error) {
+    // The courier is already booked, so surface this loudly rather than retrying
+    console.error(
+      `[Delivery Dispatch] ${provider} delivery ${created.provider_delivery_id} was created but not stored`
+    );
+    throw error;
+  }
+  await recordTransition(delivery.id, null, initialStatus);
+
+  return { delivery, quote, attempts };
+};
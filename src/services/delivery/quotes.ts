@@ -0,0 +1,148 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProviderError } from '../../clients/errors';
+import { findCircuitBreaker } from '../../clients/http';
+import { getRepositories, ProviderQuoteRow } from '../../db';
+import { providerRegistry, ProviderQuote } from '../../providers';
+import { Json } from '../../types/database';
+import { ApiError } from '../../utils/errors';
+import {
+  DeliveryProviderName,
+  DeliveryQuote,
+  QuoteComparison,
+  QuoteFailure,
+  QuoteRequest,
+} from './types';
+
+/**
+ * Order quotes cheapest first, breaking ties on the earliest dropoff
+ * @param quotes The quotes to rank
+ * @returns A new, ranked array
+ */
+export const rankQuotes = <T extends { fee: number; estimated_dropoff_time: string | null }>(
+  quotes: T[]
+): T[] =>
+  [...quotes].sort((a, b) => {
+    if (a.fee !== b.fee) {
+      return a.fee - b.fee;
+    }
+    const aEta = a.estimated_dropoff_time ? Date.parse(a.estimated_dropoff_time) : Infinity;
+    const bEta = b.estimated_dropoff_time ? Date.parse(b.estimated_dropoff_time) : Infinity;
+    return aEta - bEta;
+  });
+
+/**
+ * Convert a provider_quotes row into the API quote shape
+ * @param row The stored quote row
+ * @returns The normalized quote
+ */
+export const toDeliveryQuote = (row: ProviderQuoteRow): DeliveryQuote => {
+  const metadata = (row.metadata || {}) as { rank?: number; estimated_dropoff_time?: string };
+  const rank = metadata.rank ?? 0;
+
+  return {
+    id: row.id,
+    quote_set_id: row.external_delivery_id,
+    provider: row.provider as DeliveryProviderName,
+    provider_quote_id: row.provider_quote_id,
+    fee: row.fee,
+    currency: row.fee_currency,
+    estimated_dropoff_time: metadata.estimated_dropoff_time || null,
+    expires_at: row.expires_at,
+    rank,
+    cheapest: rank === 1,
+  };
+};
+
+/**
+ * Request quotes from every registered provider in parallel, persist them as one quote
+ * set and return them ranked with the cheapest marked
+ *
+ * Providers whose circuit breaker is open are skipped and reported as failures,
+ * so a failing API doesn't hold up the comparison.
+ * @param request The quote request
+ * @returns The quote comparison
+ */
+export const requestQuotes = async (request: QuoteRequest): Promise<QuoteComparison> => {
+  const quoteSetId = uuidv4();
+  const errors: QuoteFailure[] = [];
+  const providers = providerRegistry.list().filter(provider => {
+    const breaker = findCircuitBreaker(provider.name);
+    if (!breaker?.isOpen()) {
+      return true;
+    }
+    const retryAt = breaker.getRetryAt().toISOString();
+    const message = `Skipped: ${provider.name} API unavailable until ${retryAt}`;
+    console.warn(`[Delivery Quote] ${message}`);
+    errors.push({
+      provider: provider.name,
+      message,
+      code: 'provider_unavailable',
+      skipped: true,
+    });
+    return false;
+  });
+
+  const results = await Promise.allSettled(
+    providers.map(provider => provider.quote(quoteSetId, request))
+  );
+
+  const quotes: ProviderQuote[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      quotes.push(result.value);
+    } else {
+      const reason = result.reason;
+      const message = reason instanceof Error ? reason.message : String(reason);
+      console.warn(`[Delivery Quote] ${providers[index].name} quote failed: ${message}`);
+      errors.push({
+        provider: providers[index].name,
+        message,
+        ...(reason instanceof ProviderError ? { code: reason.code } : {}),
+      });
+    }
+  });
+
+  if (quotes.length === 0) {
+    // When every courier failed the same way, e.g. none deliver to the address, say so
+    const reasons = results.map(result => result.status === 'rejected' && result.reason);
+    const [first] = reasons;
+    if (
+      errors.length === reasons.length &&
+      first instanceof ProviderError &&
+      first.status < 500 &&
+      reasons.every(reason => reason instanceof ProviderError && reason.code === first.code)
+    ) {
+      throw new ApiError(first.status, first.code, 'No courier returned a quote', { errors });
+    }
+    throw new ApiError(502, 'no_quotes', 'No courier returned a quote', { errors });
+  }
+
+  const ranked = rankQuotes(quotes);
+  const rows = await getRepositories().quotes.createMany(
+    ranked.map((quote, index) => ({
+      provider: quote.provider,
+      provider_quote_id: quote.provider_quote_id,
+      fee: quote.fee,
+      fee_currency: quote.currency,
+      expires_at: quote.expires_at,
+      external_delivery_id: quoteSetId,
+      selected: false,
+      metadata: {
+        restaurant_id: request.restaurant_id,
+        rank: index + 1,
+        estimated_dropoff_time: quote.estimated_dropoff_time,
+        request: request as Json,
+      },
+    }))
+  );
+
+  const stored = rows.map(toDeliveryQuote).sort((a, b) => a.rank - b.rank);
+
+  return {
+    quote_set_id: quoteSetId,
+    restaurant_id: request.restaurant_id,
+    quotes: stored,
+    cheapest: stored[0],
+    errors,
+  };
+};
@@ -0,0 +1,291 @@
+import { DeliveryRow, getRepositories, ProviderQuoteRow } from '../../db';
+import { CsvValue, toCsv } from '../../utils/csv';
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+import { ReportQuery } from './types';
+
+/**
+ * Delivery counts, spend and rates for one slice of a report
+ */
+export interface ReportStats {
+  deliveries: number;
+  delivered: number;
+  failed: number; // Failed or returned
+  cancelled: number;
+  total_fees: number; // In cents; cancelled deliveries count their cancellation fee, failed ones nothing
+  savings: number; // In cents, versus the cheapest losing quote of each quote set
+  compared_deliveries: number; // Deliveries that had a losing quote to compare against
+  on_time_rate: number | null; // Share of delivered orders dropped off by their ETA
+  failure_rate: number | null;
+  cancel_rate: number | null;
+}
+
+/**
+ * Report for a single restaurant, overall and per provider
+ */
+export interface RestaurantReport {
+  restaurant_id: string;
+  totals: ReportStats;
+  providers: ({ provider: string } & ReportStats)[];
+}
+
+/**
+ * Response of GET /v1/delivery/report
+ */
+export interface DeliveryReport {
+  from: string;
+  to: string;
+  generated_at: string;
+  restaurants: RestaurantReport[];
+}
+
+interface Tally {
+  deliveries: number;
+  delivered: number;
+  failed: number;
+  cancelled: number;
+  fees: number;
+  savings: number;
+  compared: number;
+  timed: number;
+  onTime: number;
+}
+
+const emptyTally = (): Tally => ({
+  deliveries: 0,
+  delivered: 0,
+  failed: 0,
+  cancelled: 0,
+  fees: 0,
+  savings: 0,
+  compared: 0,
+  timed: 0,
+  onTime: 0,
+});
+
+/**
+ * Divide, returning null instead of NaN for empty slices
+ * @param count The numerator
+ * @param total The denominator
+ * @returns The rate rounded to four decimals, or null
+ */
+const rate = (count: number, total: number): number | null =>
+  total === 0 ? null : Math.round((count / total) * 10000) / 10000;
+
+/**
+ * Turn a tally into report stats
+ * @param tally The tally
+ * @returns The stats
+ */
+const toStats = (tally: Tally): ReportStats => ({
+  deliveries: tally.deliveries,
+  delivered: tally.delivered,
+  failed: tally.failed,
+  cancelled: tally.cancelled,
+  total_fees: tally.fees,
+  savings: tally.savings,
+  compared_deliveries: tally.compared,
+  on_time_rate: rate(tally.onTime, tally.timed),
+  failure_rate: rate(tally.failed, tally.deliveries),
+  cancel_rate: rate(tally.cancelled, tally.deliveries),
+});
+
+/**
+ * Savings of a delivery versus the cheapest quote it beat
+ * @param delivery The delivery row
+ * @param quoteSet The quotes of the delivery's quote set
+ * @returns The savings in cents, or null if there was nothing to compare against
+ */
+const savingsOf = (delivery: DeliveryRow, quoteSet: ProviderQuoteRow[]): number | null => {
+  const metadata = (delivery.metadata || {}) as { quote_id?: string; quoted_fee?: number };
+  const losing = quoteSet.filter(quote =>
+    metadata.quote_id ? quote.id !== metadata.quote_id : quote.provider !== delivery.provider
+  );
+  if (losing.length === 0) {
+    return null;
+  }
+
+  // Compare quoted prices so later fee adjustments do not skew savings
+  const paid = metadata.quoted_fee ?? delivery.fee;
+  return Math.min(...losing.map(quote => quote.fee)) - paid;
+};
+
+/**
+ * Read the fee a provider charged for cancelling a delivery
+ * @param delivery The delivery row
+ * @returns The fee in cents, or 0 if none was charged
+ */
+const cancellationFeeOf = (delivery: DeliveryRow): number => {
+  const metadata = (delivery.metadata || {}) as { cancellation?: { cancellation_fee?: unknown } };
+  const fee = metadata.cancellation?.cancellation_fee;
+  return typeof fee === 'number' ? fee : 0;
+};
+
+/**
+ * Add a delivery to a tally
+ * @param tally The tally to update
+ * @param delivery The delivery row
+ * @param savings The delivery's savings, if it had a losing quote
+ */
+const addToTally = (tally: Tally, delivery: DeliveryRow, savings: number | null): void => {
+  tally.deliveries += 1;
+
+  switch (delivery.status) {
+    case WebhookDeliveryStatus.DELIVERED:
+      tally.delivered += 1;
+      break;
+    case WebhookDeliveryStatus.FAILED:
+    case WebhookDeliveryStatus.RETURNED:
+      tally.failed += 1;
+      break;
+    case WebhookDeliveryStatus.CANCELLED:
+      tally.cancelled += 1;
+      break;
+  }
+
+  const charged =
+    delivery.status !== WebhookDeliveryStatus.FAILED &&
+    delivery.status !== WebhookDeliveryStatus.RETURNED &&
+    delivery.status !== WebhookDeliveryStatus.CANCELLED;
+  if (charged) {
+    tally.fees += delivery.fee;
+  } else if (delivery.status === WebhookDeliveryStatus.CANCELLED) {
+    tally.fees += cancellationFeeOf(delivery);
+  }
+
+  if (savings !== null) {
+    tally.savings += savings;
+    tally.compared += 1;
+  }
+
+  if (
+    delivery.status === WebhookDeliveryStatus.DELIVERED &&
+    delivery.actual_dropoff_time &&
+    delivery.estimated_dropoff_time
+  ) {
+    tally.timed += 1;
+    if (Date.parse(delivery.actual_dropoff_time) <= Date.parse(delivery.estimated_dropoff_time)) {
+      tally.onTime += 1;
+    }
+  }
+};
+
+/**
+ * Aggregate deliveries into a per-restaurant, per-provider report
+ * @param deliveries The deliveries in the report range
+ * @param quotes The quotes of those deliveries' quote sets
+ * @param query The report query
+ * @returns The report
+ */
+export const buildReport = (
+  deliveries: DeliveryRow[],
+  quotes: ProviderQuoteRow[],
+  query: Pick<ReportQuery, 'from' | 'to'>
+): DeliveryReport => {
+  const quoteSets = new Map<string, ProviderQuoteRow[]>();
+  quotes.forEach(quote => {
+    const set = quoteSets.get(quote.external_delivery_id) || [];
+    set.push(quote);
+    quoteSets.set(quote.external_delivery_id, set);
+  });
+
+  const restaurants = new Map<string, { totals: Tally; providers: Map<string, Tally> }>();
+  deliveries.forEach(delivery => {
+    let restaurant = restaurants.get(delivery.restaurant_id);
+    if (!restaurant) {
+      restaurant = { totals: emptyTally(), providers: new Map() };
+      restaurants.set(delivery.restaurant_id, restaurant);
+    }
+    let provider = restaurant.providers.get(delivery.provider);
+    if (!provider) {
+      provider = emptyTally();
+      restaurant.providers.set(delivery.provider, provider);
+    }
+
+    const savings = savingsOf(delivery, quoteSets.get(delivery.external_delivery_id) || []);
+    addToTally(restaurant.totals, delivery, savings);
+    addToTally(provider, delivery, savings);
+  });
+
+  return {
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    generated_at: new Date().toISOString(),
+    restaurants: Array.from(restaurants.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([restaurantId, restaurant]) => ({
+        restaurant_id: restaurantId,
+        totals: toStats(restaurant.totals),
+        providers: Array.from(restaurant.providers.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([provider, tally]) => ({ provider, ...toStats(tally) })),
+      })),
+  };
+};
+
+const CSV_HEADER = [
+  'from',
+  'to',
+  'restaurant_id',
+  'provider',
+  'deliveries',
+  'delivered',
+  'failed',
+  'cancelled',
+  'total_fees_cents',
+  'savings_cents',
+  'compared_deliveries',
+  'on_time_rate',
+  'failure_rate',
+  'cancel_rate',
+];
+
+/**
+ * Flatten a report to CSV, one row per restaurant and provider plus an "all" row
+ * @param report The report
+ * @returns The CSV document
+ */
+export const reportToCsv = (report: DeliveryReport): string => {
+  const row = (restaurantId: string, provider: string, stats: ReportStats): CsvValue[] => [
+    report.from,
+    report.to,
+    restaurantId,
+    provider,
+    stats.deliveries,
+    stats.delivered,
+    stats.failed,
+    stats.cancelled,
+    stats.total_fees,
+    stats.savings,
+    stats.compared_deliveries,
+    stats.on_time_rate,
+    stats.failure_rate,
+    stats.cancel_rate,
+  ];
+
+  return toCsv(
+    CSV_HEADER,
+    report.restaurants.flatMap(restaurant => [
+      ...restaurant.providers.map(stats => row(restaurant.restaurant_id, stats.provider, stats)),
+      row(restaurant.restaurant_id, 'all', restaurant.totals),
+    ])
+  );
+};
+
+/**
+ * Generate the savings and performance report for a date range
+ * @param query The report query
+ * @returns The report
+ */
+export const generateReport = async (query: ReportQuery): Promise<DeliveryReport> => {
+  const { deliveries, quotes } = getRepositories();
+  const rows = await deliveries.list({
+    restaurant_id: query.restaurant_id,
+    created_from: query.from,
+    created_to: query.to,
+  });
+
+  const quoteSetIds = Array.from(new Set(rows.map(row => row.external_delivery_id)));
+  const quoteRows = quoteSetIds.length > 0 ? await quotes.listBySets(quoteSetIds) : [];
+
+  return buildReport(rows, quoteRows, query);
+};
@@ -0,0 +1,87 @@
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+
+const { PENDING, ASSIGNED, PICKUP, IN_TRANSIT, DELIVERED, FAILED, CANCELLED, RETURNED, UNKNOWN } =
+  WebhookDeliveryStatus;
+
+/**
+ * Statuses a delivery may move to from each status
+ *
+ * Deliveries only move forward. A provider may skip steps (a courier can be
+ * assigned and pick up between two webhooks), but nothing leaves a terminal
+ * status except a failed or cancelled delivery whose items are brought back.
+ */
+const TRANSITIONS: Record<WebhookDeliveryStatus, readonly WebhookDeliveryStatus[]> = {
+  [PENDING]: [ASSIGNED, PICKUP, IN_TRANSIT, DELIVERED, FAILED, CANCELLED],
+  [ASSIGNED]: [PICKUP, IN_TRANSIT, DELIVERED, FAILED, CANCELLED],
+  [PICKUP]: [IN_TRANSIT, DELIVERED, FAILED, CANCELLED, RETURNED],
+  [IN_TRANSIT]: [DELIVERED, FAILED, CANCELLED, RETURNED],
+  [FAILED]: [RETURNED],
+  [CANCELLED]: [RETURNED],
+  [DELIVERED]: [],
+  [RETURNED]: [],
+  [UNKNOWN]: [],
+};
+
+// Statuses before the courier has the order, in which a delivery may still be cancelled
+const CANCELLABLE: readonly WebhookDeliveryStatus[] = [PENDING, ASSIGNED];
+
+/**
+ * Why a status report was not applied
+ */
+export type TransitionRejection =
+  | 'unknown_status' // The provider status could not be normalized
+  | 'illegal_transition' // The delivery cannot move to the reported status
+  | 'out_of_order'; // The report predates the delivery's last transition
+
+/**
+ * How a status report relates to a delivery's current state
+ */
+export type TransitionCheck =
+  | { outcome: 'transition' }
+  | { outcome: 'unchanged' } // Same status; details such as location may still change
+  | { outcome: 'rejected'; reason: TransitionRejection };
+
+/**
+ * Whether a delivery may move from one status to another
+ * @param from The current status
+ * @param to The reported status
+ * @returns Whether the transition is allowed
+ */
+export const canTransition = (from: string, to: string): boolean =>
+  (TRANSITIONS[from as WebhookDeliveryStatus] || []).includes(to as WebhookDeliveryStatus);
+
+/**
+ * Whether a delivery may still be cancelled on request
+ *
+ * A provider may report a cancellation after pickup, but once the courier
+ * has the order we no longer ask for one.
+ * @param status The current status
+ * @returns Whether the delivery has not been picked up or finished
+ */
+export const canCancel = (status: string): boolean =>
+  CANCELLABLE.includes(status as WebhookDeliveryStatus);
+
+/**
+ * Check a status report against a delivery's current state
+ * @param current The delivery's status and when it last changed
+ * @param next The reported status and when it was observed
+ * @returns Whether the report is a transition, a repeat of the status, or rejected
+ */
+export const checkTransition = (
+  current: { status: string; changed_at?: string },
+  next: { status: string; occurred_at: string }
+): TransitionCheck => {
+  if (next.status === UNKNOWN) {
+    return { outcome: 'rejected', reason: 'unknown_status' };
+  }
+  if (current.changed_at && Date.parse(next.occurred_at) < Date.parse(current.changed_at)) {
+    return { outcome: 'rejected', reason: 'out_of_order' };
+  }
+  if (next.status === current.status) {
+    return { outcome: 'unchanged' };
+  }
+  if (!canTransition(current.status, next.status)) {
+    return { outcome: 'rejected', reason: 'illegal_transition' };
+  }
+  return { outcome: 'transition' };
+};
@@ -0,0 +1,383 @@
+import { DeliveryRow, getRepositories } from '../../db';
+import { providerRegistry } from '../../providers';
+import { Json } from '../../types/database';
+import { ApiError } from '../../utils/errors';
+import { notifyStatusChange } from '../restaurantWebhooks/dispatcher';
+import { DeliveryStatusWebhookEvent, WebhookDeliveryStatus } from '../../webhooks/types';
+import { checkTransition } from './stateMachine';
+
+// Stored state older than this is refreshed from the provider's API
+const DEFAULT_STALE_SECONDS = 60;
+
+// Times a change to a delivery is tried against a fresh read after losing a race with another
+export const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Statuses after which a delivery no longer changes, so it is never polled
+ */
+export const TERMINAL_STATUSES: ReadonlySet<string> = new Set([
+  WebhookDeliveryStatus.DELIVERED,
+  WebhookDeliveryStatus.FAILED,
+  WebhookDeliveryStatus.CANCELLED,
+  WebhookDeliveryStatus.RETURNED,
+]);
+
+// Statuses in which the courier has the order; the first one seen marks the pickup
+const PICKED_UP_STATUSES: ReadonlySet<string> = new Set([
+  WebhookDeliveryStatus.PICKUP,
+  WebhookDeliveryStatus.IN_TRANSIT,
+]);
+
+/**
+ * Where a status change was learned from
+ */
+export type StatusSource = 'dispatch' | 'webhook' | 'poll' | 'cancel';
+
+/**
+ * One status change in a delivery's timeline
+ */
+export interface StatusTimelineEntry {
+  status: WebhookDeliveryStatus;
+  provider_status: string;
+  source: StatusSource;
+  occurred_at: string;
+}
+
+/**
+ * Courier position as last reported by the provider
+ */
+export interface CourierLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * A status report from a webhook or a poll, normalized across providers
+ */
+export interface StatusUpdate {
+  status: WebhookDeliveryStatus;
+  provider_status: string;
+  source: StatusSource;
+  occurred_at: string;
+  tracking_url?: string;
+  courier_location?: CourierLocation;
+  estimated_pickup_time?: string;
+  estimated_dropoff_time?: string;
+  metadata?: Record<string, unknown>; // Merged into the delivery's metadata
+}
+
+/**
+ * Delivery status as returned by GET /v1/delivery/:id/status
+ */
+export interface DeliveryStatusView {
+  id: string;
+  provider: string;
+  provider_delivery_id: string;
+  status: WebhookDeliveryStatus;
+  provider_status: string | null;
+  tracking_url: string;
+  courier_location: CourierLocation | null;
+  estimated_pickup_time: string | null;
+  estimated_dropoff_time: string | null;
+  actual_pickup_time: string | null;
+  actual_dropoff_time: string | null;
+  updated_at: string;
+  // 'live' when the provider was polled for this response
+  source: 'stored' | 'live';
+  // True when the stored state is stale and the provider could not be polled
+  stale: boolean;
+  timeline: StatusTimelineEntry[];
+}
+
+export interface DeliveryMetadata {
+  provider_status?: string;
+  courier_location?: CourierLocation;
+  status_history?: StatusTimelineEntry[];
+  [key: string]: unknown;
+}
+
+/**
+ * Get the staleness window for stored delivery state
+ * @returns The window in seconds
+ */
+export const getStatusStaleSeconds = (): number => {
+  const seconds = Number(process.env.DELIVERY_STATUS_STALE_SECONDS);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_STALE_SECONDS;
+};
+
+/**
+ * Read a delivery's metadata as an object
+ * @param row The delivery row
+ * @returns The metadata
+ */
+export const getMetadata = (row: DeliveryRow): DeliveryMetadata =>
+  row.metadata && typeof row.metadata === 'object' && !Array.isArray(row.metadata)
+    ? (row.metadata as DeliveryMetadata)
+    : {};
+
+/**
+ * Build the timeline entry recording a delivery's creation
+ * @param providerStatus The provider's status when the delivery was created
+ * @param occurredAt When the delivery was created
+ * @returns The timeline entry
+ */
+export const initialTimelineEntry = (
+  providerStatus: string,
+  occurredAt: string = new Date().toISOString()
+): StatusTimelineEntry => ({
+  status: WebhookDeliveryStatus.PENDING,
+  provider_status: providerStatus,
+  source: 'dispatch',
+  occurred_at: occurredAt,
+});
+
+/**
+ * Record a status transition in the delivery's history
+ *
+ * The delivery row is already updated at this point, so a failure is logged
+ * rather than failing the update.
+ * @param deliveryId Our delivery ID
+ * @param fromStatus The status before the transition, or null for a new delivery
+ * @param entry The transition
+ */
+export const recordTransition = async (
+  deliveryId: string,
+  fromStatus: string | null,
+  entry: StatusTimelineEntry
+): Promise<void> => {
+  try {
+    await getRepositories().statusHistory.create({
+      delivery_id: deliveryId,
+      from_status: fromStatus,
+      to_status: entry.status,
+      provider_status: entry.provider_status,
+      source: entry.source,
+      occurred_at: entry.occurred_at,
+    });
+  } catch (error) {
+    console.error(
+      `[Delivery Status] Failed to record ${fromStatus} -> ${entry.status} for ${deliveryId}:`,
+      error
+    );
+  }
+};
+
+/**
+ * Apply a status report to a stored delivery
+ *
+ * Reports are checked against the delivery state machine: illegal and
+ * out-of-order transitions are ignored, leaving the delivery unchanged. A
+ * cancellation made through this service is never out of order, as the
+ * provider has already accepted it; it is timed no earlier than the last
+ * transition, which may be stamped by a clock ahead of ours. A
+ * timeline entry and history row are only added when the status changes, so
+ * repeated location pings do not flood the timeline, and the restaurant is
+ * only notified of actual status changes.
+ *
+ * The write only goes through if the delivery is still as it was read. When
+ * another report got there first, the delivery is read again and the report
+ * checked against it, so two concurrent reports cannot both move the delivery
+ * on from the same status.
+ * @param row The delivery row
+ * @param update The status report
+ * @returns The updated delivery row, or the current row if the report was rejected
+ */
+export const applyStatusUpdate = async (
+  row: DeliveryRow,
+  update: StatusUpdate
+): Promise<DeliveryRow> => {
+  const deliveries = getRepositories().deliveries;
+  let current = row;
+
+  for (let attempt = 1; ; attempt++) {
+    const metadata = getMetadata(current);
+    const timeline = metadata.status_history || [];
+    const last = timeline[timeline.length - 1];
+    const occurredAt =
+      update.source === 'cancel' &&
+      last &&
+      Date.parse(last.occurred_at) > Date.parse(update.occurred_at)
+        ? last.occurred_at
+        : update.occurred_at;
+
+    const check = checkTransition(
+      { status: current.status, changed_at: last?.occurred_at },
+      { status: update.status, occurred_at: occurredAt }
+    );
+    if (check.outcome === 'rejected') {
+      console.warn(
+        `[Delivery Status] Ignoring ${update.source} status ${update.status} for ${current.id} in status ${current.status}: ${check.reason}`
+      );
+      return current;
+    }
+
+    const changed = check.outcome === 'transition';
+    const entry: StatusTimelineEntry = {
+      status: update.status,
+      provider_status: update.provider_status,
+      source: update.source,
+      occurred_at: occurredAt,
+    };
+
+    const nextMetadata: DeliveryMetadata = {
+      ...metadata,
+      ...update.metadata,
+      provider_status: update.provider_status,
+      courier_location: update.courier_location || metadata.courier_location,
+      status_history: changed ? [...timeline, entry] : timeline,
+    };
+
+    const updated = await deliveries.updateIf(current.id, current, {
+      status: update.status,
+      tracking_url: update.tracking_url || current.tracking_url,
+      estimated_pickup_time: update.estimated_pickup_time || current.estimated_pickup_time,
+      estimated_dropoff_time: update.estimated_dropoff_time || current.estimated_dropoff_time,
+      actual_pickup_time:
+        current.actual_pickup_time || (PICKED_UP_STATUSES.has(update.status) ? occurredAt : null),
+      actual_dropoff_time:
+        current.actual_dropoff_time ||
+        (update.status === WebhookDeliveryStatus.DELIVERED ? occurredAt : null),
+      metadata: nextMetadata as unknown as Json,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (updated) {
+      if (changed) {
+        await recordTransition(current.id, current.status, entry);
+        await notifyStatusChange(updated, current.status, entry);
+      }
+      return updated;
+    }
+
+    const latest = await deliveries.getById(current.id);
+    if (!latest || attempt >= MAX_UPDATE_ATTEMPTS) {
+      console.warn(
+        `[Delivery Status] Dropping ${update.source} status ${update.status} for ${current.id}: the delivery kept changing`
+      );
+      return latest || current;
+    }
+    current = latest;
+  }
+};
+
+/**
+ * Record a status webhook against the delivery it belongs to
+ * @param event The parsed webhook event
+ * @returns The updated delivery, or null if the delivery is not ours
+ */
+export const recordWebhookStatus = async (
+  event: DeliveryStatusWebhookEvent
+): Promise<DeliveryRow | null> => {
+  // DoorDash identifies deliveries by our external ID, Uber by its own ID
+  const ids = [event.deliveryId, event.externalDeliveryId].filter((id): id is string => !!id);
+
+  const row = await getRepositories().deliveries.findByProviderDeliveryId(event.provider, ids);
+  if (!row) {
+    console.warn(`[Delivery Status] No ${event.provider} delivery found for ${ids.join(', ')}`);
+    return null;
+  }
+
+  return applyStatusUpdate(row, {
+    status: event.status,
+    provider_status: event.statusDetails,
+    source: 'webhook',
+    occurred_at: event.timestamp.toISOString(),
+    tracking_url: event.trackingUrl,
+    courier_location: event.location,
+    estimated_dropoff_time: event.estimatedDeliveryTime?.toISOString(),
+  });
+};
+
+/**
+ * Refresh a delivery from its provider's API
+ * @param row The delivery row
+ * @returns The updated delivery row
+ */
+const pollStatus = async (row: DeliveryRow): Promise<DeliveryRow> => {
+  const live = await providerRegistry.get(row.provider).getStatus(row.provider_delivery_id);
+
+  return applyStatusUpdate(row, {
+    status: live.status,
+    provider_status: live.provider_status,
+    source: 'poll',
+    occurred_at: new Date().toISOString(),
+    tracking_url: live.tracking_url,
+    courier_location: live.courier_location,
+    estimated_pickup_time: live.estimated_pickup_time,
+    estimated_dropoff_time: live.estimated_dropoff_time,
+  });
+};
+
+/**
+ * Build the status response for a delivery
+ * @param row The delivery row
+ * @param source Whether the provider was polled for this response
+ * @param stale Whether the state is stale
+ * @returns The status view
+ */
+const toStatusView = (
+  row: DeliveryRow,
+  source: DeliveryStatusView['source'],
+  stale: boolean
+): DeliveryStatusView => {
+  const metadata = getMetadata(row);
+
+  return {
+    id: row.id,
+    provider: row.provider,
+    provider_delivery_id: row.provider_delivery_id,
+    status: row.status as WebhookDeliveryStatus,
+    provider_status: metadata.provider_status || null,
+    tracking_url: row.tracking_url,
+    courier_location: metadata.courier_location || null,
+    estimated_pickup_time: row.estimated_pickup_time,
+    estimated_dropoff_time: row.estimated_dropoff_time,
+    actual_pickup_time: row.actual_pickup_time,
+    actual_dropoff_time: row.actual_dropoff_time,
+    updated_at: row.updated_at,
+    source,
+    stale,
+    timeline: metadata.status_history || [],
+  };
+};
+
+/**
+ * Get a delivery's current status
+ *
+ * Webhooks keep the stored state current. When it is older than the staleness
+ * window and the delivery is still in progress, the provider is polled instead;
+ * if polling fails the stored state is returned flagged as stale.
+ * @param deliveryId Our delivery ID
+ * @param restaurantId The calling restaurant; another restaurant's delivery is treated as missing
+ * @param now The current time in milliseconds
+ * @returns The delivery status
+ */
+export const getDeliveryStatus = async (
+  deliveryId: string,
+  restaurantId?: string,
+  now: number = Date.now()
+): Promise<DeliveryStatusView> => {
+  const row = await getRepositories().deliveries.getById(deliveryId);
+  if (!row || (restaurantId && row.restaurant_id !== restaurantId)) {
+    throw new ApiError(404, 'delivery_not_found', `Delivery not found: ${deliveryId}`);
+  }
+
+  const age = now - Date.parse(row.updated_at);
+  const stale = age > getStatusStaleSeconds() * 1000;
+  if (!stale || TERMINAL_STATUSES.has(row.status)) {
+    return toStatusView(row, 'stored', false);
+  }
+
+  const provider = providerRegistry.has(row.provider) ? providerRegistry.get(row.provider) : null;
+  if (!provider?.capabilities.statusPolling) {
+    return toStatusView(row, 'stored', true);
+  }
+
+  try {
+    return toStatusView(await pollStatus(row), 'live', false);
+  } catch (pollError) {
+    const message = pollError instanceof Error ? pollError.message : String(pollError);
+    console.warn(`[Delivery Status] Polling ${row.provider} for ${row.id} failed: ${message}`);
+    return toStatusView(row, 'stored', true);
+  }
+};
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+
+/**
+ * Name a courier provider is registered under (e.g. 'doordash', 'uber')
+ */
+export type DeliveryProviderName = string;
+
+/**
+ * Address shape accepted by the /v1/delivery API
+ */
+export const deliveryAddressSchema = z.object({
+  street: z.string().min(1),
+  unit: z.string().optional(),
+  city: z.string().min(1),
+  state: z.string().min(1),
+  zip_code: z.string().min(1),
+  country: z.string().length(2).default('US'),
+});
+
+export type DeliveryAddress = z.infer<typeof deliveryAddressSchema>;
+
+/**
+ * Line item carried through to the courier manifest
+ */
+export const deliveryItemSchema = z.object({
+  name: z.string().min(1),
+  quantity: z.number().int().positive(),
+  description: z.string().optional(),
+  price: z.number().int().nonnegative().optional(), // Unit price in cents
+});
+
+export type DeliveryItem = z.infer<typeof deliveryItemSchema>;
+
+/**
+ * Body of POST /v1/delivery/quote
+ *
+ * Everything needed to dispatch later is captured here so a stored quote set
+ * can be turned into a delivery without the client resending the order.
+ */
+export const quoteRequestSchema = z.object({
+  restaurant_id: z.string().min(1),
+  pickup_address: deliveryAddressSchema,
+  pickup_business_name: z.string().min(1),
+  pickup_phone_number: z.string().min(1),
+  pickup_instructions: z.string().optional(),
+  dropoff_address: deliveryAddressSchema,
+  dropoff_name: z.string().min(1),
+  dropoff_phone_number: z.string().min(1),
+  dropoff_instructions: z.string().optional(),
+  order_value: z.number().int().nonnegative().optional(), // Order subtotal in cents
+  items: z.array(deliveryItemSchema).default([]),
+});
+
+export type QuoteRequest = z.infer<typeof quoteRequestSchema>;
+
+/**
+ * Body of POST /v1/delivery/dispatch
+ *
+ * Either a stored quote set (optionally pinned to one of its quotes) or a raw
+ * quote request that is quoted and dispatched in one call.
+ */
+export const dispatchRequestSchema = z.union([
+  z.object({
+    quote_set_id: z.string().min(1),
+    quote_id: z.string().min(1).optional(),
+  }),
+  quoteRequestSchema,
+]);
+
+export type DispatchRequest = z.infer<typeof dispatchRequestSchema>;
+
+/**
+ * Body of POST /v1/delivery/:id/cancel
+ */
+export const cancelRequestSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export type CancelRequest = z.infer<typeof cancelRequestSchema>;
+
+/**
+ * A time range a courier should arrive within
+ */
+export const timeWindowSchema = z
+  .object({
+    start_time: z.string().datetime({ offset: true }),
+    end_time: z.string().datetime({ offset: true }),
+  })
+  .refine(window => Date.parse(window.start_time) < Date.parse(window.end_time), {
+    message: '`start_time` must be before `end_time`',
+  });
+
+export type TimeWindow = z.infer<typeof timeWindowSchema>;
+
+/**
+ * Body of PATCH /v1/delivery/:id
+ *
+ * Which fields can be changed depends on the provider and how far along the
+ * delivery is (see UpdatableFields).
+ */
+export const deliveryUpdateSchema = z
+  .object({
+    dropoff_instructions: z.string().max(500).optional(),
+    dropoff_phone_number: z.string().min(1).optional(),
+    tip: z.number().int().nonnegative().optional(), // In cents
+    pickup_window: timeWindowSchema.optional(),
+    dropoff_window: timeWindowSchema.optional(),
+  })
+  .strict()
+  .refine(update => Object.values(update).some(value => value !== undefined), {
+    message: 'At least one field must be changed',
+  });
+
+export type DeliveryUpdate = z.infer<typeof deliveryUpdateSchema>;
+
+export type DeliveryUpdateField = keyof DeliveryUpdate;
+
+/**
+ * Query string of GET /v1/delivery/report
+ *
+ * The range defaults to the 30 days up to now; `to` is exclusive.
+ */
+export const reportQuerySchema = z
+  .object({
+    restaurant_id: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .transform(query => {
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    return { ...query, from, to };
+  })
+  .refine(query => query.from < query.to, { message: '`from` must be before `to`' });
+
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+
+/**
+ * A provider quote normalized to a single shape
+ */
+export interface DeliveryQuote {
+  id: string; // provider_quotes row id
+  quote_set_id: string;
+  provider: DeliveryProviderName;
+  provider_quote_id: string;
+  fee: number; // In cents
+  currency: string;
+  estimated_dropoff_time: string | null;
+  expires_at: string;
+  rank: number;
+  cheapest: boolean;
+}
+
+/**
+ * A provider that could not be quoted, reported alongside successful quotes
+ */
+export interface QuoteFailure {
+  provider: DeliveryProviderName;
+  message: string;
+  code?: string; // The error's code, e.g. address_undeliverable
+  skipped?: boolean; // Not asked, because its API's circuit breaker is open
+}
+
+/**
+ * One provider tried while dispatching a quote set
+ */
+export interface DispatchAttempt {
+  provider: DeliveryProviderName;
+  quote_id: string;
+  outcome: 'succeeded' | 'failed' | 'skipped';
+  error?: string;
+  error_code?: string; // The provider error's code, e.g. provider_unavailable
+  latency_ms: number;
+  attempted_at: string;
+}
+
+/**
+ * Result of comparing quotes across providers
+ */
+export interface QuoteComparison {
+  quote_set_id: string;
+  restaurant_id: string;
+  quotes: DeliveryQuote[];
+  cheapest: DeliveryQuote;
+  errors: QuoteFailure[];
+}
+
+/**
+ * A cancelled delivery, as returned by POST /v1/delivery/:id/cancel
+ */
+export interface DeliveryCancellation {
+  id: string;
+  provider: DeliveryProviderName;
+  provider_delivery_id: string;
+  status: string;
+  provider_status: string;
+  reason: string;
+  cancellation_fee: number | null; // In cents, when the provider charged one
+  currency: string;
+  cancelled_at: string;
+}
+
+/**
+ * An updated delivery, as returned by PATCH /v1/delivery/:id
+ */
+export interface DeliveryUpdateResult {
+  id: string;
+  provider: DeliveryProviderName;
+  provider_delivery_id: string;
+  status: string;
+  provider_status: string;
+  changes: DeliveryUpdate;
+  updated_at: string;
+}
@@ -0,0 +1,143 @@
+import { toProviderError } from '../../clients/errors';
+import { DeliveryRow, getRepositories } from '../../db';
+import { providerRegistry, ProviderDeliveryUpdate } from '../../providers';
+import { Json } from '../../types/database';
+import { ApiError } from '../../utils/errors';
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+import { getMetadata, MAX_UPDATE_ATTEMPTS, TERMINAL_STATUSES } from './status';
+import { DeliveryUpdate, DeliveryUpdateField, DeliveryUpdateResult } from './types';
+
+/**
+ * A change recorded in a delivery's metadata
+ */
+interface RecordedUpdate {
+  changes: DeliveryUpdate;
+  updated_at: string;
+}
+
+/**
+ * Change details of a delivery with its provider
+ *
+ * Each provider lists the fields it lets change and in which statuses. A
+ * field the provider never changes is a 422; one it no longer changes at the
+ * delivery's stage is a 409, naming the statuses it could still have changed
+ * in. Nothing is sent to the provider unless every field can be changed.
+ * Applied changes are kept in the delivery's metadata, merged into a fresh
+ * read of it, so webhooks that landed during the provider call are kept.
+ * @param deliveryId Our delivery ID
+ * @param changes The fields to change
+ * @param restaurantId The calling restaurant; another restaurant's delivery is treated as missing
+ * @param now The current time in milliseconds
+ * @returns The updated delivery
+ * @throws ApiError 404 if the delivery is not found, 409 if a change is no longer possible,
+ * 422 if the provider does not support changing a field
+ */
+export const updateDelivery = async (
+  deliveryId: string,
+  changes: DeliveryUpdate,
+  restaurantId?: string,
+  now: number = Date.now()
+): Promise<DeliveryUpdateResult> => {
+  const row = await getRepositories().deliveries.getById(deliveryId);
+  if (!row || (restaurantId && row.restaurant_id !== restaurantId)) {
+    throw new ApiError(404, 'delivery_not_found', `Delivery not found: ${deliveryId}`);
+  }
+  if (TERMINAL_STATUSES.has(row.status)) {
+    throw new ApiError(
+      409,
+      'cannot_update',
+      `Delivery ${deliveryId} can no longer be updated (${row.status})`,
+      { status: row.status }
+    );
+  }
+
+  const provider = providerRegistry.has(row.provider) ? providerRegistry.get(row.provider) : null;
+  if (!provider?.capabilities.update) {
+    throw new ApiError(
+      422,
+      'update_not_supported',
+      `Updating ${row.provider} deliveries is not supported`
+    );
+  }
+
+  const fields = (Object.keys(changes) as DeliveryUpdateField[]).filter(
+    field => changes[field] !== undefined
+  );
+  const unsupported = fields.filter(field => !provider.updatableFields[field]);
+  if (unsupported.length) {
+    throw new ApiError(
+      422,
+      'update_not_supported',
+      `${row.provider} deliveries cannot change ${unsupported.join(', ')}`,
+      { provider: row.provider, fields: unsupported }
+    );
+  }
+  const locked = fields.filter(
+    field => !provider.updatableFields[field]?.includes(row.status as WebhookDeliveryStatus)
+  );
+  if (locked.length) {
+    throw new ApiError(
+      409,
+      'cannot_update',
+      `Delivery ${deliveryId} can no longer change ${locked.join(', ')} (${row.status})`,
+      {
+        status: row.status,
+        fields: locked.map(field => ({
+          field,
+          allowed_statuses: provider.updatableFields[field],
+        })),
+      }
+    );
+  }
+
+  let result: ProviderDeliveryUpdate;
+  try {
+    result = await provider.update(row.provider_delivery_id, changes);
+  } catch (error) {
+    const failure = toProviderError(row.provider, error);
+    console.warn(
+      `[Delivery Update] ${row.provider} refused to update ${row.id}: ${failure.message}`
+    );
+    throw failure;
+  }
+
+  const updatedAt = new Date(now).toISOString();
+  const deliveries = getRepositories().deliveries;
+  let current = row;
+  let updated: DeliveryRow | null = null;
+  for (let attempt = 1; !updated; attempt++) {
+    const metadata = getMetadata(current);
+    const updates = (metadata.updates as RecordedUpdate[] | undefined) || [];
+    updated = await deliveries.updateIf(current.id, current, {
+      metadata: {
+        ...metadata,
+        provider_status: result.provider_status,
+        updates: [...updates, { changes, updated_at: updatedAt }],
+      } as unknown as Json,
+      updated_at: updatedAt,
+    });
+    if (updated) {
+      break;
+    }
+
+    const latest = await deliveries.getById(current.id);
+    if (!latest || attempt >= MAX_UPDATE_ATTEMPTS) {
+      // The provider has the changes; only our record of them is lost
+      console.warn(
+        `[Delivery Update] Could not record the update to ${current.id}: the delivery kept changing`
+      );
+      updated = latest || current;
+    }
+    current = latest || current;
+  }
+
+  return {
+    id: updated.id,
+    provider: updated.provider,
+    provider_delivery_id: updated.provider_delivery_id,
+    status: updated.status,
+    provider_status: result.provider_status,
+    changes,
+    updated_at: updatedAt,
+  };
+};
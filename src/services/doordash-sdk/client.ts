@@ -1,5 +1,12 @@
 import { DoorDashClient, CreateDeliveryInput, DeliveryQuoteInput, UpdateDeliveryInput, DeliveryResponse, DoorDashResponse } from '@doordash/sdk';
 import dotenv from 'dotenv';
+import {
+  DoorDashClientConfig,
+  getDoorDashClientConfig,
+  isDefaultDoorDashConfig,
+} from '../../clients/config';
+import { callProvider } from '../../clients/http';
+import { DoorDashClient as DoorDashRestClient } from '../doordash/client';
 
 // Load environment variables
 dotenv.config();
@@ -19,16 +26,28 @@ if (!DD_DEVELOPER_ID || !DD_KEY_ID || !DD_SIGNING_SECRET) {
 /**
  * DoorDash SDK client singleton for interacting with the DoorDash Drive API
  */
-class DoorDashSDKClient {
+export class DoorDashSDKClient {
   private client: DoorDashClient;
+  // The SDK always calls the production API with its own transport, so any
+  // other settings (e.g. the local simulator) go through the REST client instead
+  private rest?: DoorDashRestClient;
+  private config: DoorDashClientConfig;
   private static instance: DoorDashSDKClient;
 
-  private constructor() {
+  /**
+   * Create a DoorDash SDK client
+   * @param config Where and how to reach the API; read from the environment by default
+   */
+  constructor(config: DoorDashClientConfig = getDoorDashClientConfig()) {
+    this.config = config;
     this.client = new DoorDashClient({
       developer_id: DD_DEVELOPER_ID || '',
       key_id: DD_KEY_ID || '',
       signing_secret: DD_SIGNING_SECRET || '',
     });
+    if (!isDefaultDoorDashConfig(config)) {
+      this.rest = new DoorDashRestClient(config);
+    }
   }
 
   /**
@@ -49,7 +68,12 @@ class DoorDashSDKClient {
    */
   public async getDeliveryQuote(quoteInput: DeliveryQuoteInput): Promise<DoorDashResponse<DeliveryResponse>> {
     try {
-      return await this.client.deliveryQuote(quoteInput);
+      if (this.rest) {
+        return this.wrap(
+          await this.rest.post<DeliveryResponse>('/quotes', quoteInput, { idempotent: true })
+        );
+      }
+      return await this.send(() => this.client.deliveryQuote(quoteInput), true);
     } catch (error) {
       console.error('Error getting DoorDash delivery quote:', error);
       throw error;
@@ -63,13 +87,45 @@ class DoorDashSDKClient {
    */
   public async createDelivery(deliveryInput: CreateDeliveryInput): Promise<DoorDashResponse<DeliveryResponse>> {
     try {
-      return await this.client.createDelivery(deliveryInput);
+      if (this.rest) {
+        return this.wrap(await this.rest.post<DeliveryResponse>('/deliveries', deliveryInput));
+      }
+      return await this.send(() => this.client.createDelivery(deliveryInput), false);
     } catch (error) {
       console.error('Error creating DoorDash delivery:', error);
       throw error;
     }
   }
 
+  /**
+   * Accept a quote, creating its delivery
+   * @param externalDeliveryId The external delivery ID the quote was requested with
+   * @param acceptInput The tip and dropoff phone number, if they changed since the quote
+   * @returns Promise with the delivery response
+   */
+  public async acceptDeliveryQuote(
+    externalDeliveryId: string,
+    acceptInput: { tip?: number; dropoff_phone_number?: string }
+  ): Promise<DoorDashResponse<DeliveryResponse>> {
+    try {
+      if (this.rest) {
+        return this.wrap(
+          await this.rest.post<DeliveryResponse>(
+            `/quotes/${externalDeliveryId}/accept`,
+            acceptInput
+          )
+        );
+      }
+      return await this.send(
+        () => this.client.acceptDeliveryQuote(externalDeliveryId, acceptInput),
+        false
+      );
+    } catch (error) {
+      console.error(`Error accepting DoorDash quote ${externalDeliveryId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get delivery status
    * @param externalDeliveryId The external delivery ID
@@ -77,7 +133,12 @@ class DoorDashSDKClient {
    */
   public async getDeliveryStatus(externalDeliveryId: string): Promise<DoorDashResponse<DeliveryResponse>> {
     try {
-      return await this.client.getDelivery(externalDeliveryId);
+      if (this.rest) {
+        return this.wrap(
+          await this.rest.get<DeliveryResponse>(`/deliveries/${externalDeliveryId}`)
+        );
+      }
+      return await this.send(() => this.client.getDelivery(externalDeliveryId), true);
     } catch (error) {
       console.error(`Error getting DoorDash delivery status for ${externalDeliveryId}:`, error);
       throw error;
@@ -91,7 +152,12 @@ class DoorDashSDKClient {
    */
   public async cancelDelivery(externalDeliveryId: string): Promise<DoorDashResponse<DeliveryResponse>> {
     try {
-      return await this.client.cancelDelivery(externalDeliveryId);
+      if (this.rest) {
+        return this.wrap(
+          await this.rest.put<DeliveryResponse>(`/deliveries/${externalDeliveryId}/cancel`)
+        );
+      }
+      return await this.send(() => this.client.cancelDelivery(externalDeliveryId), true);
     } catch (error) {
       console.error(`Error cancelling DoorDash delivery ${externalDeliveryId}:`, error);
       throw error;
@@ -109,12 +175,45 @@ class DoorDashSDKClient {
     updateInput: UpdateDeliveryInput
   ): Promise<DoorDashResponse<DeliveryResponse>> {
     try {
-      return await this.client.updateDelivery(externalDeliveryId, updateInput);
+      if (this.rest) {
+        return this.wrap(
+          await this.rest.patch<DeliveryResponse>(`/deliveries/${externalDeliveryId}`, updateInput)
+        );
+      }
+      return await this.send(
+        () => this.client.updateDelivery(externalDeliveryId, updateInput),
+        false
+      );
     } catch (error) {
       console.error(`Error updating DoorDash delivery ${externalDeliveryId}:`, error);
       throw error;
     }
   }
+
+  /**
+   * Call the SDK through the DoorDash circuit breaker, retrying transient failures
+   *
+   * The SDK's transport has no timeout of its own, so the configured one is
+   * enforced here; the REST client's requests get theirs from axios.
+   * @param call Calls the SDK
+   * @param idempotent Whether the call is safe to make twice
+   * @returns The SDK response
+   */
+  private send<T>(call: () => Promise<T>, idempotent: boolean): Promise<T> {
+    return callProvider('doordash', this.config, call, {
+      idempotent,
+      timeoutMs: this.config.timeoutMs,
+    });
+  }
+
+  /**
+   * Shape a REST response like the SDK's
+   * @param data The response body
+   * @returns The SDK response
+   */
+  private wrap(data: DeliveryResponse): DoorDashResponse<DeliveryResponse> {
+    return { data } as DoorDashResponse<DeliveryResponse>;
+  }
 }
 
 // Export the singleton instance
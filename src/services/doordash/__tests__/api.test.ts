@@ -73,7 +73,7 @@ describe('DoorDashAPI', () => {
       const result = await api.getDeliveryQuote(quoteRequest);
 
       // Assert
-      expect(mockClient.post).toHaveBeenCalledWith('/quotes', quoteRequest);
+      expect(mockClient.post).toHaveBeenCalledWith('/quotes', quoteRequest, { idempotent: true });
       expect(result).toEqual(mockResponse);
     });
   });
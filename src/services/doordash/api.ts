@@ -1,3 +1,4 @@
+import { DoorDashClientConfig } from '../../clients/config';
 import { DoorDashClient } from './client';
 import {
   DeliveryQuoteRequest,
@@ -31,8 +32,12 @@ import {
 export class DoorDashAPI {
   private client: DoorDashClient;
 
-  constructor() {
-    this.client = new DoorDashClient();
+  /**
+   * Create the DoorDash API service
+   * @param config Where and how to reach the API; read from the environment by default
+   */
+  constructor(config?: DoorDashClientConfig) {
+    this.client = new DoorDashClient(config);
   }
 
   /**
@@ -44,7 +49,8 @@ export class DoorDashAPI {
   public async getDeliveryQuote(
     quoteRequest: DeliveryQuoteRequest
   ): Promise<DeliveryQuoteResponse> {
-    return this.client.post<DeliveryQuoteResponse>('/quotes', quoteRequest);
+    // Quoting books nothing, so it is retried like a read
+    return this.client.post<DeliveryQuoteResponse>('/quotes', quoteRequest, { idempotent: true });
   }
 
   /**
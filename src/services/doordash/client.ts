@@ -1,17 +1,29 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosHeaders } from 'axios';
-import { DD_API_BASE_URL, getAuthHeaders } from '../../utils/doorDashAuth';
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosHeaders } from 'axios';
+import {
+  createHttpClient,
+  DoorDashClientConfig,
+  getDoorDashClientConfig,
+} from '../../clients/config';
+import { callProvider } from '../../clients/http';
+import { getAuthHeaders } from '../../utils/doorDashAuth';
 
 /**
  * DoorDash API client for making authenticated requests to the DoorDash Drive API
+ *
+ * Requests go through the DoorDash circuit breaker and are retried on transient
+ * failures; GET, PUT and DELETE, and requests marked `idempotent`, also on 5xx.
  */
 export class DoorDashClient {
   private client: AxiosInstance;
+  private config: DoorDashClientConfig;
 
-  constructor() {
-    this.client = axios.create({
-      baseURL: DD_API_BASE_URL,
-      timeout: 30000, // 30 seconds
-    });
+  /**
+   * Create a DoorDash API client
+   * @param config Where and how to reach the API; read from the environment by default
+   */
+  constructor(config: DoorDashClientConfig = getDoorDashClientConfig()) {
+    this.config = config;
+    this.client = createHttpClient(config);
 
     // Add request interceptor to handle authentication
     this.client.interceptors.request.use((config) => {
@@ -46,8 +58,7 @@ export class DoorDashClient {
     path: string, 
     config?: AxiosRequestConfig
   ): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.get(path, config);
-    return response.data;
+    return this.send(() => this.client.get<T>(path, config), true);
   }
 
   /**
@@ -63,8 +74,7 @@ export class DoorDashClient {
     data?: any, 
     config?: AxiosRequestConfig
   ): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.post(path, data, config);
-    return response.data;
+    return this.send(() => this.client.post<T>(path, data, config), config?.idempotent);
   }
 
   /**
@@ -80,8 +90,7 @@ export class DoorDashClient {
     data?: any, 
     config?: AxiosRequestConfig
   ): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.put(path, data, config);
-    return response.data;
+    return this.send(() => this.client.put<T>(path, data, config), true);
   }
 
   /**
@@ -97,8 +106,7 @@ export class DoorDashClient {
     data?: any, 
     config?: AxiosRequestConfig
   ): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.patch(path, data, config);
-    return response.data;
+    return this.send(() => this.client.patch<T>(path, data, config), config?.idempotent);
   }
 
   /**
@@ -112,7 +120,20 @@ export class DoorDashClient {
     path: string, 
     config?: AxiosRequestConfig
   ): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.delete(path, config);
+    return this.send(() => this.client.delete<T>(path, config), true);
+  }
+
+  /**
+   * Send a request through the DoorDash circuit breaker, retrying transient failures
+   * @param request Sends the request
+   * @param idempotent Whether the request is safe to send twice
+   * @returns The response data
+   */
+  private async send<T>(
+    request: () => Promise<AxiosResponse<T>>,
+    idempotent?: boolean
+  ): Promise<T> {
+    const response = await callProvider('doordash', this.config, request, { idempotent });
     return response.data;
   }
-} 
\ No newline at end of file
+}
@@ -6,9 +6,10 @@
  */
 
 import { DoorDashClient as SDK_DoorDashClient } from '@doordash/sdk';
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
 import dotenv from 'dotenv';
 import jwt from 'jsonwebtoken';
+import { createHttpClient, getDoorDashClientConfig } from '../../clients/config';
 
 // Load environment variables
 dotenv.config();
@@ -18,9 +19,6 @@ const DD_DEVELOPER_ID = process.env.DD_DEVELOPER_ID;
 const DD_KEY_ID = process.env.DD_KEY_ID;
 const DD_SIGNING_SECRET = process.env.DD_SIGNING_SECRET;
 
-// API Base URL - must use v2 as specified in the error message
-const API_BASE_URL = 'https://openapi.doordash.com/drive/v2';
-
 /**
  * Creates a JWT token for DoorDash API authentication
  * This now exactly matches how the SDK version 0.4.6 creates its token
@@ -66,10 +64,7 @@ export class DoorDashRestaurantClient {
 
   private constructor() {
     // Create the axios client
-    this.client = axios.create({
-      baseURL: API_BASE_URL,
-      timeout: 30000,
-    });
+    this.client = createHttpClient(getDoorDashClientConfig());
 
     // Add request interceptor to handle authentication
     this.client.interceptors.request.use(async (config) => {
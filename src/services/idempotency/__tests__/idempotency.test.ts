@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  describeRequest,
+  IdempotentRequest,
+  purgeExpiredIdempotencyKeys,
+  releaseIdempotentRequest,
+} from '..';
+import { createMemoryRepositories, setRepositories } from '../../../db';
+
+const dispatch = (body: unknown) => describeRequest('POST', '/v1/delivery/dispatch', body);
+
+const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+// Claim a key for a request that is to be processed
+const claimKey = async (key: string, request: IdempotentRequest, at: number = now) => {
+  const outcome = await beginIdempotentRequest('restaurant-1', key, request, at);
+  expect(outcome).toEqual({ action: 'process', claim: expect.any(String) });
+  return (outcome as { claim: string }).claim;
+};
+
+describe('Idempotency keys', () => {
+  beforeEach(() => {
+    setRepositories(createMemoryRepositories());
+    delete process.env.IDEMPOTENCY_KEY_TTL_SECONDS;
+    delete process.env.IDEMPOTENCY_LOCK_SECONDS;
+  });
+
+  afterEach(() => {
+    setRepositories(undefined);
+  });
+
+  it('should replay the stored response to a repeat of the same request', async () => {
+    const request = dispatch({ quote_set_id: 'set-1' });
+
+    const claim = await claimKey('key-1', request);
+    await completeIdempotentRequest('restaurant-1', 'key-1', claim, {
+      status: 201,
+      body: { delivery: { id: 'delivery-1' } },
+    });
+
+    expect(
+      await beginIdempotentRequest(
+        'restaurant-1',
+        'key-1',
+        dispatch({ quote_set_id: 'set-1' }),
+        now
+      )
+    ).toEqual({
+      action: 'replay',
+      response: { status: 201, body: { delivery: { id: 'delivery-1' } } },
+    });
+  });
+
+  it('should reject a key reused for a different request, or while its request runs', async () => {
+    await beginIdempotentRequest('restaurant-1', 'key-1', dispatch({ quote_set_id: 'set-1' }), now);
+
+    await expect(
+      beginIdempotentRequest('restaurant-1', 'key-1', dispatch({ quote_set_id: 'set-1' }), now)
+    ).rejects.toMatchObject({ status: 409, code: 'idempotency_key_in_use' });
+    await expect(
+      beginIdempotentRequest('restaurant-1', 'key-1', dispatch({ quote_set_id: 'set-2' }), now)
+    ).rejects.toMatchObject({ status: 422, code: 'idempotency_key_mismatch' });
+    await expect(
+      beginIdempotentRequest(
+        'restaurant-1',
+        'key-1',
+        describeRequest('POST', '/api/restaurants/doordash/deliveries', { quote_set_id: 'set-1' }),
+        now
+      )
+    ).rejects.toMatchObject({ status: 422 });
+  });
+
+  it('should let a retry take over a key whose request stopped without a response', async () => {
+    const request = dispatch({ quote_set_id: 'set-1' });
+    await beginIdempotentRequest('restaurant-1', 'key-1', request, now);
+
+    await expect(
+      beginIdempotentRequest('restaurant-1', 'key-1', request, now + 119_000)
+    ).rejects.toMatchObject({ status: 409, code: 'idempotency_key_in_use' });
+    const claim = await claimKey('key-1', request, now + 120_000);
+
+    // A completed request keeps its key for the whole replay window
+    await completeIdempotentRequest('restaurant-1', 'key-1', claim, { status: 201, body: {} });
+    expect(
+      await beginIdempotentRequest('restaurant-1', 'key-1', request, now + 60 * 60_000)
+    ).toMatchObject({ action: 'replay' });
+  });
+
+  it('should keep the retry claim when the request it took over finishes late', async () => {
+    const request = dispatch({ quote_set_id: 'set-1' });
+    const original = await claimKey('key-1', request);
+    const retry = await claimKey('key-1', request, now + 120_000);
+
+    expect(
+      await completeIdempotentRequest('restaurant-1', 'key-1', original, { status: 201, body: {} })
+    ).toBe(false);
+    expect(await releaseIdempotentRequest('restaurant-1', 'key-1', original)).toBe(false);
+    await expect(
+      beginIdempotentRequest('restaurant-1', 'key-1', request, now + 121_000)
+    ).rejects.toMatchObject({ status: 409, code: 'idempotency_key_in_use' });
+
+    await completeIdempotentRequest('restaurant-1', 'key-1', retry, {
+      status: 201,
+      body: { delivery: { id: 'delivery-2' } },
+    });
+    expect(await beginIdempotentRequest('restaurant-1', 'key-1', request, now + 121_000)).toEqual({
+      action: 'replay',
+      response: { status: 201, body: { delivery: { id: 'delivery-2' } } },
+    });
+  });
+
+  it('should scope keys to the restaurant', async () => {
+    await beginIdempotentRequest('restaurant-1', 'key-1', dispatch({ quote_set_id: 'set-1' }), now);
+
+    expect(
+      await beginIdempotentRequest(
+        'restaurant-2',
+        'key-1',
+        dispatch({ quote_set_id: 'set-9' }),
+        now
+      )
+    ).toEqual({ action: 'process', claim: expect.any(String) });
+  });
+
+  it('should let a request run again once released or expired', async () => {
+    process.env.IDEMPOTENCY_KEY_TTL_SECONDS = '60';
+    const request = dispatch({ quote_set_id: 'set-1' });
+
+    expect(
+      await releaseIdempotentRequest('restaurant-1', 'key-1', await claimKey('key-1', request))
+    ).toBe(true);
+    const claim = await claimKey('key-1', request);
+
+    await completeIdempotentRequest('restaurant-1', 'key-1', claim, { status: 201, body: {} });
+    await claimKey('key-1', dispatch({ quote_set_id: 'set-2' }), now + 60 * 1000);
+
+    expect(await purgeExpiredIdempotencyKeys(now + 120 * 1000)).toBe(1);
+  });
+});
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../../db';
+import { Json } from '../../types/database';
+import { ApiError } from '../../utils/errors';
+import { IdempotencyOutcome, IdempotentRequest, IdempotentResponse } from './types';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_LOCK_SECONDS = 120;
+
+/**
+ * Get how long a stored response is replayed for
+ * @returns IDEMPOTENCY_KEY_TTL_SECONDS, or one day
+ */
+export const getIdempotencyTtlSeconds = (): number => {
+  const seconds = Number(process.env.IDEMPOTENCY_KEY_TTL_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL_SECONDS;
+};
+
+/**
+ * Get how long a request holds its key before a retry may take it over
+ *
+ * A request that dies without storing a response, e.g. in a crash, would
+ * otherwise block its key until it expires. This must outlast the slowest
+ * request, or a retry can run while the first is still going.
+ * @returns IDEMPOTENCY_LOCK_SECONDS, or two minutes
+ */
+export const getIdempotencyLockSeconds = (): number => {
+  const seconds = Number(process.env.IDEMPOTENCY_LOCK_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_LOCK_SECONDS;
+};
+
+/**
+ * Describe a request for comparison with later ones sent with the same key
+ * @param method The HTTP method
+ * @param path The route path
+ * @param body The parsed request body
+ * @returns The request description
+ */
+export const describeRequest = (
+  method: string,
+  path: string,
+  body: unknown
+): IdempotentRequest => ({
+  method,
+  path,
+  hash: crypto
+    .createHash('sha256')
+    .update(JSON.stringify(body ?? null))
+    .digest('hex'),
+});
+
+/**
+ * Claim an Idempotency-Key for a request, or find the response it already got
+ *
+ * A claim whose request neither stored a response nor released it within the
+ * lock time is taken over, so the request can be retried. Each claim gets a
+ * token, which storing the response or releasing the key must present, so the
+ * request taken over cannot overwrite or delete the retry's claim if it finishes late.
+ * @param restaurantId The calling restaurant; keys are only unique per restaurant
+ * @param key The Idempotency-Key header
+ * @param request The request
+ * @param now The current time in milliseconds
+ * @returns Whether to process the request, with its claim token, or replay a stored response
+ * @throws ApiError 422 if the key was used for a different request, 409 if its first request is still running
+ */
+export const beginIdempotentRequest = async (
+  restaurantId: string,
+  key: string,
+  request: IdempotentRequest,
+  now: number = Date.now()
+): Promise<IdempotencyOutcome> => {
+  const repository = getRepositories().idempotencyKeys;
+  const claim = uuidv4();
+  const claimed = await repository.create({
+    restaurant_id: restaurantId,
+    key,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + getIdempotencyTtlSeconds() * 1000).toISOString(),
+    locked_until: new Date(now + getIdempotencyLockSeconds() * 1000).toISOString(),
+    claim_token: claim,
+    request_method: request.method,
+    request_path: request.path,
+    request_hash: request.hash,
+  });
+  if (claimed) {
+    return { action: 'process', claim };
+  }
+
+  const inProgress = () =>
+    new ApiError(
+      409,
+      'idempotency_key_in_use',
+      `A request with Idempotency-Key ${key} is still being processed`
+    );
+  const existing = await repository.get(restaurantId, key);
+  // Gone again means a failed first attempt was just released; the client can retry
+  if (!existing) {
+    throw inProgress();
+  }
+  if (
+    existing.request_method !== request.method ||
+    existing.request_path !== request.path ||
+    existing.request_hash !== request.hash
+  ) {
+    throw new ApiError(
+      422,
+      'idempotency_key_mismatch',
+      `Idempotency-Key ${key} was already used for a different request`,
+      { method: existing.request_method, path: existing.request_path }
+    );
+  }
+  if (existing.status !== 'completed' || existing.response_status === null) {
+    throw inProgress();
+  }
+
+  return {
+    action: 'replay',
+    response: { status: existing.response_status, body: existing.response_body },
+  };
+};
+
+/**
+ * Store the response to a claimed request, for replaying to repeats
+ * @param restaurantId The calling restaurant
+ * @param key The Idempotency-Key header
+ * @param claim The claim token from beginIdempotentRequest
+ * @param response The response
+ * @returns False if a retry took the key over, in which case nothing is stored
+ */
+export const completeIdempotentRequest = async (
+  restaurantId: string,
+  key: string,
+  claim: string,
+  response: IdempotentResponse
+): Promise<boolean> => {
+  const stored = await getRepositories().idempotencyKeys.update(restaurantId, key, claim, {
+    status: 'completed',
+    response_status: response.status,
+    response_body: (response.body ?? null) as Json,
+  });
+  if (!stored) {
+    console.warn(`[Idempotency] Claim on ${key} was taken over; not storing its response`);
+  }
+  return stored;
+};
+
+/**
+ * Give up a claim, e.g. after a server error, so the request can be retried
+ * @param restaurantId The calling restaurant
+ * @param key The Idempotency-Key header
+ * @param claim The claim token from beginIdempotentRequest
+ * @returns False if a retry took the key over, in which case its claim is kept
+ */
+export const releaseIdempotentRequest = (
+  restaurantId: string,
+  key: string,
+  claim: string
+): Promise<boolean> => getRepositories().idempotencyKeys.delete(restaurantId, key, claim);
+
+/**
+ * Delete stored responses past their replay window
+ * @param now The current time in milliseconds
+ * @returns How many were deleted
+ */
+export const purgeExpiredIdempotencyKeys = (now: number = Date.now()): Promise<number> =>
+  getRepositories().idempotencyKeys.deleteExpired(new Date(now));
@@ -0,0 +1,25 @@
+/**
+ * What makes two requests with the same Idempotency-Key the same request
+ */
+export interface IdempotentRequest {
+  method: string;
+  path: string;
+  hash: string; // SHA-256 of the body
+}
+
+/**
+ * A stored response, replayed for repeats of its request
+ */
+export interface IdempotentResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * How a request with an Idempotency-Key should be handled
+ *
+ * - `process`: it is new; handle it and store its response under `claim`
+ * - `replay`: it was handled before; send the stored response
+ */
+export type IdempotencyOutcome =
+  { action: 'process'; claim: string } | { action: 'replay'; response: IdempotentResponse };
@@ -0,0 +1,38 @@
+import { createBucketState, refill } from './buckets';
+import { RateLimitBucket, RateLimitBucketState, RateLimitStore, RateLimitTake } from './types';
+
+/**
+ * Rate limit store kept in process memory
+ *
+ * Each process counts on its own, so limits are per instance; use the
+ * Supabase store when running more than one.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  protected buckets: Map<string, RateLimitBucketState> = new Map();
+
+  // Refill, check and take in one synchronous step, so concurrent requests cannot interleave
+  async take(buckets: RateLimitBucket[], cost: number, now: number): Promise<RateLimitTake> {
+    const states = buckets.map(bucket => {
+      const stored = this.buckets.get(bucket.id);
+      return stored ? refill(stored, bucket, now) : createBucketState(bucket, now);
+    });
+    const allowed = states.every(state => state.tokens >= cost);
+
+    const updated = states.map(state =>
+      allowed
+        ? { ...state, tokens: state.tokens - cost, consumed: state.consumed + cost }
+        : { ...state, throttled: state.throttled + 1 }
+    );
+    for (const state of updated) {
+      this.buckets.set(state.id, state);
+    }
+    return { allowed, buckets: updated.map(state => ({ ...state })) };
+  }
+
+  async get(ids: string[]): Promise<RateLimitBucketState[]> {
+    return ids
+      .map(id => this.buckets.get(id))
+      .filter((state): state is RateLimitBucketState => !!state)
+      .map(state => ({ ...state }));
+  }
+}
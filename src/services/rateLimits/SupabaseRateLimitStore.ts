@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase, TABLES } from '../../db/supabase';
+import { Database } from '../../types/database';
+import { RateLimitBucket, RateLimitBucketState, RateLimitStore, RateLimitTake } from './types';
+
+/**
+ * Rate limit store backed by the `rate_limit_buckets` table
+ *
+ * Taking tokens is one call to `take_rate_limit_tokens`, which locks the
+ * buckets' rows, so every instance of the service shares the same limits.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  private db: () => SupabaseClient<Database>;
+
+  /**
+   * Create a Supabase-backed store
+   * @param db Returns the Supabase client; defaults to the shared client
+   */
+  constructor(db: () => SupabaseClient<Database> = getSupabase) {
+    this.db = db;
+  }
+
+  async take(buckets: RateLimitBucket[], cost: number, now: number): Promise<RateLimitTake> {
+    const { data, error } = await this.db().rpc('take_rate_limit_tokens', {
+      p_ids: buckets.map(bucket => bucket.id),
+      p_capacities: buckets.map(bucket => bucket.capacity),
+      p_refill_per_second: buckets.map(bucket => bucket.refillPerSecond),
+      p_cost: cost,
+      p_now: new Date(now).toISOString(),
+    });
+    if (error) {
+      throw new Error(`Failed to take rate limit tokens: ${error.message}`);
+    }
+
+    const rows = data || [];
+    return {
+      allowed: rows.length > 0 && rows.every(row => row.allowed),
+      buckets: rows.map(row => ({
+        id: row.bucket_id,
+        tokens: row.bucket_tokens,
+        refilled_at: row.bucket_refilled_at,
+        period_start: row.bucket_period_start,
+        consumed: row.bucket_consumed,
+        throttled: row.bucket_throttled,
+      })),
+    };
+  }
+
+  async get(ids: string[]): Promise<RateLimitBucketState[]> {
+    const { data, error } = await this.db()
+      .from(TABLES.RATE_LIMIT_BUCKETS)
+      .select('*')
+      .in('id', ids);
+    if (error) {
+      throw new Error(`Failed to load rate limit buckets: ${error.message}`);
+    }
+    return data || [];
+  }
+}
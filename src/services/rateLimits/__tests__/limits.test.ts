@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  consumeRateLimit,
+  getRateLimit,
+  getRateLimitUsage,
+  MemoryRateLimitStore,
+  RateLimitedError,
+  setRateLimitStore,
+} from '..';
+import { ApiKeyPrincipal } from '../../apiKeys';
+
+const principal = (keyId: string, restaurantId = 'restaurant-1'): ApiKeyPrincipal => ({
+  key_id: keyId,
+  restaurant_id: restaurantId,
+  scopes: ['quote'],
+});
+
+const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+describe('Rate limits', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    process.env.RATE_LIMIT_KEY_PER_MINUTE = '60';
+    process.env.RATE_LIMIT_KEY_BURST = '3';
+    process.env.RATE_LIMIT_RESTAURANT_PER_MINUTE = '120';
+    process.env.RATE_LIMIT_RESTAURANT_BURST = '5';
+  });
+
+  afterEach(() => {
+    setRateLimitStore(undefined);
+    for (const name of Object.keys(process.env).filter(name => name.startsWith('RATE_LIMIT_'))) {
+      delete process.env[name];
+    }
+  });
+
+  it('should allow bursts up to the bucket size and refill over time', async () => {
+    const caller = principal('key-1');
+
+    for (let i = 0; i < 3; i++) {
+      await consumeRateLimit(caller, 1, now);
+    }
+    const error = await consumeRateLimit(caller, 1, now).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({
+      status: 429,
+      code: 'rate_limited',
+      retryAfterSeconds: 1,
+      usage: { scope: 'key', limit: 3, remaining: 0 },
+    });
+    const { usage } = await consumeRateLimit(caller, 1, now + 1000);
+    expect(usage).toMatchObject({ scope: 'key', remaining: 0, reset_seconds: 3 });
+  });
+
+  it("should share the restaurant's bucket between its keys, charging neither on refusal", async () => {
+    await consumeRateLimit(principal('key-1'), 3, now);
+    await consumeRateLimit(principal('key-2'), 2, now);
+
+    await expect(consumeRateLimit(principal('key-3'), 1, now)).rejects.toMatchObject({
+      usage: { scope: 'restaurant' },
+    });
+    await expect(consumeRateLimit(principal('key-1', 'restaurant-2'), 1, now)).rejects.toThrow(
+      RateLimitedError
+    );
+
+    const [key, restaurant] = await getRateLimitUsage(principal('key-3'), now);
+    expect(key).toMatchObject({ scope: 'key', remaining: 3, consumed: 0, throttled: 1 });
+    expect(restaurant).toMatchObject({ scope: 'restaurant', remaining: 0, consumed: 5 });
+  });
+
+  it('should report usage without charging it and reset the counters daily', async () => {
+    const caller = principal('key-1');
+    await consumeRateLimit(caller, 2, now);
+
+    expect(await getRateLimitUsage(caller, now)).toEqual([
+      expect.objectContaining({
+        scope: 'key',
+        remaining: 1,
+        consumed: 2,
+        period_start: '2026-10-19',
+      }),
+      expect.objectContaining({ scope: 'restaurant', remaining: 3, consumed: 2 }),
+    ]);
+    expect((await getRateLimitUsage(caller, now))[0].remaining).toBe(1);
+
+    const tomorrow = await getRateLimitUsage(caller, now + 24 * 60 * 60 * 1000);
+    expect(tomorrow[0]).toMatchObject({ remaining: 3, consumed: 0, period_start: '2026-10-20' });
+  });
+
+  it('should read limits from the environment and skip scopes set to 0', async () => {
+    process.env.RATE_LIMIT_RESTAURANT_PER_MINUTE = '0';
+    delete process.env.RATE_LIMIT_KEY_BURST;
+
+    expect(getRateLimit('key')).toEqual({ capacity: 60, refillPerSecond: 1 });
+    expect(getRateLimit('restaurant')).toBeNull();
+    expect(await getRateLimitUsage(principal('key-1'), now)).toHaveLength(1);
+  });
+});
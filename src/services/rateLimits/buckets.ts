@@ -0,0 +1,60 @@
+import { RateLimit, RateLimitBucket, RateLimitBucketState } from './types';
+
+/**
+ * Get the UTC date a time falls on
+ * @param now The time in milliseconds
+ * @returns The date as YYYY-MM-DD
+ */
+export const toPeriodStart = (now: number): string => new Date(now).toISOString().slice(0, 10);
+
+/**
+ * Create a full bucket
+ * @param bucket The bucket
+ * @param now The current time in milliseconds
+ * @returns The bucket state
+ */
+export const createBucketState = (bucket: RateLimitBucket, now: number): RateLimitBucketState => ({
+  id: bucket.id,
+  tokens: bucket.capacity,
+  refilled_at: new Date(now).toISOString(),
+  period_start: toPeriodStart(now),
+  consumed: 0,
+  throttled: 0,
+});
+
+/**
+ * Add the tokens earned since a bucket was last refilled, and start a new
+ * usage period on a new day
+ * @param state The stored state
+ * @param limit The bucket's limit
+ * @param now The current time in milliseconds
+ * @returns The refilled state
+ */
+export const refill = (
+  state: RateLimitBucketState,
+  limit: RateLimit,
+  now: number
+): RateLimitBucketState => {
+  const elapsedSeconds = Math.max(0, now - Date.parse(state.refilled_at)) / 1000;
+  const period = toPeriodStart(now);
+  const newPeriod = period !== state.period_start;
+
+  return {
+    ...state,
+    tokens: Math.min(limit.capacity, state.tokens + elapsedSeconds * limit.refillPerSecond),
+    refilled_at: new Date(now).toISOString(),
+    period_start: newPeriod ? period : state.period_start,
+    consumed: newPeriod ? 0 : state.consumed,
+    throttled: newPeriod ? 0 : state.throttled,
+  };
+};
+
+/**
+ * Get how long until a bucket holds a number of tokens
+ * @param tokens The tokens it holds
+ * @param wanted The tokens wanted
+ * @param limit The bucket's limit
+ * @returns Whole seconds to wait, 0 if it already holds them
+ */
+export const secondsUntil = (tokens: number, wanted: number, limit: RateLimit): number =>
+  tokens >= wanted ? 0 : Math.ceil((wanted - tokens) / limit.refillPerSecond);
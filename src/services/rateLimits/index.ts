@@ -0,0 +1,4 @@
+export * from './types';
+export * from './limits';
+export { MemoryRateLimitStore } from './MemoryRateLimitStore';
+export { SupabaseRateLimitStore } from './SupabaseRateLimitStore';
@@ -0,0 +1,220 @@
+import { getDbDriver } from '../../db';
+import { ApiError } from '../../utils/errors';
+import { ApiKeyPrincipal } from '../apiKeys';
+import { createBucketState, refill, secondsUntil } from './buckets';
+import { MemoryRateLimitStore } from './MemoryRateLimitStore';
+import { SupabaseRateLimitStore } from './SupabaseRateLimitStore';
+import {
+  RateLimit,
+  RateLimitBucket,
+  RateLimitBucketState,
+  RateLimitScope,
+  RateLimitStore,
+  RateLimitUsage,
+} from './types';
+
+// Requests per minute allowed by default, for each key and for all of a restaurant's keys together
+const DEFAULT_PER_MINUTE: Record<RateLimitScope, number> = { key: 60, restaurant: 300 };
+
+// A quote calls every provider, so it costs more than other requests
+const DEFAULT_QUOTE_COST = 2;
+
+/**
+ * Backends rate limit buckets can be kept in
+ */
+export type RateLimitStoreDriver = 'supabase' | 'memory';
+
+let store: RateLimitStore | undefined;
+
+/**
+ * Thrown when a request would exceed a rate limit
+ */
+export class RateLimitedError extends ApiError {
+  usage: RateLimitUsage; // The bucket that refused the request
+  retryAfterSeconds: number; // Sent back as Retry-After
+
+  constructor(usage: RateLimitUsage, retryAfterSeconds: number) {
+    const subject = usage.scope === 'key' ? 'API key' : 'restaurant';
+    super(
+      429,
+      'rate_limited',
+      `Rate limit exceeded for this ${subject}; retry in ${retryAfterSeconds}s`,
+      { scope: usage.scope, retry_after_seconds: retryAfterSeconds }
+    );
+    this.name = 'RateLimitedError';
+    this.usage = usage;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Read a non-negative number from the environment
+ * @param name The variable name
+ * @param fallback The value when it is unset or invalid
+ * @returns The value
+ */
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name] || NaN);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Get the configured limit of a scope
+ *
+ * RATE_LIMIT_<SCOPE>_PER_MINUTE sets the refill rate and
+ * RATE_LIMIT_<SCOPE>_BURST the bucket size, which defaults to a minute's worth.
+ * @param scope The scope
+ * @returns The limit, or null if RATE_LIMIT_<SCOPE>_PER_MINUTE is 0
+ */
+export const getRateLimit = (scope: RateLimitScope): RateLimit | null => {
+  const prefix = `RATE_LIMIT_${scope.toUpperCase()}`;
+  const perMinute = readNumber(`${prefix}_PER_MINUTE`, DEFAULT_PER_MINUTE[scope]);
+  if (perMinute === 0) {
+    return null;
+  }
+  return {
+    capacity: readNumber(`${prefix}_BURST`, 0) || perMinute,
+    refillPerSecond: perMinute / 60,
+  };
+};
+
+/**
+ * Get how many tokens a quote request takes
+ * @returns RATE_LIMIT_QUOTE_COST, or 2
+ */
+export const getQuoteCost = (): number => readNumber('RATE_LIMIT_QUOTE_COST', DEFAULT_QUOTE_COST);
+
+/**
+ * Get the configured rate limit store driver
+ *
+ * RATE_LIMIT_STORE selects the driver explicitly. Without it, buckets are kept
+ * in Supabase when that is the database driver and in memory otherwise.
+ * @returns The driver
+ */
+export const getRateLimitStoreDriver = (): RateLimitStoreDriver => {
+  const driver = process.env.RATE_LIMIT_STORE?.toLowerCase();
+  if (driver === 'supabase' || driver === 'memory') {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(
+      `Unsupported RATE_LIMIT_STORE: ${process.env.RATE_LIMIT_STORE}. Use "supabase" or "memory".`
+    );
+  }
+  return getDbDriver();
+};
+
+/**
+ * Get the rate limit store for the configured driver, creating it on first use
+ * @returns The store
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store =
+      getRateLimitStoreDriver() === 'supabase'
+        ? new SupabaseRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return store;
+};
+
+/**
+ * Replace the rate limit store in use, e.g. with a fresh in-memory one in tests
+ * @param replacement The store to use, or undefined to re-read the config
+ */
+export const setRateLimitStore = (replacement: RateLimitStore | undefined): void => {
+  store = replacement;
+};
+
+/**
+ * Get the buckets a caller's requests are counted in, key before restaurant
+ * @param principal The caller
+ * @returns The buckets of the scopes that are limited
+ */
+const getBuckets = (principal: ApiKeyPrincipal): RateLimitBucket[] => {
+  const ids: Record<RateLimitScope, string> = {
+    key: `key:${principal.key_id}`,
+    restaurant: `restaurant:${principal.restaurant_id}`,
+  };
+  return (['key', 'restaurant'] as const).flatMap(scope => {
+    const limit = getRateLimit(scope);
+    return limit ? [{ id: ids[scope], scope, ...limit }] : [];
+  });
+};
+
+/**
+ * Describe a bucket for the usage endpoint and rate limit headers
+ * @param bucket The bucket
+ * @param state Its state, refilled to now
+ * @returns The usage
+ */
+const toUsage = (bucket: RateLimitBucket, state: RateLimitBucketState): RateLimitUsage => ({
+  scope: bucket.scope,
+  limit: bucket.capacity,
+  remaining: Math.floor(state.tokens),
+  reset_seconds: secondsUntil(state.tokens, bucket.capacity, bucket),
+  refill_per_minute: bucket.refillPerSecond * 60,
+  period_start: state.period_start,
+  consumed: state.consumed,
+  throttled: state.throttled,
+});
+
+/**
+ * Result of counting a request against a caller's limits
+ */
+export interface RateLimitDecision {
+  // The bucket closest to running out, or the one that refused the request; null when unlimited
+  usage: RateLimitUsage | null;
+}
+
+/**
+ * Count a request against the caller's key and restaurant limits
+ * @param principal The caller
+ * @param cost Tokens the request takes
+ * @param now The current time in milliseconds
+ * @returns The most constrained bucket
+ * @throws RateLimitedError if either bucket has too few tokens; neither is charged then
+ */
+export const consumeRateLimit = async (
+  principal: ApiKeyPrincipal,
+  cost: number,
+  now: number = Date.now()
+): Promise<RateLimitDecision> => {
+  const buckets = getBuckets(principal);
+  if (buckets.length === 0) {
+    return { usage: null };
+  }
+
+  const result = await getRateLimitStore().take(buckets, cost, now);
+  const usages = buckets.map((bucket, index) => toUsage(bucket, result.buckets[index]));
+
+  if (!result.allowed) {
+    const waits = buckets.map((bucket, index) =>
+      secondsUntil(result.buckets[index].tokens, cost, bucket)
+    );
+    const blocking = waits.indexOf(Math.max(...waits));
+    throw new RateLimitedError(usages[blocking], Math.max(1, waits[blocking]));
+  }
+
+  const tightest = usages.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+  return { usage: tightest };
+};
+
+/**
+ * Report a caller's current rate limit consumption, without charging it
+ * @param principal The caller
+ * @param now The current time in milliseconds
+ * @returns One entry per limited scope, key first
+ */
+export const getRateLimitUsage = async (
+  principal: ApiKeyPrincipal,
+  now: number = Date.now()
+): Promise<RateLimitUsage[]> => {
+  const buckets = getBuckets(principal);
+  const states = await getRateLimitStore().get(buckets.map(bucket => bucket.id));
+
+  return buckets.map(bucket => {
+    const stored = states.find(state => state.id === bucket.id);
+    return toUsage(bucket, stored ? refill(stored, bucket, now) : createBucketState(bucket, now));
+  });
+};
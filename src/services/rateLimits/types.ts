@@ -0,0 +1,78 @@
+/**
+ * What a bucket limits: one API key, or every key of a restaurant together
+ */
+export type RateLimitScope = 'key' | 'restaurant';
+
+/**
+ * A token bucket's size and refill rate
+ */
+export interface RateLimit {
+  capacity: number; // Tokens a full bucket holds, i.e. the largest burst
+  refillPerSecond: number;
+}
+
+/**
+ * A bucket to take tokens from
+ */
+export interface RateLimitBucket extends RateLimit {
+  id: string; // e.g. key:<api key ID> or restaurant:<restaurant ID>
+  scope: RateLimitScope;
+}
+
+/**
+ * A bucket's stored state
+ *
+ * Tokens are only refilled when the bucket is next read, from the time since
+ * `refilled_at`. Usage counters cover the current UTC day.
+ */
+export interface RateLimitBucketState {
+  id: string;
+  tokens: number;
+  refilled_at: string;
+  period_start: string; // UTC date the counters started, YYYY-MM-DD
+  consumed: number; // Tokens taken today
+  throttled: number; // Requests refused today
+}
+
+/**
+ * Result of taking tokens from several buckets at once
+ */
+export interface RateLimitTake {
+  allowed: boolean; // Tokens are taken from every bucket or from none
+  buckets: RateLimitBucketState[]; // In the order requested, after the take
+}
+
+/**
+ * Where bucket state is kept
+ */
+export interface RateLimitStore {
+  /**
+   * Refill the buckets and take tokens from all of them, or from none if any
+   * has too few
+   * @param buckets The buckets, created full on first use
+   * @param cost Tokens to take from each
+   * @param now The current time in milliseconds
+   */
+  take(buckets: RateLimitBucket[], cost: number, now: number): Promise<RateLimitTake>;
+
+  /**
+   * Get buckets' stored state, without refilling them
+   * @param ids The bucket IDs
+   * @returns The buckets that exist
+   */
+  get(ids: string[]): Promise<RateLimitBucketState[]>;
+}
+
+/**
+ * One bucket in GET /v1/usage
+ */
+export interface RateLimitUsage {
+  scope: RateLimitScope;
+  limit: number; // Bucket capacity
+  remaining: number;
+  reset_seconds: number; // Until the bucket is full again
+  refill_per_minute: number;
+  period_start: string;
+  consumed: number;
+  throttled: number;
+}
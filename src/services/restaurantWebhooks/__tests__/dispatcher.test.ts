@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { lookup } from 'dns/promises';
+import {
+  deliverEvent,
+  notifyStatusChange,
+  redeliverEvent,
+  registerWebhookEndpoint,
+  RestaurantWebhookWorker,
+  signRestaurantWebhook,
+  webhookEndpointRequestSchema,
+} from '..';
+import { createMemoryRepositories, DeliveryRow, Repositories, setRepositories } from '../../../db';
+import { WebhookDeliveryStatus } from '../../../webhooks/types';
+
+vi.mock('axios', () => ({
+  default: { post: vi.fn() },
+}));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+let repositories: Repositories;
+
+const delivery: DeliveryRow = {
+  id: 'delivery-1',
+  created_at: '2026-10-19T11:50:00.000Z',
+  updated_at: '2026-10-19T12:05:00.000Z',
+  restaurant_id: 'restaurant-1',
+  pickup_address: {},
+  dropoff_address: {},
+  status: 'pickup',
+  provider: 'uber',
+  provider_delivery_id: 'del_1',
+  tracking_url: 'https://track.uber.com/1',
+  fee: 799,
+  fee_currency: 'usd',
+  estimated_pickup_time: null,
+  estimated_dropoff_time: '2026-10-19T12:30:00.000Z',
+  actual_pickup_time: '2026-10-19T12:05:00.000Z',
+  actual_dropoff_time: null,
+  external_delivery_id: 'set-1',
+  metadata: { courier_location: { latitude: 37.77, longitude: -122.42 } },
+};
+
+const pickup = {
+  status: WebhookDeliveryStatus.PICKUP,
+  provider_status: 'pickup_complete',
+  source: 'webhook' as const,
+  occurred_at: '2026-10-19T12:05:00.000Z',
+};
+
+describe('Restaurant webhooks', () => {
+  beforeEach(() => {
+    // Attempts are made by calling deliverEvent directly; scheduled ones never fire
+    vi.useFakeTimers();
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(lookup).mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as any);
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setRepositories(undefined);
+  });
+
+  it('should keep the signing secret unless a rotation is requested', async () => {
+    const registered = await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/hooks',
+      active: true,
+      rotate_secret: false,
+    });
+    const updated = await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/v2/hooks',
+      active: true,
+      rotate_secret: false,
+    });
+    const rotated = await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/v2/hooks',
+      active: true,
+      rotate_secret: true,
+    });
+
+    expect(registered.secret).toMatch(/^whsec_/);
+    expect(updated.secret).toBeUndefined();
+    expect(rotated.secret).not.toBe(registered.secret);
+    expect((await repositories.webhookEndpoints.getByRestaurant('restaurant-1'))?.url).toBe(
+      'https://example.com/v2/hooks'
+    );
+  });
+
+  it('should only accept https callbacks to public hosts', async () => {
+    const accepts = (url: string) => webhookEndpointRequestSchema.safeParse({ url }).success;
+    expect(accepts('https://example.com/hooks')).toBe(true);
+    expect(accepts('http://example.com/hooks')).toBe(false);
+    expect(accepts('https://localhost:3000/hooks')).toBe(false);
+    expect(accepts('https://127.0.0.1/hooks')).toBe(false);
+    expect(accepts('https://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(accepts('https://10.0.0.5/hooks')).toBe(false);
+    expect(accepts('https://[::1]/hooks')).toBe(false);
+    expect(accepts('https://[::ffff:192.168.1.1]/hooks')).toBe(false);
+
+    // A public-looking name can still resolve to an internal address
+    vi.mocked(lookup).mockResolvedValue([
+      { address: '93.184.215.14', family: 4 },
+      { address: '172.16.4.2', family: 4 },
+    ] as any);
+    await expect(
+      registerWebhookEndpoint('restaurant-1', {
+        url: 'https://internal.example.com/hooks',
+        active: true,
+        rotate_secret: false,
+      })
+    ).rejects.toMatchObject({ status: 422, code: 'invalid_webhook_url' });
+    expect(await repositories.webhookEndpoints.getByRestaurant('restaurant-1')).toBeNull();
+  });
+
+  it('should send a signed, provider-agnostic event for a status change', async () => {
+    const { secret } = await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/hooks',
+      active: true,
+      rotate_secret: false,
+    });
+    vi.mocked(axios.post).mockResolvedValue({ status: 204 });
+
+    const event = await notifyStatusChange(delivery, WebhookDeliveryStatus.ASSIGNED, pickup);
+    const sent = await deliverEvent(event!.id);
+
+    const [url, body, config] = vi.mocked(axios.post).mock.calls[0] as [string, string, any];
+    const signature = config.headers['X-Courier-Signature'];
+    const timestamp = Number(signature.match(/^t=(\d+),/)[1]);
+    expect(url).toBe('https://example.com/hooks');
+    expect(signature).toBe(signRestaurantWebhook(secret!, body, timestamp));
+    expect(config.headers['X-Courier-Event-Id']).toBe(event!.id);
+    expect(JSON.parse(body)).toMatchObject({
+      id: event!.id,
+      type: 'delivery.status_changed',
+      data: {
+        delivery_id: 'delivery-1',
+        restaurant_id: 'restaurant-1',
+        provider: 'uber',
+        status: 'pickup',
+        previous_status: 'assigned',
+        courier_location: { latitude: 37.77, longitude: -122.42 },
+      },
+    });
+    expect(sent).toMatchObject({ status: 'succeeded', attempts: 1, last_response_status: 204 });
+  });
+
+  it('should not log events for restaurants without an active endpoint', async () => {
+    expect(await notifyStatusChange(delivery, WebhookDeliveryStatus.ASSIGNED, pickup)).toBeNull();
+
+    await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/hooks',
+      active: false,
+      rotate_secret: false,
+    });
+    expect(await notifyStatusChange(delivery, WebhookDeliveryStatus.ASSIGNED, pickup)).toBeNull();
+    expect(await repositories.outboundWebhookEvents.list()).toEqual([]);
+  });
+
+  it('should retry with backoff until the retries run out, then allow a redelivery', async () => {
+    await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/hooks',
+      active: true,
+      rotate_secret: false,
+    });
+    vi.mocked(axios.post).mockResolvedValue({ status: 500 });
+    const event = await notifyStatusChange(delivery, WebhookDeliveryStatus.ASSIGNED, pickup);
+
+    const first = await deliverEvent(event!.id);
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, last_response_status: 500 });
+    expect(Date.parse(first!.next_attempt_at!) - Date.now()).toBe(30_000);
+
+    let last = first;
+    for (let attempt = 2; attempt <= 6; attempt++) {
+      last = await deliverEvent(event!.id);
+    }
+    expect(last).toMatchObject({ status: 'failed', attempts: 6, next_attempt_at: null });
+
+    vi.mocked(axios.post).mockResolvedValue({ status: 200 });
+    const redelivered = await redeliverEvent('restaurant-1', event!.id);
+
+    expect(redelivered).toMatchObject({ id: event!.id, status: 'succeeded', attempts: 1 });
+    await expect(redeliverEvent('restaurant-2', event!.id)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should send each due event from one worker at a time', async () => {
+    await registerWebhookEndpoint('restaurant-1', {
+      url: 'https://example.com/hooks',
+      active: true,
+      rotate_secret: false,
+    });
+    vi.mocked(axios.post).mockResolvedValue({ status: 500 });
+    const event = await notifyStatusChange(delivery, WebhookDeliveryStatus.ASSIGNED, pickup);
+    vi.clearAllTimers(); // Leave every attempt to the workers
+    const first = new RestaurantWebhookWorker({ workerId: 'worker-1', leaseMs: 60_000 });
+    const second = new RestaurantWebhookWorker({ workerId: 'worker-2', leaseMs: 60_000 });
+
+    const [claimed] = await repositories.outboundWebhookEvents.claim({
+      owner: 'worker-1',
+      leaseMs: 60_000,
+      limit: 1,
+    });
+    expect(claimed.id).toBe(event!.id);
+    expect(await second.poll()).toEqual([]);
+    await expect(redeliverEvent('restaurant-1', event!.id)).rejects.toMatchObject({
+      status: 409,
+      code: 'webhook_event_in_flight',
+    });
+    expect(axios.post).not.toHaveBeenCalled();
+
+    // The lease runs out without an acknowledgement, so another worker takes the event over
+    vi.advanceTimersByTime(60_000);
+    const [retried] = await second.poll();
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, lease_owner: null });
+    expect(await repositories.outboundWebhookEvents.ack(event!.id, 'worker-1', {})).toBeNull();
+
+    // The retry is not due for 30 seconds
+    expect(await first.poll()).toEqual([]);
+    vi.advanceTimersByTime(30_000);
+    vi.mocked(axios.post).mockResolvedValue({ status: 200 });
+    expect(await first.poll()).toMatchObject([{ status: 'succeeded', attempts: 2 }]);
+  });
+});
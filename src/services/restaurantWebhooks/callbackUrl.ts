@@ -0,0 +1,120 @@
+import dns, { LookupAddress, LookupOptions } from 'dns';
+import { lookup as lookupAll } from 'dns/promises';
+import net from 'net';
+import { ApiError } from '../../utils/errors';
+
+// Addresses a callback must never reach: this host, private networks, link-local
+// (cloud metadata services) and other ranges that are not on the public internet
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an IP address is on the public internet
+ * @param address The IP address
+ * @returns Whether a callback may be sent to it
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  return family !== 0 && !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check a callback URL without resolving it
+ *
+ * It must be https, and a host given as an IP address or `localhost` must be public.
+ * @param url The URL
+ * @returns Whether the URL is acceptable
+ */
+export const isAllowedCallbackUrl = (url: string): boolean => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const { protocol, hostname } = parsed;
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (protocol !== 'https:' || host === 'localhost' || host.endsWith('.localhost')) {
+    return false;
+  }
+  return net.isIP(host) === 0 || isPublicAddress(host);
+};
+
+/**
+ * Check that a callback URL's host only resolves to public addresses
+ * @param url The URL
+ * @throws ApiError 422 if the host does not resolve or resolves to a blocked address
+ */
+export const assertPublicCallbackHost = async (url: string): Promise<void> => {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookupAll(host, { all: true });
+  } catch {
+    throw new ApiError(422, 'invalid_webhook_url', `Webhook URL host does not resolve: ${host}`);
+  }
+  if (!addresses.length || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new ApiError(
+      422,
+      'invalid_webhook_url',
+      `Webhook URL must not point to a private or local address: ${host}`
+    );
+  }
+};
+
+/**
+ * DNS lookup for outgoing callbacks that fails on non-public addresses
+ *
+ * Used as the socket's lookup, so the address connected to is the one checked
+ * and a host cannot be re-pointed at an internal address after registration.
+ * @param hostname The host to resolve
+ * @param options Lookup options from the socket
+ * @param callback Receives the addresses, or an error if any is blocked
+ */
+export const publicLookup = (
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+): void => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    if (!addresses.length || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new Error(`Refusing to connect to a private or local address for ${hostname}`), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,309 @@
+import axios from 'axios';
+import https from 'https';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DeliveryRow,
+  getRepositories,
+  OutboundWebhookEventRow,
+  WebhookEndpointRow,
+} from '../../db';
+import { Json } from '../../types/database';
+import { ApiError } from '../../utils/errors';
+import { hmacSha256Hex } from '../../utils/webhookSignature';
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+import { CourierLocation, StatusTimelineEntry } from '../delivery/status';
+import { isAllowedCallbackUrl, publicLookup } from './callbackUrl';
+import { OutboundWebhookEventQuery, RestaurantWebhookEvent } from './types';
+
+// Wait before each retry; an event is marked failed once these run out
+const RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000, 4 * 60 * 60_000];
+
+// Restaurants should acknowledge quickly and process asynchronously
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export const SIGNATURE_HEADER = 'X-Courier-Signature';
+
+// Checks the address each callback connects to, not just the one seen on registration
+const callbackAgent = new https.Agent({ lookup: publicLookup });
+
+// An attempt holds its event's lease for this long; it must outlast the request
+export const DEFAULT_LEASE_MS = 60_000;
+
+// Owner of the leases taken for attempts made outside a worker
+const processOwner = `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+
+/**
+ * Sign an event body for a restaurant
+ *
+ * The signature covers `<timestamp>.<body>` and is sent as
+ * `t=<timestamp>,v1=<hex>`, so receivers can reject stale replays.
+ * @param secret The restaurant's signing secret
+ * @param body The request body
+ * @param timestamp Unix time in seconds
+ * @returns The signature header value
+ */
+export const signRestaurantWebhook = (secret: string, body: string, timestamp: number): string =>
+  `t=${timestamp},v1=${hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+
+/**
+ * Build the normalized event for a status change
+ * @param delivery The delivery after the change
+ * @param fromStatus The status before the change
+ * @param entry The transition
+ * @returns The event
+ */
+const buildStatusEvent = (
+  delivery: DeliveryRow,
+  fromStatus: string | null,
+  entry: StatusTimelineEntry
+): RestaurantWebhookEvent => {
+  const metadata = (delivery.metadata || {}) as { courier_location?: CourierLocation };
+
+  return {
+    id: uuidv4(),
+    type: 'delivery.status_changed',
+    created_at: new Date().toISOString(),
+    data: {
+      delivery_id: delivery.id,
+      external_delivery_id: delivery.external_delivery_id,
+      restaurant_id: delivery.restaurant_id,
+      provider: delivery.provider,
+      status: entry.status,
+      previous_status: fromStatus as WebhookDeliveryStatus | null,
+      occurred_at: entry.occurred_at,
+      tracking_url: delivery.tracking_url,
+      courier_location: metadata.courier_location || null,
+      estimated_pickup_time: delivery.estimated_pickup_time,
+      estimated_dropoff_time: delivery.estimated_dropoff_time,
+      actual_pickup_time: delivery.actual_pickup_time,
+      actual_dropoff_time: delivery.actual_dropoff_time,
+    },
+  };
+};
+
+/**
+ * POST an event to a restaurant's endpoint
+ * @param endpoint The endpoint
+ * @param event The stored event
+ * @returns The response status, or an error message when there was no response
+ */
+const send = async (
+  endpoint: WebhookEndpointRow,
+  event: OutboundWebhookEventRow
+): Promise<{ status: number | null; error: string | null }> => {
+  if (!isAllowedCallbackUrl(endpoint.url)) {
+    return { status: null, error: 'Webhook URL must be https on a public host' };
+  }
+  const body = JSON.stringify(event.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await axios.post(endpoint.url, body, {
+      httpsAgent: callbackAgent,
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: signRestaurantWebhook(endpoint.secret, body, timestamp),
+        'X-Courier-Event-Id': event.id,
+        'X-Courier-Event-Type': event.event_type,
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+    const ok = response.status >= 200 && response.status < 300;
+    return { status: response.status, error: ok ? null : `Endpoint returned ${response.status}` };
+  } catch (error) {
+    return { status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Make one attempt to send an event leased to the sender
+ *
+ * The event goes to the restaurant's current endpoint. On failure the next
+ * attempt is due after a backoff, until the retries run out. The outcome is
+ * only stored while the lease is still held, and storing it releases the lease.
+ * @param event The leased event
+ * @param owner The lease owner
+ * @returns The event after the attempt, or null if the lease was lost
+ */
+export const attemptEvent = async (
+  event: OutboundWebhookEventRow,
+  owner: string
+): Promise<OutboundWebhookEventRow | null> => {
+  const { outboundWebhookEvents, webhookEndpoints } = getRepositories();
+  const now = new Date();
+  const endpoint = await webhookEndpoints.getByRestaurant(event.restaurant_id);
+  if (!endpoint?.active) {
+    return outboundWebhookEvents.ack(event.id, owner, {
+      status: 'failed',
+      next_attempt_at: null,
+      last_error: 'No active webhook endpoint',
+      updated_at: now.toISOString(),
+    });
+  }
+
+  const result = await send(endpoint, event);
+  const attempts = event.attempts + 1;
+  const retryDelay = result.error ? RETRY_DELAYS_MS[attempts - 1] : undefined;
+  const status = !result.error ? 'succeeded' : retryDelay === undefined ? 'failed' : 'pending';
+
+  const updated = await outboundWebhookEvents.ack(event.id, owner, {
+    status,
+    url: endpoint.url,
+    attempts,
+    last_attempt_at: now.toISOString(),
+    last_response_status: result.status,
+    last_error: result.error,
+    next_attempt_at:
+      retryDelay === undefined ? null : new Date(now.getTime() + retryDelay).toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+
+  if (!updated) {
+    // The lease expired and another sender claimed the event; its attempt stands
+    console.warn(`[Restaurant Webhooks] Discarding attempt on event ${event.id}; lease was lost`);
+  } else if (retryDelay !== undefined) {
+    console.warn(
+      `[Restaurant Webhooks] Event ${event.id} attempt ${attempts} failed (${result.error}); retrying in ${retryDelay / 1000}s`
+    );
+  } else if (status === 'failed') {
+    console.error(
+      `[Restaurant Webhooks] Event ${event.id} failed permanently after ${attempts} attempts: ${result.error}`
+    );
+  }
+  return updated;
+};
+
+/**
+ * Make one attempt to send a pending event now, whether or not it is due
+ *
+ * Nothing is sent while another sender holds the event's lease.
+ * @param eventId The event ID
+ * @returns The event after the attempt, or as it is if no attempt was made; null if it does not exist
+ */
+export const deliverEvent = async (eventId: string): Promise<OutboundWebhookEventRow | null> => {
+  const { outboundWebhookEvents } = getRepositories();
+  const [event] = await outboundWebhookEvents.claim({
+    owner: processOwner,
+    leaseMs: DEFAULT_LEASE_MS,
+    limit: 1,
+    id: eventId,
+  });
+  if (!event) {
+    return outboundWebhookEvents.getById(eventId);
+  }
+  return (await attemptEvent(event, processOwner)) || outboundWebhookEvents.getById(eventId);
+};
+
+/**
+ * Notify a restaurant of a delivery status change
+ *
+ * The event is logged and a first attempt is started in the background; if
+ * this process stops before making it, a worker sends the event once it is
+ * due (see ./worker). Nothing happens when the restaurant has no active
+ * endpoint, and failures are logged rather than failing the status update.
+ * @param delivery The delivery after the change
+ * @param fromStatus The status before the change
+ * @param entry The transition
+ * @returns The logged event, or null if none was sent
+ */
+export const notifyStatusChange = async (
+  delivery: DeliveryRow,
+  fromStatus: string | null,
+  entry: StatusTimelineEntry
+): Promise<OutboundWebhookEventRow | null> => {
+  try {
+    const { outboundWebhookEvents, webhookEndpoints } = getRepositories();
+    const endpoint = await webhookEndpoints.getByRestaurant(delivery.restaurant_id);
+    if (!endpoint?.active) {
+      return null;
+    }
+
+    const event = buildStatusEvent(delivery, fromStatus, entry);
+    const row = await outboundWebhookEvents.create({
+      id: event.id,
+      restaurant_id: delivery.restaurant_id,
+      delivery_id: delivery.id,
+      event_type: event.type,
+      url: endpoint.url,
+      payload: event as unknown as Json,
+      status: 'pending',
+      next_attempt_at: new Date().toISOString(),
+    });
+    setTimeout(() => {
+      deliverEvent(row.id).catch(error =>
+        console.error(`[Restaurant Webhooks] Failed to deliver event ${row.id}:`, error)
+      );
+    }, 0).unref?.();
+    return row;
+  } catch (error) {
+    console.error(
+      `[Restaurant Webhooks] Failed to queue ${entry.status} event for delivery ${delivery.id}:`,
+      error
+    );
+    return null;
+  }
+};
+
+/**
+ * Get an event sent to a restaurant
+ * @param restaurantId The restaurant ID
+ * @param eventId The event ID
+ * @returns The event
+ */
+const getRestaurantEvent = async (
+  restaurantId: string,
+  eventId: string
+): Promise<OutboundWebhookEventRow> => {
+  const event = await getRepositories().outboundWebhookEvents.getById(eventId);
+  if (!event || event.restaurant_id !== restaurantId) {
+    throw new ApiError(404, 'webhook_event_not_found', `Webhook event not found: ${eventId}`);
+  }
+  return event;
+};
+
+/**
+ * List the events sent to a restaurant, newest first
+ * @param restaurantId The restaurant ID
+ * @param query Status filter and page size
+ * @returns The events
+ */
+export const listRestaurantEvents = (
+  restaurantId: string,
+  query: OutboundWebhookEventQuery
+): Promise<OutboundWebhookEventRow[]> =>
+  getRepositories().outboundWebhookEvents.list({
+    restaurant_id: restaurantId,
+    status: query.status,
+    limit: query.limit,
+  });
+
+/**
+ * Send an event again now, whatever its state
+ *
+ * The event keeps its ID, so receivers that already processed it can skip it.
+ * If this attempt fails, the usual retries follow.
+ * @param restaurantId The restaurant ID
+ * @param eventId The event ID
+ * @returns The event after the attempt
+ */
+export const redeliverEvent = async (
+  restaurantId: string,
+  eventId: string
+): Promise<OutboundWebhookEventRow> => {
+  const event = await getRestaurantEvent(restaurantId, eventId);
+  if (event.lease_expires_at && Date.parse(event.lease_expires_at) > Date.now()) {
+    throw new ApiError(409, 'webhook_event_in_flight', `Webhook event ${eventId} is being sent`);
+  }
+
+  await getRepositories().outboundWebhookEvents.update(event.id, {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+
+  return (await deliverEvent(event.id)) || event;
+};
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { getRepositories, WebhookEndpointRow } from '../../db';
+import { ApiError } from '../../utils/errors';
+import { assertPublicCallbackHost } from './callbackUrl';
+import { WebhookEndpointRequest, WebhookEndpointView } from './types';
+
+/**
+ * Generate a signing secret for a restaurant endpoint
+ * @returns The secret
+ */
+const generateSecret = (): string => `whsec_${crypto.randomBytes(32).toString('hex')}`;
+
+/**
+ * Build the API view of an endpoint
+ * @param row The endpoint row
+ * @param includeSecret Whether to include the signing secret
+ * @returns The endpoint view
+ */
+const toEndpointView = (row: WebhookEndpointRow, includeSecret: boolean): WebhookEndpointView => ({
+  restaurant_id: row.restaurant_id,
+  url: row.url,
+  active: row.active,
+  ...(includeSecret ? { secret: row.secret } : {}),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Register or update the endpoint a restaurant receives delivery events on
+ *
+ * The signing secret is kept when the endpoint is updated, unless a rotation
+ * is requested, and is only returned when it was just generated.
+ * @param restaurantId The restaurant ID
+ * @param request The endpoint settings
+ * @returns The endpoint
+ * @throws ApiError 422 if the URL's host resolves to a private or local address
+ */
+export const registerWebhookEndpoint = async (
+  restaurantId: string,
+  request: WebhookEndpointRequest
+): Promise<WebhookEndpointView> => {
+  await assertPublicCallbackHost(request.url);
+  const endpoints = getRepositories().webhookEndpoints;
+  const existing = await endpoints.getByRestaurant(restaurantId);
+  const newSecret = !existing || request.rotate_secret;
+
+  const row = await endpoints.upsert({
+    restaurant_id: restaurantId,
+    url: request.url,
+    active: request.active,
+    secret: existing && !newSecret ? existing.secret : generateSecret(),
+  });
+  return toEndpointView(row, newSecret);
+};
+
+/**
+ * Get a restaurant's endpoint
+ * @param restaurantId The restaurant ID
+ * @returns The endpoint, without its secret
+ */
+export const getWebhookEndpoint = async (restaurantId: string): Promise<WebhookEndpointView> => {
+  const row = await getRepositories().webhookEndpoints.getByRestaurant(restaurantId);
+  if (!row) {
+    throw new ApiError(
+      404,
+      'webhook_endpoint_not_found',
+      `No webhook endpoint registered for restaurant ${restaurantId}`
+    );
+  }
+  return toEndpointView(row, false);
+};
+
+/**
+ * Remove a restaurant's endpoint; events still pending are marked failed when next attempted
+ * @param restaurantId The restaurant ID
+ */
+export const removeWebhookEndpoint = async (restaurantId: string): Promise<void> => {
+  await getWebhookEndpoint(restaurantId);
+  await getRepositories().webhookEndpoints.delete(restaurantId);
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './endpoints';
+export * from './dispatcher';
+export * from './worker';
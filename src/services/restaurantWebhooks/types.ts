@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { CourierLocation } from '../delivery/status';
+import { isAllowedCallbackUrl } from './callbackUrl';
+import { WebhookDeliveryStatus } from '../../webhooks/types';
+
+/**
+ * Types of event sent to restaurant endpoints
+ */
+export const RESTAURANT_WEBHOOK_EVENT_TYPES = ['delivery.status_changed'] as const;
+
+export type RestaurantWebhookEventType = (typeof RESTAURANT_WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Delivery states of an outbound event
+ *
+ * - `pending`: not yet acknowledged; another attempt is scheduled
+ * - `succeeded`: the endpoint answered with a 2xx status
+ * - `failed`: every attempt failed; only a manual redelivery sends it again
+ */
+export type OutboundWebhookStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Body POSTed to a restaurant's endpoint
+ *
+ * The shape is the same whichever courier carries the delivery, so restaurants
+ * never deal with provider-specific payloads.
+ */
+export interface RestaurantWebhookEvent {
+  id: string; // Also sent as X-Courier-Event-Id and kept on retries, so receivers can deduplicate
+  type: RestaurantWebhookEventType;
+  created_at: string;
+  data: {
+    delivery_id: string;
+    external_delivery_id: string;
+    restaurant_id: string;
+    provider: string;
+    status: WebhookDeliveryStatus;
+    previous_status: WebhookDeliveryStatus | null;
+    occurred_at: string;
+    tracking_url: string;
+    courier_location: CourierLocation | null;
+    estimated_pickup_time: string | null;
+    estimated_dropoff_time: string | null;
+    actual_pickup_time: string | null;
+    actual_dropoff_time: string | null;
+  };
+}
+
+/**
+ * Body of PUT /v1/restaurants/:restaurantId/webhook
+ *
+ * The URL must be https and not name a local or private host; where the host
+ * resolves to is checked on registration and again on every send.
+ */
+export const webhookEndpointRequestSchema = z.object({
+  url: z.string().url().refine(isAllowedCallbackUrl, 'Must be an https URL on a public host'),
+  active: z.boolean().default(true),
+  // A secret is generated on first registration; set this to replace it
+  rotate_secret: z.boolean().default(false),
+});
+
+export type WebhookEndpointRequest = z.infer<typeof webhookEndpointRequestSchema>;
+
+/**
+ * A restaurant's endpoint as returned by the API
+ *
+ * The secret is only included when it is first generated or rotated.
+ */
+export interface WebhookEndpointView {
+  restaurant_id: string;
+  url: string;
+  active: boolean;
+  secret?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Query string of GET /v1/restaurants/:restaurantId/webhook/events
+ */
+export const outboundWebhookEventQuerySchema = z.object({
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type OutboundWebhookEventQuery = z.infer<typeof outboundWebhookEventQuerySchema>;
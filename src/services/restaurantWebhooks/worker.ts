@@ -0,0 +1,129 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories, OutboundWebhookEventRow } from '../../db';
+import { attemptEvent, DEFAULT_LEASE_MS } from './dispatcher';
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Settings of a restaurant webhook worker
+ */
+export interface RestaurantWebhookWorkerOptions {
+  workerId: string; // Identifies the worker's leases
+  batchSize: number; // Events sent at once by this worker
+  leaseMs: number; // Not renewed, so longer than an attempt can take
+  pollIntervalMs: number;
+}
+
+/**
+ * Read a positive number from the environment
+ * @param name The variable name
+ * @param fallback The value when the variable is unset or invalid
+ * @returns The value
+ */
+const readPositive = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Get the configured worker settings
+ *
+ * Read from RESTAURANT_WEBHOOK_BATCH_SIZE, RESTAURANT_WEBHOOK_LEASE_SECONDS and
+ * RESTAURANT_WEBHOOK_POLL_MS. The worker ID is unique per process.
+ * @returns The settings
+ */
+export const getRestaurantWebhookWorkerOptions = (): RestaurantWebhookWorkerOptions => ({
+  workerId: `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`,
+  batchSize: Math.floor(readPositive('RESTAURANT_WEBHOOK_BATCH_SIZE', DEFAULT_BATCH_SIZE)),
+  leaseMs: readPositive('RESTAURANT_WEBHOOK_LEASE_SECONDS', DEFAULT_LEASE_MS / 1000) * 1000,
+  pollIntervalMs: readPositive('RESTAURANT_WEBHOOK_POLL_MS', DEFAULT_POLL_INTERVAL_MS),
+});
+
+/**
+ * Sends due restaurant webhook events under leases
+ *
+ * Each poll leases a batch of due events, first attempts and retries alike,
+ * and sends them. Retries are rows with the time they are due rather than
+ * timers, so they survive restarts, and a lease keeps any other worker from
+ * sending an event while it is held. A worker that dies leaves its leases to
+ * expire, after which other workers take the events over.
+ */
+export class RestaurantWebhookWorker {
+  readonly options: RestaurantWebhookWorkerOptions;
+  private sending?: Promise<unknown>;
+  private pollTimer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Create a restaurant webhook worker
+   * @param options Settings overriding the configured ones
+   */
+  constructor(options: Partial<RestaurantWebhookWorkerOptions> = {}) {
+    this.options = { ...getRestaurantWebhookWorkerOptions(), ...options };
+  }
+
+  /**
+   * Start polling for due events
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    console.info(`[Restaurant Webhooks] Worker ${this.options.workerId} started`);
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop polling and wait for the events being sent
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.pollTimer);
+    await this.sending;
+    console.info(`[Restaurant Webhooks] Worker ${this.options.workerId} stopped`);
+  }
+
+  /**
+   * Lease a batch of due events and send them
+   * @returns The events after their attempts; null for those whose lease was lost
+   */
+  async poll(): Promise<(OutboundWebhookEventRow | null)[]> {
+    const { workerId, leaseMs, batchSize } = this.options;
+    const claimed = await getRepositories().outboundWebhookEvents.claim({
+      owner: workerId,
+      leaseMs,
+      limit: batchSize,
+    });
+
+    const sending = Promise.all(
+      claimed.map(event =>
+        attemptEvent(event, workerId).catch(error => {
+          console.error(`[Restaurant Webhooks] Failed to deliver event ${event.id}:`, error);
+          return null;
+        })
+      )
+    );
+    this.sending = sending;
+    return sending;
+  }
+
+  /**
+   * Schedule the next poll
+   * @param delayMs Delay before the poll
+   */
+  private schedulePoll(delayMs: number): void {
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error('[Restaurant Webhooks] Failed to claim events:', error);
+      }
+      if (this.running) {
+        this.schedulePoll(this.options.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+}
@@ -0,0 +1,373 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiError } from '../utils/errors';
+import { FaultScript } from './faults';
+import { CANCELLED_STATUS, getPhaseMinutes, isActive, isPickedUp, LIFECYCLES } from './lifecycle';
+import { planTrip } from './pricing';
+import {
+  SimulatedDelivery,
+  SimulatedFault,
+  SimulatedProvider,
+  SimulatedTrip,
+  SimulatorOptions,
+} from './types';
+import { buildStatusWebhook, sendWebhook } from './webhooks';
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_SPEED = 60;
+const QUOTE_TTL_MINUTES = 15;
+
+/**
+ * A price given by the simulator
+ */
+export interface SimulatedQuote {
+  id: string;
+  provider: SimulatedProvider;
+  trip: SimulatedTrip;
+  pickupAddress: string;
+  dropoffAddress: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * A delivery to book with the simulator
+ */
+export interface SimulatedBooking {
+  id?: string; // Required for DoorDash, which uses the caller's ID
+  quoteId?: string;
+  pickupAddress: string;
+  dropoffAddress: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Read a list of faults from a scenario file
+ *
+ * The file holds a JSON array of faults, or an object with a `faults` array.
+ * @param path The file path
+ * @returns The faults
+ */
+export const loadScenario = (path: string): SimulatedFault[] => {
+  const scenario = JSON.parse(fs.readFileSync(path, 'utf8'));
+  const faults = Array.isArray(scenario) ? scenario : scenario?.faults;
+  if (!Array.isArray(faults)) {
+    throw new Error(`Simulator scenario ${path} must be a list of faults or { "faults": [...] }`);
+  }
+  return faults;
+};
+
+/**
+ * Get the simulator port
+ * @returns SIMULATOR_PORT, or 4010
+ */
+export const getSimulatorPort = (): number => {
+  const port = Number(process.env.SIMULATOR_PORT);
+  return Number.isInteger(port) && port > 0 ? port : DEFAULT_PORT;
+};
+
+/**
+ * Read the simulator settings from the environment
+ *
+ * SIMULATOR_WEBHOOK_URL is where webhooks go (default http://localhost:3000),
+ * SIMULATOR_SPEED how many simulated seconds pass per real second (default
+ * 60), SIMULATOR_AUTO_ADVANCE=false stops deliveries from progressing on
+ * their own, and SIMULATOR_SCENARIO names a JSON file of faults to start with.
+ * @returns The settings
+ */
+export const getSimulatorOptions = (): SimulatorOptions => {
+  const speed = Number(process.env.SIMULATOR_SPEED);
+  return {
+    webhookUrl: process.env.SIMULATOR_WEBHOOK_URL || 'http://localhost:3000',
+    speed: Number.isFinite(speed) && speed > 0 ? speed : DEFAULT_SPEED,
+    autoAdvance: process.env.SIMULATOR_AUTO_ADVANCE !== 'false',
+    faults: process.env.SIMULATOR_SCENARIO ? loadScenario(process.env.SIMULATOR_SCENARIO) : [],
+  };
+};
+
+/**
+ * In-memory DoorDash Drive and Uber Direct back end
+ *
+ * Prices trips with a deterministic model (see ./pricing), moves booked
+ * deliveries through each provider's status lifecycle, either on timers
+ * scaled by `speed` or step by step through `advance`, and sends a signed
+ * status webhook at every step. Faults script failures and latency per call.
+ */
+export class ProviderSimulator {
+  readonly options: SimulatorOptions;
+  readonly faults: FaultScript;
+  baseUrl = `http://localhost:${DEFAULT_PORT}`; // Where the simulator listens, for tracking links
+  private quotes: Map<string, SimulatedQuote> = new Map();
+  private deliveries: Map<string, SimulatedDelivery> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private sending: Map<string, Promise<boolean>> = new Map(); // Last webhook of each delivery
+
+  /**
+   * Create a simulator
+   * @param options Settings overriding the configured ones
+   */
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.options = { ...getSimulatorOptions(), ...options };
+    this.faults = new FaultScript(this.options.faults);
+  }
+
+  /**
+   * Price a trip
+   * @param provider The simulated provider
+   * @param pickupAddress The pickup address as sent to the provider
+   * @param dropoffAddress The dropoff address as sent to the provider
+   * @param id The quote ID; generated when not given
+   * @returns The quote
+   */
+  quote(
+    provider: SimulatedProvider,
+    pickupAddress: string,
+    dropoffAddress: string,
+    id: string = `dqt_${uuidv4().replace(/-/g, '')}`
+  ): SimulatedQuote {
+    const createdAt = new Date();
+    const quote: SimulatedQuote = {
+      id,
+      provider,
+      trip: planTrip(provider, pickupAddress, dropoffAddress),
+      pickupAddress,
+      dropoffAddress,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + QUOTE_TTL_MINUTES * 60 * 1000),
+    };
+    this.quotes.set(this.key(provider, id), quote);
+    return quote;
+  }
+
+  /**
+   * Book a delivery and send its first webhook
+   * @param provider The simulated provider
+   * @param booking The delivery to book
+   * @returns The delivery
+   * @throws ApiError if the ID is taken or the quote is unknown or expired
+   */
+  book(provider: SimulatedProvider, booking: SimulatedBooking): SimulatedDelivery {
+    const id = booking.id ?? `del_${uuidv4().replace(/-/g, '')}`;
+    if (this.deliveries.has(this.key(provider, id))) {
+      throw new ApiError(409, 'duplicate_delivery_id', `Delivery ${id} already exists`);
+    }
+
+    let trip: SimulatedTrip;
+    if (booking.quoteId) {
+      const quote = this.quotes.get(this.key(provider, booking.quoteId));
+      if (!quote) {
+        throw new ApiError(400, 'invalid_quote', `Quote ${booking.quoteId} not found`);
+      }
+      if (quote.expiresAt.getTime() < Date.now()) {
+        throw new ApiError(400, 'quote_expired', `Quote ${booking.quoteId} has expired`);
+      }
+      trip = quote.trip;
+    } else {
+      trip = planTrip(provider, booking.pickupAddress, booking.dropoffAddress);
+    }
+
+    const now = new Date();
+    const delivery: SimulatedDelivery = {
+      provider,
+      id,
+      quoteId: booking.quoteId,
+      status: LIFECYCLES[provider][0].status,
+      stage: 0,
+      trip,
+      pickupAddress: booking.pickupAddress,
+      dropoffAddress: booking.dropoffAddress,
+      createdAt: now,
+      updatedAt: now,
+      details: booking.details,
+    };
+    this.deliveries.set(this.key(provider, id), delivery);
+
+    this.notify(delivery);
+    this.schedule(delivery);
+    return delivery;
+  }
+
+  /**
+   * Get a delivery
+   * @param provider The simulated provider
+   * @param id The delivery ID
+   * @returns The delivery
+   * @throws ApiError 404 if there is no such delivery
+   */
+  get(provider: SimulatedProvider, id: string): SimulatedDelivery {
+    const delivery = this.deliveries.get(this.key(provider, id));
+    if (!delivery) {
+      throw new ApiError(404, 'not_found', `Delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  /**
+   * List every delivery
+   * @returns The deliveries, oldest first
+   */
+  list(): SimulatedDelivery[] {
+    return [...this.deliveries.values()];
+  }
+
+  /**
+   * Change a delivery's details
+   * @param provider The simulated provider
+   * @param id The delivery ID
+   * @param details The fields to change
+   * @returns The delivery
+   * @throws ApiError if the order has been picked up or the delivery has ended
+   */
+  update(
+    provider: SimulatedProvider,
+    id: string,
+    details: Record<string, unknown>
+  ): SimulatedDelivery {
+    const delivery = this.get(provider, id);
+    if (!isActive(delivery) || isPickedUp(delivery)) {
+      throw new ApiError(
+        400,
+        'cannot_be_updated',
+        `Delivery ${id} can no longer be updated (${delivery.status})`
+      );
+    }
+    delivery.details = { ...delivery.details, ...details };
+    delivery.updatedAt = new Date();
+    return delivery;
+  }
+
+  /**
+   * Cancel a delivery and send its webhook
+   * @param provider The simulated provider
+   * @param id The delivery ID
+   * @returns The delivery
+   * @throws ApiError if the order has been picked up or the delivery has ended
+   */
+  cancel(provider: SimulatedProvider, id: string): SimulatedDelivery {
+    const delivery = this.get(provider, id);
+    if (!isActive(delivery) || isPickedUp(delivery)) {
+      throw new ApiError(
+        400,
+        'cannot_be_cancelled',
+        `Delivery ${id} can no longer be cancelled (${delivery.status})`
+      );
+    }
+
+    this.unschedule(delivery);
+    delivery.status = CANCELLED_STATUS[provider];
+    delivery.cancelledAt = new Date();
+    delivery.updatedAt = delivery.cancelledAt;
+    this.notify(delivery);
+    return delivery;
+  }
+
+  /**
+   * Move a delivery to its next status and send its webhook
+   * @param provider The simulated provider
+   * @param id The delivery ID
+   * @returns The delivery
+   * @throws ApiError 409 if the delivery has ended
+   */
+  advance(provider: SimulatedProvider, id: string): SimulatedDelivery {
+    const delivery = this.get(provider, id);
+    if (!isActive(delivery)) {
+      throw new ApiError(409, 'delivery_complete', `Delivery ${id} has ended (${delivery.status})`);
+    }
+
+    this.unschedule(delivery);
+    delivery.stage += 1;
+    delivery.status = LIFECYCLES[provider][delivery.stage].status;
+    delivery.updatedAt = new Date();
+    this.notify(delivery);
+    this.schedule(delivery);
+    return delivery;
+  }
+
+  /**
+   * Wait for the webhooks being sent
+   */
+  async settled(): Promise<void> {
+    await Promise.allSettled([...this.sending.values()]);
+  }
+
+  /**
+   * Forget every quote, delivery and fault
+   */
+  reset(): void {
+    this.close();
+    this.quotes.clear();
+    this.deliveries.clear();
+    this.faults.clear();
+  }
+
+  /**
+   * Stop every delivery's timer
+   */
+  close(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Key a quote or delivery by provider, since both providers' IDs share the maps
+   * @param provider The simulated provider
+   * @param id The ID
+   * @returns The key
+   */
+  private key(provider: SimulatedProvider, id: string): string {
+    return `${provider}:${id}`;
+  }
+
+  /**
+   * Start the timer that moves a delivery to its next status
+   * @param delivery The delivery
+   */
+  private schedule(delivery: SimulatedDelivery): void {
+    const lifecycle = LIFECYCLES[delivery.provider];
+    if (!this.options.autoAdvance || !isActive(delivery)) {
+      return;
+    }
+
+    const current = getPhaseMinutes(lifecycle[delivery.stage].phase, delivery.trip);
+    const next = getPhaseMinutes(lifecycle[delivery.stage + 1].phase, delivery.trip);
+    const delayMs = ((next - current) * 60 * 1000) / this.options.speed;
+
+    const timer = setTimeout(() => {
+      this.timers.delete(this.key(delivery.provider, delivery.id));
+      this.advance(delivery.provider, delivery.id);
+    }, delayMs);
+    timer.unref?.();
+    this.timers.set(this.key(delivery.provider, delivery.id), timer);
+  }
+
+  /**
+   * Stop a delivery's timer
+   * @param delivery The delivery
+   */
+  private unschedule(delivery: SimulatedDelivery): void {
+    const key = this.key(delivery.provider, delivery.id);
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+  }
+
+  /**
+   * Send the webhook for a delivery's current status in the background
+   *
+   * A delivery's webhooks are sent one after another, so they arrive in order.
+   * @param delivery The delivery
+   */
+  private notify(delivery: SimulatedDelivery): void {
+    const key = this.key(delivery.provider, delivery.id);
+    const webhook = buildStatusWebhook(delivery, this.baseUrl);
+    const previous = this.sending.get(key) ?? Promise.resolve(true);
+
+    const sending = previous
+      .then(() => sendWebhook(this.options.webhookUrl, webhook))
+      .finally(() => {
+        if (this.sending.get(key) === sending) {
+          this.sending.delete(key);
+        }
+      });
+    this.sending.set(key, sending);
+  }
+}
@@ -0,0 +1,261 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios, { AxiosInstance } from 'axios';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { captureRawBody } from '../../middleware/rawBody';
+import { verifyDoorDashWebhook } from '../../webhooks/verification/doordash';
+import { verifyUberWebhook } from '../../webhooks/verification/uber';
+import { createSimulatorApp } from '../app';
+import { planTrip } from '../pricing';
+import { ProviderSimulator } from '../ProviderSimulator';
+
+interface ReceivedWebhook {
+  provider: string;
+  valid: boolean;
+  body: any;
+}
+
+const listen = (app: express.Express): Promise<Server> =>
+  new Promise(resolve => {
+    const server = app.listen(0, () => resolve(server));
+  });
+
+const urlOf = (server: Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+describe('Courier simulator', () => {
+  const env = { ...process.env };
+  const received: ReceivedWebhook[] = [];
+  let receiver: Server;
+  let server: Server;
+  let simulator: ProviderSimulator;
+  let api: AxiosInstance;
+
+  beforeAll(async () => {
+    process.env.DD_WEBHOOK_SIGNING_SECRETS = 'dd-webhook-secret';
+    process.env.DD_DEVELOPER_ID = 'developer-1';
+    process.env.UBER_WEBHOOK_SECRETS = 'uber-webhook-secret';
+
+    // Stands in for the service, checking webhooks the way its middleware does
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.post('/webhooks/:provider', (req, res) => {
+      const request = { headers: req.headers, rawBody: req.rawBody };
+      const result =
+        req.params.provider === 'doordash'
+          ? verifyDoorDashWebhook(request)
+          : verifyUberWebhook(request);
+      received.push({ provider: req.params.provider, valid: result.valid, body: req.body });
+      res.status(result.valid ? 200 : 401).end();
+    });
+    receiver = await listen(app);
+  });
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received.length = 0;
+    simulator = new ProviderSimulator({
+      webhookUrl: urlOf(receiver),
+      autoAdvance: false,
+      speed: 60,
+      faults: [],
+    });
+    server = await listen(createSimulatorApp(simulator));
+    simulator.baseUrl = urlOf(server);
+    api = axios.create({ baseURL: urlOf(server), validateStatus: () => true });
+  });
+
+  afterEach(async () => {
+    simulator.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const doorDashHeaders = {
+    Authorization: `Bearer ${jwt.sign({ iss: 'developer-1' }, 'secret')}`,
+  };
+
+  const doorDashDelivery = {
+    external_delivery_id: 'order-1',
+    pickup_address: '901 Market St, San Francisco, CA, 94103, US',
+    dropoff_address: '1 Ferry Building, San Francisco, CA, 94111, US',
+  };
+
+  const uberToken = async () => {
+    const response = await api.post(
+      '/oauth/v2/token',
+      new URLSearchParams({
+        client_id: 'client',
+        client_secret: 'secret',
+        grant_type: 'client_credentials',
+        scope: 'eats.deliveries',
+      })
+    );
+    return { Authorization: `Bearer ${response.data.access_token}` };
+  };
+
+  it('should price the same trip the same way in either provider address format', () => {
+    const doorDash = planTrip('doordash', '901 Market St, San Francisco, CA, 94103, US', 'x');
+    const uber = planTrip(
+      'uber',
+      JSON.stringify({
+        street_address: ['901 Market St'],
+        city: 'San Francisco',
+        state: 'CA',
+        zip_code: '94103',
+        country: 'US',
+      }),
+      'x'
+    );
+
+    expect(doorDash.distanceMiles).toBe(uber.distanceMiles);
+    expect(planTrip('doordash', 'a', 'b')).toEqual(planTrip('doordash', 'a', 'b'));
+    expect(doorDash.dropoffMinutes).toBeGreaterThan(doorDash.pickupMinutes);
+  });
+
+  it('should quote, book and progress an Uber delivery, sending signed webhooks', async () => {
+    const headers = await uberToken();
+    const addresses = {
+      pickup_address: JSON.stringify({ street_address: ['901 Market St'], city: 'San Francisco' }),
+      dropoff_address: JSON.stringify({
+        street_address: ['1 Ferry Building'],
+        city: 'San Francisco',
+      }),
+    };
+
+    const quote = await api.post('/v1/customers/cust-1/delivery_quotes', addresses, { headers });
+    const created = await api.post(
+      '/v1/customers/cust-1/deliveries',
+      { ...addresses, quote_id: quote.data.id, manifest_items: [{ name: 'Pizza', quantity: 1 }] },
+      { headers }
+    );
+    expect(created.data).toMatchObject({ status: 'pending', fee: quote.data.fee, currency: 'usd' });
+
+    const id = created.data.id;
+    await api.post(`/_sim/deliveries/uber/${id}/advance`);
+    await api.post(`/_sim/deliveries/uber/${id}/advance`);
+    await simulator.settled();
+
+    const fetched = await api.get(`/v1/customers/cust-1/deliveries/${id}`, { headers });
+    expect(fetched.data.status).toBe('pickup_complete');
+    expect(fetched.data.courier.location).toEqual(
+      expect.objectContaining({ lat: expect.any(Number) })
+    );
+
+    expect(received.map(webhook => [webhook.valid, webhook.body.status])).toEqual([
+      [true, 'pending'],
+      [true, 'pickup'],
+      [true, 'pickup_complete'],
+    ]);
+    expect(received[0].body).toMatchObject({ kind: 'event.delivery_status', delivery_id: id });
+
+    const cancelled = await api.post(
+      `/v1/customers/cust-1/deliveries/${id}/cancel`,
+      {},
+      { headers }
+    );
+    expect(cancelled.status).toBe(400);
+    expect(cancelled.data).toMatchObject({ kind: 'error', code: 'cannot_be_cancelled' });
+  });
+
+  it('should reject Uber API calls without an issued token', async () => {
+    const response = await api.get('/v1/customers/cust-1/deliveries/del_1', {
+      headers: { Authorization: 'Bearer made-up' },
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should book and cancel a DoorDash delivery, sending HMAC-signed webhooks', async () => {
+    const created = await api.post('/drive/v2/deliveries', doorDashDelivery, {
+      headers: doorDashHeaders,
+    });
+    expect(created.data).toMatchObject({
+      external_delivery_id: 'order-1',
+      delivery_status: 'created',
+      fee: planTrip('doordash', doorDashDelivery.pickup_address, doorDashDelivery.dropoff_address)
+        .fee,
+    });
+
+    const duplicate = await api.post('/drive/v2/deliveries', doorDashDelivery, {
+      headers: doorDashHeaders,
+    });
+    expect(duplicate.status).toBe(409);
+
+    const cancelled = await api.put('/drive/v2/deliveries/order-1/cancel', undefined, {
+      headers: doorDashHeaders,
+    });
+    expect(cancelled.data.delivery_status).toBe('cancelled');
+    await simulator.settled();
+
+    expect(received.map(webhook => [webhook.valid, webhook.body.event_type])).toEqual([
+      [true, 'delivery_created'],
+      [true, 'delivery_status_update'],
+    ]);
+    expect(received[1].body.data).toMatchObject({
+      external_delivery_id: 'order-1',
+      delivery_status: 'cancelled',
+    });
+  });
+
+  it('should fail and delay calls as scripted', async () => {
+    await api.post('/_sim/faults', [
+      {
+        provider: 'doordash',
+        operation: 'quote',
+        status: 503,
+        code: 'service_unavailable',
+        times: 1,
+      },
+      { provider: 'doordash', operation: 'quote', latencyMs: 50, times: 2 },
+    ]);
+
+    const failed = await api.post('/drive/v2/quotes', doorDashDelivery, {
+      headers: doorDashHeaders,
+    });
+    const started = Date.now();
+    const quoted = await api.post('/drive/v2/quotes', doorDashDelivery, {
+      headers: doorDashHeaders,
+    });
+
+    expect(failed.status).toBe(503);
+    expect(failed.data.code).toBe('service_unavailable');
+    expect(quoted.status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    expect((await api.get('/_sim/faults')).data.faults).toEqual([]);
+  });
+
+  it('should move deliveries along on their own at the configured speed', async () => {
+    // A simulated minute every 10ms
+    const timed = new ProviderSimulator({
+      webhookUrl: urlOf(receiver),
+      autoAdvance: true,
+      speed: 6000,
+      faults: [],
+    });
+    const started = Date.now();
+    const delivery = timed.book('doordash', {
+      id: 'order-2',
+      pickupAddress: doorDashDelivery.pickup_address,
+      dropoffAddress: doorDashDelivery.dropoff_address,
+      details: {},
+    });
+
+    await vi.waitFor(() => expect(delivery.status).toBe('delivered'), { timeout: 5000 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(delivery.trip.dropoffMinutes * 10 - 5);
+    await timed.settled();
+
+    expect(received.map(webhook => webhook.valid && webhook.body.data.delivery_status)).toEqual([
+      'created',
+      'confirmed',
+      'enroute_to_pickup',
+      'picked_up',
+      'enroute_to_dropoff',
+      'delivered',
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import express from 'express';
+import { errorHandler } from '../middleware/errorHandler';
+import { ProviderSimulator } from './ProviderSimulator';
+import {
+  setupDoorDashSimulatorRoutes,
+  setupSimulatorControlRoutes,
+  setupUberSimulatorRoutes,
+} from './routes';
+
+/**
+ * Create the simulator's express app
+ * @param simulator The simulator serving the requests
+ * @returns The app
+ */
+export const createSimulatorApp = (simulator: ProviderSimulator = new ProviderSimulator()) => {
+  const app = express();
+  app.use(express.json());
+
+  setupDoorDashSimulatorRoutes(app, simulator);
+  setupUberSimulatorRoutes(app, simulator);
+  setupSimulatorControlRoutes(app, simulator);
+
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,81 @@
+import { ApiError } from '../utils/errors';
+import { SimulatedFault, SimulatedOperation, SimulatedProvider } from './types';
+
+/**
+ * Scripted failures and latency for simulated API calls
+ */
+export class FaultScript {
+  private faults: SimulatedFault[] = [];
+
+  /**
+   * Create a fault script
+   * @param faults Faults active from the start
+   */
+  constructor(faults: SimulatedFault[] = []) {
+    this.add(faults);
+  }
+
+  /**
+   * Add faults, after the ones already scripted
+   * @param faults The faults
+   */
+  add(faults: SimulatedFault[]): void {
+    this.faults.push(...faults.map(fault => ({ ...fault })));
+  }
+
+  /**
+   * Remove every fault
+   */
+  clear(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Get the scripted faults
+   * @returns The faults, with the uses left of limited ones
+   */
+  list(): SimulatedFault[] {
+    return this.faults.map(fault => ({ ...fault }));
+  }
+
+  /**
+   * Apply the faults scripted for a call
+   *
+   * Every matching fault's latency is added up; the first matching fault with
+   * a status fails the call. Each matching fault uses up one of its `times`.
+   * @param provider The simulated provider
+   * @param operation The operation called
+   * @throws ApiError with the scripted status if the call should fail
+   */
+  async apply(provider: SimulatedProvider, operation: SimulatedOperation): Promise<void> {
+    const matching = this.faults.filter(
+      fault =>
+        (!fault.provider || fault.provider === provider) &&
+        (!fault.operation || fault.operation === operation)
+    );
+    if (matching.length === 0) {
+      return;
+    }
+
+    for (const fault of matching) {
+      if (fault.times !== undefined) {
+        fault.times -= 1;
+      }
+    }
+    this.faults = this.faults.filter(fault => fault.times === undefined || fault.times > 0);
+
+    const latencyMs = matching.reduce((total, fault) => total + (fault.latencyMs ?? 0), 0);
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    const failure = matching.find(fault => fault.status !== undefined);
+    if (failure?.status) {
+      throw new ApiError(
+        failure.status,
+        failure.code ?? 'simulated_failure',
+        failure.message ?? `Simulated ${provider} ${operation} failure`
+      );
+    }
+  }
+}
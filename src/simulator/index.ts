@@ -0,0 +1,12 @@
+/**
+ * Local DoorDash Drive and Uber Direct simulator module index
+ */
+
+export * from './app';
+export * from './faults';
+export * from './lifecycle';
+export * from './pricing';
+export * from './ProviderSimulator';
+export * from './routes';
+export * from './types';
+export * from './webhooks';
@@ -0,0 +1,90 @@
+import { SimulatedDelivery, SimulatedProvider, SimulatedTrip } from './types';
+
+/**
+ * Where a simulated delivery is, independent of the provider's status names
+ */
+export type DeliveryPhase =
+  'booked' | 'assigned' | 'to_pickup' | 'picked_up' | 'to_dropoff' | 'delivered';
+
+/**
+ * The statuses each provider reports, in order, and the phase of each
+ *
+ * The names are those the webhook processors map (see
+ * DoorDashWebhookProcessor and UberWebhookProcessor).
+ */
+export const LIFECYCLES: Record<
+  SimulatedProvider,
+  Array<{ status: string; phase: DeliveryPhase }>
+> = {
+  doordash: [
+    { status: 'created', phase: 'booked' },
+    { status: 'confirmed', phase: 'assigned' },
+    { status: 'enroute_to_pickup', phase: 'to_pickup' },
+    { status: 'picked_up', phase: 'picked_up' },
+    { status: 'enroute_to_dropoff', phase: 'to_dropoff' },
+    { status: 'delivered', phase: 'delivered' },
+  ],
+  uber: [
+    { status: 'pending', phase: 'booked' },
+    { status: 'pickup', phase: 'to_pickup' },
+    { status: 'pickup_complete', phase: 'picked_up' },
+    { status: 'dropoff', phase: 'to_dropoff' },
+    { status: 'delivered', phase: 'delivered' },
+  ],
+};
+
+export const CANCELLED_STATUS: Record<SimulatedProvider, string> = {
+  doordash: 'cancelled',
+  uber: 'canceled',
+};
+
+/**
+ * Get a delivery's phase
+ * @param delivery The delivery
+ * @returns The phase, or undefined once cancelled
+ */
+export const getPhase = (delivery: SimulatedDelivery): DeliveryPhase | undefined =>
+  delivery.cancelledAt ? undefined : LIFECYCLES[delivery.provider][delivery.stage].phase;
+
+/**
+ * Check whether a delivery can still change: not delivered or cancelled
+ * @param delivery The delivery
+ * @returns Whether the delivery is active
+ */
+export const isActive = (delivery: SimulatedDelivery): boolean => {
+  const phase = getPhase(delivery);
+  return phase !== undefined && phase !== 'delivered';
+};
+
+/**
+ * Check whether a delivery's courier has the order
+ * @param delivery The delivery
+ * @returns Whether the order has been picked up, including once delivered
+ */
+export const isPickedUp = (delivery: SimulatedDelivery): boolean => {
+  const phase = getPhase(delivery);
+  return phase === 'picked_up' || phase === 'to_dropoff' || phase === 'delivered';
+};
+
+/**
+ * Get when a phase is reached, in simulated minutes after booking
+ * @param phase The phase
+ * @param trip The trip
+ * @returns The minutes
+ */
+export const getPhaseMinutes = (phase: DeliveryPhase, trip: SimulatedTrip): number => {
+  switch (phase) {
+    case 'booked':
+      return 0;
+    case 'assigned':
+      return 1;
+    case 'to_pickup':
+      return 2;
+    case 'picked_up':
+      return trip.pickupMinutes;
+    case 'to_dropoff':
+      return Math.min(trip.pickupMinutes + 1, trip.dropoffMinutes);
+    case 'delivered':
+      return trip.dropoffMinutes;
+  }
+};
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import { SimulatedLocation, SimulatedProvider, SimulatedTrip } from './types';
+
+/**
+ * How a simulated courier prices and times a trip
+ */
+interface CourierModel {
+  baseFee: number; // Cents
+  feePerMile: number; // Cents
+  pickupMinutes: number; // Until the courier reaches the pickup
+  minutesPerMile: number;
+}
+
+// Uber is cheaper for short trips and DoorDash for long ones, so both can win a comparison
+const MODELS: Record<SimulatedProvider, CourierModel> = {
+  doordash: { baseFee: 599, feePerMile: 85, pickupMinutes: 12, minutesPerMile: 3 },
+  uber: { baseFee: 499, feePerMile: 110, pickupMinutes: 9, minutesPerMile: 3.5 },
+};
+
+// Simulated trips start around downtown San Francisco
+const ORIGIN: SimulatedLocation = { lat: 37.7749, lng: -122.4194 };
+const MILES_PER_DEGREE = 69;
+
+/**
+ * Reduce an address to its identifying text
+ *
+ * DoorDash takes addresses as one line and Uber as JSON, so the same address
+ * must come out the same either way.
+ * @param address The address as sent to the provider
+ * @returns The normalized address
+ */
+export const normalizeAddress = (address: string): string => {
+  let text = address;
+  try {
+    const parsed = JSON.parse(address);
+    if (parsed && typeof parsed === 'object') {
+      text = [parsed.street_address, parsed.city, parsed.state, parsed.zip_code].flat().join(' ');
+    }
+  } catch {
+    // A plain address line
+  }
+  return text
+    .toLowerCase()
+    .replace(/\b(us|usa)\b\s*$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Hash text to a number from 0 to 1
+ * @param text The text
+ * @returns The number
+ */
+const unitHash = (text: string): number =>
+  crypto.createHash('sha256').update(text).digest().readUInt32BE(0) / 0xffffffff;
+
+/**
+ * Place an address on the map
+ * @param address The normalized address
+ * @returns A location within about 5 miles of the origin
+ */
+const locate = (address: string): SimulatedLocation => ({
+  lat: ORIGIN.lat + (unitHash(`lat:${address}`) - 0.5) * (10 / MILES_PER_DEGREE),
+  lng: ORIGIN.lng + (unitHash(`lng:${address}`) - 0.5) * (10 / MILES_PER_DEGREE),
+});
+
+/**
+ * Price and time a trip
+ *
+ * Everything is derived from the addresses, so the same trip always gets the
+ * same fee and ETAs. The distance is the straight line between the addresses'
+ * locations, at least half a mile.
+ * @param provider The simulated courier
+ * @param pickupAddress The pickup address as sent to the provider
+ * @param dropoffAddress The dropoff address as sent to the provider
+ * @returns The trip
+ */
+export const planTrip = (
+  provider: SimulatedProvider,
+  pickupAddress: string,
+  dropoffAddress: string
+): SimulatedTrip => {
+  const model = MODELS[provider];
+  const pickupLocation = locate(normalizeAddress(pickupAddress));
+  const dropoffLocation = locate(normalizeAddress(dropoffAddress));
+
+  const degrees = Math.hypot(
+    dropoffLocation.lat - pickupLocation.lat,
+    dropoffLocation.lng - pickupLocation.lng
+  );
+  const distanceMiles = Math.max(0.5, Math.round(degrees * MILES_PER_DEGREE * 10) / 10);
+
+  return {
+    distanceMiles,
+    fee: Math.round(model.baseFee + model.feePerMile * distanceMiles),
+    pickupMinutes: model.pickupMinutes,
+    dropoffMinutes: Math.round(model.pickupMinutes + model.minutesPerMile * distanceMiles),
+    pickupLocation,
+    dropoffLocation,
+  };
+};
+
+/**
+ * Get a time a number of minutes after another
+ * @param from The start time
+ * @param minutes The minutes to add
+ * @returns The ISO timestamp
+ */
+export const minutesAfter = (from: Date, minutes: number): string =>
+  new Date(from.getTime() + minutes * 60 * 1000).toISOString();
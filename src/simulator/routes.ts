@@ -0,0 +1,450 @@
+import crypto from 'crypto';
+import express, { Express, NextFunction, Request, Response, Router } from 'express';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { ApiError } from '../utils/errors';
+import { parseBody } from '../utils/validation';
+import { minutesAfter } from './pricing';
+import { ProviderSimulator } from './ProviderSimulator';
+import { SimulatedOperation, SimulatedProvider } from './types';
+import { toDoorDashDelivery, toUberDelivery } from './webhooks';
+
+const doorDashDeliverySchema = z
+  .object({
+    external_delivery_id: z.string().min(1),
+    pickup_address: z.string().min(1),
+    dropoff_address: z.string().min(1),
+  })
+  .passthrough();
+
+const uberQuoteSchema = z
+  .object({
+    pickup_address: z.string().min(1),
+    dropoff_address: z.string().min(1),
+  })
+  .passthrough();
+
+const uberDeliverySchema = uberQuoteSchema.extend({ quote_id: z.string().optional() });
+
+const providerSchema = z.enum(['doordash', 'uber']);
+
+const faultSchema = z
+  .object({
+    provider: providerSchema.optional(),
+    operation: z.enum(['token', 'quote', 'create', 'get', 'update', 'cancel']).optional(),
+    latencyMs: z.number().int().nonnegative().optional(),
+    status: z.number().int().min(400).max(599).optional(),
+    code: z.string().optional(),
+    message: z.string().optional(),
+    times: z.number().int().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Wrap a simulated API handler so scripted faults apply to it first
+ * @param simulator The simulator
+ * @param provider The simulated provider
+ * @param operation The operation the handler performs
+ * @param handler The handler
+ * @returns The route handler
+ */
+const simulate =
+  (
+    simulator: ProviderSimulator,
+    provider: SimulatedProvider,
+    operation: SimulatedOperation,
+    handler: (req: Request, res: Response) => void
+  ) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await simulator.faults.apply(provider, operation);
+      handler(req, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Get the status of an error, as the simulated API would answer
+ * @param error The error
+ * @returns The status and error code
+ */
+const describeError = (error: unknown): { status: number; code: string; message: string } =>
+  error instanceof ApiError
+    ? { status: error.status, code: error.code, message: error.message }
+    : { status: 500, code: 'internal_error', message: 'Internal server error' };
+
+/**
+ * Setup the simulated DoorDash Drive API under /drive/v2
+ *
+ * Point the service at it with DD_API_BASE_URL=http://localhost:4010/drive/v2.
+ * Requests need a Bearer JWT, which is decoded but not verified.
+ */
+export const setupDoorDashSimulatorRoutes = (app: Express, simulator: ProviderSimulator) => {
+  const router = Router();
+
+  router.use((req: Request, _res: Response, next: NextFunction) => {
+    const token = req.header('authorization')?.replace(/^Bearer /, '');
+    if (!token || !jwt.decode(token)) {
+      next(new ApiError(401, 'authentication_error', 'Missing or malformed JWT'));
+      return;
+    }
+    next();
+  });
+
+  /**
+   * @route POST /drive/v2/quotes
+   * @description Price a delivery
+   */
+  router.post(
+    '/quotes',
+    simulate(simulator, 'doordash', 'quote', (req, res) => {
+      const { external_delivery_id, pickup_address, dropoff_address, ...details } = parseBody(
+        doorDashDeliverySchema,
+        req.body
+      );
+      const quote = simulator.quote(
+        'doordash',
+        pickup_address,
+        dropoff_address,
+        external_delivery_id
+      );
+      res.status(200).json({
+        ...details,
+        external_delivery_id,
+        delivery_status: 'quote',
+        currency: 'USD',
+        fee: quote.trip.fee,
+        pickup_address,
+        dropoff_address,
+        pickup_time_estimated: minutesAfter(quote.createdAt, quote.trip.pickupMinutes),
+        dropoff_time_estimated: minutesAfter(quote.createdAt, quote.trip.dropoffMinutes),
+        expires_at: quote.expiresAt.toISOString(),
+      });
+    })
+  );
+
+  /**
+   * @route POST /drive/v2/deliveries
+   * @description Create a delivery
+   */
+  router.post(
+    '/deliveries',
+    simulate(simulator, 'doordash', 'create', (req, res) => {
+      const { external_delivery_id, pickup_address, dropoff_address, ...details } = parseBody(
+        doorDashDeliverySchema,
+        req.body
+      );
+      const delivery = simulator.book('doordash', {
+        id: external_delivery_id,
+        pickupAddress: pickup_address,
+        dropoffAddress: dropoff_address,
+        details,
+      });
+      res.status(200).json(toDoorDashDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  /**
+   * @route GET /drive/v2/deliveries/:id
+   * @description Get a delivery by external delivery ID
+   */
+  router.get(
+    '/deliveries/:id',
+    simulate(simulator, 'doordash', 'get', (req, res) => {
+      const delivery = simulator.get('doordash', req.params.id);
+      res.status(200).json(toDoorDashDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  /**
+   * @route PATCH /drive/v2/deliveries/:id
+   * @description Update a delivery before pickup
+   */
+  router.patch(
+    '/deliveries/:id',
+    simulate(simulator, 'doordash', 'update', (req, res) => {
+      const delivery = simulator.update('doordash', req.params.id, req.body ?? {});
+      res.status(200).json(toDoorDashDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  /**
+   * @route PUT /drive/v2/deliveries/:id/cancel
+   * @description Cancel a delivery before pickup
+   */
+  router.put(
+    '/deliveries/:id/cancel',
+    simulate(simulator, 'doordash', 'cancel', (req, res) => {
+      const delivery = simulator.cancel('doordash', req.params.id);
+      res.status(200).json(toDoorDashDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  // DoorDash errors carry a code, a message and, for validation, the fields at fault
+  router.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    const { status, code, message } = describeError(error);
+    const fieldErrors = error instanceof ApiError ? error.details : undefined;
+    res.status(status).json({
+      code: code === 'invalid_request' ? 'validation_error' : code,
+      message,
+      ...(fieldErrors !== undefined ? { field_errors: fieldErrors } : {}),
+    });
+  });
+
+  app.use('/drive/v2', router);
+};
+
+/**
+ * Setup the simulated Uber Direct API: /oauth/v2/token and /v1/customers/:customerId
+ *
+ * Point the service at it with UBER_AUTH_URL=http://localhost:4010/oauth/v2/token
+ * and UBER_API_BASE_URL=http://localhost:4010/v1. Any client ID and secret get
+ * a token, and API requests need one of the tokens issued.
+ */
+export const setupUberSimulatorRoutes = (app: Express, simulator: ProviderSimulator) => {
+  const tokens = new Set<string>();
+
+  /**
+   * @route POST /oauth/v2/token
+   * @description Issue an access token for client credentials
+   */
+  app.post(
+    '/oauth/v2/token',
+    express.urlencoded({ extended: false }),
+    async (req: Request, res: Response) => {
+      try {
+        await simulator.faults.apply('uber', 'token');
+      } catch (error) {
+        const { status, message } = describeError(error);
+        res.status(status).json({ error: 'server_error', error_description: message });
+        return;
+      }
+
+      const { client_id, client_secret, grant_type, scope } = req.body ?? {};
+      if (!client_id || !client_secret) {
+        res.status(401).json({ error: 'invalid_client' });
+        return;
+      }
+      if (grant_type !== 'client_credentials') {
+        res.status(400).json({ error: 'unsupported_grant_type' });
+        return;
+      }
+
+      const token = `sim_${crypto.randomBytes(24).toString('hex')}`;
+      tokens.add(token);
+      res.status(200).json({
+        access_token: token,
+        token_type: 'Bearer',
+        expires_in: 2592000,
+        scope: scope || 'eats.deliveries',
+      });
+    }
+  );
+
+  const router = Router({ mergeParams: true });
+
+  router.use((req: Request, _res: Response, next: NextFunction) => {
+    const token = req.header('authorization')?.replace(/^Bearer /, '');
+    if (!token || !tokens.has(token)) {
+      next(new ApiError(401, 'unauthorized', 'Invalid or missing access token'));
+      return;
+    }
+    next();
+  });
+
+  /**
+   * @route POST /v1/customers/:customerId/delivery_quotes
+   * @description Price a delivery
+   */
+  router.post(
+    '/delivery_quotes',
+    simulate(simulator, 'uber', 'quote', (req, res) => {
+      const { pickup_address, dropoff_address } = parseBody(uberQuoteSchema, req.body);
+      const { id, trip, createdAt, expiresAt } = simulator.quote(
+        'uber',
+        pickup_address,
+        dropoff_address
+      );
+      res.status(200).json({
+        kind: 'delivery_quote',
+        id,
+        created: createdAt.toISOString(),
+        expires: expiresAt.toISOString(),
+        fee: trip.fee,
+        currency: 'usd',
+        currency_type: 'USD',
+        dropoff_eta: minutesAfter(createdAt, trip.dropoffMinutes),
+        duration: trip.dropoffMinutes,
+        pickup_duration: trip.pickupMinutes,
+        dropoff_deadline: minutesAfter(createdAt, trip.dropoffMinutes + 30),
+      });
+    })
+  );
+
+  /**
+   * @route POST /v1/customers/:customerId/deliveries
+   * @description Create a delivery, at the quoted price when a quote ID is given
+   */
+  router.post(
+    '/deliveries',
+    simulate(simulator, 'uber', 'create', (req, res) => {
+      const { quote_id, pickup_address, dropoff_address, ...details } = parseBody(
+        uberDeliverySchema,
+        req.body
+      );
+      const delivery = simulator.book('uber', {
+        quoteId: quote_id,
+        pickupAddress: pickup_address,
+        dropoffAddress: dropoff_address,
+        details,
+      });
+      res.status(200).json(toUberDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  /**
+   * @route GET /v1/customers/:customerId/deliveries/:id
+   * @description Get a delivery
+   */
+  router.get(
+    '/deliveries/:id',
+    simulate(simulator, 'uber', 'get', (req, res) => {
+      const delivery = simulator.get('uber', req.params.id);
+      res.status(200).json(toUberDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  /**
+   * @route POST /v1/customers/:customerId/deliveries/:id
+   * @description Update a delivery before pickup
+   */
+  router.post(
+    '/deliveries/:id',
+    simulate(simulator, 'uber', 'update', (req, res) => {
+      const delivery = simulator.update('uber', req.params.id, req.body ?? {});
+      res.status(200).json(toUberDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  /**
+   * @route POST /v1/customers/:customerId/deliveries/:id/cancel
+   * @description Cancel a delivery before pickup
+   */
+  router.post(
+    '/deliveries/:id/cancel',
+    simulate(simulator, 'uber', 'cancel', (req, res) => {
+      const delivery = simulator.cancel('uber', req.params.id);
+      res.status(200).json(toUberDelivery(delivery, simulator.baseUrl));
+    })
+  );
+
+  // Uber errors are objects of kind "error"
+  router.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    const { status, code, message } = describeError(error);
+    const metadata = error instanceof ApiError ? error.details : undefined;
+    res.status(status).json({
+      kind: 'error',
+      code: code === 'invalid_request' ? 'invalid_params' : code,
+      message,
+      ...(metadata !== undefined ? { metadata } : {}),
+    });
+  });
+
+  app.use('/v1/customers/:customerId', router);
+};
+
+/**
+ * Setup the routes that drive the simulator: /_sim/...
+ */
+export const setupSimulatorControlRoutes = (app: Express, simulator: ProviderSimulator) => {
+  /**
+   * Read the provider of a control route
+   * @param value The route parameter
+   * @returns The provider
+   * @throws ApiError 404 for other values
+   */
+  const toProvider = (value: string): SimulatedProvider => {
+    const provider = providerSchema.safeParse(value);
+    if (!provider.success) {
+      throw new ApiError(404, 'not_found', `Unknown provider ${value}`);
+    }
+    return provider.data;
+  };
+
+  /**
+   * @route GET /track/:provider/:id
+   * @description Tracking link of a simulated delivery
+   */
+  app.get('/track/:provider/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.status(200).json(simulator.get(toProvider(req.params.provider), req.params.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * @route GET /_sim/deliveries
+   * @description List every simulated delivery
+   */
+  app.get('/_sim/deliveries', (_req: Request, res: Response) => {
+    res.status(200).json({ deliveries: simulator.list() });
+  });
+
+  /**
+   * @route POST /_sim/deliveries/:provider/:id/advance
+   * @description Move a delivery to its next status and send its webhook
+   */
+  app.post(
+    '/_sim/deliveries/:provider/:id/advance',
+    (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const provider = toProvider(req.params.provider);
+        res.status(200).json(simulator.advance(provider, req.params.id));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route GET /_sim/faults
+   * @description List the scripted faults
+   */
+  app.get('/_sim/faults', (_req: Request, res: Response) => {
+    res.status(200).json({ faults: simulator.faults.list() });
+  });
+
+  /**
+   * @route POST /_sim/faults
+   * @description Script one fault, or a list of them
+   */
+  app.post('/_sim/faults', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const faults = parseBody(z.union([faultSchema, z.array(faultSchema)]), req.body);
+      simulator.faults.add(Array.isArray(faults) ? faults : [faults]);
+      res.status(201).json({ faults: simulator.faults.list() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * @route DELETE /_sim/faults
+   * @description Remove every scripted fault
+   */
+  app.delete('/_sim/faults', (_req: Request, res: Response) => {
+    simulator.faults.clear();
+    res.status(204).end();
+  });
+
+  /**
+   * @route POST /_sim/reset
+   * @description Forget every quote, delivery and fault
+   */
+  app.post('/_sim/reset', (_req: Request, res: Response) => {
+    simulator.reset();
+    res.status(204).end();
+  });
+};
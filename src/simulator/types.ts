@@ -0,0 +1,74 @@
+/**
+ * Courier APIs the simulator stands in for
+ */
+export type SimulatedProvider = 'doordash' | 'uber';
+
+/**
+ * Simulated API operations, used to target faults and latency
+ */
+export type SimulatedOperation = 'token' | 'quote' | 'create' | 'get' | 'update' | 'cancel';
+
+/**
+ * A point on the map
+ */
+export interface SimulatedLocation {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Price and timing of a simulated trip
+ */
+export interface SimulatedTrip {
+  distanceMiles: number;
+  fee: number; // Cents
+  pickupMinutes: number; // From booking until the courier picks up
+  dropoffMinutes: number; // From booking until delivery
+  pickupLocation: SimulatedLocation;
+  dropoffLocation: SimulatedLocation;
+}
+
+/**
+ * A delivery booked with the simulator
+ */
+export interface SimulatedDelivery {
+  provider: SimulatedProvider;
+  id: string; // DoorDash: the caller's external_delivery_id; Uber: the generated del_ ID
+  quoteId?: string;
+  status: string; // Provider status, from the provider's lifecycle
+  stage: number; // Index of the status in the lifecycle
+  trip: SimulatedTrip;
+  pickupAddress: string;
+  dropoffAddress: string;
+  createdAt: Date;
+  updatedAt: Date;
+  cancelledAt?: Date;
+  details: Record<string, unknown>; // Other fields of the create request, changed by updates
+}
+
+/**
+ * A scripted failure or delay
+ *
+ * A rule applies to requests matching its provider and operation (all of
+ * them when unset). Requests wait `latencyMs`, then fail with `status` if it
+ * is set. With `times` the rule is removed after that many requests.
+ */
+export interface SimulatedFault {
+  provider?: SimulatedProvider;
+  operation?: SimulatedOperation;
+  latencyMs?: number;
+  status?: number;
+  code?: string;
+  message?: string;
+  times?: number;
+}
+
+/**
+ * Simulator settings
+ */
+export interface SimulatorOptions {
+  webhookUrl: string; // Base URL of the service that receives the webhooks
+  speed: number; // Simulated seconds per real second
+  autoAdvance: boolean; // Move deliveries through their lifecycle on a timer
+  faults: SimulatedFault[]; // Scripted from the start
+}
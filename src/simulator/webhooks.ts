@@ -0,0 +1,213 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { hmacSha256Hex } from '../utils/webhookSignature';
+import { DoorDashWebhookConfig, getDoorDashWebhookConfig } from '../webhooks/verification/doordash';
+import { getUberWebhookSecrets } from '../webhooks/verification/uber';
+import { getPhase, isActive, isPickedUp } from './lifecycle';
+import { minutesAfter } from './pricing';
+import { SimulatedDelivery, SimulatedLocation } from './types';
+
+/**
+ * A webhook ready to send
+ */
+export interface SimulatedWebhook {
+  path: string;
+  body: string; // Serialized once, so the signature covers the bytes sent
+  headers: Record<string, string>;
+}
+
+/**
+ * Get where a delivery's courier is
+ * @param delivery The delivery
+ * @returns The location, or undefined before a courier is assigned or once cancelled
+ */
+const courierLocation = (delivery: SimulatedDelivery): SimulatedLocation | undefined => {
+  const { pickupLocation, dropoffLocation } = delivery.trip;
+  const phase = getPhase(delivery);
+  if (!phase || phase === 'booked') {
+    return undefined;
+  }
+  if (phase === 'delivered') {
+    return dropoffLocation;
+  }
+  if (isPickedUp(delivery)) {
+    return {
+      lat: (pickupLocation.lat + dropoffLocation.lat) / 2,
+      lng: (pickupLocation.lng + dropoffLocation.lng) / 2,
+    };
+  }
+  return pickupLocation;
+};
+
+/**
+ * Build a DoorDash Drive delivery as the API returns it
+ * @param delivery The delivery
+ * @param trackingBaseUrl Base URL of the simulator, for tracking links
+ * @returns The delivery resource
+ */
+export const toDoorDashDelivery = (delivery: SimulatedDelivery, trackingBaseUrl: string) => ({
+  ...delivery.details,
+  external_delivery_id: delivery.id,
+  delivery_status: delivery.status,
+  currency: 'USD',
+  fee: delivery.trip.fee,
+  pickup_address: delivery.pickupAddress,
+  dropoff_address: delivery.dropoffAddress,
+  pickup_time_estimated: minutesAfter(delivery.createdAt, delivery.trip.pickupMinutes),
+  dropoff_time_estimated: minutesAfter(delivery.createdAt, delivery.trip.dropoffMinutes),
+  tracking_url: `${trackingBaseUrl}/track/doordash/${delivery.id}`,
+  dasher_location: courierLocation(delivery),
+  created_at: delivery.createdAt.toISOString(),
+  updated_at: delivery.updatedAt.toISOString(),
+  cancelled_at: delivery.cancelledAt?.toISOString(),
+});
+
+/**
+ * Build an Uber Direct delivery as the API returns it
+ * @param delivery The delivery
+ * @param trackingBaseUrl Base URL of the simulator, for tracking links
+ * @returns The delivery resource
+ */
+export const toUberDelivery = (delivery: SimulatedDelivery, trackingBaseUrl: string) => {
+  const location = courierLocation(delivery);
+  return {
+    ...delivery.details,
+    kind: 'delivery',
+    id: delivery.id,
+    quote_id: delivery.quoteId,
+    status: delivery.status,
+    complete: !isActive(delivery),
+    fee: delivery.trip.fee,
+    currency: 'usd',
+    pickup_address: delivery.pickupAddress,
+    dropoff_address: delivery.dropoffAddress,
+    pickup_eta: minutesAfter(delivery.createdAt, delivery.trip.pickupMinutes),
+    dropoff_eta: minutesAfter(delivery.createdAt, delivery.trip.dropoffMinutes),
+    tracking_url: `${trackingBaseUrl}/track/uber/${delivery.id}`,
+    courier: location
+      ? { name: 'Simulated Courier', phone_number: '+15555550100', location }
+      : null,
+    created: delivery.createdAt.toISOString(),
+    updated: delivery.updatedAt.toISOString(),
+  };
+};
+
+/**
+ * Sign a DoorDash webhook the way the receiving service is configured to check it
+ *
+ * Uses an HMAC signature when signing secrets are configured, otherwise Basic
+ * Auth. With neither, the webhook is sent unsigned and will be rejected.
+ * @param body The serialized body
+ * @param config The receiver's DoorDash webhook settings
+ * @param now The current time in milliseconds
+ * @returns The authentication headers
+ */
+export const signDoorDashWebhook = (
+  body: string,
+  config: DoorDashWebhookConfig = getDoorDashWebhookConfig(),
+  now: number = Date.now()
+): Record<string, string> => {
+  if (config.schemes.includes('hmac') && config.signingSecrets.length > 0) {
+    const timestamp = Math.floor(now / 1000).toString();
+    const signature = hmacSha256Hex(
+      config.signingSecrets[0],
+      `${timestamp}${config.developerId}${body}`
+    );
+    return { 'X-DoorDash-Signature': `t=${timestamp},v1=${signature}` };
+  }
+  if (config.schemes.includes('basic') && config.passwords.length > 0) {
+    const credentials = `${config.username ?? ''}:${config.passwords[0]}`;
+    return { Authorization: `Basic ${Buffer.from(credentials).toString('base64')}` };
+  }
+  console.warn('[Simulator] No DoorDash webhook credentials configured; sending unsigned');
+  return {};
+};
+
+/**
+ * Sign an Uber webhook with the first active signing key
+ * @param body The serialized body
+ * @param secrets The receiver's Uber webhook signing keys
+ * @returns The signature header
+ */
+export const signUberWebhook = (
+  body: string,
+  secrets: string[] = getUberWebhookSecrets()
+): Record<string, string> => {
+  if (secrets.length === 0) {
+    console.warn('[Simulator] No Uber webhook secret configured; sending unsigned');
+    return {};
+  }
+  return { 'X-Uber-Signature': hmacSha256Hex(secrets[0], body) };
+};
+
+/**
+ * Build the webhook announcing a delivery's current status
+ * @param delivery The delivery
+ * @param trackingBaseUrl Base URL of the simulator, for tracking links
+ * @returns The signed webhook
+ */
+export const buildStatusWebhook = (
+  delivery: SimulatedDelivery,
+  trackingBaseUrl: string
+): SimulatedWebhook => {
+  const now = new Date();
+
+  if (delivery.provider === 'doordash') {
+    const resource = toDoorDashDelivery(delivery, trackingBaseUrl);
+    const body = JSON.stringify({
+      event_type: getPhase(delivery) === 'booked' ? 'delivery_created' : 'delivery_status_update',
+      event_id: uuidv4(),
+      created_at: now.toISOString(),
+      data: {
+        delivery_id: delivery.id,
+        external_delivery_id: delivery.id,
+        delivery_status: delivery.status,
+        status_details: delivery.status,
+        dasher_location: resource.dasher_location,
+        estimated_delivery_time: resource.dropoff_time_estimated,
+        tracking_url: resource.tracking_url,
+      },
+    });
+    return { path: '/webhooks/doordash', body, headers: signDoorDashWebhook(body) };
+  }
+
+  const body = JSON.stringify({
+    kind: 'event.delivery_status',
+    id: `evt_${uuidv4()}`,
+    delivery_id: delivery.id,
+    status: delivery.status,
+    created: now.toISOString(),
+    data: toUberDelivery(delivery, trackingBaseUrl),
+  });
+  return { path: '/webhooks/uber', body, headers: signUberWebhook(body) };
+};
+
+/**
+ * Send a webhook to the receiving service
+ *
+ * Failures are logged, not thrown: a real provider does not stop a delivery
+ * because its webhook could not be delivered.
+ * @param webhookUrl Base URL of the receiving service
+ * @param webhook The webhook
+ * @returns Whether the receiver accepted it
+ */
+export const sendWebhook = async (
+  webhookUrl: string,
+  webhook: SimulatedWebhook
+): Promise<boolean> => {
+  try {
+    await axios.post(`${webhookUrl.replace(/\/$/, '')}${webhook.path}`, webhook.body, {
+      headers: { 'Content-Type': 'application/json', ...webhook.headers },
+      timeout: 10_000,
+    });
+    return true;
+  } catch (error) {
+    const reason = axios.isAxiosError(error)
+      ? error.response
+        ? `HTTP ${error.response.status}`
+        : error.message
+      : String(error);
+    console.warn(`[Simulator] Webhook to ${webhook.path} failed: ${reason}`);
+    return false;
+  }
+};
@@ -64,6 +64,7 @@ export interface Database {
           external_delivery_id?: string;
           metadata?: Json | null;
         };
+        Relationships: [];
       };
       provider_quotes: {
         Row: {
@@ -102,6 +103,202 @@ export interface Database {
           selected?: boolean;
           metadata?: Json | null;
         };
+        Relationships: [];
+      };
+      webhook_events: {
+        Row: {
+          id: string;
+          created_at: string;
+          provider: string;
+          status: string;
+          delivery_id: string | null;
+          event_id: string | null;
+          dedup_key: string | null;
+          received_at: string;
+          processed_at: string | null;
+          last_processing_attempt: string | null;
+          processing_attempts: number;
+          raw_data: Json;
+          raw_body: string | null;
+          headers: Json | null;
+          processing_result: Json | null;
+          annotation: string | null;
+          original_raw_data: Json | null;
+          replay_count: number;
+          last_replayed_at: string | null;
+          next_attempt_at: string | null;
+          lease_owner: string | null;
+          lease_expires_at: string | null;
+        };
+        Insert: {
+          id: string;
+          created_at?: string;
+          provider: string;
+          status: string;
+          delivery_id?: string | null;
+          event_id?: string | null;
+          dedup_key?: string | null;
+          received_at: string;
+          processed_at?: string | null;
+          last_processing_attempt?: string | null;
+          processing_attempts?: number;
+          raw_data: Json;
+          raw_body?: string | null;
+          headers?: Json | null;
+          processing_result?: Json | null;
+          annotation?: string | null;
+          original_raw_data?: Json | null;
+          replay_count?: number;
+          last_replayed_at?: string | null;
+          next_attempt_at?: string | null;
+          lease_owner?: string | null;
+          lease_expires_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          provider?: string;
+          status?: string;
+          delivery_id?: string | null;
+          event_id?: string | null;
+          dedup_key?: string | null;
+          received_at?: string;
+          processed_at?: string | null;
+          last_processing_attempt?: string | null;
+          processing_attempts?: number;
+          raw_data?: Json;
+          raw_body?: string | null;
+          headers?: Json | null;
+          processing_result?: Json | null;
+          annotation?: string | null;
+          original_raw_data?: Json | null;
+          replay_count?: number;
+          last_replayed_at?: string | null;
+          next_attempt_at?: string | null;
+          lease_owner?: string | null;
+          lease_expires_at?: string | null;
+        };
+        Relationships: [];
+      };
+      delivery_status_history: {
+        Row: {
+          id: string;
+          created_at: string;
+          delivery_id: string;
+          from_status: string | null;
+          to_status: string;
+          provider_status: string | null;
+          source: string;
+          occurred_at: string;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          delivery_id: string;
+          from_status?: string | null;
+          to_status: string;
+          provider_status?: string | null;
+          source: string;
+          occurred_at: string;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          delivery_id?: string;
+          from_status?: string | null;
+          to_status?: string;
+          provider_status?: string | null;
+          source?: string;
+          occurred_at?: string;
+        };
+        Relationships: [];
+      };
+      restaurant_webhook_endpoints: {
+        Row: {
+          id: string;
+          created_at: string;
+          updated_at: string;
+          restaurant_id: string;
+          url: string;
+          secret: string;
+          active: boolean;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+          restaurant_id: string;
+          url: string;
+          secret: string;
+          active?: boolean;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+          restaurant_id?: string;
+          url?: string;
+          secret?: string;
+          active?: boolean;
+        };
+        Relationships: [];
+      };
+      outbound_webhook_events: {
+        Row: {
+          id: string;
+          created_at: string;
+          updated_at: string;
+          restaurant_id: string;
+          delivery_id: string | null;
+          event_type: string;
+          url: string;
+          payload: Json;
+          status: string;
+          attempts: number;
+          next_attempt_at: string | null;
+          last_attempt_at: string | null;
+          last_response_status: number | null;
+          last_error: string | null;
+          lease_owner: string | null;
+          lease_expires_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+          restaurant_id: string;
+          delivery_id?: string | null;
+          event_type: string;
+          url: string;
+          payload: Json;
+          status: string;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          last_attempt_at?: string | null;
+          last_response_status?: number | null;
+          last_error?: string | null;
+          lease_owner?: string | null;
+          lease_expires_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+          restaurant_id?: string;
+          delivery_id?: string | null;
+          event_type?: string;
+          url?: string;
+          payload?: Json;
+          status?: string;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          last_attempt_at?: string | null;
+          last_response_status?: number | null;
+          last_error?: string | null;
+          lease_owner?: string | null;
+          lease_expires_at?: string | null;
+        };
+        Relationships: [];
       };
       restaurants: {
         Row: {
@@ -131,7 +328,147 @@ export interface Database {
           contact_email?: string | null;
           metadata?: Json | null;
         };
+        Relationships: [];
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          created_at: string;
+          restaurant_id: string;
+          name: string;
+          prefix: string;
+          key_hash: string;
+          scopes: string[];
+          expires_at: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          restaurant_id: string;
+          name: string;
+          prefix: string;
+          key_hash: string;
+          scopes: string[];
+          expires_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          restaurant_id?: string;
+          name?: string;
+          prefix?: string;
+          key_hash?: string;
+          scopes?: string[];
+          expires_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Relationships: [];
+      };
+      idempotency_keys: {
+        Row: {
+          restaurant_id: string;
+          key: string;
+          created_at: string;
+          expires_at: string;
+          locked_until: string;
+          claim_token: string | null;
+          request_method: string;
+          request_path: string;
+          request_hash: string;
+          status: string;
+          response_status: number | null;
+          response_body: Json | null;
+        };
+        Insert: {
+          restaurant_id: string;
+          key: string;
+          created_at?: string;
+          expires_at: string;
+          locked_until?: string;
+          claim_token?: string | null;
+          request_method: string;
+          request_path: string;
+          request_hash: string;
+          status?: string;
+          response_status?: number | null;
+          response_body?: Json | null;
+        };
+        Update: {
+          restaurant_id?: string;
+          key?: string;
+          created_at?: string;
+          expires_at?: string;
+          locked_until?: string;
+          claim_token?: string | null;
+          request_method?: string;
+          request_path?: string;
+          request_hash?: string;
+          status?: string;
+          response_status?: number | null;
+          response_body?: Json | null;
+        };
+        Relationships: [];
+      };
+      rate_limit_buckets: {
+        Row: {
+          id: string;
+          tokens: number;
+          refilled_at: string;
+          period_start: string;
+          consumed: number;
+          throttled: number;
+        };
+        Insert: {
+          id: string;
+          tokens: number;
+          refilled_at: string;
+          period_start: string;
+          consumed?: number;
+          throttled?: number;
+        };
+        Update: {
+          id?: string;
+          tokens?: number;
+          refilled_at?: string;
+          period_start?: string;
+          consumed?: number;
+          throttled?: number;
+        };
+        Relationships: [];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: {
+      claim_outbound_webhook_events: {
+        Args: { p_owner: string; p_lease_ms: number; p_limit: number; p_id?: string | null };
+        Returns: Database['public']['Tables']['outbound_webhook_events']['Row'][];
+      };
+      claim_webhook_events: {
+        Args: { p_owner: string; p_lease_ms: number; p_limit: number; p_id?: string | null };
+        Returns: Database['public']['Tables']['webhook_events']['Row'][];
+      };
+      take_rate_limit_tokens: {
+        Args: {
+          p_ids: string[];
+          p_capacities: number[];
+          p_refill_per_second: number[];
+          p_cost: number;
+          p_now: string;
+        };
+        Returns: {
+          bucket_id: string;
+          bucket_tokens: number;
+          bucket_refilled_at: string;
+          bucket_period_start: string;
+          bucket_consumed: number;
+          bucket_throttled: number;
+          allowed: boolean;
+        }[];
       };
     };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 }
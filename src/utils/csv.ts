@@ -0,0 +1,26 @@
+/**
+ * A CSV cell value; null and undefined become empty cells
+ */
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break
+ * @param value The cell value
+ * @returns The escaped cell
+ */
+const escapeCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows to RFC 4180 CSV
+ * @param header The column names
+ * @param rows The rows, in column order
+ * @returns The CSV document
+ */
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
@@ -1,6 +1,7 @@
 import crypto from 'crypto';
 import { config } from 'dotenv';
 import jwt from 'jsonwebtoken';
+import { getDoorDashClientConfig } from '../clients/config';
 
 // Load environment variables
 config();
@@ -10,8 +11,8 @@ const DD_DEVELOPER_ID = process.env.DD_DEVELOPER_ID;
 const DD_KEY_ID = process.env.DD_KEY_ID;
 const DD_SIGNING_SECRET = process.env.DD_SIGNING_SECRET;
 
-// DoorDash API base URL
-export const DD_API_BASE_URL = 'https://openapi.doordash.com/drive/v2';
+// DoorDash API base URL, as configured (see getDoorDashClientConfig)
+export const DD_API_BASE_URL = getDoorDashClientConfig().baseUrl;
 
 // Check if credentials are available
 if (!DD_DEVELOPER_ID || !DD_KEY_ID || !DD_SIGNING_SECRET) {
@@ -0,0 +1,19 @@
+/**
+ * Error carrying an HTTP status for the global error handler
+ *
+ * Thrown from route handlers and services when the failure maps onto a
+ * specific client-facing response rather than a generic 500.
+ */
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -0,0 +1,39 @@
+import { z, ZodTypeAny } from 'zod';
+import { ApiError } from './errors';
+
+/**
+ * Validate request input against a schema
+ * @param schema The zod schema
+ * @param input The request body or query string
+ * @param message The error message when validation fails
+ * @returns The parsed input
+ */
+const parseInput = <S extends ZodTypeAny>(
+  schema: S,
+  input: unknown,
+  message: string
+): z.infer<S> => {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ApiError(400, 'invalid_request', message, result.error.flatten());
+  }
+  return result.data;
+};
+
+/**
+ * Validate a request body against a schema
+ * @param schema The zod schema
+ * @param body The request body
+ * @returns The parsed body
+ */
+export const parseBody = <S extends ZodTypeAny>(schema: S, body: unknown): z.infer<S> =>
+  parseInput(schema, body, 'Invalid request body');
+
+/**
+ * Validate a query string against a schema
+ * @param schema The zod schema
+ * @param query The parsed query string
+ * @returns The parsed query
+ */
+export const parseQuery = <S extends ZodTypeAny>(schema: S, query: unknown): z.infer<S> =>
+  parseInput(schema, query, 'Invalid query parameters');
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+/**
+ * Parse a comma-separated list of secrets
+ *
+ * Webhook secrets are configured as lists so a new secret can be added before
+ * the old one is retired, keeping both valid while the provider rotates.
+ * @param value The configured value
+ * @returns The non-empty secrets
+ */
+export const parseSecrets = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+/**
+ * Compute an HMAC-SHA256 signature
+ * @param secret The signing secret
+ * @param payload The signed bytes
+ * @returns The hex digest
+ */
+export const hmacSha256Hex = (secret: string | Buffer, payload: string | Buffer): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+/**
+ * Compare two strings in constant time
+ *
+ * Only the length can leak, and signatures have a fixed length anyway.
+ * @param a The first string
+ * @param b The second string
+ * @returns Whether the strings are equal
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Check a hex HMAC-SHA256 signature against every active secret
+ *
+ * Every secret is tried even after a match, so timing does not reveal which
+ * one signed the payload.
+ * @param payload The signed bytes
+ * @param signature The signature received
+ * @param secrets The active secrets
+ * @returns Whether any secret produces the signature
+ */
+export const matchesHmacSignature = (
+  payload: string | Buffer,
+  signature: string,
+  secrets: Array<string | Buffer>
+): boolean => {
+  const received = signature.trim().toLowerCase();
+  return secrets.reduce(
+    (valid, secret) => safeEqual(hmacSha256Hex(secret, payload), received) || valid,
+    false
+  );
+};
@@ -4,8 +4,10 @@ import {
   WebhookProcessingResult, 
   WebhookEvent,
   WebhookProvider,
-  WebhookEventType
+  WebhookEventType,
+  DeliveryStatusWebhookEvent
 } from './types';
+import { recordWebhookStatus } from '../services/delivery/status';
 
 /**
  * Base class for all webhook processors
@@ -22,12 +24,17 @@ export abstract class BaseWebhookProcessor implements WebhookProcessor {
    * Process a webhook payload
    * @param rawData The raw webhook payload
    * @param headers The request headers
+   * @param rawBody The request body as received
    * @returns Processing result
    */
-  async processWebhook(rawData: any, headers?: Record<string, string>): Promise<WebhookProcessingResult> {
+  async processWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<WebhookProcessingResult> {
     try {
       // Verify webhook signature
-      const isValid = await this.verifyWebhook(rawData, headers);
+      const isValid = await this.verifyWebhook(rawData, headers, rawBody);
       if (!isValid) {
         return {
           success: false,
@@ -61,9 +68,14 @@ export abstract class BaseWebhookProcessor implements WebhookProcessor {
    * Verify webhook signature
    * @param rawData The raw webhook payload
    * @param headers The request headers
+   * @param rawBody The request body as received
    * @returns Whether the webhook signature is valid
    */
-  abstract verifyWebhook(rawData: any, headers?: Record<string, string>): Promise<boolean>;
+  abstract verifyWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<boolean>;
 
   /**
    * Parse webhook data into standardized event
@@ -79,15 +91,13 @@ export abstract class BaseWebhookProcessor implements WebhookProcessor {
    */
   protected async handleEvent(event: WebhookEvent): Promise<void> {
     console.log(`Processing ${this.provider} webhook event: ${event.eventType} for delivery ${event.deliveryId}`);
-    
-    // Implement common event handling logic here
-    // Provider-specific processors can override this method to add custom logic
-    
-    // Example: Update delivery status in database
-    // await this.updateDeliveryStatus(event);
-    
-    // Example: Notify customers about delivery updates
-    // await this.notifyCustomer(event);
+
+    // Status events drive the delivery state machine, which rejects illegal and
+    // out-of-order transitions. Provider-specific processors can override this
+    // method to add custom logic
+    if ('status' in event) {
+      await recordWebhookStatus(event as DeliveryStatusWebhookEvent);
+    }
   }
 
   /**
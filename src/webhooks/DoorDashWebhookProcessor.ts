@@ -7,18 +7,16 @@ import {
   WebhookDeliveryStatus,
   DeliveryStatusWebhookEvent
 } from './types';
-import { verifyWebhookSignature } from '../utils/doorDashAuth';
-import { WebhookStorage } from './WebhookStorage';
+import { verifyDoorDashWebhook } from './verification';
+import { recordWebhookStatus } from '../services/delivery/status';
 
 /**
  * Processor for DoorDash webhooks
  */
 export class DoorDashWebhookProcessor implements WebhookProcessor {
-  private storage: WebhookStorage;
   private developmentMode: boolean;
 
   constructor() {
-    this.storage = WebhookStorage.getInstance();
     // Set to true during development/MVP phase, should be false in production
     this.developmentMode = process.env.NODE_ENV !== 'production';
   }
@@ -27,13 +25,18 @@ export class DoorDashWebhookProcessor implements WebhookProcessor {
    * Process a DoorDash webhook
    * @param rawData Raw webhook data
    * @param headers Request headers
+   * @param rawBody Request body as received, for signature verification
    * @returns Processing result
    */
-  async processWebhook(rawData: any, headers?: Record<string, string>): Promise<WebhookProcessingResult> {
+  async processWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<WebhookProcessingResult> {
     try {
       // Verify webhook signature if not in development mode
       if (headers && !this.developmentMode) {
-        const isValid = await this.verifyWebhook(rawData, headers);
+        const isValid = await this.verifyWebhook(rawData, headers, rawBody);
         if (!isValid) {
           return {
             success: false,
@@ -44,28 +47,17 @@ export class DoorDashWebhookProcessor implements WebhookProcessor {
         console.log('[DoorDash Webhook] Skipping signature verification in development mode');
       }
 
-      // Store the webhook
-      const webhook = this.storage.storeWebhook(WebhookProvider.DOORDASH, rawData);
-
       // Parse the event
       const event = this.parseWebhookEvent(rawData);
       
       // Process based on event type
       if (event.eventType === WebhookEventType.DELIVERY_STATUS_CHANGED ||
           event.eventType === WebhookEventType.DELIVERY_CREATED) {
-        // For status updates, we would update the delivery status in a database
         console.log(`[DoorDash Webhook] Delivery ${event.deliveryId} status: ${(event as DeliveryStatusWebhookEvent).status}`);
-        
-        // Here you would add code to update the delivery status in your system
-        // For example: await deliveryService.updateStatus(event.deliveryId, (event as DeliveryStatusWebhookEvent).status);
-      }
 
-      // Update webhook with processing result
-      this.storage.updateWebhook(webhook.id, {
-        success: true,
-        message: `Processed ${event.eventType} event for delivery ${event.deliveryId}`,
-        event
-      });
+        // Keep the stored delivery current so status reads rarely need to poll DoorDash
+        await recordWebhookStatus(event as DeliveryStatusWebhookEvent);
+      }
 
       return {
         success: true,
@@ -83,27 +75,30 @@ export class DoorDashWebhookProcessor implements WebhookProcessor {
   }
 
   /**
-   * Verify a DoorDash webhook signature
+   * Verify a DoorDash webhook with the configured schemes
    * @param rawData Raw webhook data
    * @param headers Request headers
+   * @param rawBody Request body as received; signatures cover these exact bytes
    * @returns Whether the webhook is valid
    */
-  async verifyWebhook(rawData: any, headers?: Record<string, string>): Promise<boolean> {
+  async verifyWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<boolean> {
     if (!headers) {
       return false;
     }
 
-    // Extract signature and timestamp
-    const signature = headers['x-doordash-signature'];
-    const timestamp = headers['x-doordash-timestamp'];
-
-    if (!signature || !timestamp) {
-      console.error('[DoorDash Webhook] Missing required headers');
-      return false;
+    const result = verifyDoorDashWebhook({
+      headers,
+      rawBody: rawBody ?? JSON.stringify(rawData),
+    });
+    if (!result.valid) {
+      console.error(`[DoorDash Webhook] Verification failed: ${result.reason}`);
     }
 
-    // Verify signature
-    return verifyWebhookSignature(rawData, signature, timestamp);
+    return result.valid;
   }
 
   /**
@@ -111,7 +106,7 @@ export class DoorDashWebhookProcessor implements WebhookProcessor {
    * @param rawData Raw webhook data
    * @returns Parsed webhook event
    */
-  private parseWebhookEvent(rawData: any): WebhookEvent {
+  public parseWebhookEvent(rawData: any): WebhookEvent {
     const eventType = this.mapEventType(rawData.event_type);
     const deliveryId = rawData.data?.delivery_id || '';
     const externalDeliveryId = rawData.data?.external_delivery_id || '';
@@ -133,10 +128,15 @@ export class DoorDashWebhookProcessor implements WebhookProcessor {
       const statusEvent: DeliveryStatusWebhookEvent = {
         ...event,
         status: this.mapDeliveryStatus(rawData.data?.delivery_status),
-        statusDetails: rawData.data?.status_details || '',
+        statusDetails: rawData.data?.status_details || rawData.data?.delivery_status || '',
+        location: rawData.data?.dasher_location ? {
+          latitude: rawData.data.dasher_location.lat,
+          longitude: rawData.data.dasher_location.lng
+        } : undefined,
         estimatedDeliveryTime: rawData.data?.estimated_delivery_time 
           ? new Date(rawData.data.estimated_delivery_time) 
-          : undefined
+          : undefined,
+        trackingUrl: rawData.data?.tracking_url || undefined
       };
       return statusEvent;
     }
@@ -165,22 +165,32 @@ export class DoorDashWebhookProcessor implements WebhookProcessor {
    * @param doorDashStatus DoorDash delivery status
    * @returns Standardized delivery status
    */
-  private mapDeliveryStatus(doorDashStatus: string): WebhookDeliveryStatus {
+  public mapDeliveryStatus(doorDashStatus: string): WebhookDeliveryStatus {
     switch (doorDashStatus) {
       case 'created':
+      case 'quote':
         return WebhookDeliveryStatus.PENDING;
       case 'dasher_assigned':
+      case 'confirmed':
+      case 'enroute_to_pickup':
+      case 'arrived_at_pickup':
         return WebhookDeliveryStatus.ASSIGNED;
       case 'picked_up':
         return WebhookDeliveryStatus.PICKUP;
       case 'en_route_to_dropoff':
+      case 'enroute_to_dropoff':
+      case 'arrived_at_dropoff':
         return WebhookDeliveryStatus.IN_TRANSIT;
       case 'delivered':
         return WebhookDeliveryStatus.DELIVERED;
       case 'delivery_failed':
         return WebhookDeliveryStatus.FAILED;
       case 'canceled':
+      case 'cancelled':
         return WebhookDeliveryStatus.CANCELLED;
+      case 'enroute_to_return':
+      case 'returned':
+        return WebhookDeliveryStatus.RETURNED;
       default:
         return WebhookDeliveryStatus.UNKNOWN;
     }
@@ -7,23 +7,25 @@ import {
   WebhookDeliveryStatus,
   DeliveryStatusWebhookEvent
 } from './types';
-import crypto from 'crypto';
-import { WebhookStorage } from './WebhookStorage';
+import {
+  getUberSignature,
+  getUberWebhookSecrets,
+  verifyUberWebhookSignature,
+} from './verification';
+import { recordWebhookStatus } from '../services/delivery/status';
 
 /**
  * Processor for Uber webhooks
  */
 export class UberWebhookProcessor implements WebhookProcessor {
-  private storage: WebhookStorage;
-  private clientSecret: string;
+  private secrets: string[];
   private readonly isDevelopmentMode: boolean;
 
   constructor(
-    clientSecret: string = process.env.UBER_CLIENT_SECRET || '', 
+    secrets: string | string[] = getUberWebhookSecrets(), 
     isDevelopmentMode: boolean = process.env.NODE_ENV === 'development' && process.env.BYPASS_WEBHOOK_VERIFICATION === 'true'
   ) {
-    this.storage = WebhookStorage.getInstance();
-    this.clientSecret = clientSecret;
+    this.secrets = (Array.isArray(secrets) ? secrets : [secrets]).filter(Boolean);
     this.isDevelopmentMode = isDevelopmentMode;
     
     if (this.isDevelopmentMode) {
@@ -35,13 +37,18 @@ export class UberWebhookProcessor implements WebhookProcessor {
    * Process an Uber webhook
    * @param rawData Raw webhook data
    * @param headers Request headers
+   * @param rawBody Request body as received
    * @returns Processing result
    */
-  async processWebhook(rawData: any, headers?: Record<string, string>): Promise<WebhookProcessingResult> {
+  async processWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<WebhookProcessingResult> {
     try {
       // Verify webhook signature (unless in development mode with bypass enabled)
       if (headers && !this.isDevelopmentMode) {
-        const isValid = await this.verifyWebhook(rawData, headers);
+        const isValid = await this.verifyWebhook(rawData, headers, rawBody);
         if (!isValid) {
           return {
             success: false,
@@ -52,9 +59,6 @@ export class UberWebhookProcessor implements WebhookProcessor {
         console.log('[Uber Webhook] Development mode - bypassing signature verification for processing');
       }
 
-      // Store the webhook
-      const webhook = this.storage.storeWebhook(WebhookProvider.UBER, rawData);
-
       // Parse the event
       const event = this.parseWebhookEvent(rawData);
       
@@ -71,21 +75,11 @@ export class UberWebhookProcessor implements WebhookProcessor {
         
         if (statusEvent.trackingUrl) {
           console.log(`[Uber Webhook] Tracking URL: ${statusEvent.trackingUrl}`);
-          
-          // Here you would add code to store the tracking URL in your database
-          // For example: await deliveryService.updateTrackingUrl(event.deliveryId, statusEvent.trackingUrl);
         }
-        
-        // Here you would add code to update the delivery status in your database
-        // For example: await deliveryService.updateStatus(event.deliveryId, statusEvent.status);
-      }
 
-      // Update webhook with processing result
-      this.storage.updateWebhook(webhook.id, {
-        success: true,
-        message: `Processed ${event.eventType} event for delivery ${event.deliveryId}`,
-        event
-      });
+        // Store status, tracking URL, courier location and ETA on the delivery
+        await recordWebhookStatus(statusEvent);
+      }
 
       return {
         success: true,
@@ -106,9 +100,14 @@ export class UberWebhookProcessor implements WebhookProcessor {
    * Verify an Uber webhook signature
    * @param rawData Raw webhook data
    * @param headers Request headers
+   * @param rawBody Request body as received; Uber signs these exact bytes
    * @returns Whether the webhook is valid
    */
-  async verifyWebhook(rawData: any, headers?: Record<string, string>): Promise<boolean> {
+  async verifyWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<boolean> {
     // Skip verification in development mode if bypass enabled
     if (this.isDevelopmentMode) {
       console.log('[Uber Webhook] Development mode - bypassing signature verification');
@@ -120,29 +119,27 @@ export class UberWebhookProcessor implements WebhookProcessor {
     }
 
     // Extract signature - Uber uses x-uber-signature according to the documentation
-    const signature = headers['x-uber-signature'] || headers['x-postmates-signature'];
+    const signature = getUberSignature(headers);
 
     if (!signature) {
       console.error('[Uber Webhook] Missing signature header');
       return false;
     }
 
-    if (!this.clientSecret) {
-      console.error('[Uber Webhook] Missing client secret');
+    if (this.secrets.length === 0) {
+      console.error('[Uber Webhook] Missing webhook secret');
       return false;
     }
 
-    // Verify signature
-    const computedSignature = crypto
-      .createHmac('sha256', this.clientSecret)
-      .update(JSON.stringify(rawData))
-      .digest('hex');
-
-    const isValid = signature === computedSignature;
+    // Webhooks stored before raw bodies were kept can only be checked against the re-serialized payload
+    const isValid = verifyUberWebhookSignature(
+      rawBody ?? JSON.stringify(rawData),
+      signature,
+      this.secrets
+    );
     
     if (!isValid) {
       console.error('[Uber Webhook] Invalid signature');
-      console.debug(`[Uber Webhook] Expected: ${computedSignature}, Received: ${signature}`);
     }
     
     return isValid;
@@ -153,7 +150,7 @@ export class UberWebhookProcessor implements WebhookProcessor {
    * @param rawData Raw webhook data
    * @returns Parsed webhook event
    */
-  private parseWebhookEvent(rawData: any): WebhookEvent {
+  public parseWebhookEvent(rawData: any): WebhookEvent {
     // Normalize field names between Uber Eats and Direct API
     // Uber Direct uses different formats for their webhooks than legacy API
     const eventType = rawData.kind || rawData.event_type;
@@ -266,7 +263,7 @@ export class UberWebhookProcessor implements WebhookProcessor {
    * @param uberStatus Uber delivery status
    * @returns Standardized delivery status
    */
-  private mapDeliveryStatus(uberStatus: string): WebhookDeliveryStatus {
+  public mapDeliveryStatus(uberStatus: string): WebhookDeliveryStatus {
     if (!uberStatus) {
       return WebhookDeliveryStatus.UNKNOWN;
     }
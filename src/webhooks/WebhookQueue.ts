@@ -1,27 +1,35 @@
-import { v4 as uuidv4 } from 'uuid';
 import { 
   WebhookStorageRecord, 
-  WebhookProcessingResult, 
   WebhookProvider 
 } from './types';
 import { WebhookProcessorFactory } from './WebhookProcessorFactory';
 import { WebhookStorage } from './WebhookStorage';
+import { WebhookWorker, getWebhookWorkerMode } from './WebhookWorker';
+import { getDedupRetentionMs, getWebhookIdentity } from './dedup';
 
-// Queue configuration
-const MAX_RETRY_ATTEMPTS = 3;
-const RETRY_INTERVALS = [
-  1000 * 60,     // 1 minute
-  1000 * 60 * 5, // 5 minutes
-  1000 * 60 * 30 // 30 minutes
-];
+/**
+ * Outcome of queuing a webhook
+ */
+export interface QueuedWebhook {
+  webhookId: string; // For a duplicate, the ID of the original webhook
+  duplicate: boolean;
+}
 
 /**
  * Webhook queue for processing and retrying webhook events
+ *
+ * Webhooks are stored as pending jobs and processed by a WebhookWorker under a
+ * lease, so retries are rows in storage rather than timers and survive
+ * restarts. In the embedded worker mode this process runs a worker of its own
+ * and starts new webhooks on it at once; in the external mode it only stores
+ * them for the worker processes (src/worker.ts).
  */
 export class WebhookQueue {
   private static instance: WebhookQueue;
-  private processingQueue: Map<string, NodeJS.Timeout> = new Map();
+  // Webhooks being queued, by dedup key, so concurrent redeliveries resolve to one record
+  private queuing: Map<string, Promise<QueuedWebhook>> = new Map();
   private storage: WebhookStorage;
+  private worker?: WebhookWorker; // Only in the embedded mode
 
   /**
    * Get the singleton instance
@@ -39,43 +47,45 @@ export class WebhookQueue {
    */
   private constructor() {
     this.storage = WebhookStorage.getInstance();
-    this.initializeRetryQueue();
+    if (getWebhookWorkerMode() === 'embedded') {
+      this.worker = new WebhookWorker(this.storage);
+    }
   }
 
   /**
-   * Initialize the retry queue with pending webhooks from storage
+   * Start the embedded worker polling for due webhooks and retries
+   *
+   * Does nothing in the external mode, where worker processes poll instead.
    */
-  private initializeRetryQueue(): void {
-    const pendingWebhooks = this.storage.getPendingWebhooks(MAX_RETRY_ATTEMPTS);
-    
-    console.log(`[Webhook Queue] Found ${pendingWebhooks.length} pending webhooks to retry`);
-    
-    for (const webhook of pendingWebhooks) {
-      const retryDelay = 5000; // 5 seconds for initial retry, real delays in handleProcessingFailure
-      
-      console.log(`[Webhook Queue] Scheduling initial retry for webhook ${webhook.id} in ${retryDelay / 1000} seconds`);
-      
-      const timeout = setTimeout(() => {
-        this.processWebhook(webhook.id, webhook.headers); // Pass stored headers
-        this.processingQueue.delete(webhook.id);
-      }, retryDelay);
-      
-      this.processingQueue.set(webhook.id, timeout);
-    }
+  startWorker(): void {
+    this.worker?.start();
+  }
+
+  /**
+   * Stop the embedded worker, waiting for the webhooks it is processing
+   */
+  async stopWorker(): Promise<void> {
+    await this.worker?.stop();
   }
 
   /**
    * Add a webhook to the queue
+   *
+   * Providers retry webhooks, so a redelivery of an event received within the
+   * dedup retention window is not stored or processed again; the original
+   * webhook's ID is returned instead.
    * @param provider The webhook provider
    * @param rawData The raw webhook data
    * @param headers The request headers
-   * @returns The webhook storage record ID
+   * @param rawBody The request body as received
+   * @returns The webhook storage record ID and whether it was a duplicate
    */
   async addToQueue(
     provider: WebhookProvider | string, 
     rawData: any, 
-    headers?: Record<string, string>
-  ): Promise<string> {
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<QueuedWebhook> {
     // Convert string provider to enum if needed
     const providerEnum = typeof provider === 'string' 
       ? WebhookProcessorFactory.getProcessorByName(provider) ? // Hack to get enum from name
@@ -83,120 +93,85 @@ export class WebhookQueue {
         : WebhookProvider.UNKNOWN 
       : provider;
 
-    // Store the webhook using WebhookStorage.storeWebhook
-    const record = this.storage.storeWebhook(providerEnum, rawData, headers); // Pass headers to store
-
-    // Process the webhook immediately
-    this.processWebhook(record.id, record.headers);
+    const { dedupKey } = getWebhookIdentity(providerEnum, rawData);
+    const queuing = this.queuing.get(dedupKey);
+    if (queuing) {
+      return { webhookId: (await queuing).webhookId, duplicate: true };
+    }
 
-    return record.id;
+    const queued = this.storeUnlessDuplicate(providerEnum, rawData, headers, rawBody);
+    this.queuing.set(dedupKey, queued);
+    try {
+      return await queued;
+    } finally {
+      this.queuing.delete(dedupKey);
+    }
   }
 
   /**
-   * Process a webhook
-   * @param webhookId The webhook ID
+   * Store and start processing a webhook, unless it was already received
+   * @param provider The webhook provider
+   * @param rawData The raw webhook data
    * @param headers The request headers
+   * @param rawBody The request body as received
+   * @returns The webhook storage record ID and whether it was a duplicate
    */
-  private async processWebhook(
-    webhookId: string, 
-    headers?: Record<string, string>
-  ): Promise<void> {
-    // Get the webhook record from storage
-    const record = this.storage.getWebhook(webhookId);
-    if (!record) {
-      console.error(`[Webhook Queue] Webhook not found: ${webhookId}`);
-      return;
+  private async storeUnlessDuplicate(
+    provider: WebhookProvider,
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<QueuedWebhook> {
+    const retentionMs = getDedupRetentionMs();
+    const since = retentionMs > 0 ? new Date(Date.now() - retentionMs) : undefined;
+    const { record, duplicate } = await this.storage.storeUnlessDuplicate(
+      provider,
+      rawData,
+      headers,
+      rawBody,
+      since
+    );
+    if (duplicate) {
+      console.info(`[Webhook Queue] Duplicate of webhook ${record.id}; not processing again`);
+      return { webhookId: record.id, duplicate: true };
     }
 
-    // Prevent processing if already processed or max attempts reached
-    if (record.status === 'processed' || record.processingAttempts >= MAX_RETRY_ATTEMPTS && record.status === 'failed') {
-      console.log(`[Webhook Queue] Webhook ${webhookId} already ${record.status} or max attempts reached. Skipping.`);
-      return;
-    }
+    // Process the webhook immediately when this process has a worker with a free slot
+    this.worker?.processNow(record.id).catch(error => {
+      console.error(`[Webhook Queue] Failed to process webhook ${record.id}:`, error);
+    });
 
-    console.log(`[Webhook Queue] Processing webhook ${webhookId}, attempt ${record.processingAttempts + 1}`);
-
-    try {
-      // Get the appropriate processor
-      const processor = WebhookProcessorFactory.getProcessor(record.provider);
-
-      // Process the webhook
-      const result = await processor.processWebhook(record.rawData, headers);
-
-      // Update the record with the result using WebhookStorage.updateWebhook
-      this.storage.updateWebhook(webhookId, result);
-
-      if (result.success) {
-        console.log(`[Webhook Queue] Webhook processed successfully: ${webhookId}`);
-      } else {
-        // Handle processing failure (will be logged by updateWebhook and retried if applicable)
-        console.warn(`[Webhook Queue] Webhook processing attempt failed for ${webhookId}: ${result.message}`);
-        this.handleProcessingFailure(webhookId, record, result); // Ensure retry logic is called
-      }
-    } catch (error) {
-      // Handle processing error
-      const result: WebhookProcessingResult = {
-        success: false,
-        message: `[Webhook Queue] Error processing webhook: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        error: error instanceof Error ? error : new Error('Unknown error')
-      };
-      // Update storage with failure and attempt retry
-      this.storage.updateWebhook(webhookId, result);
-      this.handleProcessingFailure(webhookId, record, result);
-    }
+    return { webhookId: record.id, duplicate: false };
   }
 
   /**
-   * Handle a webhook processing failure
+   * Replay a webhook through its processor now
+   *
+   * The webhook gets a fresh set of attempts, so if this one fails the usual
+   * retries follow. In the external worker mode it is returned to pending for
+   * the workers to pick up instead.
    * @param webhookId The webhook ID
-   * @param record The webhook record (before update from current attempt)
-   * @param result The processing result of the current attempt
+   * @returns The webhook record after the attempt (or requeued), or undefined if not found
    */
-  private handleProcessingFailure(
-    webhookId: string, 
-    record: WebhookStorageRecord, // This is the record *before* the current attempt's update
-    currentAttemptResult: WebhookProcessingResult
-  ): void {
-    // Fetch the *updated* record from storage to get the correct processingAttempts count
-    const updatedRecord = this.storage.getWebhook(webhookId);
-    if (!updatedRecord) {
-        console.error(`[Webhook Queue] Failed to retrieve updated record for ${webhookId} after failure.`);
-        return;
+  async replayWebhook(webhookId: string): Promise<WebhookStorageRecord | undefined> {
+    const record = await this.storage.requeueWebhook(webhookId);
+    if (!record) {
+      return undefined;
     }
 
-    console.warn(`[Webhook Queue] Handling failure for webhook ${webhookId}. Attempt ${updatedRecord.processingAttempts}. Message: ${currentAttemptResult.message}`);
-
-    // Check if we should retry (based on the updated record's attempt count)
-    if (updatedRecord.status === 'pending' && updatedRecord.processingAttempts < MAX_RETRY_ATTEMPTS) {
-      const retryIndex = Math.min(updatedRecord.processingAttempts -1, RETRY_INTERVALS.length - 1);
-      const retryDelay = RETRY_INTERVALS[retryIndex];
-
-      console.log(`[Webhook Queue] Scheduling retry ${updatedRecord.processingAttempts +1} for webhook ${webhookId} in ${retryDelay / 1000} seconds`);
-
-      // Clear any existing timeout
-      if (this.processingQueue.has(webhookId)) {
-        clearTimeout(this.processingQueue.get(webhookId)!);
-      }
-
-      // Schedule retry
-      const timeout = setTimeout(() => {
-        this.processWebhook(webhookId, updatedRecord.headers); // Pass stored headers for retry
-        this.processingQueue.delete(webhookId);
-      }, retryDelay);
-
-      // Store the timeout
-      this.processingQueue.set(webhookId, timeout);
-    } else {
-      console.error(`[Webhook Queue] Webhook processing failed permanently for ${webhookId} after ${updatedRecord.processingAttempts} attempts.`);
-      // The status should have been set to 'failed' by updateWebhook in WebhookStorage
+    console.info(`[Webhook Queue] Replaying webhook ${webhookId} (replay ${record.replayCount})`);
+    if (!this.worker) {
+      return record;
     }
+    await this.worker.processNow(webhookId);
+    return this.storage.getWebhook(webhookId);
   }
 
   /**
    * Get all webhook records from storage
    * @returns All webhook records
    */
-  getAllWebhooks(): WebhookStorageRecord[] {
+  getAllWebhooks(): Promise<WebhookStorageRecord[]> {
     return this.storage.getAllWebhooks();
   }
 
@@ -205,7 +180,7 @@ export class WebhookQueue {
    * @param id The webhook ID
    * @returns The webhook record
    */
-  getWebhook(id: string): WebhookStorageRecord | undefined {
+  getWebhook(id: string): Promise<WebhookStorageRecord | undefined> {
     return this.storage.getWebhook(id);
   }
 
@@ -214,7 +189,7 @@ export class WebhookQueue {
    * @param provider The webhook provider
    * @returns Webhook records for the provider
    */
-  getWebhooksByProvider(provider: WebhookProvider | string): WebhookStorageRecord[] {
+  getWebhooksByProvider(provider: WebhookProvider | string): Promise<WebhookStorageRecord[]> {
     const providerEnum = typeof provider === 'string' 
       ? WebhookProcessorFactory.getProcessorByName(provider) ? // Hack to get enum from name
         (provider.toLowerCase() === 'doordash' ? WebhookProvider.DOORDASH : WebhookProvider.UBER) 
@@ -1,16 +1,78 @@
-import fs from 'fs';
-import path from 'path';
-import { WebhookStorageRecord, WebhookProvider, WebhookProcessingResult } from './types';
+import {
+  WebhookStorageRecord,
+  WebhookProvider,
+  WebhookProcessingResult,
+  WebhookStorageStatus,
+} from './types';
+import { createWebhookStore, WebhookRecordFilter, WebhookStore } from './storage';
+import { getWebhookIdentity } from './dedup';
+import { getRetryDelay, getRetryPolicy, shouldRetry } from './retryPolicy';
 
 /**
- * Simple file-based webhook storage system
- * In a production environment, this would be replaced with a database
+ * Record a processing attempt's result on a webhook
+ *
+ * A failed attempt leaves the webhook pending, due after the retry delay,
+ * while its provider's retry policy allows another attempt, and marks it
+ * failed otherwise.
+ * @param webhook The webhook record, updated in place
+ * @param result The processing result
+ */
+const applyResult = (webhook: WebhookStorageRecord, result: WebhookProcessingResult): void => {
+  const policy = getRetryPolicy(webhook.provider);
+
+  webhook.processingAttempts += 1;
+  webhook.lastProcessingAttempt = new Date();
+  webhook.nextAttemptAt = undefined;
+
+  if (result.success) {
+    webhook.status = 'processed';
+    webhook.processedAt = new Date();
+  } else if (!shouldRetry(policy, webhook.processingAttempts, result)) {
+    webhook.status = 'failed';
+  } else {
+    webhook.nextAttemptAt = new Date(
+      Date.now() + getRetryDelay(policy, webhook.processingAttempts)
+    );
+  }
+
+  webhook.processingResult = result;
+  webhook.deliveryId = result.event?.deliveryId || webhook.deliveryId;
+};
+
+/**
+ * Build the record of a newly received webhook
+ * @param provider The webhook provider
+ * @param rawData The raw webhook data
+ * @param headers Optional headers for the webhook
+ * @param rawBody Optional request body exactly as received and signed
+ * @returns The pending webhook record
+ */
+const newWebhook = (
+  provider: WebhookProvider,
+  rawData: any,
+  headers?: Record<string, string>,
+  rawBody?: string
+): WebhookStorageRecord => ({
+  id: `webhook-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  provider,
+  receivedAt: new Date(),
+  processingAttempts: 0,
+  status: 'pending',
+  rawData,
+  rawBody,
+  headers,
+  ...getWebhookIdentity(provider, rawData),
+});
+
+/**
+ * Webhook storage
+ *
+ * Records every received webhook and its processing results in a durable
+ * store (see ./storage), so pending retries survive a restart.
  */
 export class WebhookStorage {
   private static instance: WebhookStorage;
-  private storagePath: string;
-  private webhooks: WebhookStorageRecord[] = [];
-  private initialized: boolean = false;
+  private store: WebhookStore;
 
   /**
    * Get the singleton instance
@@ -18,71 +80,27 @@ export class WebhookStorage {
    */
   static getInstance(): WebhookStorage {
     if (!WebhookStorage.instance) {
-      WebhookStorage.instance = new WebhookStorage();
+      WebhookStorage.instance = new WebhookStorage(createWebhookStore());
     }
     return WebhookStorage.instance;
   }
 
   /**
-   * Create a new webhook storage
-   * @param storagePath Path to store webhook data
-   */
-  private constructor(storagePath: string = path.join(process.cwd(), 'data', 'webhooks')) {
-    this.storagePath = storagePath;
-    this.init();
-  }
-
-  /**
-   * Initialize the storage
+   * Replace the singleton's store, e.g. with an in-memory store in tests
+   * @param store The store to use
+   * @returns The WebhookStorage instance
    */
-  private init(): void {
-    if (this.initialized) {
-      return;
-    }
-
-    // Create storage directory if it doesn't exist
-    if (!fs.existsSync(this.storagePath)) {
-      fs.mkdirSync(this.storagePath, { recursive: true });
-    }
-
-    // Load existing webhooks from storage
-    this.loadWebhooks();
-
-    this.initialized = true;
+  static useStore(store: WebhookStore): WebhookStorage {
+    WebhookStorage.instance = new WebhookStorage(store);
+    return WebhookStorage.instance;
   }
 
   /**
-   * Load webhooks from storage
+   * Create a new webhook storage
+   * @param store The backend to persist records in
    */
-  private loadWebhooks(): void {
-    try {
-      // Get all webhook files
-      const files = fs.readdirSync(this.storagePath);
-
-      // Load each webhook
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.storagePath, file);
-          const data = fs.readFileSync(filePath, 'utf8');
-          const webhook = JSON.parse(data) as WebhookStorageRecord;
-          
-          // Convert dates from strings back to Date objects
-          webhook.receivedAt = new Date(webhook.receivedAt);
-          if (webhook.processedAt) {
-            webhook.processedAt = new Date(webhook.processedAt);
-          }
-          if (webhook.lastProcessingAttempt) {
-            webhook.lastProcessingAttempt = new Date(webhook.lastProcessingAttempt);
-          }
-          
-          this.webhooks.push(webhook);
-        }
-      }
-
-      console.log(`Loaded ${this.webhooks.length} webhooks from storage`);
-    } catch (error) {
-      console.error('Error loading webhooks from storage:', error);
-    }
+  private constructor(store: WebhookStore) {
+    this.store = store;
   }
 
   /**
@@ -90,16 +108,7 @@ export class WebhookStorage {
    * @param webhook The webhook to save
    */
   async saveWebhook(webhook: WebhookStorageRecord): Promise<void> {
-    // Store in memory
-    this.webhooks.push(webhook);
-
-    // Save to file
-    try {
-      const filePath = path.join(this.storagePath, `${webhook.id}.json`);
-      await fs.promises.writeFile(filePath, JSON.stringify(webhook, null, 2));
-    } catch (error) {
-      console.error(`Error saving webhook ${webhook.id}:`, error);
-    }
+    await this.store.insert(webhook);
   }
 
   /**
@@ -107,16 +116,16 @@ export class WebhookStorage {
    * @param id The webhook ID
    * @returns The webhook
    */
-  getWebhook(id: string): WebhookStorageRecord | undefined {
-    return this.webhooks.find(w => w.id === id);
+  async getWebhook(id: string): Promise<WebhookStorageRecord | undefined> {
+    return this.store.get(id);
   }
 
   /**
    * Get all webhooks
    * @returns All webhooks
    */
-  getAllWebhooks(): WebhookStorageRecord[] {
-    return this.webhooks;
+  async getAllWebhooks(): Promise<WebhookStorageRecord[]> {
+    return this.store.list();
   }
 
   /**
@@ -124,8 +133,8 @@ export class WebhookStorage {
    * @param provider The webhook provider
    * @returns Webhooks for the provider
    */
-  getWebhooksByProvider(provider: WebhookProvider): WebhookStorageRecord[] {
-    return this.webhooks.filter(webhook => webhook.provider === provider);
+  async getWebhooksByProvider(provider: WebhookProvider): Promise<WebhookStorageRecord[]> {
+    return this.store.list({ provider });
   }
 
   /**
@@ -133,8 +142,17 @@ export class WebhookStorage {
    * @param status The webhook status
    * @returns Webhooks with the status
    */
-  getWebhooksByStatus(status: 'pending' | 'processed' | 'failed'): WebhookStorageRecord[] {
-    return this.webhooks.filter(webhook => webhook.status === status);
+  async getWebhooksByStatus(status: WebhookStorageStatus): Promise<WebhookStorageRecord[]> {
+    return this.store.list({ status });
+  }
+
+  /**
+   * Get the webhooks received for a delivery
+   * @param deliveryId The provider delivery ID
+   * @returns Webhooks for the delivery
+   */
+  async getWebhooksByDeliveryId(deliveryId: string): Promise<WebhookStorageRecord[]> {
+    return this.store.list({ deliveryId });
   }
 
   /**
@@ -143,19 +161,8 @@ export class WebhookStorage {
    * @returns Whether the webhook was deleted
    */
   async deleteWebhook(id: string): Promise<boolean> {
-    const index = this.webhooks.findIndex(w => w.id === id);
-    if (index === -1) {
-      return false;
-    }
-
-    // Remove from memory
-    this.webhooks.splice(index, 1);
-
-    // Delete file
     try {
-      const filePath = path.join(this.storagePath, `${id}.json`);
-      await fs.promises.unlink(filePath);
-      return true;
+      return await this.store.delete(id);
     } catch (error) {
       console.error(`Error deleting webhook ${id}:`, error);
       return false;
@@ -166,17 +173,8 @@ export class WebhookStorage {
    * Clear all webhooks
    */
   async clearAllWebhooks(): Promise<void> {
-    // Clear memory
-    this.webhooks = [];
-
-    // Delete all files
     try {
-      const files = fs.readdirSync(this.storagePath);
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          await fs.promises.unlink(path.join(this.storagePath, file));
-        }
-      }
+      await this.store.clear();
     } catch (error) {
       console.error('Error clearing webhooks:', error);
     }
@@ -187,85 +185,196 @@ export class WebhookStorage {
    * @param provider The webhook provider
    * @param rawData The raw webhook data
    * @param headers Optional headers for the webhook
+   * @param rawBody Optional request body exactly as received and signed
    * @returns The stored webhook record
    */
-  public storeWebhook(provider: WebhookProvider, rawData: any, headers?: Record<string, string>): WebhookStorageRecord {
-    const webhook: WebhookStorageRecord = {
-      id: `webhook-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-      provider,
-      receivedAt: new Date(),
-      processingAttempts: 0,
-      status: 'pending',
-      rawData,
-      headers
-    };
-
-    this.webhooks.push(webhook);
+  public async storeWebhook(
+    provider: WebhookProvider,
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<WebhookStorageRecord> {
+    const webhook = newWebhook(provider, rawData, headers, rawBody);
+    await this.store.insert(webhook);
     return webhook;
   }
 
+  /**
+   * Store a new webhook, unless it is a redelivery of one already stored
+   *
+   * The check and the insert are one step in the store, so of concurrent
+   * redeliveries, even to different instances, only one is stored.
+   * @param provider The webhook provider
+   * @param rawData The raw webhook data
+   * @param headers Optional headers for the webhook
+   * @param rawBody Optional request body exactly as received and signed
+   * @param since Webhooks received at or after this time are duplicates; none are without it
+   * @returns The stored webhook record, or the original and whether it was a duplicate
+   */
+  public async storeUnlessDuplicate(
+    provider: WebhookProvider,
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string,
+    since?: Date
+  ): Promise<{ record: WebhookStorageRecord; duplicate: boolean }> {
+    const webhook = newWebhook(provider, rawData, headers, rawBody);
+    const original = await this.store.insertUnlessDuplicate(webhook, since);
+    return original ? { record: original, duplicate: true } : { record: webhook, duplicate: false };
+  }
+
   /**
    * Update a webhook record with processing results
    * @param id The webhook ID
    * @param result The processing result
    * @returns The updated webhook record or undefined if not found
    */
-  public updateWebhook(id: string, result: WebhookProcessingResult): WebhookStorageRecord | undefined {
-    const webhook = this.webhooks.find(w => w.id === id);
+  public async updateWebhook(
+    id: string,
+    result: WebhookProcessingResult
+  ): Promise<WebhookStorageRecord | undefined> {
+    const webhook = await this.store.get(id);
     if (!webhook) {
       return undefined;
     }
 
-    webhook.processingAttempts += 1;
-    webhook.lastProcessingAttempt = new Date();
-    
-    if (result.success) {
-      webhook.status = 'processed';
-      webhook.processedAt = new Date();
-    } else if (webhook.processingAttempts >= 3) {
-      webhook.status = 'failed';
-    }
-    
-    webhook.processingResult = result;
+    applyResult(webhook, result);
+    await this.store.update(webhook);
     return webhook;
   }
 
+  /**
+   * Lease due webhooks to a worker for processing
+   * @param owner The worker ID
+   * @param leaseMs How long the lease lasts unless renewed
+   * @param limit The most webhooks to claim
+   * @param id Claim only this webhook
+   * @returns The claimed webhook records, earliest due first
+   */
+  public async claimWebhooks(
+    owner: string,
+    leaseMs: number,
+    limit: number,
+    id?: string
+  ): Promise<WebhookStorageRecord[]> {
+    return this.store.claim({ owner, leaseMs, limit, id });
+  }
+
+  /**
+   * Extend a worker's lease on a webhook
+   * @param id The webhook ID
+   * @param owner The worker ID
+   * @param leaseMs How long from now the lease lasts
+   * @returns Whether the worker still held the lease
+   */
+  public async renewLease(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    return this.store.heartbeat(id, owner, leaseMs);
+  }
+
+  /**
+   * Record the result of processing a leased webhook and release the lease
+   * @param webhook The webhook record as claimed
+   * @param owner The worker ID
+   * @param result The processing result
+   * @returns The updated webhook record, or undefined if the worker had lost the lease
+   */
+  public async ackWebhook(
+    webhook: WebhookStorageRecord,
+    owner: string,
+    result: WebhookProcessingResult
+  ): Promise<WebhookStorageRecord | undefined> {
+    const updated = { ...webhook };
+    applyResult(updated, result);
+    return (await this.store.ack(updated, owner)) ? updated : undefined;
+  }
+
   /**
    * Get all webhook records
    * @param provider Optional provider to filter by
    * @param status Optional status to filter by
    * @returns Array of webhook records
    */
-  public getWebhooks(provider?: WebhookProvider, status?: 'pending' | 'processed' | 'failed'): WebhookStorageRecord[] {
-    let result = [...this.webhooks];
-    
-    if (provider) {
-      result = result.filter(w => w.provider === provider);
+  public async getWebhooks(
+    provider?: WebhookProvider,
+    status?: WebhookStorageStatus
+  ): Promise<WebhookStorageRecord[]> {
+    return this.store.list({ provider, status });
+  }
+
+  /**
+   * Find webhooks matching a filter
+   * @param filter The filter
+   * @returns Matching webhook records, oldest first
+   */
+  public async findWebhooks(filter: WebhookRecordFilter): Promise<WebhookStorageRecord[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Annotate a webhook or correct its payload
+   *
+   * The payload as received is kept in `originalRawData` the first time it is edited.
+   * @param id The webhook ID
+   * @param changes The note (null clears it) and/or the corrected payload
+   * @returns The updated webhook record or undefined if not found
+   */
+  public async annotateWebhook(
+    id: string,
+    changes: { annotation?: string | null; rawData?: any }
+  ): Promise<WebhookStorageRecord | undefined> {
+    const webhook = await this.store.get(id);
+    if (!webhook) {
+      return undefined;
     }
-    
-    if (status) {
-      result = result.filter(w => w.status === status);
+
+    if (changes.annotation !== undefined) {
+      webhook.annotation = changes.annotation ?? undefined;
+    }
+    if (changes.rawData !== undefined) {
+      webhook.originalRawData = webhook.originalRawData ?? webhook.rawData;
+      webhook.rawData = changes.rawData;
+    }
+
+    await this.store.update(webhook);
+    return webhook;
+  }
+
+  /**
+   * Return a webhook to pending with a fresh set of processing attempts, for a replay
+   * @param id The webhook ID
+   * @returns The updated webhook record or undefined if not found
+   */
+  public async requeueWebhook(id: string): Promise<WebhookStorageRecord | undefined> {
+    const webhook = await this.store.get(id);
+    if (!webhook) {
+      return undefined;
     }
-    
-    return result;
+
+    webhook.status = 'pending';
+    webhook.processingAttempts = 0;
+    webhook.nextAttemptAt = undefined;
+    webhook.replayCount = (webhook.replayCount || 0) + 1;
+    webhook.lastReplayedAt = new Date();
+
+    await this.store.update(webhook);
+    return webhook;
   }
 
   /**
    * Get pending webhooks that need processing
-   * @param maxAttempts Maximum number of processing attempts
-   * @returns Array of pending webhook records
+   * @returns Pending webhook records with attempts left under their provider's retry policy
    */
-  public getPendingWebhooks(maxAttempts: number = 3): WebhookStorageRecord[] {
-    return this.webhooks.filter(w => 
-      w.status === 'pending' && 
-      w.processingAttempts < maxAttempts
+  public async getPendingWebhooks(): Promise<WebhookStorageRecord[]> {
+    const pending = await this.store.list({ status: 'pending' });
+    return pending.filter(
+      webhook => webhook.processingAttempts < getRetryPolicy(webhook.provider).maxAttempts
     );
   }
 
   /**
    * Clear all webhooks (for testing purposes)
    */
-  public clearWebhooks(): void {
-    this.webhooks = [];
+  public async clearWebhooks(): Promise<void> {
+    await this.store.clear();
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,270 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookProcessingResult, WebhookStorageRecord } from './types';
+import { WebhookProcessorFactory } from './WebhookProcessorFactory';
+import { WebhookStorage } from './WebhookStorage';
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_LEASE_SECONDS = 60;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Where webhooks are processed: by a worker inside the API process, or only
+ * by separate worker processes (`npm run worker`)
+ */
+export type WebhookWorkerMode = 'embedded' | 'external';
+
+/**
+ * Settings of a webhook worker
+ */
+export interface WebhookWorkerOptions {
+  workerId: string; // Identifies the worker's leases
+  concurrency: number; // Webhooks processed at once by this worker
+  leaseMs: number; // Renewed every third of this while processing
+  pollIntervalMs: number;
+}
+
+/**
+ * Read a positive number from the environment
+ * @param name The variable name
+ * @param fallback The value when the variable is unset or invalid
+ * @returns The value
+ */
+const readPositive = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Get the configured worker mode
+ *
+ * WEBHOOK_WORKER_MODE selects it; the default is embedded, so a single process
+ * both receives and processes webhooks.
+ * @returns The mode
+ */
+export const getWebhookWorkerMode = (): WebhookWorkerMode => {
+  const mode = process.env.WEBHOOK_WORKER_MODE?.toLowerCase();
+  if (!mode || mode === 'embedded') {
+    return 'embedded';
+  }
+  if (mode === 'external') {
+    return 'external';
+  }
+  throw new Error(
+    `Unsupported WEBHOOK_WORKER_MODE: ${process.env.WEBHOOK_WORKER_MODE}. Use "embedded" or "external".`
+  );
+};
+
+/**
+ * Get the configured worker settings
+ *
+ * Read from WEBHOOK_WORKER_CONCURRENCY, WEBHOOK_LEASE_SECONDS and
+ * WEBHOOK_WORKER_POLL_MS. The worker ID is unique per process.
+ * @returns The settings
+ */
+export const getWebhookWorkerOptions = (): WebhookWorkerOptions => ({
+  workerId: `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`,
+  concurrency: Math.floor(readPositive('WEBHOOK_WORKER_CONCURRENCY', DEFAULT_CONCURRENCY)),
+  leaseMs: readPositive('WEBHOOK_LEASE_SECONDS', DEFAULT_LEASE_SECONDS) * 1000,
+  pollIntervalMs: readPositive('WEBHOOK_WORKER_POLL_MS', DEFAULT_POLL_INTERVAL_MS),
+});
+
+/**
+ * Processes stored webhooks under leases
+ *
+ * The worker claims due webhooks from storage, up to its concurrency limit,
+ * renews each lease while the webhook's processor runs, and acknowledges the
+ * result, which releases the lease. A worker that dies stops renewing, so its
+ * webhooks become claimable again once their leases expire; any number of
+ * workers can share a store whose claims are atomic (see ./storage).
+ */
+export class WebhookWorker {
+  readonly options: WebhookWorkerOptions;
+  private storage: WebhookStorage;
+  private inFlight: Map<string, Promise<WebhookStorageRecord | undefined>> = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * Create a webhook worker
+   * @param storage The webhook storage; defaults to the shared instance
+   * @param options Settings overriding the configured ones
+   */
+  constructor(
+    storage: WebhookStorage = WebhookStorage.getInstance(),
+    options: Partial<WebhookWorkerOptions> = {}
+  ) {
+    this.storage = storage;
+    this.options = { ...getWebhookWorkerOptions(), ...options };
+  }
+
+  /**
+   * Start polling storage for due webhooks
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    console.info(
+      `[Webhook Worker] ${this.options.workerId} started (concurrency ${this.options.concurrency})`
+    );
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop polling and wait for the webhooks being processed to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.pollTimer);
+    await Promise.allSettled(this.inFlight.values());
+    console.info(`[Webhook Worker] ${this.options.workerId} stopped`);
+  }
+
+  /**
+   * Claim as many due webhooks as there are free slots and start processing them
+   * @returns The number of webhooks claimed
+   */
+  async poll(): Promise<number> {
+    const slots = this.options.concurrency - this.inFlight.size;
+    if (slots <= 0) {
+      return 0;
+    }
+
+    const claimed = await this.storage.claimWebhooks(
+      this.options.workerId,
+      this.options.leaseMs,
+      slots
+    );
+    for (const webhook of claimed) {
+      this.track(webhook);
+    }
+    return claimed.length;
+  }
+
+  /**
+   * Process a webhook now, if it is due and this worker has a free slot
+   *
+   * Otherwise the webhook is left for a later poll, by this or another worker.
+   * @param webhookId The webhook ID
+   * @returns The webhook record after the attempt, or undefined if it was not processed
+   */
+  async processNow(webhookId: string): Promise<WebhookStorageRecord | undefined> {
+    if (this.inFlight.size >= this.options.concurrency) {
+      return undefined;
+    }
+
+    const [webhook] = await this.storage.claimWebhooks(
+      this.options.workerId,
+      this.options.leaseMs,
+      1,
+      webhookId
+    );
+    return webhook ? this.track(webhook) : undefined;
+  }
+
+  /**
+   * Wait for the webhooks being processed to finish
+   */
+  async idle(): Promise<void> {
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  /**
+   * Schedule the next poll
+   * @param delayMs Delay before the poll
+   */
+  private schedulePoll(delayMs: number): void {
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error('[Webhook Worker] Failed to claim webhooks:', error);
+      }
+      if (this.running) {
+        this.schedulePoll(this.options.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Process a claimed webhook, counting it against the concurrency limit until done
+   * @param webhook The claimed webhook record
+   * @returns The webhook record after the attempt, or undefined if the lease was lost
+   */
+  private track(webhook: WebhookStorageRecord): Promise<WebhookStorageRecord | undefined> {
+    const processing = this.process(webhook).finally(() => this.inFlight.delete(webhook.id));
+    this.inFlight.set(webhook.id, processing);
+    return processing;
+  }
+
+  /**
+   * Process a claimed webhook under its lease and acknowledge the result
+   * @param webhook The claimed webhook record
+   * @returns The webhook record after the attempt, or undefined if the lease was lost
+   */
+  private async process(webhook: WebhookStorageRecord): Promise<WebhookStorageRecord | undefined> {
+    const { workerId, leaseMs } = this.options;
+    const heartbeat = setInterval(() => {
+      this.storage
+        .renewLease(webhook.id, workerId, leaseMs)
+        .then(held => {
+          if (!held) {
+            console.warn(`[Webhook Worker] Lost the lease on webhook ${webhook.id}`);
+          }
+        })
+        .catch(error =>
+          console.error(`[Webhook Worker] Failed to renew the lease on ${webhook.id}:`, error)
+        );
+    }, leaseMs / 3);
+
+    try {
+      console.info(
+        `[Webhook Worker] Processing webhook ${webhook.id}, attempt ${webhook.processingAttempts + 1}`
+      );
+      const result = await this.runProcessor(webhook);
+      const updated = await this.storage.ackWebhook(webhook, workerId, result);
+
+      if (!updated) {
+        // Another worker claimed the webhook after the lease expired; its result stands
+        console.warn(`[Webhook Worker] Discarding result for ${webhook.id}; lease was lost`);
+      } else if (updated.status === 'processed') {
+        console.info(`[Webhook Worker] Webhook processed successfully: ${webhook.id}`);
+      } else if (updated.status === 'pending') {
+        console.warn(
+          `[Webhook Worker] Webhook ${webhook.id} failed (${result.message}); retrying at ${updated.nextAttemptAt?.toISOString()}`
+        );
+      } else {
+        console.error(
+          `[Webhook Worker] Webhook ${webhook.id} failed permanently after ${updated.processingAttempts} attempts: ${result.message}`
+        );
+      }
+      return updated;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Run a webhook through its provider's processor
+   * @param webhook The webhook record
+   * @returns The processing result; a thrown error is returned as a failure
+   */
+  private async runProcessor(webhook: WebhookStorageRecord): Promise<WebhookProcessingResult> {
+    try {
+      const processor = WebhookProcessorFactory.getProcessor(webhook.provider);
+
+      // The webhook was authenticated on receipt by the provider's middleware. It is not
+      // verified again here: stored headers have credentials redacted, and a signature's
+      // timestamp falls outside the replay window before most retries run.
+      return await processor.processWebhook(webhook.rawData);
+    } catch (error) {
+      return {
+        success: false,
+        message: `[Webhook Worker] Error processing webhook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: error instanceof Error ? error : new Error('Unknown error'),
+      };
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getDeadLetter,
+  listDeadLetters,
+  replayDeadLetter,
+  replayDeadLetters,
+  updateDeadLetter,
+} from '../deadLetter';
+import { MemoryWebhookStore } from '../storage';
+import { WebhookProvider, WebhookStorageRecord } from '../types';
+import { WebhookQueue } from '../WebhookQueue';
+import { WebhookStorage } from '../WebhookStorage';
+
+const processWebhook = vi.fn();
+
+vi.mock('../WebhookProcessorFactory', () => ({
+  WebhookProcessorFactory: {
+    getProcessor: vi.fn(() => ({ processWebhook })),
+    getProcessorByName: vi.fn(() => ({ processWebhook })),
+  },
+}));
+
+const failed = (
+  id: string,
+  provider: WebhookProvider,
+  receivedAt: string,
+  message: string
+): WebhookStorageRecord => ({
+  id,
+  provider,
+  receivedAt: new Date(receivedAt),
+  processingAttempts: 5,
+  lastProcessingAttempt: new Date(receivedAt),
+  status: 'failed',
+  rawData: { id, status: 'pickup' },
+  processingResult: { success: false, message },
+});
+
+const query = { limit: 100 };
+
+describe('Webhook dead letters', () => {
+  let storage: WebhookStorage;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    processWebhook.mockResolvedValue({ success: true, message: 'ok' });
+    storage = WebhookStorage.useStore(new MemoryWebhookStore());
+    // The queue keeps the storage it was created with, so rebuild it per test
+    (WebhookQueue as any).instance = undefined;
+
+    await storage.saveWebhook(
+      failed('uber-1', WebhookProvider.UBER, '2026-10-19T08:00:00Z', 'Delivery not found')
+    );
+    await storage.saveWebhook(
+      failed('uber-2', WebhookProvider.UBER, '2026-10-19T10:00:00Z', 'Database timeout')
+    );
+    await storage.saveWebhook(
+      failed('dd-1', WebhookProvider.DOORDASH, '2026-10-19T09:00:00Z', 'Delivery not found')
+    );
+    await storage.saveWebhook({
+      ...failed('done-1', WebhookProvider.UBER, '2026-10-19T09:30:00Z', 'ok'),
+      status: 'processed',
+    });
+  });
+
+  it('should list failed webhooks by provider, time range and failure text', async () => {
+    const ids = async (filter: Parameters<typeof listDeadLetters>[0]) =>
+      (await listDeadLetters(filter)).map(record => record.id);
+
+    expect(await ids(query)).toEqual(['uber-1', 'dd-1', 'uber-2']);
+    expect(await ids({ ...query, provider: WebhookProvider.UBER })).toEqual(['uber-1', 'uber-2']);
+    expect(
+      await ids({
+        ...query,
+        from: new Date('2026-10-19T09:00:00Z'),
+        to: new Date('2026-10-19T10:00:00Z'),
+      })
+    ).toEqual(['dd-1']);
+    expect(await ids({ ...query, error: 'not FOUND' })).toEqual(['uber-1', 'dd-1']);
+    expect(await ids({ limit: 1 })).toEqual(['uber-1']);
+  });
+
+  it('should only expose webhooks that failed', async () => {
+    await expect(getDeadLetter('done-1')).rejects.toMatchObject({ status: 404 });
+    await expect(getDeadLetter('missing')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should keep the received payload when an operator edits it', async () => {
+    await updateDeadLetter('uber-1', { raw_data: { id: 'uber-1', status: 'dropoff' } });
+    const record = await updateDeadLetter('uber-1', {
+      annotation: 'Retry once the delivery is backfilled',
+      raw_data: { id: 'uber-1', status: 'delivered' },
+    });
+
+    expect(record.rawData).toEqual({ id: 'uber-1', status: 'delivered' });
+    expect(record.originalRawData).toEqual({ id: 'uber-1', status: 'pickup' });
+    expect(record.annotation).toBe('Retry once the delivery is backfilled');
+
+    const cleared = await updateDeadLetter('uber-1', { annotation: null });
+    expect(cleared.annotation).toBeUndefined();
+    expect(cleared.rawData).toEqual({ id: 'uber-1', status: 'delivered' });
+  });
+
+  it('should replay a webhook through its processor with the edited payload', async () => {
+    await updateDeadLetter('uber-1', { raw_data: { id: 'uber-1', status: 'dropoff' } });
+
+    const record = await replayDeadLetter('uber-1');
+
+    expect(processWebhook).toHaveBeenCalledWith({ id: 'uber-1', status: 'dropoff' });
+    expect(record).toMatchObject({ status: 'processed', processingAttempts: 1, replayCount: 1 });
+    expect(record.lastReplayedAt).toBeInstanceOf(Date);
+    await expect(replayDeadLetter('uber-1')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should replay a filtered batch oldest first, unless it is a dry run', async () => {
+    const batch = { ...query, error: 'not found' };
+
+    const dryRun = await replayDeadLetters({ ...batch, dry_run: true });
+    expect(dryRun).toMatchObject({ matched: 2, replayed: 0 });
+    expect(processWebhook).not.toHaveBeenCalled();
+
+    const result = await replayDeadLetters({ ...batch, dry_run: false });
+    expect(result.replayed).toBe(2);
+    expect(result.webhooks.map(webhook => [webhook.id, webhook.status])).toEqual([
+      ['uber-1', 'processed'],
+      ['dd-1', 'processed'],
+    ]);
+    expect((await listDeadLetters(query)).map(record => record.id)).toEqual(['uber-2']);
+  });
+
+  it('should skip batch matches that stopped being failed before their turn', async () => {
+    // Another replay processes dd-1 while uber-1 is being replayed
+    processWebhook.mockImplementationOnce(async () => {
+      await storage.updateWebhook('dd-1', { success: true, message: 'ok' });
+      return { success: true, message: 'ok' };
+    });
+
+    const result = await replayDeadLetters({ ...query, error: 'not found', dry_run: false });
+
+    expect(result).toMatchObject({ matched: 2, replayed: 1 });
+    expect(processWebhook).toHaveBeenCalledTimes(1);
+    expect(result.webhooks.map(webhook => [webhook.id, webhook.replayCount])).toEqual([
+      ['uber-1', 1],
+      ['dd-1', 0],
+    ]);
+  });
+});
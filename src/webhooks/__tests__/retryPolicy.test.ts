@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  getRetryPolicy,
+  isNonRetryableError,
+  RetryPolicy,
+} from '../retryPolicy';
+import { MemoryWebhookStore } from '../storage';
+import { WebhookProvider } from '../types';
+import { WebhookStorage } from '../WebhookStorage';
+
+class PermanentError extends Error {}
+class PermanentSubError extends PermanentError {}
+
+const failure = (error?: Error) => ({ success: false, message: 'failed', error });
+
+describe('Webhook retry policy', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should read settings per provider, falling back to the shared ones', () => {
+    process.env.WEBHOOK_RETRY_MAX_ATTEMPTS = '5';
+    process.env.WEBHOOK_RETRY_UBER_MAX_ATTEMPTS = '8';
+    process.env.WEBHOOK_RETRY_UBER_JITTER = '0';
+    process.env.WEBHOOK_RETRY_DOORDASH_BASE_DELAY_MS = 'soon';
+    process.env.WEBHOOK_RETRY_NON_RETRYABLE_ERRORS = 'TypeError, SyntaxError';
+
+    expect(getRetryPolicy(WebhookProvider.UBER)).toMatchObject({
+      maxAttempts: 8,
+      jitter: 0,
+      baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+      nonRetryableErrors: ['TypeError', 'SyntaxError'],
+    });
+    expect(getRetryPolicy(WebhookProvider.DOORDASH)).toMatchObject({
+      maxAttempts: 5,
+      jitter: DEFAULT_RETRY_POLICY.jitter,
+      baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+    });
+  });
+
+  it('should back off exponentially up to the maximum delay, with jitter', () => {
+    const policy: RetryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      baseDelayMs: 1000,
+      multiplier: 2,
+      jitter: 0.5,
+      maxDelayMs: 10_000,
+    };
+
+    expect([1, 2, 3, 4, 5].map(attempts => getRetryDelay(policy, attempts, () => 0.5))).toEqual([
+      1000, 2000, 4000, 8000, 10_000,
+    ]);
+    expect(getRetryDelay(policy, 2, () => 0)).toBe(1000);
+    expect(getRetryDelay(policy, 2, () => 1)).toBe(3000);
+  });
+
+  it('should match non-retryable errors by name or class', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, nonRetryableErrors: [PermanentError] };
+    const zodError = (() => {
+      try {
+        z.string().parse(1);
+      } catch (error) {
+        return error as Error;
+      }
+    })();
+
+    expect(isNonRetryableError(DEFAULT_RETRY_POLICY, new SyntaxError('Unexpected token'))).toBe(
+      true
+    );
+    expect(isNonRetryableError(DEFAULT_RETRY_POLICY, zodError)).toBe(true);
+    expect(isNonRetryableError(DEFAULT_RETRY_POLICY, new Error('timeout'))).toBe(false);
+    expect(isNonRetryableError(policy, new PermanentSubError())).toBe(true);
+    expect(isNonRetryableError(policy, undefined)).toBe(false);
+  });
+
+  describe('WebhookStorage', () => {
+    let storage: WebhookStorage;
+
+    beforeEach(() => {
+      storage = WebhookStorage.useStore(new MemoryWebhookStore());
+    });
+
+    it("should fail a webhook once its provider's attempts run out", async () => {
+      process.env.WEBHOOK_RETRY_UBER_MAX_ATTEMPTS = '2';
+      const uber = await storage.storeWebhook(WebhookProvider.UBER, { id: 'uber-1' });
+      const doordash = await storage.storeWebhook(WebhookProvider.DOORDASH, { event_id: 'dd-1' });
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        await storage.updateWebhook(uber.id, failure(new Error('timeout')));
+        await storage.updateWebhook(doordash.id, failure(new Error('timeout')));
+      }
+
+      expect((await storage.getWebhook(uber.id))?.status).toBe('failed');
+      expect((await storage.getWebhook(doordash.id))?.status).toBe('pending');
+      expect((await storage.getPendingWebhooks()).map(webhook => webhook.id)).toEqual([
+        doordash.id,
+      ]);
+    });
+
+    it('should fail a webhook at once on a non-retryable error', async () => {
+      const webhook = await storage.storeWebhook(WebhookProvider.DOORDASH, { event_id: 'dd-1' });
+
+      const updated = await storage.updateWebhook(
+        webhook.id,
+        failure(new SyntaxError('Unexpected token'))
+      );
+
+      expect(updated).toMatchObject({ status: 'failed', processingAttempts: 1 });
+    });
+  });
+});
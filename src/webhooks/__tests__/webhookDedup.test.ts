@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getWebhookIdentity } from '../dedup';
+import { MemoryWebhookStore } from '../storage';
+import { WebhookProvider } from '../types';
+import { WebhookQueue } from '../WebhookQueue';
+import { WebhookStorage } from '../WebhookStorage';
+
+const processWebhook = vi.fn();
+
+vi.mock('../WebhookProcessorFactory', () => ({
+  WebhookProcessorFactory: {
+    getProcessor: vi.fn(() => ({ processWebhook })),
+    getProcessorByName: vi.fn(() => ({ processWebhook })),
+  },
+}));
+
+const doordashEvent = {
+  event_id: 'evt-1',
+  event_name: 'DASHER_PICKED_UP',
+  external_delivery_id: 'set-1',
+};
+
+// Let the queue's fire-and-forget processing settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Webhook deduplication', () => {
+  let storage: WebhookStorage;
+  let queue: WebhookQueue;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    processWebhook.mockResolvedValue({ success: true, message: 'ok' });
+    storage = WebhookStorage.useStore(new MemoryWebhookStore());
+    // The queue keeps the storage it was created with, so rebuild it per test
+    (WebhookQueue as any).instance = undefined;
+    queue = WebhookQueue.getInstance();
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_DEDUP_RETENTION_HOURS;
+  });
+
+  it('should key on the provider event ID and the payload', () => {
+    const original = getWebhookIdentity(WebhookProvider.DOORDASH, doordashEvent);
+    const reordered = getWebhookIdentity(WebhookProvider.DOORDASH, {
+      external_delivery_id: 'set-1',
+      event_name: 'DASHER_PICKED_UP',
+      event_id: 'evt-1',
+    });
+    const changed = getWebhookIdentity(WebhookProvider.DOORDASH, {
+      ...doordashEvent,
+      event_name: 'DASHER_DROPPED_OFF',
+    });
+
+    expect(original.eventId).toBe('evt-1');
+    expect(reordered.dedupKey).toBe(original.dedupKey);
+    expect(changed.dedupKey).not.toBe(original.dedupKey);
+    expect(getWebhookIdentity(WebhookProvider.UBER, { id: 'uber-evt' }).eventId).toBe('uber-evt');
+  });
+
+  it('should return the original webhook for a redelivery and process it once', async () => {
+    const first = await queue.addToQueue(WebhookProvider.DOORDASH, doordashEvent);
+    await flush();
+    const second = await queue.addToQueue(WebhookProvider.DOORDASH, { ...doordashEvent });
+    await flush();
+
+    expect(first.duplicate).toBe(false);
+    expect(second).toEqual({ webhookId: first.webhookId, duplicate: true });
+    expect(processWebhook).toHaveBeenCalledTimes(1);
+    expect(await storage.getAllWebhooks()).toHaveLength(1);
+  });
+
+  it('should resolve concurrent redeliveries to one webhook', async () => {
+    const results = await Promise.all([
+      queue.addToQueue(WebhookProvider.UBER, { id: 'uber-evt', status: 'pickup' }),
+      queue.addToQueue(WebhookProvider.UBER, { id: 'uber-evt', status: 'pickup' }),
+    ]);
+    await flush();
+
+    expect(results.map(result => result.duplicate)).toEqual([false, true]);
+    expect(results[1].webhookId).toBe(results[0].webhookId);
+    expect(processWebhook).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store one of concurrent redeliveries to different instances', async () => {
+    // Each instance has its own queue over the shared store
+    const other: WebhookQueue = new (WebhookQueue as any)();
+
+    const results = await Promise.all([
+      queue.addToQueue(WebhookProvider.DOORDASH, doordashEvent),
+      other.addToQueue(WebhookProvider.DOORDASH, { ...doordashEvent }),
+    ]);
+    await flush();
+
+    expect(results.map(result => result.duplicate).sort()).toEqual([false, true]);
+    expect(results[1].webhookId).toBe(results[0].webhookId);
+    expect(await storage.getAllWebhooks()).toHaveLength(1);
+  });
+
+  it('should treat redeliveries outside the retention window as new', async () => {
+    process.env.WEBHOOK_DEDUP_RETENTION_HOURS = '0';
+
+    await queue.addToQueue(WebhookProvider.DOORDASH, doordashEvent);
+    const second = await queue.addToQueue(WebhookProvider.DOORDASH, doordashEvent);
+    await flush();
+
+    expect(second.duplicate).toBe(false);
+    expect(processWebhook).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryWebhookStore } from '../storage';
+import { WebhookProvider } from '../types';
+import { WebhookStorage } from '../WebhookStorage';
+import { WebhookWorker } from '../WebhookWorker';
+
+const processWebhook = vi.fn();
+
+vi.mock('../WebhookProcessorFactory', () => ({
+  WebhookProcessorFactory: {
+    getProcessor: vi.fn(() => ({ processWebhook })),
+  },
+}));
+
+// Processor calls that finish when the test says so
+const blockProcessing = () => {
+  const pending: Array<() => void> = [];
+  processWebhook.mockImplementation(
+    () => new Promise(resolve => pending.push(() => resolve({ success: true, message: 'ok' })))
+  );
+  return () => pending.forEach(finish => finish());
+};
+
+describe('Webhook worker', () => {
+  let storage: WebhookStorage;
+
+  const worker = (workerId: string, concurrency = 5, leaseMs = 30_000) =>
+    new WebhookWorker(storage, { workerId, concurrency, leaseMs, pollIntervalMs: 1000 });
+
+  const store = (count: number) =>
+    Promise.all(
+      Array.from({ length: count }, (_, i) =>
+        storage.storeWebhook(WebhookProvider.UBER, { id: `uber-${i}` })
+      )
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    processWebhook.mockResolvedValue({ success: true, message: 'ok' });
+    storage = WebhookStorage.useStore(new MemoryWebhookStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.WEBHOOK_RETRY_JITTER;
+  });
+
+  it("should never hand a webhook to two workers, and respect each worker's concurrency", async () => {
+    const finish = blockProcessing();
+    await store(4);
+    const first = worker('worker-a', 2);
+    const second = worker('worker-b');
+
+    expect(await first.poll()).toBe(2);
+    expect(await second.poll()).toBe(2);
+    expect(await first.poll()).toBe(0);
+
+    const processed = processWebhook.mock.calls.map(([rawData]) => rawData.id);
+    expect(new Set(processed).size).toBe(4);
+
+    finish();
+    await Promise.all([first.idle(), second.idle()]);
+    const webhooks = await storage.getAllWebhooks();
+    expect(webhooks.every(webhook => webhook.status === 'processed' && !webhook.leaseOwner)).toBe(
+      true
+    );
+  });
+
+  it('should keep a lease alive while processing runs', async () => {
+    blockProcessing();
+    await store(1);
+    const first = worker('worker-a', 1, 3000);
+
+    await first.poll();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(await worker('worker-b').poll()).toBe(0);
+  });
+
+  it('should let another worker take over a webhook whose lease expired', async () => {
+    const [webhook] = await store(1);
+    // A worker claims the webhook and dies without heartbeating
+    const [claimed] = await storage.claimWebhooks('crashed', 3000, 1);
+
+    expect(await worker('worker-b').poll()).toBe(0);
+    await vi.advanceTimersByTimeAsync(3000);
+    const takeover = worker('worker-b');
+    expect(await takeover.poll()).toBe(1);
+    await takeover.idle();
+
+    expect(await storage.ackWebhook(claimed, 'crashed', { success: false, message: 'late' })).toBe(
+      undefined
+    );
+    expect(await storage.getWebhook(webhook.id)).toMatchObject({
+      status: 'processed',
+      processingAttempts: 1,
+    });
+  });
+
+  it('should schedule a failed webhook for a retry under the retry policy', async () => {
+    process.env.WEBHOOK_RETRY_JITTER = '0';
+    processWebhook.mockRejectedValueOnce(new Error('Database timeout'));
+    const [webhook] = await store(1);
+    const retrying = worker('worker-a');
+
+    const failed = await retrying.processNow(webhook.id);
+    expect(failed).toMatchObject({ status: 'pending', processingAttempts: 1 });
+    expect(failed?.nextAttemptAt?.getTime()).toBe(Date.now() + 60_000);
+    expect(await retrying.poll()).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await retrying.poll()).toBe(1);
+    await retrying.idle();
+    expect((await storage.getWebhook(webhook.id))?.status).toBe('processed');
+  });
+
+  it('should process due webhooks when started, until stopped', async () => {
+    await store(2);
+    const polling = worker('worker-a');
+
+    polling.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await polling.stop();
+
+    expect(processWebhook).toHaveBeenCalledTimes(2);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -106,12 +106,10 @@ describe('Webhook System', () => {
       const result = await doorDashProcessor.processWebhook(mockRawData, mockHeaders);
 
       expect(doorDashProcessor.verifyWebhook).toHaveBeenCalledWith(mockRawData, mockHeaders);
-      expect(mockStorageInstance.storeWebhook).toHaveBeenCalledWith(WebhookProvider.DOORDASH, mockRawData);
-      
-      const storedWebhookId = (mockStorageInstance.storeWebhook as any).mock.results[0].value.id;
 
-      expect(mockStorageInstance.updateWebhook).toHaveBeenCalledWith(
-        storedWebhookId,
+      // The queue stores the webhook and this result; the processor does not write to storage
+      expect(mockStorageInstance.storeWebhook).not.toHaveBeenCalled();
+      expect(result).toEqual(
         expect.objectContaining({
           success: true,
           message: 'Processed delivery.status_changed event for delivery dd-del-id-789',
@@ -181,12 +179,10 @@ describe('Webhook System', () => {
       const result = await uberProcessor.processWebhook(mockRawData, mockHeaders);
 
       expect(uberProcessor.verifyWebhook).toHaveBeenCalledWith(mockRawData, mockHeaders);
-      expect(mockStorageInstance.storeWebhook).toHaveBeenCalledWith(WebhookProvider.UBER, mockRawData);
 
-      const storedWebhookId = (mockStorageInstance.storeWebhook as any).mock.results[0].value.id;
-
-      expect(mockStorageInstance.updateWebhook).toHaveBeenCalledWith(
-        storedWebhookId,
+      // The queue stores the webhook and this result; the processor does not write to storage
+      expect(mockStorageInstance.storeWebhook).not.toHaveBeenCalled();
+      expect(result).toEqual(
         expect.objectContaining({
           success: true,
           message: 'Processed delivery.status_changed event for delivery uber-del-id-789',
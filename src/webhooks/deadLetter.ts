@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import { ApiError } from '../utils/errors';
+import { WebhookProvider, WebhookStorageRecord, WebhookStorageStatus } from './types';
+import { WebhookQueue } from './WebhookQueue';
+import { WebhookStorage } from './WebhookStorage';
+
+/**
+ * Query string of GET /admin/webhooks/dead-letter
+ */
+export const deadLetterQuerySchema = z.object({
+  provider: z.nativeEnum(WebhookProvider).optional(),
+  from: z.coerce.date().optional(), // Received at or after
+  to: z.coerce.date().optional(), // Received before
+  error: z.string().min(1).optional(), // Text the failure reason contains
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type DeadLetterQuery = z.infer<typeof deadLetterQuerySchema>;
+
+/**
+ * Body of POST /admin/webhooks/dead-letter/replay
+ */
+export const deadLetterReplaySchema = deadLetterQuerySchema.extend({
+  dry_run: z.boolean().default(false), // Only report which webhooks would be replayed
+});
+
+export type DeadLetterReplayRequest = z.infer<typeof deadLetterReplaySchema>;
+
+/**
+ * Body of PATCH /admin/webhooks/dead-letter/:id
+ */
+export const deadLetterUpdateSchema = z
+  .object({
+    annotation: z.string().max(2000).nullable().optional(), // null clears the note
+    raw_data: z.record(z.unknown()).optional(), // Corrected payload to replay
+  })
+  .refine(
+    body => body.annotation !== undefined || body.raw_data !== undefined,
+    'Provide annotation and/or raw_data'
+  );
+
+export type DeadLetterUpdate = z.infer<typeof deadLetterUpdateSchema>;
+
+/**
+ * A dead-lettered webhook as listed by the admin API
+ */
+export interface DeadLetterSummary {
+  id: string;
+  provider: WebhookProvider;
+  status: WebhookStorageStatus; // After a replay, 'processed' or 'pending' if it is being retried
+  receivedAt: Date;
+  deliveryId?: string;
+  eventId?: string;
+  processingAttempts: number;
+  lastProcessingAttempt?: Date;
+  failureReason?: string; // Unless the webhook has since been processed
+  annotation?: string;
+  edited: boolean; // Whether an operator has changed the payload
+  replayCount: number;
+  lastReplayedAt?: Date;
+}
+
+/**
+ * Outcome of a batch replay
+ */
+export interface DeadLetterReplayResult {
+  matched: number;
+  replayed: number; // 0 for a dry run
+  webhooks: DeadLetterSummary[]; // As they are after the replay
+}
+
+/**
+ * Get the reason a webhook's last processing attempt failed
+ * @param record The webhook record
+ * @returns The reason
+ */
+const getFailureReason = (record: WebhookStorageRecord): string =>
+  record.processingResult?.error?.message ||
+  record.processingResult?.message ||
+  'No processing result recorded';
+
+/**
+ * Summarize a dead-lettered webhook
+ * @param record The webhook record
+ * @returns The summary
+ */
+export const toDeadLetterSummary = (record: WebhookStorageRecord): DeadLetterSummary => ({
+  id: record.id,
+  provider: record.provider,
+  status: record.status,
+  receivedAt: record.receivedAt,
+  deliveryId: record.deliveryId,
+  eventId: record.eventId,
+  processingAttempts: record.processingAttempts,
+  lastProcessingAttempt: record.lastProcessingAttempt,
+  failureReason: record.status === 'processed' ? undefined : getFailureReason(record),
+  annotation: record.annotation,
+  edited: record.originalRawData !== undefined,
+  replayCount: record.replayCount || 0,
+  lastReplayedAt: record.lastReplayedAt,
+});
+
+/**
+ * List webhooks that failed every processing attempt, oldest first
+ * @param query Provider, time range and failure text filters
+ * @returns The matching webhooks
+ */
+export const listDeadLetters = (query: DeadLetterQuery): Promise<WebhookStorageRecord[]> =>
+  WebhookStorage.getInstance().findWebhooks({
+    status: 'failed',
+    provider: query.provider,
+    receivedAfter: query.from,
+    receivedBefore: query.to,
+    messageContains: query.error,
+    limit: query.limit,
+  });
+
+/**
+ * Get a dead-lettered webhook
+ * @param id The webhook ID
+ * @returns The webhook record
+ */
+export const getDeadLetter = async (id: string): Promise<WebhookStorageRecord> => {
+  const record = await WebhookStorage.getInstance().getWebhook(id);
+  if (!record || record.status !== 'failed') {
+    throw new ApiError(404, 'dead_letter_not_found', `No failed webhook with ID ${id}`);
+  }
+  return record;
+};
+
+/**
+ * Annotate a dead-lettered webhook or correct its payload before a replay
+ * @param id The webhook ID
+ * @param update The note and/or corrected payload
+ * @returns The updated webhook record
+ */
+export const updateDeadLetter = async (
+  id: string,
+  update: DeadLetterUpdate
+): Promise<WebhookStorageRecord> => {
+  await getDeadLetter(id);
+  const record = await WebhookStorage.getInstance().annotateWebhook(id, {
+    annotation: update.annotation,
+    rawData: update.raw_data,
+  });
+  if (!record) {
+    throw new ApiError(404, 'dead_letter_not_found', `No failed webhook with ID ${id}`);
+  }
+  return record;
+};
+
+/**
+ * Replay a dead-lettered webhook through its processor
+ * @param id The webhook ID
+ * @returns The webhook record after the attempt
+ */
+export const replayDeadLetter = async (id: string): Promise<WebhookStorageRecord> => {
+  await getDeadLetter(id);
+  const record = await WebhookQueue.getInstance().replayWebhook(id);
+  if (!record) {
+    throw new ApiError(404, 'dead_letter_not_found', `No failed webhook with ID ${id}`);
+  }
+  return record;
+};
+
+/**
+ * Replay every dead-lettered webhook matching a filter
+ *
+ * Webhooks are replayed one at a time, oldest first, so events for the same
+ * delivery are applied in the order they were received. A webhook no longer
+ * failed when its turn comes is left alone and not counted as replayed.
+ * @param request The filter, and whether this is a dry run
+ * @returns The webhooks matched and their state after the replay
+ */
+export const replayDeadLetters = async (
+  request: DeadLetterReplayRequest
+): Promise<DeadLetterReplayResult> => {
+  const matches = await listDeadLetters(request);
+  if (request.dry_run) {
+    return { matched: matches.length, replayed: 0, webhooks: matches.map(toDeadLetterSummary) };
+  }
+
+  const queue = WebhookQueue.getInstance();
+  const webhooks: DeadLetterSummary[] = [];
+  let replayed = 0;
+  for (const match of matches) {
+    // Another replay may have taken it, or it may be gone, since it was listed
+    const current = await queue.getWebhook(match.id);
+    const record = current?.status === 'failed' ? await queue.replayWebhook(match.id) : undefined;
+    if (record) {
+      replayed++;
+    }
+    const latest = record || current;
+    if (latest) {
+      webhooks.push(toDeadLetterSummary(latest));
+    }
+  }
+  return { matched: matches.length, replayed, webhooks };
+};
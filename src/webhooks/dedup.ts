@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { WebhookProvider } from './types';
+
+// Redeliveries are recognized for this long after the original was received
+const DEFAULT_DEDUP_RETENTION_HOURS = 24;
+
+// Payload field holding each provider's event ID
+const EVENT_ID_FIELDS: Partial<Record<WebhookProvider, string>> = {
+  [WebhookProvider.DOORDASH]: 'event_id',
+  [WebhookProvider.UBER]: 'id',
+};
+
+/**
+ * What identifies a webhook across redeliveries
+ */
+export interface WebhookIdentity {
+  eventId?: string;
+  dedupKey: string;
+}
+
+/**
+ * Get the dedup retention window
+ *
+ * Read from WEBHOOK_DEDUP_RETENTION_HOURS; 0 disables deduplication.
+ * @returns The window in milliseconds
+ */
+export const getDedupRetentionMs = (): number => {
+  const hours = Number(process.env.WEBHOOK_DEDUP_RETENTION_HOURS);
+  const retention = Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_DEDUP_RETENTION_HOURS;
+  return retention * 60 * 60 * 1000;
+};
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal payloads hash equally
+ * @param value The value
+ * @returns The canonical JSON
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Hash a webhook payload
+ * @param rawData The webhook payload
+ * @returns The SHA-256 hex digest of the canonical payload
+ */
+export const hashPayload = (rawData: unknown): string =>
+  crypto.createHash('sha256').update(canonicalJson(rawData)).digest('hex');
+
+/**
+ * Identify a webhook for deduplication
+ *
+ * The key combines the provider's event ID with a hash of the payload, so a
+ * redelivery matches its original while a reused event ID with a different
+ * payload does not. Payloads without an event ID are keyed on the hash alone.
+ * @param provider The webhook provider
+ * @param rawData The webhook payload
+ * @returns The event ID and dedup key
+ */
+export const getWebhookIdentity = (provider: WebhookProvider, rawData: any): WebhookIdentity => {
+  const field = EVENT_ID_FIELDS[provider];
+  const rawEventId = field && rawData && typeof rawData === 'object' ? rawData[field] : undefined;
+  const eventId =
+    typeof rawEventId === 'string' || typeof rawEventId === 'number'
+      ? String(rawEventId)
+      : undefined;
+  const hash = hashPayload(rawData);
+
+  return { eventId, dedupKey: eventId ? `${eventId}:${hash}` : hash };
+};
@@ -14,7 +14,10 @@ export * from './WebhookProcessorFactory';
 
 // Export queue and storage
 export * from './WebhookQueue';
+export * from './WebhookWorker';
 export * from './WebhookStorage';
+export * from './retryPolicy';
+export * from './deadLetter';
 
 // Export test utilities
 export * from './WebhookTestUtil'; 
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { WebhookProcessingResult, WebhookProvider } from './types';
+
+/**
+ * An error class, or an error's name, that retrying will not fix
+ */
+export type NonRetryableError = string | (new (...args: never[]) => Error);
+
+/**
+ * How failed webhook processing is retried
+ *
+ * The delay after attempt n is `baseDelayMs * multiplier^(n - 1)`, randomized
+ * by up to `jitter` of itself either way and capped at `maxDelayMs`.
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Processing attempts, including the first, before the webhook fails
+  baseDelayMs: number;
+  multiplier: number;
+  jitter: number; // Fraction of the delay, 0 to 1
+  maxDelayMs: number;
+  nonRetryableErrors: NonRetryableError[]; // Fail the webhook on the first attempt
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 60 * 1000,
+  multiplier: 5,
+  jitter: 0.2,
+  maxDelayMs: 30 * 60 * 1000,
+  // Malformed payloads fail the same way every time
+  nonRetryableErrors: ['SyntaxError', 'ZodError'],
+};
+
+// Environment variable suffix of each numeric setting
+const NUMERIC_SETTINGS: Array<[Exclude<keyof RetryPolicy, 'nonRetryableErrors'>, string]> = [
+  ['maxAttempts', 'MAX_ATTEMPTS'],
+  ['baseDelayMs', 'BASE_DELAY_MS'],
+  ['multiplier', 'MULTIPLIER'],
+  ['jitter', 'JITTER'],
+  ['maxDelayMs', 'MAX_DELAY_MS'],
+];
+
+/**
+ * Read a numeric setting, preferring the provider's own variable
+ * @param provider The webhook provider
+ * @param suffix The setting's variable suffix
+ * @returns The value, or undefined if neither variable holds a valid number
+ */
+const readNumber = (provider: WebhookProvider, suffix: string): number | undefined => {
+  for (const name of [
+    `WEBHOOK_RETRY_${provider.toUpperCase()}_${suffix}`,
+    `WEBHOOK_RETRY_${suffix}`,
+  ]) {
+    const raw = process.env[name];
+    const value = Number(raw);
+    if (raw !== undefined && raw.trim() !== '' && Number.isFinite(value) && value >= 0) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Get the retry policy for a provider's webhooks
+ *
+ * Each setting is read from `WEBHOOK_RETRY_<PROVIDER>_<SETTING>`, falling back
+ * to `WEBHOOK_RETRY_<SETTING>` and then the default, e.g.
+ * WEBHOOK_RETRY_UBER_MAX_ATTEMPTS, WEBHOOK_RETRY_BASE_DELAY_MS. Non-retryable
+ * errors are a comma-separated list of error names in `..._NON_RETRYABLE_ERRORS`.
+ * @param provider The webhook provider
+ * @returns The retry policy
+ */
+export const getRetryPolicy = (provider: WebhookProvider): RetryPolicy => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, suffix] of NUMERIC_SETTINGS) {
+    policy[key] = readNumber(provider, suffix) ?? policy[key];
+  }
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  policy.jitter = Math.min(policy.jitter, 1);
+
+  const names =
+    process.env[`WEBHOOK_RETRY_${provider.toUpperCase()}_NON_RETRYABLE_ERRORS`] ??
+    process.env.WEBHOOK_RETRY_NON_RETRYABLE_ERRORS;
+  if (names !== undefined) {
+    policy.nonRetryableErrors = names
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+  }
+  return policy;
+};
+
+/**
+ * Check whether a failed attempt's error is one retrying will not fix
+ * @param policy The retry policy
+ * @param error The error the attempt failed with
+ * @returns Whether the error is non-retryable
+ */
+export const isNonRetryableError = (policy: RetryPolicy, error?: Error): boolean => {
+  if (!error) {
+    return false;
+  }
+  return policy.nonRetryableErrors.some(nonRetryable =>
+    typeof nonRetryable === 'string'
+      ? error.name === nonRetryable || error.constructor?.name === nonRetryable
+      : error instanceof nonRetryable
+  );
+};
+
+/**
+ * Decide whether a webhook should be processed again after a failed attempt
+ * @param policy The retry policy
+ * @param attempts Processing attempts made so far, including the failed one
+ * @param result The failed attempt's result
+ * @returns Whether to retry
+ */
+export const shouldRetry = (
+  policy: RetryPolicy,
+  attempts: number,
+  result: WebhookProcessingResult
+): boolean => attempts < policy.maxAttempts && !isNonRetryableError(policy, result.error);
+
+/**
+ * Get the delay before the next processing attempt
+ * @param policy The retry policy
+ * @param attempts Processing attempts made so far
+ * @param random Source of randomness for the jitter, 0 to 1
+ * @returns The delay in milliseconds
+ */
+export const getRetryDelay = (
+  policy: RetryPolicy,
+  attempts: number,
+  random: () => number = Math.random
+): number => {
+  const delay = policy.baseDelayMs * Math.pow(policy.multiplier, Math.max(attempts - 1, 0));
+  const jittered = delay * (1 + policy.jitter * (random() * 2 - 1));
+  return Math.round(Math.min(jittered, policy.maxDelayMs));
+};
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { WebhookStorageRecord } from '../types';
+import { MemoryWebhookStore } from './MemoryWebhookStore';
+import { deserializeRecord, SerializedWebhookRecord, serializeRecord } from './serialization';
+import { WebhookClaimRequest } from './types';
+
+/**
+ * Webhook store writing one JSON file per record
+ *
+ * Every record is written through to disk on insert and update, and the
+ * directory is indexed in memory at startup. Intended for running the service
+ * locally without a database; it reads the files of earlier versions as is.
+ * Claims are checked against the in-memory index, so only one process (the API
+ * or one worker) may use a directory.
+ */
+export class FileWebhookStore extends MemoryWebhookStore {
+  private storagePath: string;
+
+  /**
+   * Create a file-backed store
+   * @param storagePath Directory holding the webhook files
+   */
+  constructor(storagePath: string = path.join(process.cwd(), 'data', 'webhooks')) {
+    super();
+    this.storagePath = storagePath;
+
+    if (!fs.existsSync(this.storagePath)) {
+      fs.mkdirSync(this.storagePath, { recursive: true });
+    }
+    this.load();
+  }
+
+  /**
+   * Index every webhook file in the storage directory
+   */
+  private load(): void {
+    for (const file of fs.readdirSync(this.storagePath)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const data = fs.readFileSync(path.join(this.storagePath, file), 'utf8');
+        const record = JSON.parse(data) as SerializedWebhookRecord;
+        this.records.set(record.id, record);
+      } catch (error) {
+        console.error(`[Webhook Storage] Skipping unreadable webhook file ${file}:`, error);
+      }
+    }
+    console.info(`[Webhook Storage] Loaded ${this.records.size} webhooks from ${this.storagePath}`);
+  }
+
+  /**
+   * Write a record to its file, replacing it atomically
+   * @param record The record
+   */
+  private async write(record: WebhookStorageRecord): Promise<void> {
+    const filePath = this.filePath(record.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(serializeRecord(record), null, 2));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  private filePath(id: string): string {
+    // IDs are generated by us, but never let one escape the storage directory
+    return path.join(this.storagePath, `${path.basename(id)}.json`);
+  }
+
+  async insert(record: WebhookStorageRecord): Promise<void> {
+    await super.insert(record);
+    await this.write(record);
+  }
+
+  async update(record: WebhookStorageRecord): Promise<void> {
+    await super.update(record);
+    await this.write(record);
+  }
+
+  async claim(request: WebhookClaimRequest): Promise<WebhookStorageRecord[]> {
+    const claimed = await super.claim(request);
+    await Promise.all(claimed.map(record => this.write(record)));
+    return claimed;
+  }
+
+  async heartbeat(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    if (!(await super.heartbeat(id, owner, leaseMs))) {
+      return false;
+    }
+    await this.write(deserializeRecord(this.records.get(id)!));
+    return true;
+  }
+
+  async ack(record: WebhookStorageRecord, owner: string): Promise<boolean> {
+    if (!(await super.ack(record, owner))) {
+      return false;
+    }
+    await this.write(deserializeRecord(this.records.get(record.id)!));
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!(await super.delete(id))) {
+      return false;
+    }
+    await fs.promises.rm(this.filePath(id), { force: true });
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    const ids = Array.from(this.records.keys());
+    await super.clear();
+    await Promise.all(ids.map(id => fs.promises.rm(this.filePath(id), { force: true })));
+  }
+}
@@ -0,0 +1,118 @@
+import { WebhookStorageRecord } from '../types';
+import {
+  deserializeRecord,
+  isClaimable,
+  matchesFilter,
+  SerializedWebhookRecord,
+  serializeRecord,
+} from './serialization';
+import { WebhookClaimRequest, WebhookRecordFilter, WebhookStore } from './types';
+
+/**
+ * Webhook store kept in process memory
+ *
+ * Nothing survives a restart; this backend is for tests. Claims are atomic
+ * within the process, so leases only keep this process's workers apart.
+ */
+export class MemoryWebhookStore implements WebhookStore {
+  // Records are kept serialized so reads hand out copies, as a database would
+  protected records: Map<string, SerializedWebhookRecord> = new Map();
+
+  async insert(record: WebhookStorageRecord): Promise<void> {
+    if (this.records.has(record.id)) {
+      throw new Error(`Webhook already stored: ${record.id}`);
+    }
+    this.records.set(record.id, serializeRecord(record));
+  }
+
+  // Check and insert in one synchronous step, so concurrent redeliveries cannot interleave
+  async insertUnlessDuplicate(
+    record: WebhookStorageRecord,
+    since?: Date
+  ): Promise<WebhookStorageRecord | undefined> {
+    const original =
+      since && record.dedupKey
+        ? Array.from(this.records.values())
+            .map(deserializeRecord)
+            .filter(
+              stored =>
+                stored.provider === record.provider &&
+                stored.dedupKey === record.dedupKey &&
+                stored.receivedAt >= since
+            )
+            .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime())[0]
+        : undefined;
+    if (original) {
+      return original;
+    }
+    await this.insert(record);
+    return undefined;
+  }
+
+  async get(id: string): Promise<WebhookStorageRecord | undefined> {
+    const record = this.records.get(id);
+    return record ? deserializeRecord(record) : undefined;
+  }
+
+  async update(record: WebhookStorageRecord): Promise<void> {
+    if (!this.records.has(record.id)) {
+      throw new Error(`Webhook not found: ${record.id}`);
+    }
+    this.records.set(record.id, serializeRecord(record));
+  }
+
+  async list(filter: WebhookRecordFilter = {}): Promise<WebhookStorageRecord[]> {
+    const records = Array.from(this.records.values())
+      .map(deserializeRecord)
+      .filter(record => matchesFilter(record, filter))
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+    return records.slice(0, filter.limit ?? records.length);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+
+  // Check and lease in one synchronous step, so concurrent claims cannot interleave
+  async claim(request: WebhookClaimRequest): Promise<WebhookStorageRecord[]> {
+    const now = new Date();
+    const dueAt = (record: WebhookStorageRecord) =>
+      (record.nextAttemptAt || record.receivedAt).getTime();
+    const claimed = Array.from(this.records.values())
+      .map(deserializeRecord)
+      .filter(record => (!request.id || record.id === request.id) && isClaimable(record, now))
+      .sort((a, b) => dueAt(a) - dueAt(b))
+      .slice(0, request.limit);
+
+    for (const record of claimed) {
+      record.leaseOwner = request.owner;
+      record.leaseExpiresAt = new Date(now.getTime() + request.leaseMs);
+      this.records.set(record.id, serializeRecord(record));
+    }
+    return claimed;
+  }
+
+  async heartbeat(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const record = this.records.get(id);
+    if (!record || record.leaseOwner !== owner) {
+      return false;
+    }
+    record.leaseExpiresAt = new Date(Date.now() + leaseMs).toISOString();
+    return true;
+  }
+
+  async ack(record: WebhookStorageRecord, owner: string): Promise<boolean> {
+    if (this.records.get(record.id)?.leaseOwner !== owner) {
+      return false;
+    }
+    this.records.set(
+      record.id,
+      serializeRecord({ ...record, leaseOwner: undefined, leaseExpiresAt: undefined })
+    );
+    return true;
+  }
+}
@@ -0,0 +1,272 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase, TABLES } from '../../db/supabase';
+import { Database, Json } from '../../types/database';
+import { WebhookProvider, WebhookStorageRecord, WebhookStorageStatus } from '../types';
+import { deserializeRecord, SerializedWebhookRecord, serializeRecord } from './serialization';
+import { WebhookClaimRequest, WebhookRecordFilter, WebhookStore } from './types';
+
+type WebhookEventRow = Database['public']['Tables']['webhook_events']['Row'];
+
+// Times a webhook is inserted again after releasing a stale holder's dedup key
+const MAX_INSERT_ATTEMPTS = 3;
+
+/**
+ * Convert a record to a `webhook_events` row
+ * @param record The record
+ * @returns The row
+ */
+const toRow = (record: WebhookStorageRecord): Omit<WebhookEventRow, 'created_at'> => {
+  const data = serializeRecord(record);
+
+  return {
+    id: data.id,
+    provider: data.provider,
+    status: data.status,
+    delivery_id: data.deliveryId || null,
+    event_id: data.eventId || null,
+    dedup_key: data.dedupKey || null,
+    received_at: data.receivedAt,
+    processed_at: data.processedAt || null,
+    last_processing_attempt: data.lastProcessingAttempt || null,
+    processing_attempts: data.processingAttempts,
+    raw_data: data.rawData as Json,
+    raw_body: data.rawBody ?? null,
+    headers: (data.headers as Json) || null,
+    processing_result: (data.processingResult as unknown as Json) || null,
+    annotation: data.annotation ?? null,
+    original_raw_data: (data.originalRawData as Json) ?? null,
+    replay_count: data.replayCount || 0,
+    last_replayed_at: data.lastReplayedAt || null,
+    next_attempt_at: data.nextAttemptAt || null,
+    lease_owner: data.leaseOwner || null,
+    lease_expires_at: data.leaseExpiresAt || null,
+  };
+};
+
+/**
+ * Convert a `webhook_events` row to a record
+ * @param row The row
+ * @returns The record
+ */
+const fromRow = (row: WebhookEventRow): WebhookStorageRecord =>
+  deserializeRecord({
+    id: row.id,
+    provider: row.provider as WebhookProvider,
+    status: row.status as WebhookStorageStatus,
+    deliveryId: row.delivery_id || undefined,
+    eventId: row.event_id || undefined,
+    dedupKey: row.dedup_key || undefined,
+    receivedAt: row.received_at,
+    processedAt: row.processed_at || undefined,
+    lastProcessingAttempt: row.last_processing_attempt || undefined,
+    processingAttempts: row.processing_attempts,
+    rawData: row.raw_data,
+    rawBody: row.raw_body ?? undefined,
+    headers: (row.headers as Record<string, string> | null) || undefined,
+    processingResult:
+      (row.processing_result as unknown as SerializedWebhookRecord['processingResult']) ||
+      undefined,
+    annotation: row.annotation ?? undefined,
+    originalRawData: row.original_raw_data ?? undefined,
+    replayCount: row.replay_count || undefined,
+    lastReplayedAt: row.last_replayed_at || undefined,
+    nextAttemptAt: row.next_attempt_at || undefined,
+    leaseOwner: row.lease_owner || undefined,
+    leaseExpiresAt: row.lease_expires_at || undefined,
+  });
+
+/**
+ * Webhook store backed by the Supabase `webhook_events` table
+ *
+ * See supabase/migrations for the table and its lookup indexes. Claims go
+ * through the `claim_webhook_events` function, which leases rows with
+ * `FOR UPDATE SKIP LOCKED` so any number of workers can share the table.
+ */
+export class SupabaseWebhookStore implements WebhookStore {
+  private db: () => SupabaseClient<Database>;
+
+  /**
+   * Create a Supabase-backed store
+   * @param db Returns the Supabase client; defaults to the shared client
+   */
+  constructor(db: () => SupabaseClient<Database> = getSupabase) {
+    this.db = db;
+  }
+
+  async insert(record: WebhookStorageRecord): Promise<void> {
+    const { error } = await this.db().from(TABLES.WEBHOOK_EVENTS).insert(toRow(record));
+    if (error) {
+      throw new Error(`Failed to store webhook ${record.id}: ${error.message}`);
+    }
+  }
+
+  // The unique (provider, dedup_key) index makes the insert the check: a conflict
+  // means another webhook holds the key. One received before `since` gives the key
+  // up, conditionally so only one of several redeliveries gets it, and the insert
+  // is tried again.
+  async insertUnlessDuplicate(
+    record: WebhookStorageRecord,
+    since?: Date
+  ): Promise<WebhookStorageRecord | undefined> {
+    const row = toRow(record);
+    for (let attempt = 0; attempt < MAX_INSERT_ATTEMPTS; attempt++) {
+      const { data, error } = await this.db()
+        .from(TABLES.WEBHOOK_EVENTS)
+        .upsert(row, { onConflict: 'provider,dedup_key', ignoreDuplicates: true })
+        .select('id');
+      if (error) {
+        throw new Error(`Failed to store webhook ${record.id}: ${error.message}`);
+      }
+      if (data && data.length > 0) {
+        return undefined;
+      }
+
+      const { data: holder, error: holderError } = await this.db()
+        .from(TABLES.WEBHOOK_EVENTS)
+        .select('*')
+        .eq('provider', row.provider)
+        .eq('dedup_key', row.dedup_key!)
+        .maybeSingle();
+      if (holderError) {
+        throw new Error(`Failed to load duplicate of webhook ${record.id}: ${holderError.message}`);
+      }
+      if (holder && since && new Date(holder.received_at) >= since) {
+        return fromRow(holder);
+      }
+      if (holder) {
+        const { error: releaseError } = await this.db()
+          .from(TABLES.WEBHOOK_EVENTS)
+          .update({ dedup_key: null })
+          .eq('id', holder.id)
+          .eq('dedup_key', row.dedup_key!);
+        if (releaseError) {
+          throw new Error(
+            `Failed to release dedup key of webhook ${holder.id}: ${releaseError.message}`
+          );
+        }
+      }
+    }
+    throw new Error(`Failed to store webhook ${record.id}: its dedup key kept changing hands`);
+  }
+
+  async get(id: string): Promise<WebhookStorageRecord | undefined> {
+    const { data, error } = await this.db()
+      .from(TABLES.WEBHOOK_EVENTS)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load webhook ${id}: ${error.message}`);
+    }
+    return data ? fromRow(data) : undefined;
+  }
+
+  async update(record: WebhookStorageRecord): Promise<void> {
+    const { error } = await this.db()
+      .from(TABLES.WEBHOOK_EVENTS)
+      .update(toRow(record))
+      .eq('id', record.id);
+    if (error) {
+      throw new Error(`Failed to update webhook ${record.id}: ${error.message}`);
+    }
+  }
+
+  async list(filter: WebhookRecordFilter = {}): Promise<WebhookStorageRecord[]> {
+    let query = this.db().from(TABLES.WEBHOOK_EVENTS).select('*');
+    if (filter.provider) {
+      query = query.eq('provider', filter.provider);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.deliveryId) {
+      query = query.eq('delivery_id', filter.deliveryId);
+    }
+    if (filter.maxAttempts !== undefined) {
+      query = query.lt('processing_attempts', filter.maxAttempts);
+    }
+    if (filter.dedupKey) {
+      query = query.eq('dedup_key', filter.dedupKey);
+    }
+    if (filter.receivedAfter) {
+      query = query.gte('received_at', filter.receivedAfter.toISOString());
+    }
+    if (filter.receivedBefore) {
+      query = query.lt('received_at', filter.receivedBefore.toISOString());
+    }
+    if (filter.messageContains) {
+      // Escape LIKE wildcards so the text is matched literally
+      const text = filter.messageContains.replace(/[\\%_]/g, '\\$&');
+      query = query.ilike('processing_result->>message', `%${text}%`);
+    }
+
+    let ordered = query.order('received_at', { ascending: true });
+    if (filter.limit !== undefined) {
+      ordered = ordered.limit(filter.limit);
+    }
+    const { data, error } = await ordered;
+    if (error) {
+      throw new Error(`Failed to list webhooks: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await this.db()
+      .from(TABLES.WEBHOOK_EVENTS)
+      .delete()
+      .eq('id', id)
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to delete webhook ${id}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  }
+
+  async claim(request: WebhookClaimRequest): Promise<WebhookStorageRecord[]> {
+    const { data, error } = await this.db().rpc('claim_webhook_events', {
+      p_owner: request.owner,
+      p_lease_ms: request.leaseMs,
+      p_limit: request.limit,
+      p_id: request.id ?? null,
+    });
+    if (error) {
+      throw new Error(`Failed to claim webhooks: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  async heartbeat(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const { data, error } = await this.db()
+      .from(TABLES.WEBHOOK_EVENTS)
+      .update({ lease_expires_at: new Date(Date.now() + leaseMs).toISOString() })
+      .eq('id', id)
+      .eq('lease_owner', owner)
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to renew lease on webhook ${id}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  }
+
+  async ack(record: WebhookStorageRecord, owner: string): Promise<boolean> {
+    const { data, error } = await this.db()
+      .from(TABLES.WEBHOOK_EVENTS)
+      .update(toRow({ ...record, leaseOwner: undefined, leaseExpiresAt: undefined }))
+      .eq('id', record.id)
+      .eq('lease_owner', owner)
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to acknowledge webhook ${record.id}: ${error.message}`);
+    }
+    return !!data && data.length > 0;
+  }
+
+  async clear(): Promise<void> {
+    // PostgREST refuses unfiltered deletes, so match every row explicitly
+    const { error } = await this.db().from(TABLES.WEBHOOK_EVENTS).delete().neq('id', '');
+    if (error) {
+      throw new Error(`Failed to clear webhooks: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { copyWebhooks, FileWebhookStore, MemoryWebhookStore } from '..';
+import { WebhookStorage } from '../../WebhookStorage';
+import { WebhookEventType, WebhookProvider, WebhookStorageRecord } from '../../types';
+
+const record = (overrides: Partial<WebhookStorageRecord> = {}): WebhookStorageRecord => ({
+  id: 'webhook-1',
+  provider: WebhookProvider.DOORDASH,
+  receivedAt: new Date('2026-01-01T10:00:00Z'),
+  processingAttempts: 0,
+  status: 'pending',
+  rawData: { event_name: 'DASHER_CONFIRMED', delivery_id: 'dd-1' },
+  headers: { 'content-type': 'application/json', authorization: 'Basic secret' },
+  ...overrides,
+});
+
+describe('Webhook storage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('FileWebhookStore', () => {
+    it('should persist records across instances without credential headers', async () => {
+      const store = new FileWebhookStore(dir);
+      await store.insert(record());
+      await store.update({
+        ...record(),
+        status: 'failed',
+        processingAttempts: 3,
+        processingResult: { success: false, message: 'boom', error: new Error('boom') },
+      });
+
+      const loaded = await new FileWebhookStore(dir).get('webhook-1');
+      expect(loaded?.status).toBe('failed');
+      expect(loaded?.processingAttempts).toBe(3);
+      expect(loaded?.receivedAt).toEqual(new Date('2026-01-01T10:00:00Z'));
+      expect(loaded?.processingResult?.error).toBeInstanceOf(Error);
+      expect(loaded?.processingResult?.error?.message).toBe('boom');
+      expect(loaded?.headers).toEqual({ 'content-type': 'application/json' });
+    });
+
+    it('should read files written by earlier versions', async () => {
+      fs.writeFileSync(
+        path.join(dir, 'webhook-legacy.json'),
+        JSON.stringify({ ...record({ id: 'webhook-legacy' }), headers: undefined })
+      );
+      fs.writeFileSync(path.join(dir, 'broken.json'), '{not json');
+
+      const store = new FileWebhookStore(dir);
+      expect((await store.list()).map(r => r.id)).toEqual(['webhook-legacy']);
+    });
+  });
+
+  describe('MemoryWebhookStore', () => {
+    it('should filter oldest first and hand out copies', async () => {
+      const store = new MemoryWebhookStore();
+      await store.insert(record({ id: 'b', receivedAt: new Date('2026-01-02T00:00:00Z') }));
+      await store.insert(record({ id: 'a', deliveryId: 'dd-1' }));
+      await store.insert(
+        record({ id: 'c', provider: WebhookProvider.UBER, processingAttempts: 3 })
+      );
+
+      expect((await store.list()).map(r => r.id)).toEqual(['a', 'c', 'b']);
+      expect((await store.list({ provider: WebhookProvider.UBER })).map(r => r.id)).toEqual(['c']);
+      expect((await store.list({ deliveryId: 'dd-1' })).map(r => r.id)).toEqual(['a']);
+      expect((await store.list({ maxAttempts: 3 })).map(r => r.id)).toEqual(['a', 'b']);
+
+      const copy = await store.get('a');
+      copy!.status = 'processed';
+      expect((await store.get('a'))?.status).toBe('pending');
+      await expect(store.insert(record({ id: 'a' }))).rejects.toThrow('already stored');
+    });
+  });
+
+  describe('copyWebhooks', () => {
+    it('should copy file records once and skip those already migrated', async () => {
+      const source = new FileWebhookStore(dir);
+      await source.insert(record({ id: 'one' }));
+      await source.insert(record({ id: 'two' }));
+      const target = new MemoryWebhookStore();
+      await target.insert(record({ id: 'two', status: 'processed' }));
+
+      expect(await copyWebhooks(source, target)).toEqual({ copied: 1, skipped: 1 });
+      expect((await target.get('two'))?.status).toBe('processed');
+      expect(await copyWebhooks(source, target)).toEqual({ copied: 0, skipped: 2 });
+    });
+  });
+
+  describe('WebhookStorage', () => {
+    it('should persist processing results and index them by delivery', async () => {
+      const storage = WebhookStorage.useStore(new FileWebhookStore(dir));
+      const webhook = await storage.storeWebhook(WebhookProvider.DOORDASH, { delivery_id: 'dd-1' });
+
+      await storage.updateWebhook(webhook.id, { success: false, message: 'timeout' });
+      expect(await storage.getPendingWebhooks()).toHaveLength(1);
+
+      await storage.updateWebhook(webhook.id, {
+        success: true,
+        message: 'ok',
+        event: {
+          id: 'event-1',
+          provider: WebhookProvider.DOORDASH,
+          eventType: WebhookEventType.DELIVERY_STATUS_CHANGED,
+          timestamp: new Date(),
+          deliveryId: 'dd-1',
+          rawData: {},
+        },
+      });
+
+      // A fresh store reads the results back from disk, as after a restart
+      const restarted = WebhookStorage.useStore(new FileWebhookStore(dir));
+      const [stored] = await restarted.getWebhooksByDeliveryId('dd-1');
+      expect(stored.id).toBe(webhook.id);
+      expect(stored.status).toBe('processed');
+      expect(stored.processingAttempts).toBe(2);
+      expect(await restarted.getPendingWebhooks()).toHaveLength(0);
+    });
+  });
+});
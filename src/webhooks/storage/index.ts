@@ -0,0 +1,63 @@
+import path from 'path';
+import { getDbDriver } from '../../db';
+import { FileWebhookStore } from './FileWebhookStore';
+import { MemoryWebhookStore } from './MemoryWebhookStore';
+import { SupabaseWebhookStore } from './SupabaseWebhookStore';
+import { WebhookStore } from './types';
+
+export * from './types';
+export { FileWebhookStore } from './FileWebhookStore';
+export { MemoryWebhookStore } from './MemoryWebhookStore';
+export { SupabaseWebhookStore } from './SupabaseWebhookStore';
+export { copyWebhooks } from './migrate';
+
+/**
+ * Backends webhook records can be stored in
+ */
+export type WebhookStorageDriver = 'supabase' | 'file' | 'memory';
+
+/**
+ * Get the configured webhook storage driver
+ *
+ * WEBHOOK_STORAGE_DRIVER selects the driver explicitly. Without it, webhooks
+ * are stored in Supabase when that is the database driver and on disk otherwise.
+ * @returns The driver
+ */
+export const getWebhookStorageDriver = (): WebhookStorageDriver => {
+  const driver = process.env.WEBHOOK_STORAGE_DRIVER?.toLowerCase();
+  if (driver === 'supabase' || driver === 'file' || driver === 'memory') {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(
+      `Unsupported WEBHOOK_STORAGE_DRIVER: ${process.env.WEBHOOK_STORAGE_DRIVER}. Use "supabase", "file" or "memory".`
+    );
+  }
+  return getDbDriver() === 'supabase' ? 'supabase' : 'file';
+};
+
+/**
+ * Get the directory the file driver stores webhooks in
+ * @returns WEBHOOK_STORAGE_PATH, or data/webhooks under the working directory
+ */
+export const getWebhookStoragePath = (): string =>
+  process.env.WEBHOOK_STORAGE_PATH || path.join(process.cwd(), 'data', 'webhooks');
+
+/**
+ * Create a webhook store
+ * @param driver The driver to use; defaults to the configured one
+ * @returns The store
+ */
+export const createWebhookStore = (
+  driver: WebhookStorageDriver = getWebhookStorageDriver()
+): WebhookStore => {
+  switch (driver) {
+    case 'supabase':
+      return new SupabaseWebhookStore();
+    case 'file':
+      return new FileWebhookStore(getWebhookStoragePath());
+    case 'memory':
+      console.warn('[Webhook Storage] Using the in-memory store; webhooks are lost on restart');
+      return new MemoryWebhookStore();
+  }
+};
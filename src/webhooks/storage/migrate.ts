@@ -0,0 +1,36 @@
+import { WebhookStore } from './types';
+
+/**
+ * Outcome of copying webhooks between stores
+ */
+export interface WebhookCopyResult {
+  copied: number;
+  skipped: number; // Already present in the target
+}
+
+/**
+ * Copy every webhook from one store to another
+ *
+ * Records already in the target are left untouched, so the copy can be re-run
+ * safely, e.g. after it was interrupted.
+ * @param source The store to read from
+ * @param target The store to write to
+ * @returns How many records were copied and skipped
+ */
+export const copyWebhooks = async (
+  source: WebhookStore,
+  target: WebhookStore
+): Promise<WebhookCopyResult> => {
+  const result: WebhookCopyResult = { copied: 0, skipped: 0 };
+
+  for (const record of await source.list()) {
+    if (await target.get(record.id)) {
+      result.skipped += 1;
+      continue;
+    }
+    await target.insert(record);
+    result.copied += 1;
+  }
+
+  return result;
+};
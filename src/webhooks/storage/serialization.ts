@@ -0,0 +1,138 @@
+import { WebhookProcessingResult, WebhookStorageRecord } from '../types';
+import { WebhookRecordFilter } from './types';
+
+/**
+ * JSON-safe form of a webhook record, as written to files and database rows
+ */
+export type SerializedWebhookRecord = Omit<
+  WebhookStorageRecord,
+  | 'receivedAt'
+  | 'processedAt'
+  | 'lastProcessingAttempt'
+  | 'lastReplayedAt'
+  | 'nextAttemptAt'
+  | 'leaseExpiresAt'
+  | 'processingResult'
+> & {
+  receivedAt: string;
+  processedAt?: string;
+  lastProcessingAttempt?: string;
+  lastReplayedAt?: string;
+  nextAttemptAt?: string;
+  leaseExpiresAt?: string;
+  processingResult?: Omit<WebhookProcessingResult, 'error'> & { error?: { message?: string } };
+};
+
+// Credentials that only the request middleware needs; stored webhooks are not verified again
+const REDACTED_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+/**
+ * Drop credential headers before a record is persisted
+ * @param headers The request headers
+ * @returns The headers without credentials
+ */
+export const redactHeaders = (
+  headers?: Record<string, string>
+): Record<string, string> | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !REDACTED_HEADERS.includes(name.toLowerCase()))
+  );
+};
+
+/**
+ * Convert a webhook record to its JSON-safe form
+ * @param record The record
+ * @returns The serialized record
+ */
+export const serializeRecord = (record: WebhookStorageRecord): SerializedWebhookRecord => {
+  const { processingResult } = record;
+
+  return {
+    ...record,
+    headers: redactHeaders(record.headers),
+    receivedAt: record.receivedAt.toISOString(),
+    processedAt: record.processedAt?.toISOString(),
+    lastProcessingAttempt: record.lastProcessingAttempt?.toISOString(),
+    lastReplayedAt: record.lastReplayedAt?.toISOString(),
+    nextAttemptAt: record.nextAttemptAt?.toISOString(),
+    leaseExpiresAt: record.leaseExpiresAt?.toISOString(),
+    processingResult: processingResult && {
+      ...processingResult,
+      // Error instances do not survive JSON.stringify
+      error: processingResult.error ? { message: processingResult.error.message } : undefined,
+    },
+  };
+};
+
+/**
+ * Restore a webhook record from its JSON-safe form
+ *
+ * Also reads the files written by earlier versions, whose errors were
+ * serialized as empty objects.
+ * @param data The serialized record
+ * @returns The record
+ */
+export const deserializeRecord = (data: SerializedWebhookRecord): WebhookStorageRecord => {
+  const { processingResult } = data;
+
+  return {
+    ...data,
+    receivedAt: new Date(data.receivedAt),
+    processedAt: data.processedAt ? new Date(data.processedAt) : undefined,
+    lastProcessingAttempt: data.lastProcessingAttempt
+      ? new Date(data.lastProcessingAttempt)
+      : undefined,
+    lastReplayedAt: data.lastReplayedAt ? new Date(data.lastReplayedAt) : undefined,
+    nextAttemptAt: data.nextAttemptAt ? new Date(data.nextAttemptAt) : undefined,
+    leaseExpiresAt: data.leaseExpiresAt ? new Date(data.leaseExpiresAt) : undefined,
+    processingResult: processingResult && {
+      ...processingResult,
+      event: processingResult.event && {
+        ...processingResult.event,
+        timestamp: new Date(processingResult.event.timestamp),
+      },
+      error: processingResult.error
+        ? new Error(processingResult.error.message || processingResult.message)
+        : undefined,
+    },
+  };
+};
+
+/**
+ * Whether a record matches a list filter
+ * @param record The record
+ * @param filter The filter
+ * @returns Whether the record matches
+ */
+export const matchesFilter = (
+  record: WebhookStorageRecord,
+  filter: WebhookRecordFilter = {}
+): boolean =>
+  (!filter.provider || record.provider === filter.provider) &&
+  (!filter.status || record.status === filter.status) &&
+  (!filter.deliveryId || record.deliveryId === filter.deliveryId) &&
+  (filter.maxAttempts === undefined || record.processingAttempts < filter.maxAttempts) &&
+  (!filter.dedupKey || record.dedupKey === filter.dedupKey) &&
+  (!filter.receivedAfter || record.receivedAt.getTime() >= filter.receivedAfter.getTime()) &&
+  (!filter.receivedBefore || record.receivedAt.getTime() < filter.receivedBefore.getTime()) &&
+  (!filter.messageContains ||
+    (record.processingResult?.message || '')
+      .toLowerCase()
+      .includes(filter.messageContains.toLowerCase()));
+
+/**
+ * Whether a record can be claimed for processing
+ *
+ * It must be pending, due, and not leased to a worker, or leased on a lease
+ * that has expired because its worker stopped heartbeating.
+ * @param record The record
+ * @param now The current time
+ * @returns Whether the record is claimable
+ */
+export const isClaimable = (record: WebhookStorageRecord, now: Date): boolean =>
+  record.status === 'pending' &&
+  (!record.nextAttemptAt || record.nextAttemptAt.getTime() <= now.getTime()) &&
+  (!record.leaseExpiresAt || record.leaseExpiresAt.getTime() <= now.getTime());
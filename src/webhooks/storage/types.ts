@@ -0,0 +1,57 @@
+import { WebhookProvider, WebhookStorageRecord, WebhookStorageStatus } from '../types';
+
+/**
+ * Filter for listing stored webhooks; every field narrows the result
+ */
+export interface WebhookRecordFilter {
+  provider?: WebhookProvider;
+  status?: WebhookStorageStatus;
+  deliveryId?: string;
+  maxAttempts?: number; // Only records with fewer processing attempts than this
+  dedupKey?: string;
+  receivedAfter?: Date; // Inclusive
+  receivedBefore?: Date; // Exclusive
+  messageContains?: string; // Case-insensitive match on the last processing result's message
+  limit?: number; // Return at most this many records, oldest first
+}
+
+/**
+ * Request to lease pending webhooks to a worker
+ */
+export interface WebhookClaimRequest {
+  owner: string; // Worker ID
+  leaseMs: number;
+  limit: number;
+  id?: string; // Claim only this webhook
+}
+
+/**
+ * Persistence backend for webhook records
+ *
+ * Records are returned oldest first. Implementations must return copies, so a
+ * record is only changed in storage through `update` or `ack`.
+ *
+ * `insertUnlessDuplicate` stores a record unless a webhook with the same
+ * provider and dedup key was received at or after `since`, and returns that
+ * webhook instead. It must check and insert atomically, so of concurrent
+ * redeliveries only one is stored. Without `since` nothing is a duplicate.
+ *
+ * Workers lease webhooks to process them: `claim` must never hand a webhook to
+ * two workers while a lease on it is live, `heartbeat` extends a lease, and
+ * `ack` writes the outcome back only if the worker still holds the lease.
+ */
+export interface WebhookStore {
+  insert(record: WebhookStorageRecord): Promise<void>;
+  insertUnlessDuplicate(
+    record: WebhookStorageRecord,
+    since?: Date
+  ): Promise<WebhookStorageRecord | undefined>; // The original instead, if the record is a duplicate
+  get(id: string): Promise<WebhookStorageRecord | undefined>;
+  update(record: WebhookStorageRecord): Promise<void>;
+  list(filter?: WebhookRecordFilter): Promise<WebhookStorageRecord[]>;
+  delete(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+  claim(request: WebhookClaimRequest): Promise<WebhookStorageRecord[]>; // Earliest due first
+  heartbeat(id: string, owner: string, leaseMs: number): Promise<boolean>; // False if the lease was lost
+  ack(record: WebhookStorageRecord, owner: string): Promise<boolean>; // Releases the lease; false if it was lost
+}
@@ -87,14 +87,36 @@ export interface WebhookStorageRecord {
   lastProcessingAttempt?: Date;
   status: 'pending' | 'processed' | 'failed';
   rawData: any;
+  rawBody?: string; // Request body exactly as received and signed
   headers?: Record<string, string>;
   processingResult?: WebhookProcessingResult;
+  deliveryId?: string; // Provider delivery ID, known once the payload has been parsed
+  eventId?: string; // Provider event ID, when the payload carries one
+  dedupKey?: string; // Identifies redeliveries of the same event; see dedup.ts
+  annotation?: string; // Operator's note on a dead-lettered webhook
+  originalRawData?: any; // The payload as received, kept once an operator has edited rawData
+  replayCount?: number; // Times an operator has replayed the webhook
+  lastReplayedAt?: Date;
+  nextAttemptAt?: Date; // When a pending webhook is next due for processing; unset means now
+  leaseOwner?: string; // Worker holding the webhook while it processes it
+  leaseExpiresAt?: Date; // After this, another worker may claim the webhook
 }
 
+/**
+ * Processing status of a stored webhook
+ */
+export type WebhookStorageStatus = WebhookStorageRecord['status'];
+
 /**
  * Interface for webhook processor
+ *
+ * `rawBody` is the request body as received; signatures are computed over it.
  */
 export interface WebhookProcessor {
-  processWebhook(rawData: any, headers?: Record<string, string>): Promise<WebhookProcessingResult>;
-  verifyWebhook(rawData: any, headers?: Record<string, string>): Promise<boolean>;
+  processWebhook(
+    rawData: any,
+    headers?: Record<string, string>,
+    rawBody?: string
+  ): Promise<WebhookProcessingResult>;
+  verifyWebhook(rawData: any, headers?: Record<string, string>, rawBody?: string): Promise<boolean>;
 } 
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import {
+  DoorDashWebhookConfig,
+  getDoorDashWebhookConfig,
+  verifyDoorDashWebhook,
+} from '../doordash';
+import { validateDoorDashWebhook } from '../../../middleware/doordashAuth';
+
+const rawBody = '{"event_id": "evt-1", "event_type": "delivery_status_update"}';
+const now = 1_760_000_000_000;
+const timestamp = String(now / 1000);
+
+const basic = (password: string, username = '') =>
+  `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+const sign = (secret: string, sentAt = timestamp, body = rawBody) =>
+  crypto.createHmac('sha256', secret).update(`${sentAt}dev-1${body}`).digest('hex');
+
+const config = (overrides: Partial<DoorDashWebhookConfig> = {}): DoorDashWebhookConfig => ({
+  schemes: ['basic', 'hmac'],
+  passwords: ['new-password', 'old-password'],
+  signingSecrets: ['new-secret', 'old-secret'],
+  developerId: 'dev-1',
+  toleranceSeconds: 300,
+  ...overrides,
+});
+
+describe('DoorDash webhook verification', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    for (const name of [
+      'DD_WEBHOOK_AUTH_SCHEMES',
+      'DD_WEBHOOK_PASSWORD',
+      'DD_WEBHOOK_PASSWORDS',
+      'DD_WEBHOOK_SIGNING_SECRETS',
+      'DD_WEBHOOK_TOLERANCE_SECONDS',
+      'BYPASS_WEBHOOK_VERIFICATION',
+    ]) {
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('getDoorDashWebhookConfig', () => {
+    it('should enable the schemes that have credentials configured', () => {
+      expect(getDoorDashWebhookConfig().schemes).toEqual([]);
+
+      process.env.DD_WEBHOOK_PASSWORD = 'password';
+      expect(getDoorDashWebhookConfig()).toMatchObject({
+        schemes: ['basic'],
+        passwords: ['password'],
+      });
+
+      process.env.DD_WEBHOOK_PASSWORDS = 'new-password,old-password';
+      process.env.DD_WEBHOOK_SIGNING_SECRETS = 'secret';
+      expect(getDoorDashWebhookConfig()).toMatchObject({
+        schemes: ['basic', 'hmac'],
+        passwords: ['new-password', 'old-password'],
+        toleranceSeconds: 300,
+      });
+
+      process.env.DD_WEBHOOK_AUTH_SCHEMES = 'HMAC';
+      expect(getDoorDashWebhookConfig().schemes).toEqual(['hmac']);
+
+      process.env.DD_WEBHOOK_AUTH_SCHEMES = 'bearer';
+      expect(() => getDoorDashWebhookConfig()).toThrow(/bearer/);
+    });
+  });
+
+  describe('verifyDoorDashWebhook', () => {
+    it('should accept Basic Auth with any active password', () => {
+      const verify = (authorization: string, overrides?: Partial<DoorDashWebhookConfig>) =>
+        verifyDoorDashWebhook({ headers: { authorization } }, config(overrides), now);
+
+      expect(verify(basic('old-password'))).toEqual({ valid: true, scheme: 'basic' });
+      expect(verify(basic('retired-password')).valid).toBe(false);
+      expect(verify(basic('new-password', 'someone'), { username: 'doordash' }).valid).toBe(false);
+      expect(verify(basic('new-password', 'doordash'), { username: 'doordash' }).valid).toBe(true);
+    });
+
+    it('should accept a signature from any active secret within the tolerance', () => {
+      const verify = (headers: Record<string, string>) =>
+        verifyDoorDashWebhook({ headers, rawBody }, config(), now);
+
+      expect(
+        verify({
+          'x-doordash-signature': `t=${timestamp},v1=${sign('old-secret')}`,
+        })
+      ).toEqual({ valid: true, scheme: 'hmac' });
+      expect(
+        verify({
+          'x-doordash-signature': sign('new-secret'),
+          'x-doordash-timestamp': timestamp,
+        }).valid
+      ).toBe(true);
+      expect(
+        verify({
+          'x-doordash-signature': `t=${timestamp},v1=${sign('retired-secret')}`,
+        }).valid
+      ).toBe(false);
+    });
+
+    it('should reject a correctly signed webhook replayed outside the tolerance', () => {
+      const stale = String(now / 1000 - 301);
+
+      const result = verifyDoorDashWebhook(
+        {
+          headers: { 'x-doordash-signature': `t=${stale},v1=${sign('new-secret', stale)}` },
+          rawBody,
+        },
+        config(),
+        now
+      );
+
+      expect(result).toMatchObject({ valid: false, reason: expect.stringMatching(/window/) });
+    });
+
+    it('should fail closed when nothing is configured', () => {
+      const result = verifyDoorDashWebhook(
+        { headers: { authorization: basic('#H1k2g3e4n5f6f6f6') } },
+        config({ schemes: [], passwords: [], signingSecrets: [] }),
+        now
+      );
+
+      expect(result).toMatchObject({ valid: false, misconfigured: true });
+    });
+  });
+
+  describe('validateDoorDashWebhook', () => {
+    const respond = () => {
+      const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+      return res;
+    };
+
+    it('should reject requests with 500 when unconfigured and 401 when unauthenticated', () => {
+      const next = vi.fn();
+      const unconfigured = respond();
+      validateDoorDashWebhook(
+        { headers: { authorization: basic('password') } } as any,
+        unconfigured,
+        next
+      );
+
+      process.env.DD_WEBHOOK_PASSWORD = 'password';
+      const unauthenticated = respond();
+      validateDoorDashWebhook(
+        { headers: { authorization: basic('wrong') } } as any,
+        unauthenticated,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(unconfigured.status).toHaveBeenCalledWith(500);
+      expect(unauthenticated.status).toHaveBeenCalledWith(401);
+
+      validateDoorDashWebhook(
+        { headers: { authorization: basic('password') } } as any,
+        respond(),
+        next
+      );
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
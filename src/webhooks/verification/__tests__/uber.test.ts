@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import { getUberWebhookSecrets, verifyUberWebhookSignature } from '../uber';
+import { validateUberWebhook } from '../../../middleware/uberAuth';
+
+// Key order and spacing as Uber sent them, which JSON.stringify would not reproduce
+const rawBody = '{"status": "pickup", "id": "evt-1", "delivery_id": "del-1"}';
+
+const sign = (secret: string, body: string = rawBody) =>
+  crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+describe('Uber webhook authentication', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.UBER_WEBHOOK_SECRETS;
+    process.env.UBER_CLIENT_SECRET = 'client-secret';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('getUberWebhookSecrets', () => {
+    it('should prefer the configured webhook secrets over the client secret', () => {
+      expect(getUberWebhookSecrets()).toEqual(['client-secret']);
+
+      process.env.UBER_WEBHOOK_SECRETS = 'new-secret, old-secret';
+      expect(getUberWebhookSecrets()).toEqual(['new-secret', 'old-secret']);
+    });
+  });
+
+  describe('verifyUberWebhookSignature', () => {
+    it('should verify the raw body with any active secret', () => {
+      const secrets = ['new-secret', 'old-secret'];
+
+      expect(verifyUberWebhookSignature(rawBody, sign('old-secret'), secrets)).toBe(true);
+      expect(verifyUberWebhookSignature(rawBody, sign('new-secret').toUpperCase(), secrets)).toBe(
+        true
+      );
+      expect(verifyUberWebhookSignature(rawBody, sign('retired-secret'), secrets)).toBe(false);
+      expect(verifyUberWebhookSignature(rawBody, 'short', secrets)).toBe(false);
+    });
+
+    it('should reject a signature over the re-serialized body', () => {
+      const reserialized = JSON.stringify(JSON.parse(rawBody));
+
+      expect(verifyUberWebhookSignature(rawBody, sign('client-secret', reserialized))).toBe(false);
+    });
+  });
+
+  describe('validateUberWebhook', () => {
+    const respond = () => {
+      const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+      return res;
+    };
+
+    it('should accept a request signed over its raw body', () => {
+      const req: any = {
+        headers: { 'x-uber-signature': sign('client-secret') },
+        body: JSON.parse(rawBody),
+        rawBody: Buffer.from(rawBody),
+      };
+      const res = respond();
+      const next = vi.fn();
+
+      validateUberWebhook(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid signatures and requests without a captured body', () => {
+      const next = vi.fn();
+      const invalid = respond();
+      validateUberWebhook(
+        { headers: { 'x-uber-signature': sign('other') }, rawBody: Buffer.from(rawBody) } as any,
+        invalid,
+        next
+      );
+      const uncaptured = respond();
+      validateUberWebhook(
+        { headers: { 'x-uber-signature': sign('client-secret') }, body: {} } as any,
+        uncaptured,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(invalid.status).toHaveBeenCalledWith(401);
+      expect(uncaptured.status).toHaveBeenCalledWith(500);
+    });
+  });
+});
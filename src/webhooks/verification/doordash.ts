@@ -0,0 +1,215 @@
+import { matchesHmacSignature, parseSecrets, safeEqual } from '../../utils/webhookSignature';
+import { getHeader, WebhookVerificationRequest, WebhookVerificationResult } from './types';
+
+// Signed webhooks older (or newer) than this are rejected as possible replays
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Ways a DoorDash webhook can authenticate
+ *
+ * - `basic`: Basic Auth with the password set in the DoorDash Developer Portal
+ * - `hmac`: `X-DoorDash-Signature` (`t=<timestamp>,v1=<hex>` or bare hex) over
+ *   timestamp + developer ID + raw body, with `X-DoorDash-Timestamp`
+ */
+export type DoorDashAuthScheme = 'basic' | 'hmac';
+
+const SCHEMES: readonly DoorDashAuthScheme[] = ['basic', 'hmac'];
+
+/**
+ * DoorDash webhook verification settings
+ */
+export interface DoorDashWebhookConfig {
+  schemes: DoorDashAuthScheme[]; // A request is accepted if it passes any of these
+  username?: string; // Checked only when set
+  passwords: string[];
+  signingSecrets: string[];
+  developerId: string;
+  toleranceSeconds: number;
+}
+
+/**
+ * Read the DoorDash webhook verification settings from the environment
+ *
+ * DD_WEBHOOK_AUTH_SCHEMES picks the schemes (comma-separated); without it,
+ * every scheme with credentials configured is enabled. Passwords and signing
+ * secrets are comma-separated lists, so a new one can be added before the old
+ * one is retired. There are no built-in credentials: with nothing configured,
+ * every webhook is rejected.
+ * @returns The settings
+ */
+export const getDoorDashWebhookConfig = (): DoorDashWebhookConfig => {
+  const passwords = parseSecrets(
+    process.env.DD_WEBHOOK_PASSWORDS || process.env.DD_WEBHOOK_PASSWORD
+  );
+  const signingSecrets = parseSecrets(process.env.DD_WEBHOOK_SIGNING_SECRETS);
+
+  const configured = parseSecrets(process.env.DD_WEBHOOK_AUTH_SCHEMES).map(scheme =>
+    scheme.toLowerCase()
+  );
+  const unsupported = configured.filter(scheme => !SCHEMES.includes(scheme as DoorDashAuthScheme));
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Unsupported DD_WEBHOOK_AUTH_SCHEMES: ${unsupported.join(', ')}. Use "basic" and/or "hmac".`
+    );
+  }
+
+  const schemes =
+    configured.length > 0
+      ? (configured as DoorDashAuthScheme[])
+      : SCHEMES.filter(scheme => (scheme === 'basic' ? passwords : signingSecrets).length > 0);
+
+  const tolerance = Number(process.env.DD_WEBHOOK_TOLERANCE_SECONDS);
+
+  return {
+    schemes,
+    username: process.env.DD_WEBHOOK_USERNAME || undefined,
+    passwords,
+    signingSecrets,
+    developerId: process.env.DD_DEVELOPER_ID || '',
+    toleranceSeconds:
+      Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_TOLERANCE_SECONDS,
+  };
+};
+
+/**
+ * Check Basic Auth credentials
+ * @param request The request
+ * @param config The settings
+ * @returns The outcome
+ */
+const verifyBasic = (
+  request: WebhookVerificationRequest,
+  config: DoorDashWebhookConfig
+): WebhookVerificationResult => {
+  if (config.passwords.length === 0) {
+    return { valid: false, reason: 'No webhook password configured', misconfigured: true };
+  }
+
+  const authorization = getHeader(request.headers, 'authorization');
+  if (!authorization?.startsWith('Basic ')) {
+    return { valid: false, reason: 'Missing Basic Auth credentials' };
+  }
+
+  const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return { valid: false, reason: 'Invalid Basic Auth credentials' };
+  }
+  const username = decoded.slice(0, separator);
+  const password = decoded.slice(separator + 1);
+
+  // Try every password, so timing does not reveal which one matched
+  const passwordMatches = config.passwords.reduce(
+    (matched, candidate) => safeEqual(password, candidate) || matched,
+    false
+  );
+  const usernameMatches = config.username === undefined || safeEqual(username, config.username);
+
+  return passwordMatches && usernameMatches
+    ? { valid: true, scheme: 'basic' }
+    : { valid: false, reason: 'Invalid Basic Auth credentials' };
+};
+
+/**
+ * Parse a DoorDash webhook timestamp, sent in seconds or milliseconds
+ * @param value The header value
+ * @returns The time in milliseconds, or NaN if unreadable
+ */
+const parseTimestamp = (value: string): number => {
+  const timestamp = Number(value);
+  if (!Number.isFinite(timestamp)) {
+    return NaN;
+  }
+  // Seconds stay below 1e12 until the year 33658
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+};
+
+/**
+ * Check an HMAC signature and its timestamp
+ * @param request The request
+ * @param config The settings
+ * @param now The current time in milliseconds
+ * @returns The outcome
+ */
+const verifyHmac = (
+  request: WebhookVerificationRequest,
+  config: DoorDashWebhookConfig,
+  now: number
+): WebhookVerificationResult => {
+  if (config.signingSecrets.length === 0) {
+    return { valid: false, reason: 'No webhook signing secret configured', misconfigured: true };
+  }
+
+  const header = getHeader(request.headers, 'x-doordash-signature');
+  if (!header) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const signature = parts.v1 || (header.includes('=') ? undefined : header);
+  const timestamp = getHeader(request.headers, 'x-doordash-timestamp') || parts.t;
+  if (!signature || !timestamp) {
+    return { valid: false, reason: 'Missing signature or timestamp' };
+  }
+
+  const sentAt = parseTimestamp(timestamp);
+  if (Number.isNaN(sentAt) || Math.abs(now - sentAt) > config.toleranceSeconds * 1000) {
+    return { valid: false, reason: 'Timestamp outside the allowed window' };
+  }
+
+  if (request.rawBody === undefined) {
+    return { valid: false, reason: 'Raw request body unavailable', misconfigured: true };
+  }
+
+  const signed = Buffer.concat([
+    Buffer.from(`${timestamp}${config.developerId}`),
+    Buffer.isBuffer(request.rawBody) ? request.rawBody : Buffer.from(request.rawBody),
+  ]);
+  return matchesHmacSignature(signed, signature, config.signingSecrets)
+    ? { valid: true, scheme: 'hmac' }
+    : { valid: false, reason: 'Invalid signature' };
+};
+
+/**
+ * Verify a DoorDash webhook request against every enabled scheme
+ * @param request The request headers and raw body
+ * @param config The settings; read from the environment by default
+ * @param now The current time in milliseconds
+ * @returns The first scheme the request passes, or why it failed
+ */
+export const verifyDoorDashWebhook = (
+  request: WebhookVerificationRequest,
+  config: DoorDashWebhookConfig = getDoorDashWebhookConfig(),
+  now: number = Date.now()
+): WebhookVerificationResult => {
+  if (config.schemes.length === 0) {
+    return {
+      valid: false,
+      reason: 'No DoorDash webhook authentication configured',
+      misconfigured: true,
+    };
+  }
+
+  const failures: WebhookVerificationResult[] = [];
+  for (const scheme of config.schemes) {
+    const result =
+      scheme === 'basic' ? verifyBasic(request, config) : verifyHmac(request, config, now);
+    if (result.valid) {
+      return result;
+    }
+    failures.push(result);
+  }
+
+  // Report a configuration problem only if no scheme could have worked
+  const misconfigured = failures.every(failure => !failure.valid && failure.misconfigured);
+  return {
+    valid: false,
+    reason: failures.map(failure => (failure.valid ? '' : failure.reason)).join('; '),
+    misconfigured,
+  };
+};
@@ -0,0 +1,33 @@
+/**
+ * What a webhook is verified from
+ */
+export interface WebhookVerificationRequest {
+  headers: Record<string, string | string[] | undefined>; // Lower-case names, as Express gives them
+  rawBody?: string | Buffer; // The body exactly as received
+}
+
+/**
+ * Outcome of verifying a webhook
+ */
+export type WebhookVerificationResult =
+  | { valid: true; scheme: string }
+  | {
+      valid: false;
+      reason: string;
+      // True when verification cannot work as configured, rather than the request being bad
+      misconfigured?: boolean;
+    };
+
+/**
+ * Read a single header value
+ * @param headers The request headers
+ * @param name The lower-case header name
+ * @returns The first value of the header, if present
+ */
+export const getHeader = (
+  headers: WebhookVerificationRequest['headers'],
+  name: string
+): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
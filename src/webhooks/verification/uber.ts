@@ -0,0 +1,76 @@
+import { matchesHmacSignature, parseSecrets } from '../../utils/webhookSignature';
+import { getHeader, WebhookVerificationRequest, WebhookVerificationResult } from './types';
+
+// Headers Uber sends the webhook signature in; the second is used by older accounts
+export const UBER_SIGNATURE_HEADERS = ['x-uber-signature', 'x-postmates-signature'];
+
+/**
+ * Get the secrets Uber webhooks may be signed with
+ *
+ * UBER_WEBHOOK_SECRETS lists the active signing keys, comma-separated, so a
+ * rotated key can be added before the old one is removed. Without it the
+ * client secret is used, as before.
+ * @returns The active secrets
+ */
+export const getUberWebhookSecrets = (): string[] => {
+  const secrets = parseSecrets(process.env.UBER_WEBHOOK_SECRETS);
+  return secrets.length > 0 ? secrets : parseSecrets(process.env.UBER_CLIENT_SECRET);
+};
+
+/**
+ * Get the signature of an Uber webhook from its headers
+ * @param headers The request headers, with lower-case names
+ * @returns The signature, if present
+ */
+export const getUberSignature = (
+  headers: WebhookVerificationRequest['headers']
+): string | undefined => UBER_SIGNATURE_HEADERS.map(name => getHeader(headers, name)).find(Boolean);
+
+/**
+ * Verify the signature of an Uber webhook
+ *
+ * Uber signs the exact request bytes, so this must be given the raw body;
+ * re-serializing the parsed JSON changes key order and whitespace.
+ * @param rawBody The raw request body
+ * @param signature The signature header
+ * @param secrets The active secrets
+ * @returns Whether the signature is valid
+ */
+export const verifyUberWebhookSignature = (
+  rawBody: string | Buffer,
+  signature: string,
+  secrets: string[] = getUberWebhookSecrets()
+): boolean => matchesHmacSignature(rawBody, signature, secrets);
+
+/**
+ * Verify an Uber webhook request
+ * @param request The request headers and raw body
+ * @param secrets The active secrets
+ * @returns Whether the request is authentic, and why not
+ */
+export const verifyUberWebhook = (
+  request: WebhookVerificationRequest,
+  secrets: string[] = getUberWebhookSecrets()
+): WebhookVerificationResult => {
+  if (secrets.length === 0) {
+    return {
+      valid: false,
+      reason: 'Missing UBER_WEBHOOK_SECRETS or UBER_CLIENT_SECRET',
+      misconfigured: true,
+    };
+  }
+
+  const signature = getUberSignature(request.headers);
+  if (!signature) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+
+  // Uber signs the bytes it sent, so the parsed body cannot be used
+  if (request.rawBody === undefined) {
+    return { valid: false, reason: 'Raw request body unavailable', misconfigured: true };
+  }
+
+  return verifyUberWebhookSignature(request.rawBody, signature, secrets)
+    ? { valid: true, scheme: 'hmac' }
+    : { valid: false, reason: 'Invalid signature' };
+};
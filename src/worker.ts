@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import { RestaurantWebhookWorker } from './services/restaurantWebhooks';
+import { WebhookWorker } from './webhooks/WebhookWorker';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Webhook worker process
+ *
+ * Processes the webhooks the API stores, including retries, and sends due
+ * restaurant webhooks. Run any number of these next to API instances started
+ * with WEBHOOK_WORKER_MODE=external; they coordinate through leases in the
+ * webhook store, which must be shared (WEBHOOK_STORAGE_DRIVER=supabase) when
+ * there is more than one process.
+ */
+const worker = new WebhookWorker();
+const restaurantWebhookWorker = new RestaurantWebhookWorker();
+worker.start();
+restaurantWebhookWorker.start();
+
+const shutdown = (signal: string) => {
+  console.info(`[Webhook Worker] ${signal} received; finishing in-flight webhooks`);
+  Promise.all([worker.stop(), restaurantWebhookWorker.stop()])
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('[Webhook Worker] Failed to stop cleanly:', error);
+      process.exit(1);
+    });
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,21 @@
+-- Durable storage for inbound courier webhooks (see src/webhooks/storage)
+create table if not exists webhook_events (
+  id text primary key,
+  created_at timestamptz not null default now(),
+  provider text not null,
+  status text not null check (status in ('pending', 'processed', 'failed')),
+  delivery_id text,
+  received_at timestamptz not null,
+  processed_at timestamptz,
+  last_processing_attempt timestamptz,
+  processing_attempts integer not null default 0,
+  raw_data jsonb not null,
+  headers jsonb,
+  processing_result jsonb
+);
+
+create index if not exists webhook_events_provider_idx on webhook_events (provider);
+create index if not exists webhook_events_delivery_id_idx on webhook_events (delivery_id);
+-- Serves the retry queue's "pending, oldest first" scan as well as status lookups
+create index if not exists webhook_events_status_received_at_idx
+  on webhook_events (status, received_at);
@@ -0,0 +1,14 @@
+-- One row per status transition applied to a delivery (see src/services/delivery/stateMachine.ts)
+create table if not exists delivery_status_history (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  delivery_id uuid not null references deliveries (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  provider_status text,
+  source text not null check (source in ('dispatch', 'webhook', 'poll')),
+  occurred_at timestamptz not null
+);
+
+create index if not exists delivery_status_history_delivery_id_idx
+  on delivery_status_history (delivery_id, occurred_at);
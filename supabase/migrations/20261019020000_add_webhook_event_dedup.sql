@@ -0,0 +1,6 @@
+-- Redeliveries of the same provider event are detected by dedup key (see src/webhooks/dedup.ts)
+alter table webhook_events add column if not exists event_id text;
+alter table webhook_events add column if not exists dedup_key text;
+
+create index if not exists webhook_events_dedup_idx
+  on webhook_events (provider, dedup_key, received_at);
@@ -0,0 +1,3 @@
+-- The request body exactly as received and signed, kept for audit and for
+-- investigating disputed webhooks; signatures are only checked on receipt
+alter table webhook_events add column if not exists raw_body text;
@@ -0,0 +1,34 @@
+-- Callback URL each restaurant receives delivery events on (see src/services/restaurantWebhooks)
+create table if not exists restaurant_webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  restaurant_id text not null unique,
+  url text not null,
+  secret text not null,
+  active boolean not null default true
+);
+
+-- Delivery log of events sent to restaurant endpoints; the id is the event ID sent
+create table if not exists outbound_webhook_events (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  restaurant_id text not null,
+  delivery_id uuid references deliveries (id) on delete set null,
+  event_type text not null,
+  url text not null,
+  payload jsonb not null,
+  status text not null check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz,
+  last_attempt_at timestamptz,
+  last_response_status integer,
+  last_error text
+);
+
+create index if not exists outbound_webhook_events_restaurant_id_idx
+  on outbound_webhook_events (restaurant_id, created_at);
+-- Serves the scan for attempts due after a restart
+create index if not exists outbound_webhook_events_status_next_attempt_at_idx
+  on outbound_webhook_events (status, next_attempt_at);
@@ -0,0 +1,5 @@
+-- Operator notes, edits and replays of dead-lettered webhooks (see src/webhooks/deadLetter.ts)
+alter table webhook_events add column if not exists annotation text;
+alter table webhook_events add column if not exists original_raw_data jsonb;
+alter table webhook_events add column if not exists replay_count integer not null default 0;
+alter table webhook_events add column if not exists last_replayed_at timestamptz;
@@ -0,0 +1,36 @@
+-- Webhooks are processed by workers that lease them (see src/webhooks/WebhookWorker.ts)
+alter table webhook_events add column if not exists next_attempt_at timestamptz;
+alter table webhook_events add column if not exists lease_owner text;
+alter table webhook_events add column if not exists lease_expires_at timestamptz;
+
+-- Serves the workers' "pending and due" scan
+create index if not exists webhook_events_pending_due_idx
+  on webhook_events (coalesce(next_attempt_at, received_at))
+  where status = 'pending';
+
+-- Lease up to p_limit due webhooks (or only p_id) to a worker. SKIP LOCKED lets
+-- concurrent workers claim disjoint rows instead of waiting on each other.
+create or replace function claim_webhook_events(
+  p_owner text,
+  p_lease_ms integer,
+  p_limit integer,
+  p_id text default null
+)
+returns setof webhook_events
+language sql
+as $$
+  update webhook_events
+  set lease_owner = p_owner,
+      lease_expires_at = now() + p_lease_ms * interval '1 millisecond'
+  where id in (
+    select id from webhook_events
+    where status = 'pending'
+      and (p_id is null or id = p_id)
+      and (next_attempt_at is null or next_attempt_at <= now())
+      and (lease_expires_at is null or lease_expires_at <= now())
+    order by coalesce(next_attempt_at, received_at)
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+$$;
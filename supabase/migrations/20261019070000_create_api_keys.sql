@@ -0,0 +1,15 @@
+-- Restaurant-scoped keys for the /v1 API (see src/services/apiKeys). Only a
+-- SHA-256 hash of each key is stored; the prefix finds the row to compare against.
+create table if not exists api_keys (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  restaurant_id text not null,
+  name text not null,
+  prefix text not null unique,
+  key_hash text not null,
+  scopes text[] not null,
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_keys_restaurant_id_idx on api_keys (restaurant_id, created_at);
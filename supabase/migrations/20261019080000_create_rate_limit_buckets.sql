@@ -0,0 +1,71 @@
+-- Token buckets for /v1 rate limits (see src/services/rateLimits), shared by
+-- every instance of the service
+create table if not exists rate_limit_buckets (
+  id text primary key,
+  tokens double precision not null,
+  refilled_at timestamptz not null,
+  period_start date not null,
+  consumed integer not null default 0,
+  throttled integer not null default 0
+);
+
+-- Refill the buckets and take p_cost tokens from all of them, or from none if
+-- any has too few. Rows are locked in the order given, so callers must always
+-- pass buckets in the same order (key before restaurant).
+create or replace function take_rate_limit_tokens(
+  p_ids text[],
+  p_capacities double precision[],
+  p_refill_per_second double precision[],
+  p_cost integer,
+  p_now timestamptz
+)
+returns table (
+  bucket_id text,
+  bucket_tokens double precision,
+  bucket_refilled_at timestamptz,
+  bucket_period_start date,
+  bucket_consumed integer,
+  bucket_throttled integer,
+  allowed boolean
+)
+language plpgsql
+as $$
+declare
+  v_period date := (p_now at time zone 'utc')::date;
+  v_tokens double precision[] := '{}';
+  v_allowed boolean := true;
+  v_row rate_limit_buckets%rowtype;
+  i integer;
+begin
+  for i in 1 .. array_length(p_ids, 1) loop
+    insert into rate_limit_buckets (id, tokens, refilled_at, period_start)
+    values (p_ids[i], p_capacities[i], p_now, v_period)
+    on conflict (id) do nothing;
+
+    select * into v_row from rate_limit_buckets b where b.id = p_ids[i] for update;
+    v_tokens := array_append(v_tokens, least(
+      p_capacities[i],
+      v_row.tokens + greatest(0, extract(epoch from p_now - v_row.refilled_at)) * p_refill_per_second[i]
+    ));
+    if v_tokens[i] < p_cost then
+      v_allowed := false;
+    end if;
+  end loop;
+
+  for i in 1 .. array_length(p_ids, 1) loop
+    update rate_limit_buckets b
+    set tokens = case when v_allowed then v_tokens[i] - p_cost else v_tokens[i] end,
+        refilled_at = p_now,
+        consumed = case when b.period_start < v_period then 0 else b.consumed end
+          + case when v_allowed then p_cost else 0 end,
+        throttled = case when b.period_start < v_period then 0 else b.throttled end
+          + case when v_allowed then 0 else 1 end,
+        period_start = greatest(b.period_start, v_period)
+    where b.id = p_ids[i]
+    returning b.id, b.tokens, b.refilled_at, b.period_start, b.consumed, b.throttled, v_allowed
+    into bucket_id, bucket_tokens, bucket_refilled_at, bucket_period_start, bucket_consumed,
+      bucket_throttled, allowed;
+    return next;
+  end loop;
+end;
+$$;
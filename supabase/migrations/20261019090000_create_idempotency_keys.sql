@@ -0,0 +1,18 @@
+-- Responses to requests sent with an Idempotency-Key header (see
+-- src/services/idempotency), replayed when a client retries the request
+create table if not exists idempotency_keys (
+  restaurant_id text not null,
+  key text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  request_method text not null,
+  request_path text not null,
+  request_hash text not null,
+  status text not null default 'processing',
+  response_status integer,
+  response_body jsonb,
+  primary key (restaurant_id, key)
+);
+
+-- Serves the sweep of expired entries
+create index if not exists idempotency_keys_expires_at_idx on idempotency_keys (expires_at);
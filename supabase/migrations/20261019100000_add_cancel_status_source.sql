@@ -0,0 +1,4 @@
+-- Cancellations requested through POST /v1/delivery/:id/cancel are recorded with their own source
+alter table delivery_status_history drop constraint if exists delivery_status_history_source_check;
+alter table delivery_status_history add constraint delivery_status_history_source_check
+  check (source in ('dispatch', 'webhook', 'poll', 'cancel'));
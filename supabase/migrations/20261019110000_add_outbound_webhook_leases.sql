@@ -0,0 +1,30 @@
+-- Restaurant webhooks are sent by workers that lease them (see src/services/restaurantWebhooks/worker.ts)
+alter table outbound_webhook_events add column if not exists lease_owner text;
+alter table outbound_webhook_events add column if not exists lease_expires_at timestamptz;
+
+-- Lease up to p_limit due pending events (or only p_id, due or not) to a sender.
+-- SKIP LOCKED lets concurrent workers claim disjoint rows instead of waiting on each other.
+create or replace function claim_outbound_webhook_events(
+  p_owner text,
+  p_lease_ms integer,
+  p_limit integer,
+  p_id uuid default null
+)
+returns setof outbound_webhook_events
+language sql
+as $$
+  update outbound_webhook_events
+  set lease_owner = p_owner,
+      lease_expires_at = now() + p_lease_ms * interval '1 millisecond'
+  where id in (
+    select id from outbound_webhook_events
+    where status = 'pending'
+      and (p_id is null or id = p_id)
+      and (p_id is not null or coalesce(next_attempt_at, created_at) <= now())
+      and (lease_expires_at is null or lease_expires_at <= now())
+    order by coalesce(next_attempt_at, created_at)
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+$$;
@@ -0,0 +1,4 @@
+-- A request holds its Idempotency-Key only until locked_until; if it dies without
+-- storing a response, a retry takes the key over then instead of after expires_at.
+-- Existing claims get the migration time, so any left behind can be retried at once.
+alter table idempotency_keys add column if not exists locked_until timestamptz not null default now();
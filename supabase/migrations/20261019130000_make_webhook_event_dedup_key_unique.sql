@@ -0,0 +1,24 @@
+-- Each dedup key is held by one webhook, so two instances receiving the same
+-- redelivery cannot both store it: the second insert conflicts and is treated as
+-- a duplicate. A webhook gives its key up once it falls outside the dedup window
+-- (see src/webhooks/storage/SupabaseWebhookStore.ts). Before the index can be
+-- built, older duplicates already stored give up theirs to the latest.
+update webhook_events
+set dedup_key = null
+where id in (
+  select id from (
+    select id,
+      row_number() over (
+        partition by provider, dedup_key
+        order by received_at desc, id desc
+      ) as position
+    from webhook_events
+    where dedup_key is not null
+  ) ranked
+  where position > 1
+);
+
+drop index if exists webhook_events_dedup_idx;
+
+create unique index if not exists webhook_events_dedup_key_idx
+  on webhook_events (provider, dedup_key);
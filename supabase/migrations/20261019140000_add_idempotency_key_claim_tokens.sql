@@ -0,0 +1,4 @@
+-- Each claim of an Idempotency-Key gets a token, and a request stores its response
+-- or releases the key only while its token is still there. A request that finishes
+-- after a retry took its key over then leaves the retry's claim alone.
+alter table idempotency_keys add column if not exists claim_token text;